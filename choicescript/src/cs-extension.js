@@ -117,5 +117,176 @@ window.addEventListener('message', event => {
 				resource.src = message.newSrc;
 			}
 			break;
+		case 'debug-continue':
+			debugResume();
+			break;
+		case 'debug-step':
+			debugStep.kind = message.kind;
+			debugStep.depth = debugPausedScene ? sceneDepth(debugPausedScene) : 0;
+			debugResume();
+			break;
+		case 'debug-pause':
+			if (!debugPausedScene) {
+				debugPauseRequest = 'pause';
+			}
+			break;
+		case 'debug-set-breakpoints':
+			window.csDebug.breakpoints[message.scene] = message.lines;
+			break;
+		case 'debug-set-pause-on-choice':
+			window.csDebug.pauseOnChoice = message.enabled;
+			break;
+		case 'debug-evaluate':
+			try {
+				vscode.postMessage({ command: 'debug-evaluated', id: message.id, value: debugEvaluate(message.expression) });
+			} catch (e) {
+				// Drop the "[scene] line [#]: " that ChoiceScript puts in front of its error messages
+				vscode.postMessage({ command: 'debug-evaluated', id: message.id, error: String(e.message || e).replace(/^\S+ line \d+: /, '') });
+			}
+			break;
+	}
+});
+
+
+/**
+ * DEBUGGER
+ *
+ * When the game is run under the debugger, window.csDebug holds the breakpoints (0-based line numbers
+ * keyed by lower-cased scene name), whether to pause on *choice, and whether to pause before the first line.
+ *
+ * ChoiceScript runs a scene's lines in a synchronous loop, so we pause by ending the loop just before
+ * the line we're stopping at. To resume, we restart the loop at that same line.
+ */
+const debugStep = { kind: undefined, depth: 0 };
+let debugPauseRequest;
+let debugStarted = false;
+let debugPausedScene;
+let debugResumingScene;
+
+// How many *gosub and *gosub_scene calls deep the scene is
+const sceneDepth = (scene) => {
+	let depth = (scene.temps.choice_substack || []).length;
+	for (const frame of scene.stats.choice_subscene_stack || []) {
+		depth += 1 + ((frame.temps && frame.temps.choice_substack) || []).length;
+	}
+	return depth;
+};
+
+// Name a stack frame after its scene and the label it's in, like "chapter1.fight"
+const frameName = (sceneName, line) => {
+	const scene = typeof allScenes != 'undefined' ? allScenes[sceneName] : undefined;
+	let name = sceneName;
+	let labelLine = -1;
+	for (const [label, l] of Object.entries(scene ? scene.labels : {})) {
+		if (l <= line && l > labelLine) {
+			name = `${sceneName}.${label}`;
+			labelLine = l;
+		}
+	}
+	return name;
+};
+
+const stackFrames = (scene) => {
+	const frames = [{ scene: scene.name, line: scene.lineNum }];
+	for (const frame of [...(scene.temps.choice_substack || [])].reverse()) {
+		frames.push({ scene: scene.name, line: frame.lineNum });
+	}
+	for (const sceneFrame of [...(scene.stats.choice_subscene_stack || [])].reverse()) {
+		// *gosub_scene stores the line after the call
+		frames.push({ scene: sceneFrame.name, line: sceneFrame.lineNum - 1 });
+		for (const frame of [...((sceneFrame.temps && sceneFrame.temps.choice_substack) || [])].reverse()) {
+			frames.push({ scene: sceneFrame.name, line: frame.lineNum });
+		}
+	}
+	return frames.map(frame => ({ ...frame, name: frameName(frame.scene, frame.line) }));
+};
+
+// Only list variables the game's author could have created
+const debugVariables = (values, isInternal) => {
+	const variables = {};
+	for (const [name, value] of Object.entries(values)) {
+		if (['string', 'number', 'boolean'].includes(typeof value) && !isInternal(name)) {
+			variables[name] = value;
+		}
+	}
+	return variables;
+};
+
+const debugPauseReason = (scene, line) => {
+	if (debugResumingScene === scene) {
+		// Don't stop again at the line we just resumed from
+		debugResumingScene = undefined;
+		return undefined;
+	}
+	if (debugPauseRequest) {
+		return debugPauseRequest;
+	}
+	if (debugStep.kind === 'in' ||
+		(debugStep.kind === 'over' && sceneDepth(scene) <= debugStep.depth) ||
+		(debugStep.kind === 'out' && sceneDepth(scene) < debugStep.depth)) {
+		return 'step';
+	}
+	const breakpoints = window.csDebug.breakpoints[String(scene.name).toLowerCase()];
+	if (breakpoints && breakpoints.includes(scene.lineNum)) {
+		return 'breakpoint';
+	}
+	if (window.csDebug.pauseOnChoice && /^\s*\*(fake_)?choice\b/.test(line)) {
+		return 'choice';
+	}
+	return undefined;
+};
+
+const debugPause = (scene, reason) => {
+	vscode.postMessage({
+		command: 'debug-stopped',
+		reason: reason,
+		frames: stackFrames(scene),
+		stats: debugVariables(scene.stats, name => name === 'sceneName' || /^choice_/.test(name)),
+		temps: debugVariables(scene.temps, name => /^(_|choice_)/.test(name))
+	});
+	debugPausedScene = scene;
+	debugPauseRequest = undefined;
+	debugStep.kind = undefined;
+	// End the print loop. It moves on to the next line before it notices, so back up one.
+	scene.finished = true;
+	scene.skipFooter = true;
+	scene.lineNum--;
+};
+
+const debugResume = () => {
+	const scene = debugPausedScene;
+	if (!scene) {
+		return;
+	}
+	debugPausedScene = undefined;
+	debugResumingScene = scene;
+	scene.finished = false;
+	safeCall(scene, scene.printLoop);
+};
+
+const debugEvaluate = (expression) => {
+	const scene = debugPausedScene || (window.stats && window.stats.scene);
+	if (!scene) {
+		throw new Error("The game hasn't started yet");
+	}
+	return scene.evaluateExpr(scene.tokenizeExpr(expression));
+};
+
+const oldRunCommand = Scene.prototype.runCommand;
+Scene.prototype.runCommand = function(line) {
+	// Stats screens run in their own scene, which we don't stop in
+	if (window.csDebug && !this.secondaryMode) {
+		if (!debugStarted) {
+			debugStarted = true;
+			if (window.csDebug.stopOnEntry) {
+				debugPauseRequest = 'entry';
+			}
+		}
+		const reason = debugPauseReason(this, line);
+		if (reason) {
+			debugPause(this, reason);
+			return true;
+		}
 	}
-});
\ No newline at end of file
+	return oldRunCommand.call(this, line);
+};
\ No newline at end of file
@@ -1,15 +1,28 @@
 import {
     type DecorationOptions,
     DecorationRangeBehavior,
+    Diagnostic,
+    type DiagnosticCollection,
+    DiagnosticSeverity,
     type Disposable,
+    languages,
+    OverviewRulerLane,
     Range,
     type TextDocumentChangeEvent,
     type TextEditor,
     type TextEditorDecorationType,
     ThemeColor,
+    Uri,
     window,
 } from "vscode";
 
+import {
+    type SceneCoverage,
+    findUnreachedLines,
+    heatLevel,
+    lineIsRunnable,
+} from "./randomtest-coverage";
+
 const annotationDecoration: TextEditorDecorationType =
     window.createTextEditorDecorationType({
         after: {
@@ -112,3 +125,141 @@ export class LineAnnotationController implements Disposable {
         }
     }
 }
+
+// Background colors for lines, from never run to run the most
+const coverageHeatColors = [
+    "rgba(255, 64, 64, 0.18)",
+    "rgba(64, 192, 64, 0.06)",
+    "rgba(64, 192, 64, 0.12)",
+    "rgba(64, 192, 64, 0.18)",
+    "rgba(64, 192, 64, 0.26)",
+];
+
+export class CoverageAnnotationController implements Disposable {
+    private _decorationTypes: TextEditorDecorationType[];
+    private _diagnostics: DiagnosticCollection;
+    private _coverage: Map<string, SceneCoverage> = new Map();
+    private _maxCount = 0;
+    private _visibleEditorsSubscription: Disposable;
+
+    constructor() {
+        this._decorationTypes = coverageHeatColors.map((color, level) =>
+            window.createTextEditorDecorationType({
+                isWholeLine: true,
+                backgroundColor: color,
+                overviewRulerColor: level == 0 ? color : undefined,
+                overviewRulerLane: OverviewRulerLane.Left,
+            }),
+        );
+        this._diagnostics = languages.createDiagnosticCollection(
+            "choicescript-randomtest-coverage",
+        );
+        this._visibleEditorsSubscription = window.onDidChangeVisibleTextEditors(
+            (editors) => editors.forEach((editor) => this.decorate(editor)),
+        );
+    }
+
+    dispose(): void {
+        this.clear();
+        this._decorationTypes.forEach((type) => type.dispose());
+        this._diagnostics.dispose();
+        this._visibleEditorsSubscription.dispose();
+    }
+
+    /**
+     * Remove all coverage annotations.
+     */
+    clear(): void {
+        this._coverage.clear();
+        this._maxCount = 0;
+        this._diagnostics.clear();
+        window.visibleTextEditors.forEach((editor) => this.decorate(editor));
+    }
+
+    /**
+     * Show line coverage from a Randomtest run.
+     *
+     * Coverage stays visible until it's cleared or replaced by the next run.
+     *
+     * @param scenePath Path to the project's scene files.
+     * @param coverage Line coverage for each scene, keyed by scene name.
+     */
+    setCoverage(scenePath: string, coverage: Map<string, SceneCoverage>): void {
+        this.clear();
+        for (const [scene, sceneCoverage] of coverage) {
+            const uri = Uri.joinPath(Uri.file(scenePath), scene + ".txt");
+            this._coverage.set(uri.toString(), sceneCoverage);
+            this._maxCount = sceneCoverage.counts.reduce(
+                (max, count) => Math.max(max, count),
+                this._maxCount,
+            );
+            this._diagnostics.set(
+                uri,
+                findUnreachedLines(sceneCoverage).map((lines) => {
+                    const diagnostic = new Diagnostic(
+                        new Range(
+                            lines.start,
+                            0,
+                            lines.end,
+                            sceneCoverage.lines[lines.end].length,
+                        ),
+                        lines.start == lines.end
+                            ? "Randomtest never reached this line."
+                            : `Randomtest never reached lines ${lines.start + 1}-${lines.end + 1}.`,
+                        DiagnosticSeverity.Information,
+                    );
+                    diagnostic.source = "Randomtest";
+                    return diagnostic;
+                }),
+            );
+        }
+        window.visibleTextEditors.forEach((editor) => this.decorate(editor));
+    }
+
+    /**
+     * Show an editor's line coverage, if any.
+     * @param editor Editor to decorate.
+     */
+    private decorate(editor: TextEditor): void {
+        const coverage = this._coverage.get(editor.document.uri.toString());
+        const decorations: DecorationOptions[][] = this._decorationTypes.map(
+            () => [],
+        );
+        if (coverage !== undefined) {
+            coverage.lines.forEach((line, index) => {
+                if (!lineIsRunnable(line)) {
+                    return;
+                }
+                const count = coverage.counts[index];
+                decorations[
+                    heatLevel(
+                        count,
+                        this._maxCount,
+                        this._decorationTypes.length - 1,
+                    )
+                ].push({
+                    range: editor.document.validateRange(
+                        new Range(
+                            index,
+                            Number.MAX_SAFE_INTEGER,
+                            index,
+                            Number.MAX_SAFE_INTEGER,
+                        ),
+                    ),
+                    hoverMessage: `Randomtest ran this line ${count} time${count == 1 ? "" : "s"}`,
+                    renderOptions: {
+                        after: {
+                            contentText: `${count}×`,
+                            margin: "0 0 0 3em",
+                            fontStyle: "italic",
+                            color: new ThemeColor("editorCodeLens.foreground"),
+                        },
+                    },
+                });
+            });
+        }
+        this._decorationTypes.forEach((type, level) =>
+            editor.setDecorations(type, decorations[level]),
+        );
+    }
+}
@@ -1,19 +1,11 @@
 import type { integer } from "vscode-languageclient";
-import type { CsErrorHandler } from "./client";
 import type { RandomtestSettingsSource } from "./constants";
 import type { Provider } from "./logDocProvider";
+import type { SceneCoverage } from "./randomtest-coverage";
 
 export interface ChoiceScriptTestProvider {
     initializeTestProvider(): void;
     cancelTest(): void;
-    runQuicktest(
-        testScriptPath: string,
-        csPath: string,
-        scenePath: string,
-        imagePath: string,
-        csErrorHandler?: CsErrorHandler,
-        statusCallback?: (running: boolean) => void,
-    ): void;
     runRandomtest(
         testScriptPath: string,
         csPath: string,
@@ -27,5 +19,6 @@ export interface ChoiceScriptTestProvider {
         ) => void,
         statusCallback?: (running: boolean) => void,
         testCountCallback?: (count: integer) => void,
+        coverageHandler?: (coverage: Map<string, SceneCoverage>) => void,
     ): void;
 }
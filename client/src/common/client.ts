@@ -3,14 +3,23 @@ import * as vscode from "vscode";
 import type {
     LanguageClientOptions,
     BaseLanguageClient,
+    Location,
+    Position,
 } from "vscode-languageclient";
 
-import { LineAnnotationController } from "./annotations";
+import {
+    CoverageAnnotationController,
+    LineAnnotationController,
+} from "./annotations";
 import {
     AllowUnsafeScriptOption,
     Configuration,
     CustomCommands,
+    CustomContext,
     CustomMessages,
+    CustomRequests,
+    DebuggerType,
+    type DiagnosticSeverityOption,
     RandomtestSettingsSource,
     RelativePaths,
 } from "./constants";
@@ -22,16 +31,48 @@ import { StatusBarItems } from "./status-bar-items";
 import { registerRequestHandlers } from "./request-handler";
 import type { ChoiceScriptTestProvider } from "./choicescript-test-service";
 import { ChoiceScriptCompiler } from "./choicescript-compiler";
-import { GameWebViewManager } from "./game-web-view";
+import { type GameDebugOptions, GameDebugSession } from "./game-debugger";
+import { type GameDebugListener, GameWebViewManager } from "./game-web-view";
+import { type FlowGraph, FlowGraphViewManager } from "./flow-graph-view";
+import { completeCoverage } from "./randomtest-coverage";
 import {
     type IWorkspaceProvider,
     WorkspaceProviderImpl,
 } from "./interfaces/vscode-workspace-provider";
 
-let sceneFilesPath: string;
-let imageFilesPath: string;
+/**
+ * Server summary of a Quicktest run.
+ */
+interface QuicktestResults {
+    sceneCount: number;
+    errorCount: number;
+    warningCount: number;
+}
+
+/**
+ * Server message about an updated image path in a project.
+ */
+interface UpdatedImageFilesPath {
+    /**
+     * Path to the project's scene files.
+     */
+    scenePath: string;
+    /**
+     * Path to the project's image files.
+     */
+    imagePath: string;
+}
+
+// Image files path (if known) for each project, keyed by its scene files path
+const projectPaths: Map<string, string | undefined> = new Map();
+// Scene files path of the project that was last tested or run
+let sceneFilesPath: string | undefined;
 let annotationController: LineAnnotationController;
+let coverageController: CoverageAnnotationController;
 let gameWebViewManager: GameWebViewManager;
+let flowGraphViewManager: FlowGraphViewManager;
+// URI of a document in the project whose flow graph was last shown
+let flowGraphDocumentUri: string | undefined;
 let csCompiler: ChoiceScriptCompiler;
 let workspaceProvider: IWorkspaceProvider;
 
@@ -78,6 +119,104 @@ function annotateCSError(scene: string, line: number, message: string): void {
     });
 }
 
+/**
+ * Choose the ChoiceScript project to act on.
+ *
+ * The project containing the active editor's document is preferred. Otherwise,
+ * if there's more than one project, the user is asked to pick one.
+ *
+ * @returns The project's scene files path, or undefined if there's no project.
+ */
+async function selectProject(): Promise<string | undefined> {
+    const scenePaths = [...projectPaths.keys()];
+    if (scenePaths.length <= 1) {
+        return scenePaths[0];
+    }
+
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument !== undefined && activeDocument.uri.scheme == "file") {
+        const documentDirectory = path.dirname(activeDocument.uri.fsPath);
+        const match = scenePaths.find(
+            (scenePath) => path.relative(scenePath, documentDirectory) == "",
+        );
+        if (match !== undefined) {
+            return match;
+        }
+    }
+
+    return vscode.window.showQuickPick(scenePaths, {
+        placeHolder: "Choose a ChoiceScript project",
+    });
+}
+
+/**
+ * Forget the projects inside a workspace folder that was removed.
+ * @param folderPath Path to the removed workspace folder.
+ */
+function removeProjectsInFolder(folderPath: string): void {
+    for (const scenePath of [...projectPaths.keys()]) {
+        const relativePath = path.relative(folderPath, scenePath);
+        if (
+            relativePath.split(path.sep)[0] == ".." ||
+            path.isAbsolute(relativePath)
+        ) {
+            continue;
+        }
+        projectPaths.delete(scenePath);
+        if (sceneFilesPath == scenePath) {
+            sceneFilesPath = undefined;
+        }
+    }
+}
+
+/**
+ * Compile and run a project's game, replacing any game that's already running.
+ * @param forcedScene Scene to start at instead of startup, optionally followed by "|" and a label.
+ * @param debugOptions Debugger settings, if the game is being run under the debugger.
+ * @param debugListener Listener for messages from the game when it's being run under the debugger.
+ * @returns The project's scene files path, or undefined if there's no project.
+ */
+async function compileAndRunGame(
+    forcedScene?: string,
+    debugOptions?: GameDebugOptions,
+    debugListener?: GameDebugListener,
+): Promise<string | undefined> {
+    const scenePath = await selectProject();
+    if (scenePath === undefined) {
+        return undefined;
+    }
+    sceneFilesPath = scenePath;
+    annotationController.clearAll();
+    // Ideally we'd be able to sanity check that these are actually ChoiceScript 'scene' files,
+    // but given that raw text files with no commands *are* valid CS scenes, I don't think there's anything we can do.
+    const compiledGame = await csCompiler.compile(
+        await workspaceProvider.findFiles(scenePath, "*.txt"),
+    );
+    await gameWebViewManager.runCompiledGame(
+        compiledGame,
+        forcedScene,
+        debugOptions,
+        debugListener,
+    );
+    return scenePath;
+}
+
+/**
+ * Read the text of a project's scenes.
+ * @param scenePath Path to the project's scene files.
+ * @returns Text of each scene, keyed by scene name.
+ */
+async function readSceneTexts(scenePath: string): Promise<Map<string, string>> {
+    const sceneTexts: Map<string, string> = new Map();
+    for (const uri of await workspaceProvider.findFiles(scenePath, "*.txt")) {
+        sceneTexts.set(
+            path.basename(uri.fsPath, ".txt"),
+            new TextDecoder().decode(await workspaceProvider.fs.readFile(uri)),
+        );
+    }
+    return sceneTexts;
+}
+
 /**
  * Surround the current selection with bbcode delimiters like [i] and [/i].
  * @param editor Current editor.
@@ -128,11 +267,13 @@ function bbcodeDelimit(
  *
  * @param context Extension's context.
  * @param controller Status bar controller.
+ * @param client Language client.
  * @param docProvider Text document provider.
  * @param testProvider Test-running provider.
  */
 function registerCommands(
     context: vscode.ExtensionContext,
+    client: BaseLanguageClient,
     controller: StatusBarController,
     docProvider: Provider,
     gameWebViewManager: GameWebViewManager,
@@ -155,101 +296,50 @@ function registerCommands(
 
     if (testProvider) {
         // web platform isn't supported
+        const runRandomtest = async (
+            settingsSource: RandomtestSettingsSource,
+        ) => {
+            const scenePath = await selectProject();
+            if (scenePath === undefined) {
+                return;
+            }
+            sceneFilesPath = scenePath;
+            annotationController.clearAll();
+            coverageController.clear();
+            await workspaceProvider.saveAll();
+            testProvider.runRandomtest(
+                context.asAbsolutePath(RelativePaths.Randomtest),
+                context.asAbsolutePath(RelativePaths.Choicescript),
+                scenePath,
+                settingsSource,
+                docProvider,
+                annotateCSError,
+                (running) => controller.updateTestStatus(running),
+                (count) => controller.updateTestCount(count),
+                async (coverage) =>
+                    coverageController.setCoverage(
+                        scenePath,
+                        completeCoverage(
+                            coverage,
+                            await readSceneTexts(scenePath),
+                        ),
+                    ),
+            );
+        };
+
         csCommands.push(
-            vscode.commands.registerCommand(CustomCommands.RunQuicktest, () => {
-                annotationController.clearAll();
-                if (sceneFilesPath !== undefined) {
-                    workspaceProvider
-                        .saveAll()
-                        .then(() =>
-                            testProvider.runQuicktest(
-                                context.asAbsolutePath(RelativePaths.Quicktest),
-                                context.asAbsolutePath(
-                                    RelativePaths.Choicescript,
-                                ),
-                                sceneFilesPath,
-                                imageFilesPath,
-                                annotateCSError,
-                                (running) =>
-                                    controller.updateTestStatus(running),
-                            ),
-                        );
-                }
-            }),
             vscode.commands.registerCommand(
                 CustomCommands.RunRandomtestDefault,
-                () => {
-                    annotationController.clearAll();
-                    if (sceneFilesPath !== undefined) {
-                        workspaceProvider.saveAll().then(() =>
-                            testProvider.runRandomtest(
-                                context.asAbsolutePath(
-                                    RelativePaths.Randomtest,
-                                ),
-                                context.asAbsolutePath(
-                                    RelativePaths.Choicescript,
-                                ),
-                                sceneFilesPath,
-                                RandomtestSettingsSource.VSCodeConfiguration,
-                                docProvider,
-                                annotateCSError,
-                                (running) =>
-                                    controller.updateTestStatus(running),
-                                (count) => controller.updateTestCount(count),
-                            ),
-                        );
-                    }
-                },
+                () =>
+                    runRandomtest(RandomtestSettingsSource.VSCodeConfiguration),
             ),
             vscode.commands.registerCommand(
                 CustomCommands.RunRandomtestInteractive,
-                () => {
-                    if (sceneFilesPath !== undefined) {
-                        annotationController.clearAll();
-                        workspaceProvider.saveAll().then(() =>
-                            testProvider.runRandomtest(
-                                context.asAbsolutePath(
-                                    RelativePaths.Randomtest,
-                                ),
-                                context.asAbsolutePath(
-                                    RelativePaths.Choicescript,
-                                ),
-                                sceneFilesPath,
-                                RandomtestSettingsSource.Interactive,
-                                docProvider,
-                                annotateCSError,
-                                (running) =>
-                                    controller.updateTestStatus(running),
-                                (count) => controller.updateTestCount(count),
-                            ),
-                        );
-                    }
-                },
+                () => runRandomtest(RandomtestSettingsSource.Interactive),
             ),
             vscode.commands.registerCommand(
                 CustomCommands.RerunRandomTest,
-                () => {
-                    if (sceneFilesPath !== undefined) {
-                        annotationController.clearAll();
-                        workspaceProvider.saveAll().then(() =>
-                            testProvider.runRandomtest(
-                                context.asAbsolutePath(
-                                    RelativePaths.Randomtest,
-                                ),
-                                context.asAbsolutePath(
-                                    RelativePaths.Choicescript,
-                                ),
-                                sceneFilesPath,
-                                RandomtestSettingsSource.LastTestRun,
-                                docProvider,
-                                annotateCSError,
-                                (running) =>
-                                    controller.updateTestStatus(running),
-                                (count) => controller.updateTestCount(count),
-                            ),
-                        );
-                    }
-                },
+                () => runRandomtest(RandomtestSettingsSource.LastTestRun),
             ),
             vscode.commands.registerCommand(CustomCommands.CancelTest, () => {
                 testProvider.cancelTest();
@@ -257,41 +347,230 @@ function registerCommands(
         );
     }
 
+    /**
+     * Compile and run the game, asking first if one is already running.
+     * @param forcedScene Scene to start at instead of startup, optionally followed by "|" and a label.
+     */
+    const runGame = async (forcedScene?: string) => {
+        const run = () => compileAndRunGame(forcedScene);
+        if (gameWebViewManager.isRunning()) {
+            const result = await vscode.window.showInformationMessage(
+                "A ChoiceScript game is already running.\n\nWhat would you like to do?",
+                {
+                    detail: "Running again will destroy your current session.",
+                    modal: true,
+                },
+                "Run",
+                "Focus",
+            );
+            if (result === "Run") {
+                run();
+            } else if (result === "Focus") {
+                gameWebViewManager.openOrShow();
+            }
+        } else {
+            run();
+        }
+    };
+
     csCommands.push(
-        vscode.commands.registerCommand(CustomCommands.RunGame, async () => {
-            const run = async () => {
+        vscode.commands.registerCommand(
+            CustomCommands.RunQuicktest,
+            async () => {
                 annotationController.clearAll();
-                // Ideally we'd be able to sanity check that these are actually ChoiceScript 'scene' files,
-                // but given that raw text files with no commands *are* valid CS scenes, I don't think there's anything we can do.
-                const compiledGame = await csCompiler.compile(
-                    await workspaceProvider.findFiles(sceneFilesPath, "*.txt"),
-                );
-                await gameWebViewManager.runCompiledGame(compiledGame);
-            };
-            if (gameWebViewManager.isRunning()) {
-                const result = await vscode.window.showInformationMessage(
-                    "A ChoiceScript game is already running.\n\nWhat would you like to do?",
-                    {
-                        detail: "Running again will destroy your current session.",
-                        modal: true,
-                    },
-                    "Run",
-                    "Focus",
-                );
-                if (result === "Run") {
-                    run();
-                } else if (result === "Focus") {
-                    gameWebViewManager.openOrShow();
+                const scenePath = await selectProject();
+                if (scenePath === undefined) {
+                    return;
                 }
-            } else {
-                run();
-            }
-        }),
+                sceneFilesPath = scenePath;
+                await workspaceProvider.saveAll();
+                await runQuicktest(client, scenePath, controller);
+            },
+        ),
+        vscode.commands.registerCommand(CustomCommands.ShowFlowGraph, () =>
+            flowGraphViewManager.show(),
+        ),
+        vscode.commands.registerCommand(CustomCommands.RunGame, () =>
+            runGame(),
+        ),
+        vscode.commands.registerCommand(
+            CustomCommands.RunGameFromHere,
+            (scene: string, label: string) => runGame(`${scene}|${label}`),
+        ),
+        vscode.commands.registerCommand(
+            CustomCommands.ShowReferences,
+            (uri: string, position: Position, locations: Location[]) =>
+                vscode.commands.executeCommand(
+                    "editor.action.showReferences",
+                    vscode.Uri.parse(uri),
+                    client.protocol2CodeConverter.asPosition(position),
+                    locations.map((location) =>
+                        client.protocol2CodeConverter.asLocation(location),
+                    ),
+                ),
+        ),
     );
 
     context.subscriptions.push(...csCommands);
 }
 
+/**
+ * Register the debugger, which runs the game and steps through its scenes.
+ *
+ * @param context Extension's context.
+ */
+function registerDebugger(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(DebuggerType, {
+            // Debug the game even if there's no launch.json
+            resolveDebugConfiguration: (_folder, config) => {
+                if (!config.type && !config.request && !config.name) {
+                    config.type = DebuggerType;
+                    config.request = "launch";
+                    config.name = "Debug Game";
+                }
+                return config;
+            },
+        }),
+        vscode.debug.registerDebugAdapterDescriptorFactory(DebuggerType, {
+            createDebugAdapterDescriptor: () => {
+                const session: GameDebugSession = new GameDebugSession({
+                    start: (options, scene) =>
+                        compileAndRunGame(scene, options, session),
+                    send: (command) =>
+                        gameWebViewManager.sendDebugCommand(command),
+                    stop: () => gameWebViewManager.close(),
+                });
+                return new vscode.DebugAdapterInlineImplementation(session);
+            },
+        }),
+    );
+}
+
+/**
+ * Request the flow graph for the current project from the server.
+ * @param client Language client.
+ * @returns The flow graph, or undefined if there's no project.
+ */
+async function requestFlowGraph(
+    client: BaseLanguageClient,
+): Promise<FlowGraph | undefined> {
+    // Stick with the last graphed project unless a ChoiceScript document is active
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument?.languageId == "choicescript") {
+        flowGraphDocumentUri = activeDocument.uri.toString();
+    } else if (flowGraphDocumentUri === undefined) {
+        const scenePath = await selectProject();
+        if (scenePath !== undefined) {
+            flowGraphDocumentUri = vscode.Uri.file(
+                path.join(scenePath, "startup.txt"),
+            ).toString();
+        }
+    }
+    if (flowGraphDocumentUri === undefined) {
+        return undefined;
+    }
+    const graph: unknown = await client.sendRequest(
+        CustomRequests.FlowGraph,
+        flowGraphDocumentUri,
+    );
+    return (graph ?? undefined) as FlowGraph | undefined;
+}
+
+/**
+ * Have the server run Quicktest on a project and report the results.
+ *
+ * Problems that Quicktest finds show up as diagnostics in their scenes.
+ * @param client Language client.
+ * @param scenePath Path to the project's scene files.
+ * @param controller Status bar controller.
+ */
+async function runQuicktest(
+    client: BaseLanguageClient,
+    scenePath: string,
+    controller: StatusBarController,
+): Promise<void> {
+    vscode.commands.executeCommand(
+        "setContext",
+        CustomContext.TestRunning,
+        true,
+    );
+    controller.updateTestStatus(true);
+    try {
+        const results = (await client.sendRequest(
+            CustomRequests.Quicktest,
+            vscode.Uri.file(path.join(scenePath, "startup.txt")).toString(),
+        )) as QuicktestResults | null | undefined;
+        if (results === null || results === undefined) {
+            vscode.window.showErrorMessage(
+                "Quicktest couldn't find the project to test",
+                "OK",
+            );
+        } else if (results.errorCount > 0) {
+            vscode.window.showErrorMessage(
+                `Quicktest failed: ${results.errorCount} error${results.errorCount == 1 ? "" : "s"} found`,
+                "OK",
+            );
+            vscode.commands.executeCommand("workbench.actions.view.problems");
+        } else if (results.warningCount > 0) {
+            vscode.window.setStatusBarMessage(
+                `Quicktest passed with ${results.warningCount} warning${results.warningCount == 1 ? "" : "s"}`,
+                5000,
+            );
+        } else {
+            vscode.window.setStatusBarMessage("Quicktest passed", 5000);
+        }
+    } finally {
+        vscode.commands.executeCommand(
+            "setContext",
+            CustomContext.TestRunning,
+            false,
+        );
+        controller.updateTestStatus(false);
+    }
+}
+
+/**
+ * Tell the server whether the call hierarchy should include *goto jumps.
+ * @param client Language client.
+ */
+function sendCallHierarchySettings(client: BaseLanguageClient): void {
+    client.sendNotification(
+        CustomMessages.CallHierarchyGotos,
+        workspaceProvider.getConfiguration<boolean>(
+            Configuration.BaseSection,
+            Configuration.CallHierarchyIncludeGotos,
+        ),
+    );
+}
+
+/**
+ * Tell the server which style guide to check the game against.
+ * @param client Language client.
+ */
+function sendStyleGuide(client: BaseLanguageClient): void {
+    client.sendNotification(
+        CustomMessages.StyleGuide,
+        workspaceProvider.getConfiguration<string>(
+            Configuration.BaseSection,
+            Configuration.StyleGuide,
+        ) ?? "choiceOfGames",
+    );
+}
+
+/**
+ * Tell the server what severities the user wants diagnostics to have.
+ * @param client Language client.
+ */
+function sendDiagnosticSeverities(client: BaseLanguageClient): void {
+    client.sendNotification(
+        CustomMessages.DiagnosticSeverities,
+        workspaceProvider.getConfiguration<
+            Record<string, DiagnosticSeverityOption>
+        >(Configuration.BaseSection, Configuration.Diagnostics) ?? {},
+    );
+}
+
 /**
  * Update the workspace editor.quickSuggestions state for ChoiceScript.
  */
@@ -340,6 +619,16 @@ export async function startClient(
         workspaceProvider,
     );
     csCompiler = new ChoiceScriptCompiler(workspaceProvider);
+    flowGraphViewManager = new FlowGraphViewManager(context, () =>
+        requestFlowGraph(client),
+    );
+    context.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            if (document.languageId == "choicescript") {
+                flowGraphViewManager.refresh();
+            }
+        }),
+    );
 
     registerRequestHandlers(client);
 
@@ -366,9 +655,12 @@ export async function startClient(
             () => annotationController.onTextDocumentChanged,
             annotationController,
         );
+    // Create a controller for Randomtest line coverage
+    coverageController = new CoverageAnnotationController();
     context.subscriptions.push(
         annotationController,
         annotationsTextDocumentChangedSubscription,
+        coverageController,
     );
 
     // Deal with configuration changes
@@ -389,9 +681,21 @@ export async function startClient(
                     Configuration.AllowUnsafeScript,
                 ),
             );
+            sendCallHierarchySettings(client);
+            sendDiagnosticSeverities(client);
+            sendStyleGuide(client);
         });
     context.subscriptions.push(configurationChangedSubscription);
 
+    // Forget projects in workspace folders that are closed
+    const workspaceFoldersChangedSubscription =
+        workspaceProvider.onDidChangeWorkspaceFolders((e) => {
+            for (const folder of e.removed) {
+                removeProjectsInFolder(folder.uri.fsPath);
+            }
+        });
+    context.subscriptions.push(workspaceFoldersChangedSubscription);
+
     // Set up storage services
     setupLocalStorageManagers(context.workspaceState, context.globalState);
 
@@ -401,13 +705,16 @@ export async function startClient(
     notifications.addNotificationHandler(
         CustomMessages.UpdatedSceneFilesPath,
         async (e: string[]) => {
-            sceneFilesPath = e[0];
+            const scenePath = e[0];
+            if (!projectPaths.has(scenePath)) {
+                projectPaths.set(scenePath, undefined);
+            }
         },
     );
     notifications.addNotificationHandler(
         CustomMessages.UpdatedImageFilesPath,
-        async (e: string[]) => {
-            imageFilesPath = e[0];
+        async (e: UpdatedImageFilesPath[]) => {
+            projectPaths.set(e[0].scenePath, e[0].imagePath);
         },
     );
     notifications.addNotificationHandler(
@@ -421,17 +728,22 @@ export async function startClient(
     // Register our commands
     registerCommands(
         context,
+        client,
         controller,
         provider,
         gameWebViewManager,
         testProvider,
     );
+    registerDebugger(context);
 
     // Adjust the workspace's quick suggestions setting for ChoiceScript
     updateQuickSuggestions();
 
     // Start the client & launch the server
     await client.start();
+    sendCallHierarchySettings(client);
+    sendDiagnosticSeverities(client);
+    sendStyleGuide(client);
 
     return client;
 }
@@ -11,6 +11,9 @@ export enum Configuration {
     UseCOGStyleGuide = "useChoiceOfGamesStyleGuide",
     DisableQuickSuggestions = "disableQuickSuggestions",
     AllowUnsafeScript = "allowUnsafeScript",
+    CallHierarchyIncludeGotos = "callHierarchy.includeGotos",
+    Diagnostics = "diagnostics",
+    StyleGuide = "styleGuide",
     RandomtestIterations = "randomtest.iterations",
     RandomtestSeed = "randomtest.randomSeed",
     RandomtestPutResultsInDocument = "randomtest.putResultsInDocument",
@@ -26,10 +29,13 @@ export enum CustomCommands {
     CancelTest = "choicescript.cancelTest",
     Italicize = "choicescript.italicize",
     RunGame = "choicescript.runGame",
+    RunGameFromHere = "choicescript.runGameFromHere",
+    ShowFlowGraph = "choicescript.showFlowGraph",
     RunQuicktest = "choicescript.runQuicktest",
     RunRandomtestDefault = "choicescript.runRandomtestDefault",
     RunRandomtestInteractive = "choicescript.runRandomtestInteractive",
     RerunRandomTest = "choicescript.rerunRandomtest",
+    ShowReferences = "choicescript.showReferences",
 }
 
 export enum CustomContext {
@@ -41,9 +47,12 @@ export enum CustomContext {
 
 export enum CustomMessages {
     AllowUnsafeScript = "choicescript/allowUnsafeScript",
+    CallHierarchyGotos = "choicescript/callHierarchyGotos",
     CoGStyleGuide = "choicescript/cogStyleGuide",
     DebugMessage = "choicescript/debugMessage",
+    DiagnosticSeverities = "choicescript/diagnosticSeverities",
     ProjectIndexed = "choicescript/projectIndexed",
+    StyleGuide = "choicescript/styleGuide",
     UpdatedSceneFilesPath = "choicescript/sceneFilespath",
     UpdatedImageFilesPath = "choicescript/imageFilespath",
     UpdatedWordCount = "choicescript/updatedWordCount",
@@ -53,6 +62,8 @@ export enum CustomRequests {
     FileContent = "fs/content",
     FileExists = "fs/fileExists",
     FindFiles = "fs/findFiles",
+    FlowGraph = "choicescript/flowGraph",
+    Quicktest = "choicescript/quicktest",
     SelectionWordCount = "choicescript/selectionWordCount",
     WordCount = "choicescript/wordCount",
 }
@@ -69,11 +80,16 @@ export enum RandomtestSettingsSource {
 
 export type AllowUnsafeScriptOption = "never" | "warn" | "allow";
 
+export type DiagnosticSeverityOption =
+    "error" | "warning" | "info" | "hint" | "off";
+
+// Debug adapter type for running games under the debugger
+export const DebuggerType = "choicescript";
+
 // Paths relative to the extension
 export const RelativePaths = {
     Choicescript: joinPath("choicescript", "out"),
     GameIndex: joinPath("choicescript", "out", "index.html"),
-    Quicktest: joinPath("choicescript", "out", "autotest.js"),
     Randomtest: joinPath("choicescript", "out", "randomtest.js"),
     VSCodeExtensionServer: joinPath("server", "dist/node", "server.js"),
 };
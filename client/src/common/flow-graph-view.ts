@@ -0,0 +1,417 @@
+import * as vscode from "vscode";
+import type { Location } from "vscode-languageclient";
+
+const VIEW_TYPE = "ChoiceScriptFlowGraphView";
+
+/**
+ * A scene or label in the server's flow graph.
+ */
+interface FlowGraphNode {
+    id: string;
+    kind: "scene" | "label";
+    scene: string;
+    label?: string;
+    location?: Location;
+    inSceneList: boolean;
+    deadEnd: boolean;
+    unreachable: boolean;
+}
+
+/**
+ * A way for the game to move from one node to another.
+ */
+interface FlowGraphEdge {
+    from: string;
+    to: string;
+    command: string;
+    location?: Location;
+}
+
+/**
+ * Directed graph of a project's scenes and labels.
+ */
+export interface FlowGraph {
+    nodes: FlowGraphNode[];
+    edges: FlowGraphEdge[];
+}
+
+/**
+ * Where a node is drawn.
+ */
+interface NodePosition {
+    x: number;
+    y: number;
+}
+
+/**
+ * Part of the graph that's visible after panning and zooming, in SVG coordinates.
+ */
+interface GraphView {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const nodeWidth = 160;
+const nodeHeight = 28;
+const columnWidth = 220;
+const rowHeight = 44;
+const margin = 20;
+
+/**
+ * Escape text so it can be put in HTML.
+ * @param text Text to escape.
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Lay out a flow graph with one column per scene, in `*scene_list` order,
+ * and each scene's labels stacked beneath it.
+ * @param graph Flow graph.
+ * @returns Position of each node, keyed by node ID.
+ */
+function layOutGraph(graph: FlowGraph): Map<string, NodePosition> {
+    const positions: Map<string, NodePosition> = new Map();
+    const columns: Map<string, number> = new Map();
+    const rows: Map<string, number> = new Map();
+
+    for (const node of graph.nodes) {
+        let column = columns.get(node.scene);
+        if (column === undefined) {
+            column = columns.size;
+            columns.set(node.scene, column);
+        }
+        const row = rows.get(node.scene) ?? 0;
+        rows.set(node.scene, row + 1);
+        positions.set(node.id, {
+            x: margin + column * columnWidth,
+            y: margin + row * rowHeight,
+        });
+    }
+
+    return positions;
+}
+
+/**
+ * Generate the SVG path for an edge.
+ * @param from Position of the node the edge starts at.
+ * @param to Position of the node the edge ends at.
+ */
+function edgePath(from: NodePosition, to: NodePosition): string {
+    if (from.x == to.x) {
+        // Edges in the same scene loop out to the right of the column
+        const x = from.x + nodeWidth;
+        const y1 = from.y + nodeHeight / 2;
+        const y2 = to.y + nodeHeight / 2;
+        const bulge = 20 + Math.min(Math.abs(y2 - y1) / 8, 30);
+        return `M ${x} ${y1} C ${x + bulge} ${y1}, ${x + bulge} ${y2}, ${x} ${y2}`;
+    }
+    const leftToRight = from.x < to.x;
+    const x1 = leftToRight ? from.x + nodeWidth : from.x;
+    const x2 = leftToRight ? to.x : to.x + nodeWidth;
+    const y1 = from.y + nodeHeight / 2;
+    const y2 = to.y + nodeHeight / 2;
+    const midX = (x1 + x2) / 2;
+    return `M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`;
+}
+
+/**
+ * Generate the SVG that draws a flow graph.
+ * @param graph Flow graph.
+ */
+function renderGraph(graph: FlowGraph): string {
+    const positions = layOutGraph(graph);
+    let width = 0;
+    let height = 0;
+    for (const position of positions.values()) {
+        width = Math.max(width, position.x + columnWidth);
+        height = Math.max(height, position.y + rowHeight);
+    }
+
+    const edges = graph.edges
+        .map((edge) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (from === undefined || to === undefined) {
+                return "";
+            }
+            const classes = ["edge", edge.command];
+            return `<path class="${classes.join(" ")}" data-from="${escapeHtml(edge.from)}" data-to="${escapeHtml(edge.to)}" d="${edgePath(from, to)}"><title>*${escapeHtml(edge.command)}</title></path>`;
+        })
+        .join("\n");
+
+    const nodes = graph.nodes
+        .map((node) => {
+            const position = positions.get(node.id);
+            if (position === undefined) {
+                return "";
+            }
+            const classes = ["node", node.kind];
+            const notes: string[] = [];
+            if (node.deadEnd) {
+                classes.push("dead-end");
+                notes.push("No way out of this scene");
+            }
+            if (node.unreachable) {
+                classes.push("unreachable");
+                notes.push("Can't be reached from the start of the game");
+            }
+            if (node.kind == "scene" && !node.inSceneList) {
+                notes.push("Not in the *scene_list");
+            }
+            if (node.location === undefined) {
+                classes.push("missing");
+                notes.push("Scene file not found");
+            }
+            const name = node.kind == "scene" ? node.scene : (node.label ?? "");
+            const title = [node.id, ...notes].join("\n");
+            const locationData =
+                node.location !== undefined
+                    ? ` data-uri="${escapeHtml(node.location.uri)}" data-line="${node.location.range.start.line}" data-character="${node.location.range.start.character}"`
+                    : "";
+            return `<g class="${classes.join(" ")}" data-id="${escapeHtml(node.id)}"${locationData} transform="translate(${position.x} ${position.y})"><title>${escapeHtml(title)}</title><rect width="${nodeWidth}" height="${nodeHeight}" rx="4"></rect><text x="8" y="${nodeHeight / 2}">${escapeHtml(name)}</text></g>`;
+        })
+        .join("\n");
+
+    return `<svg id="graph" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" data-width="${width}" data-height="${height}">
+<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z"></path></marker></defs>
+<g id="edges">${edges}</g>
+<g id="nodes">${nodes}</g>
+</svg>`;
+}
+
+/**
+ * Generate a nonce for the webview's scripts.
+ */
+function generateNonce(): string {
+    const characters =
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+    let nonce = "";
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(
+            Math.floor(Math.random() * characters.length),
+        );
+    }
+    return nonce;
+}
+
+/**
+ * Shows a project's flow graph in a webview.
+ */
+export class FlowGraphViewManager {
+    private panel: vscode.WebviewPanel | undefined;
+    // Where the user has panned and zoomed to, so it survives re-drawing the graph
+    private view: GraphView | undefined;
+
+    constructor(
+        private readonly extContext: vscode.ExtensionContext,
+        private readonly getGraph: () => Promise<FlowGraph | undefined>,
+    ) {}
+
+    /**
+     * Show the flow graph, creating its view if needed.
+     */
+    public async show(): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                VIEW_TYPE,
+                "ChoiceScript Flow Graph",
+                vscode.ViewColumn.Beside,
+                {
+                    retainContextWhenHidden: true,
+                    enableScripts: true,
+                    localResourceRoots: [],
+                },
+            );
+            this.registerPanelSubscriptions();
+        }
+        await this.refresh();
+    }
+
+    /**
+     * Re-draw the flow graph with the latest information from the server.
+     */
+    public async refresh(): Promise<void> {
+        if (!this.panel) {
+            return;
+        }
+        const graph = await this.getGraph();
+        if (this.panel) {
+            this.panel.webview.html = this.getWebviewContent(graph);
+        }
+    }
+
+    private getWebviewContent(graph: FlowGraph | undefined): string {
+        const nonce = generateNonce();
+        const savedView =
+            this.view !== undefined ? JSON.stringify(this.view) : "undefined";
+        const body =
+            graph === undefined || graph.nodes.length == 0
+                ? "<p>No ChoiceScript project found.</p>"
+                : renderGraph(graph);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>ChoiceScript Flow Graph</title>
+<style>
+html, body { height: 100%; margin: 0; overflow: hidden; }
+#toolbar { position: fixed; top: 0; left: 0; right: 0; padding: 4px 8px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); z-index: 1; }
+#toolbar button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 2px 8px; cursor: pointer; }
+#toolbar .legend { margin-left: 12px; font-size: 0.9em; }
+#graph { position: absolute; top: 32px; left: 0; width: 100%; height: calc(100% - 32px); cursor: grab; }
+.node rect { fill: var(--vscode-editor-background); stroke: var(--vscode-editor-foreground); stroke-width: 1; }
+.node.scene rect { fill: var(--vscode-editorWidget-background); stroke-width: 2; }
+.node text { fill: var(--vscode-editor-foreground); dominant-baseline: middle; font-family: var(--vscode-editor-font-family); font-size: 12px; pointer-events: none; }
+.node[data-uri] { cursor: pointer; }
+.node.dead-end rect { stroke: var(--vscode-errorForeground); }
+.node.unreachable { opacity: 0.5; }
+.node.unreachable rect { stroke-dasharray: 4 2; }
+.node.missing rect { stroke: var(--vscode-editorWarning-foreground); }
+.node.highlighted rect { stroke: var(--vscode-focusBorder); stroke-width: 3; }
+.edge { fill: none; stroke: var(--vscode-editor-foreground); stroke-opacity: 0.4; marker-end: url(#arrow); }
+.edge.fallthrough { stroke-dasharray: 3 3; }
+.edge.gosub, .edge.gosub_scene { stroke: var(--vscode-charts-blue); }
+.edge.highlighted { stroke: var(--vscode-focusBorder); stroke-opacity: 1; stroke-width: 2; }
+#arrow path { fill: var(--vscode-editor-foreground); }
+</style>
+</head>
+<body>
+<div id="toolbar"><button id="refresh">Refresh</button><span class="legend">Red border: no way out of the scene. Faded: can't be reached from the start. Dashed line: runs into the next label.</span></div>
+${body}
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    document.getElementById("refresh").addEventListener("click", () => {
+        vscode.postMessage({ command: "refresh" });
+    });
+    const svg = document.getElementById("graph");
+    if (!svg) {
+        return;
+    }
+
+    // Clicking a node jumps to it
+    for (const node of svg.querySelectorAll(".node[data-uri]")) {
+        node.addEventListener("click", () => {
+            vscode.postMessage({
+                command: "open",
+                uri: node.dataset.uri,
+                line: Number(node.dataset.line),
+                character: Number(node.dataset.character),
+            });
+        });
+    }
+
+    // Hovering over a node highlights its edges and the nodes they connect to
+    for (const node of svg.querySelectorAll(".node")) {
+        node.addEventListener("mouseenter", () => {
+            const id = node.dataset.id;
+            for (const edge of svg.querySelectorAll(".edge")) {
+                if (edge.dataset.from == id || edge.dataset.to == id) {
+                    edge.classList.add("highlighted");
+                    for (const other of svg.querySelectorAll(".node")) {
+                        if (other.dataset.id == edge.dataset.from || other.dataset.id == edge.dataset.to) {
+                            other.classList.add("highlighted");
+                        }
+                    }
+                }
+            }
+        });
+        node.addEventListener("mouseleave", () => {
+            for (const item of svg.querySelectorAll(".highlighted")) {
+                item.classList.remove("highlighted");
+            }
+        });
+    }
+
+    // Drag to pan, scroll to zoom, starting from where the graph was before it was re-drawn
+    const view = ${savedView} ?? { x: 0, y: 0, width: Number(svg.dataset.width), height: Number(svg.dataset.height) };
+    const updateView = () => {
+        svg.setAttribute("viewBox", view.x + " " + view.y + " " + view.width + " " + view.height);
+        vscode.postMessage({ command: "view", view: view });
+    };
+    updateView();
+    let dragStart;
+    svg.addEventListener("mousedown", (e) => {
+        dragStart = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y };
+    });
+    window.addEventListener("mouseup", () => {
+        dragStart = undefined;
+    });
+    window.addEventListener("mousemove", (e) => {
+        if (dragStart !== undefined) {
+            const scale = view.width / svg.clientWidth;
+            view.x = dragStart.viewX - (e.clientX - dragStart.x) * scale;
+            view.y = dragStart.viewY - (e.clientY - dragStart.y) * scale;
+            updateView();
+        }
+    });
+    svg.addEventListener("wheel", (e) => {
+        e.preventDefault();
+        const factor = e.deltaY > 0 ? 1.1 : 1 / 1.1;
+        const rect = svg.getBoundingClientRect();
+        const px = view.x + ((e.clientX - rect.left) / rect.width) * view.width;
+        const py = view.y + ((e.clientY - rect.top) / rect.height) * view.height;
+        view.width *= factor;
+        view.height *= factor;
+        view.x = px - (px - view.x) * factor;
+        view.y = py - (py - view.y) * factor;
+        updateView();
+    }, { passive: false });
+}());
+</script>
+</body>
+</html>`;
+    }
+
+    private registerPanelSubscriptions() {
+        this.panel?.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.command) {
+                    case "refresh":
+                        await this.refresh();
+                        return;
+                    case "view":
+                        this.view = message.view;
+                        return;
+                    case "open": {
+                        const position = new vscode.Position(
+                            message.line,
+                            message.character,
+                        );
+                        await vscode.window.showTextDocument(
+                            vscode.Uri.parse(message.uri),
+                            {
+                                viewColumn: vscode.ViewColumn.One,
+                                selection: new vscode.Range(position, position),
+                            },
+                        );
+                        return;
+                    }
+                }
+            },
+            undefined,
+            this.extContext.subscriptions,
+        );
+        this.panel?.onDidDispose(
+            () => {
+                this.panel = undefined;
+                this.view = undefined;
+            },
+            null,
+            this.extContext.subscriptions,
+        );
+    }
+}
@@ -0,0 +1,560 @@
+import * as path from "path";
+import type {
+    DebugAdapter,
+    DebugProtocolMessage,
+    Disposable,
+    Event,
+} from "vscode";
+
+/**
+ * Debug Adapter Protocol request.
+ */
+interface DebugRequest {
+    seq: number;
+    type: "request";
+    command: string;
+    arguments?: Record<string, unknown>;
+}
+
+/**
+ * A source line in a Debug Adapter Protocol request.
+ */
+interface SourceBreakpoint {
+    line: number;
+}
+
+/**
+ * Arguments to the debugger's launch request.
+ */
+export interface GameLaunchArguments {
+    /**
+     * Whether to pause before the game runs its first line.
+     */
+    stopOnEntry?: boolean;
+    /**
+     * Scene to start at instead of startup, optionally followed by "|" and a label.
+     */
+    scene?: string;
+}
+
+/**
+ * Debugger settings the game starts with.
+ */
+export interface GameDebugOptions {
+    /**
+     * 0-based breakpoint lines, keyed by lower-cased scene name.
+     */
+    breakpoints: Record<string, number[]>;
+    /**
+     * Whether to pause before every `*choice` and `*fake_choice`.
+     */
+    pauseOnChoice: boolean;
+    /**
+     * Whether to pause before the game runs its first line.
+     */
+    stopOnEntry: boolean;
+}
+
+/**
+ * Command from the debugger to the running game.
+ */
+export type GameDebugCommand =
+    | { command: "debug-continue" }
+    | { command: "debug-step"; kind: "over" | "in" | "out" }
+    | { command: "debug-pause" }
+    | { command: "debug-set-breakpoints"; scene: string; lines: number[] }
+    | { command: "debug-set-pause-on-choice"; enabled: boolean }
+    | { command: "debug-evaluate"; id: number; expression: string };
+
+/**
+ * A line in the game's call stack.
+ */
+interface GameStackFrame {
+    /**
+     * Frame name, which includes the label the line is in.
+     */
+    name: string;
+    scene: string;
+    /**
+     * 0-based line number.
+     */
+    line: number;
+}
+
+type GameVariables = Record<string, string | number | boolean>;
+
+/**
+ * Message from the running game to the debugger.
+ */
+export type GameDebugMessage =
+    | {
+          command: "debug-stopped";
+          reason: string;
+          frames: GameStackFrame[];
+          stats: GameVariables;
+          temps: GameVariables;
+      }
+    | {
+          command: "debug-evaluated";
+          id: number;
+          value?: string | number | boolean;
+          error?: string;
+      };
+
+/**
+ * A game that can be run under the debugger.
+ */
+export interface DebuggableGame {
+    /**
+     * Compile and start the game.
+     * @param options Debugger settings to start the game with.
+     * @param scene Scene to start at instead of startup, optionally followed by "|" and a label.
+     * @returns Path to the game's scene files, or undefined if there was no game to run.
+     */
+    start(
+        options: GameDebugOptions,
+        scene?: string,
+    ): Promise<string | undefined>;
+    /**
+     * Send a command to the running game.
+     * @param command Command to send.
+     */
+    send(command: GameDebugCommand): void;
+    /**
+     * Stop the game.
+     */
+    stop(): void;
+}
+
+// There's only ever one thread: the game
+const threadId = 1;
+
+const statsReference = 1;
+const tempsReference = 2;
+
+/**
+ * Filter for the "Pause on *choice" checkbox in the Breakpoints view.
+ */
+const choiceFilter = "choice";
+
+/**
+ * Descriptions of the reasons the game pauses, keyed by reason.
+ */
+const stopDescriptions: ReadonlyMap<string, string> = new Map([
+    ["choice", "Paused on *choice"],
+]);
+
+/**
+ * Format a ChoiceScript value the way it would be written in a scene.
+ *
+ * ChoiceScript often stores numbers as strings, so strings that hold a
+ * number are shown as numbers.
+ * @param value Value to format.
+ */
+function formatValue(value: string | number | boolean): string {
+    return typeof value == "string" && !/^-?\d+(\.\d+)?$/.test(value)
+        ? JSON.stringify(value)
+        : `${value}`;
+}
+
+/**
+ * Scene name that a source file holds.
+ * @param sourcePath Path to the scene file.
+ */
+function sceneName(sourcePath: string): string {
+    return path.basename(sourcePath, ".txt").toLowerCase();
+}
+
+/**
+ * Debug adapter that runs a ChoiceScript game and steps through its lines.
+ *
+ * It speaks the Debug Adapter Protocol to VS Code and passes breakpoints and
+ * stepping commands on to the game, which reports back when it pauses.
+ */
+export class GameDebugSession implements DebugAdapter {
+    private sequence = 1;
+    private linesStartAt1 = true;
+    private columnsStartAt1 = true;
+    private readonly messageListeners: Set<
+        (message: DebugProtocolMessage) => void
+    > = new Set();
+    // Called when VS Code finishes sending breakpoints after the launch request
+    private configurationDone: (() => void) | undefined;
+    private readonly configured: Promise<void>;
+    private sceneFilesPath: string | undefined;
+    private readonly options: GameDebugOptions = {
+        breakpoints: {},
+        pauseOnChoice: false,
+        stopOnEntry: false,
+    };
+    private gameRunning = false;
+    // Where the game is paused, if it is
+    private stopped:
+        Extract<GameDebugMessage, { command: "debug-stopped" }> | undefined;
+    private nextEvaluationId = 1;
+    private readonly pendingEvaluations: Map<
+        number,
+        (
+            message: Extract<GameDebugMessage, { command: "debug-evaluated" }>,
+        ) => void
+    > = new Map();
+
+    constructor(private readonly game: DebuggableGame) {
+        this.configured = new Promise((resolve) => {
+            this.configurationDone = resolve;
+        });
+    }
+
+    public readonly onDidSendMessage: Event<DebugProtocolMessage> = (
+        listener,
+        thisArgs?,
+        disposables?,
+    ) => {
+        const boundListener = listener.bind(thisArgs);
+        this.messageListeners.add(boundListener);
+        const disposable: Disposable = {
+            dispose: () => this.messageListeners.delete(boundListener),
+        };
+        disposables?.push(disposable);
+        return disposable;
+    };
+
+    public handleMessage(message: DebugProtocolMessage): void {
+        const request = message as DebugRequest;
+        if (request.type != "request") {
+            return;
+        }
+        this.handleRequest(request).catch((err) =>
+            this.sendErrorResponse(request, `${err}`),
+        );
+    }
+
+    public dispose(): void {
+        this.messageListeners.clear();
+    }
+
+    /**
+     * Handle a message from the running game.
+     * @param message Message from the game.
+     */
+    public handleGameMessage(message: GameDebugMessage): void {
+        switch (message.command) {
+            case "debug-stopped":
+                this.stopped = message;
+                this.sendEvent("stopped", {
+                    reason: message.reason,
+                    description: stopDescriptions.get(message.reason),
+                    threadId: threadId,
+                    allThreadsStopped: true,
+                });
+                return;
+            case "debug-evaluated":
+                this.pendingEvaluations.get(message.id)?.(message);
+                this.pendingEvaluations.delete(message.id);
+                return;
+        }
+    }
+
+    /**
+     * Handle the game being closed.
+     */
+    public handleGameClosed(): void {
+        if (!this.gameRunning) {
+            return;
+        }
+        this.gameRunning = false;
+        this.stopped = undefined;
+        for (const [id, resolve] of this.pendingEvaluations) {
+            resolve({
+                command: "debug-evaluated",
+                id: id,
+                error: "The game was closed",
+            });
+        }
+        this.pendingEvaluations.clear();
+        this.sendEvent("terminated");
+    }
+
+    private async handleRequest(request: DebugRequest): Promise<void> {
+        const args = request.arguments ?? {};
+        switch (request.command) {
+            case "initialize":
+                this.linesStartAt1 = args.linesStartAt1 !== false;
+                this.columnsStartAt1 = args.columnsStartAt1 !== false;
+                this.sendResponse(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsEvaluateForHovers: true,
+                    supportsTerminateRequest: true,
+                    exceptionBreakpointFilters: [
+                        {
+                            filter: choiceFilter,
+                            label: "Pause on *choice",
+                            description:
+                                "Pause before every *choice and *fake_choice",
+                            default: false,
+                        },
+                    ],
+                });
+                this.sendEvent("initialized");
+                return;
+            case "launch":
+                await this.launch(request, args as GameLaunchArguments);
+                return;
+            case "setBreakpoints":
+                this.setBreakpoints(request, args);
+                return;
+            case "setExceptionBreakpoints":
+                this.options.pauseOnChoice = (
+                    (args.filters as string[] | undefined) ?? []
+                ).includes(choiceFilter);
+                this.sendToGame({
+                    command: "debug-set-pause-on-choice",
+                    enabled: this.options.pauseOnChoice,
+                });
+                this.sendResponse(request);
+                return;
+            case "configurationDone":
+                this.configurationDone?.();
+                this.sendResponse(request);
+                return;
+            case "threads":
+                this.sendResponse(request, {
+                    threads: [{ id: threadId, name: "Game" }],
+                });
+                return;
+            case "stackTrace":
+                this.sendStackTrace(request);
+                return;
+            case "scopes":
+                this.sendResponse(request, {
+                    scopes: [
+                        {
+                            name: "Stats",
+                            variablesReference: statsReference,
+                            expensive: false,
+                        },
+                        {
+                            name: "Temps",
+                            variablesReference: tempsReference,
+                            expensive: false,
+                        },
+                    ],
+                });
+                return;
+            case "variables":
+                this.sendVariables(request, args.variablesReference as number);
+                return;
+            case "continue":
+                this.resume({ command: "debug-continue" });
+                this.sendResponse(request, { allThreadsContinued: true });
+                return;
+            case "next":
+                this.resume({ command: "debug-step", kind: "over" });
+                this.sendResponse(request);
+                return;
+            case "stepIn":
+                this.resume({ command: "debug-step", kind: "in" });
+                this.sendResponse(request);
+                return;
+            case "stepOut":
+                this.resume({ command: "debug-step", kind: "out" });
+                this.sendResponse(request);
+                return;
+            case "pause":
+                this.sendToGame({ command: "debug-pause" });
+                this.sendResponse(request);
+                return;
+            case "evaluate":
+                await this.evaluate(request, args.expression as string);
+                return;
+            case "disconnect":
+            case "terminate":
+                if (this.gameRunning) {
+                    this.gameRunning = false;
+                    this.game.stop();
+                }
+                this.sendResponse(request);
+                if (request.command == "terminate") {
+                    this.sendEvent("terminated");
+                }
+                return;
+            default:
+                this.sendErrorResponse(
+                    request,
+                    `Unsupported request: ${request.command}`,
+                );
+        }
+    }
+
+    private async launch(
+        request: DebugRequest,
+        args: GameLaunchArguments,
+    ): Promise<void> {
+        // Wait for VS Code to send the breakpoints so the game can stop at any of them
+        await this.configured;
+        this.options.stopOnEntry = args.stopOnEntry ?? false;
+        this.sceneFilesPath = await this.game.start(this.options, args.scene);
+        if (this.sceneFilesPath === undefined) {
+            this.sendErrorResponse(
+                request,
+                "There's no ChoiceScript game to run",
+            );
+            this.sendEvent("terminated");
+            return;
+        }
+        this.gameRunning = true;
+        this.sendResponse(request);
+    }
+
+    private setBreakpoints(
+        request: DebugRequest,
+        args: Record<string, unknown>,
+    ): void {
+        const source = args.source as { path?: string } | undefined;
+        const lines = (
+            (args.breakpoints as SourceBreakpoint[] | undefined) ?? []
+        ).map((breakpoint) => breakpoint.line);
+        if (source?.path !== undefined) {
+            const scene = sceneName(source.path);
+            const gameLines = lines.map(
+                (line) => line - (this.linesStartAt1 ? 1 : 0),
+            );
+            this.options.breakpoints[scene] = gameLines;
+            this.sendToGame({
+                command: "debug-set-breakpoints",
+                scene: scene,
+                lines: gameLines,
+            });
+        }
+        this.sendResponse(request, {
+            breakpoints: lines.map((line) => ({
+                verified: source?.path !== undefined,
+                line: line,
+            })),
+        });
+    }
+
+    private sendStackTrace(request: DebugRequest): void {
+        const frames = this.stopped?.frames ?? [];
+        this.sendResponse(request, {
+            stackFrames: frames.map((frame, id) => ({
+                id: id,
+                name: frame.name,
+                source: {
+                    name: `${frame.scene}.txt`,
+                    path:
+                        this.sceneFilesPath !== undefined
+                            ? path.join(
+                                  this.sceneFilesPath,
+                                  `${frame.scene}.txt`,
+                              )
+                            : undefined,
+                },
+                line: frame.line + (this.linesStartAt1 ? 1 : 0),
+                column: this.columnsStartAt1 ? 1 : 0,
+            })),
+            totalFrames: frames.length,
+        });
+    }
+
+    private sendVariables(request: DebugRequest, reference: number): void {
+        const values =
+            reference == statsReference
+                ? this.stopped?.stats
+                : reference == tempsReference
+                  ? this.stopped?.temps
+                  : undefined;
+        this.sendResponse(request, {
+            variables: Object.entries(values ?? {})
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, value]) => ({
+                    name: name,
+                    value: formatValue(value),
+                    variablesReference: 0,
+                })),
+        });
+    }
+
+    private async evaluate(
+        request: DebugRequest,
+        expression: string,
+    ): Promise<void> {
+        if (!this.gameRunning) {
+            this.sendErrorResponse(request, "The game isn't running");
+            return;
+        }
+        const id = this.nextEvaluationId++;
+        const result = await new Promise<
+            Extract<GameDebugMessage, { command: "debug-evaluated" }>
+        >((resolve) => {
+            this.pendingEvaluations.set(id, resolve);
+            this.game.send({
+                command: "debug-evaluate",
+                id: id,
+                expression: expression,
+            });
+        });
+        if (result.error !== undefined || result.value === undefined) {
+            this.sendErrorResponse(
+                request,
+                result.error ?? "The expression has no value",
+            );
+            return;
+        }
+        this.sendResponse(request, {
+            result: formatValue(result.value),
+            variablesReference: 0,
+        });
+    }
+
+    /**
+     * Tell a paused game to start running again.
+     * @param command Command that resumes the game.
+     */
+    private resume(command: GameDebugCommand): void {
+        this.stopped = undefined;
+        this.sendToGame(command);
+    }
+
+    /**
+     * Send a command to the game if it's running.
+     * @param command Command to send.
+     */
+    private sendToGame(command: GameDebugCommand): void {
+        if (this.gameRunning) {
+            this.game.send(command);
+        }
+    }
+
+    private sendMessage(message: Record<string, unknown>): void {
+        const fullMessage = { seq: this.sequence++, ...message };
+        for (const listener of this.messageListeners) {
+            listener(fullMessage);
+        }
+    }
+
+    private sendResponse(request: DebugRequest, body?: unknown): void {
+        this.sendMessage({
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success: true,
+            body: body,
+        });
+    }
+
+    private sendErrorResponse(request: DebugRequest, message: string): void {
+        this.sendMessage({
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success: false,
+            message: message,
+            body: { error: { id: 1, format: message, showUser: true } },
+        });
+    }
+
+    private sendEvent(event: string, body?: unknown): void {
+        this.sendMessage({ type: "event", event: event, body: body });
+    }
+}
@@ -4,14 +4,28 @@ import type {
     CompiledChoiceScriptGame,
 } from "./choicescript-compiler";
 import { AllowUnsafeScriptOption, Configuration } from "./constants";
+import type {
+    GameDebugCommand,
+    GameDebugMessage,
+    GameDebugOptions,
+} from "./game-debugger";
 import { IWorkspaceProvider } from "./interfaces/vscode-workspace-provider";
 
 const VIEW_TYPE = "ChoiceScriptGameView";
 
+/**
+ * Receives messages from a game that's running under the debugger.
+ */
+export interface GameDebugListener {
+    handleGameMessage(message: GameDebugMessage): void;
+    handleGameClosed(): void;
+}
+
 export class GameWebViewManager {
     private runIndexHtmlUri: vscode.Uri;
     private panel: vscode.WebviewPanel | undefined;
     private windowTitle: string = "Loading...";
+    private debugListener: GameDebugListener | undefined;
 
     constructor(
         private readonly extContext: vscode.ExtensionContext,
@@ -34,16 +48,50 @@ export class GameWebViewManager {
         return !!this.panel;
     }
 
-    public async runCompiledGame(game: CompiledChoiceScriptGame) {
+    /**
+     * Run a compiled game.
+     * @param game Compiled game.
+     * @param forcedScene Scene to start at instead of startup, optionally followed by "|" and a label in that scene.
+     * @param debugOptions Debugger settings, if the game is being run under the debugger.
+     * @param debugListener Listener for messages from the game when it's being run under the debugger.
+     */
+    public async runCompiledGame(
+        game: CompiledChoiceScriptGame,
+        forcedScene?: string,
+        debugOptions?: GameDebugOptions,
+        debugListener?: GameDebugListener,
+    ) {
+        // Any earlier debugging session loses its game
+        this.debugListener?.handleGameClosed();
+        this.debugListener = debugListener;
         this.windowTitle = game.title ?? "Untitled";
         this.openOrShow();
         if (this.panel) {
             this.panel.webview.html = (
-                await this.getWebviewContent(game.scenes)
+                await this.getWebviewContent(
+                    game.scenes,
+                    forcedScene,
+                    debugOptions,
+                )
             ).toString();
         }
     }
 
+    /**
+     * Send a debugger command to the running game.
+     * @param command Command to send.
+     */
+    public sendDebugCommand(command: GameDebugCommand) {
+        this.panel?.webview.postMessage(command);
+    }
+
+    /**
+     * Close the running game.
+     */
+    public close() {
+        this.panel?.dispose();
+    }
+
     public openOrShow() {
         if (this.panel) {
             this.panel.reveal();
@@ -76,6 +124,8 @@ export class GameWebViewManager {
 
     private async getWebviewContent(
         allScenes: AllScenesResult,
+        forcedScene?: string,
+        debugOptions?: GameDebugOptions,
     ): Promise<string> {
         const view = this.panel?.webview;
         const allowEvalString =
@@ -113,10 +163,20 @@ export class GameWebViewManager {
                     `href="${view.asWebviewUri(vscode.Uri.joinPath(this.extContext.extensionUri, "choicescript", "out", fileName)).toString()}"`,
             );
         }
+        // ChoiceScript's loader starts at window.forcedScene ("scene" or "scene|label") if it's set.
+        const forcedSceneScript =
+            forcedScene !== undefined
+                ? `window.forcedScene=${JSON.stringify(forcedScene)};\n`
+                : "";
+        // Our ChoiceScript extensions watch for breakpoints and stepping if window.csDebug is set.
+        const debugScript =
+            debugOptions !== undefined
+                ? `window.csDebug=${JSON.stringify(debugOptions)};\n`
+                : "";
         // Add our compiled game content, this will be automatically picked up by Scene.js.
         content = content.replace(
             "startLoading();",
-            `allScenes=${JSON.stringify(allScenes)};\nstartLoading();`,
+            `allScenes=${JSON.stringify(allScenes)};\n${forcedSceneScript}${debugScript}startLoading();`,
         );
         return content;
     }
@@ -125,6 +185,10 @@ export class GameWebViewManager {
         this.panel?.webview.onDidReceiveMessage(
             (message) => {
                 switch (message.command) {
+                    case "debug-stopped":
+                    case "debug-evaluated":
+                        this.debugListener?.handleGameMessage(message);
+                        return;
                     case "error":
                         vscode.window.showErrorMessage(message.text);
                         return;
@@ -164,6 +228,8 @@ export class GameWebViewManager {
         this.panel?.onDidDispose(
             () => {
                 this.panel = undefined;
+                this.debugListener?.handleGameClosed();
+                this.debugListener = undefined;
             },
             null,
             this.extContext.subscriptions,
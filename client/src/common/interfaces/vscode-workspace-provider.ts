@@ -1,4 +1,8 @@
-import { workspace, RelativePattern } from "vscode";
+import {
+    workspace,
+    RelativePattern,
+    type WorkspaceFoldersChangeEvent,
+} from "vscode";
 import type { Disposable } from "vscode-languageclient";
 import type { URI as Uri } from "vscode-uri";
 
@@ -28,6 +32,9 @@ export interface IWorkspaceProvider {
     ): T | undefined;
     onDidChangeConfiguration(handler: () => void): Disposable;
     onDidChangeTextDocument<T>(handler: () => void, thisTarget: T): Disposable;
+    onDidChangeWorkspaceFolders(
+        handler: (e: WorkspaceFoldersChangeEvent) => void,
+    ): Disposable;
     fs: {
         readFile: (uri: Uri) => Thenable<Uint8Array>;
     };
@@ -53,6 +60,12 @@ export class WorkspaceProviderImpl implements IWorkspaceProvider {
         return workspace.onDidChangeTextDocument(handler, thisTarget);
     }
 
+    public onDidChangeWorkspaceFolders(
+        handler: (e: WorkspaceFoldersChangeEvent) => void,
+    ): Disposable {
+        return workspace.onDidChangeWorkspaceFolders(handler);
+    }
+
     public getConfiguration<T>(
         section: string,
         item: string,
@@ -0,0 +1,146 @@
+/**
+ * How many times Randomtest ran each line of a scene.
+ */
+export interface SceneCoverage {
+    /**
+     * Number of times each line was run, indexed by 0-based line number.
+     */
+    counts: number[];
+    /**
+     * Text of each line.
+     */
+    lines: string[];
+}
+
+/**
+ * Range of lines, 0-based and inclusive.
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+// Randomtest prints line coverage as "[scene] [count]: [line text]"
+const coverageLineRegex = /^([\w-]+) (\d+): (.*)$/;
+const passedLine = "RANDOMTEST PASSED";
+
+/**
+ * Parse the line coverage statistics from Randomtest's output.
+ *
+ * Randomtest prints the statistics just before it reports that it passed,
+ * one line of output per line of each scene it visited.
+ * @param output Randomtest's output.
+ * @returns Line coverage for each scene that Randomtest visited, keyed by scene name.
+ */
+export function parseRandomtestCoverage(
+    output: string,
+): Map<string, SceneCoverage> {
+    const coverage: Map<string, SceneCoverage> = new Map();
+    const outputLines = output.split(/\r?\n/);
+    const passedIndex = outputLines.lastIndexOf(passedLine);
+    if (passedIndex == -1) {
+        return coverage;
+    }
+
+    let start = passedIndex;
+    while (start > 0 && coverageLineRegex.test(outputLines[start - 1])) {
+        start--;
+    }
+    for (const outputLine of outputLines.slice(start, passedIndex)) {
+        const m = coverageLineRegex.exec(outputLine);
+        if (m === null) {
+            continue;
+        }
+        let sceneCoverage = coverage.get(m[1]);
+        if (sceneCoverage === undefined) {
+            sceneCoverage = { counts: [], lines: [] };
+            coverage.set(m[1], sceneCoverage);
+        }
+        sceneCoverage.counts.push(Number(m[2]));
+        sceneCoverage.lines.push(m[3]);
+    }
+
+    return coverage;
+}
+
+/**
+ * Fill in line coverage for all of a project's scenes.
+ *
+ * Randomtest's coverage for a scene stops at the last line it reports, and it
+ * doesn't report on scenes that it never visited, so pad each scene's coverage
+ * out to its full length and add coverage for scenes that weren't run at all.
+ * @param coverage Line coverage for each scene Randomtest reported on, keyed by scene name.
+ * @param sceneTexts Text of each of the project's scenes, keyed by scene name.
+ * @returns Line coverage for each scene, keyed by scene name.
+ */
+export function completeCoverage(
+    coverage: ReadonlyMap<string, SceneCoverage>,
+    sceneTexts: ReadonlyMap<string, string>,
+): Map<string, SceneCoverage> {
+    const completed = new Map(coverage);
+    for (const [scene, text] of sceneTexts) {
+        const counts = coverage.get(scene)?.counts ?? [];
+        const lines = text.split(/\r?\n/);
+        completed.set(scene, {
+            counts: lines.map((_, i) => counts[i] ?? 0),
+            lines: lines,
+        });
+    }
+    return completed;
+}
+
+/**
+ * Determine if a line can be run by the game, as opposed to being blank or a comment.
+ * @param line Text of the line.
+ */
+export function lineIsRunnable(line: string): boolean {
+    const text = line.trim();
+    return text != "" && !/^\*comment\b/.test(text);
+}
+
+/**
+ * Find the lines in a scene that Randomtest never ran.
+ *
+ * Blank lines and comments between unreached lines are included in the
+ * ranges, but ranges never start or end with them.
+ * @param coverage Scene's line coverage.
+ * @returns Ranges of lines that were never run.
+ */
+export function findUnreachedLines(coverage: SceneCoverage): LineRange[] {
+    const ranges: LineRange[] = [];
+    let current: LineRange | undefined;
+    for (let line = 0; line < coverage.lines.length; line++) {
+        if (!lineIsRunnable(coverage.lines[line])) {
+            continue;
+        }
+        if (coverage.counts[line] > 0) {
+            current = undefined;
+        } else if (current === undefined) {
+            current = { start: line, end: line };
+            ranges.push(current);
+        } else {
+            current.end = line;
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Find how "hot" a line is, based on how many times it was run.
+ * @param count Number of times the line was run.
+ * @param maxCount Largest number of times any line was run.
+ * @param levels Number of heat levels for lines that were run.
+ * @returns 0 if the line was never run, or a level from 1 to `levels`.
+ */
+export function heatLevel(
+    count: number,
+    maxCount: number,
+    levels: number,
+): number {
+    if (count <= 0) {
+        return 0;
+    }
+    // Counts vary over orders of magnitude, so use a log scale
+    const fraction = Math.log(count) / Math.log(maxCount + 1);
+    return 1 + Math.min(levels - 1, Math.floor(fraction * levels));
+}
@@ -17,6 +17,10 @@ import {
 } from "../common/logDocProvider";
 import LogDocument from "../common/logDocument";
 import { MultiStepInput } from "../common/multiStepInput";
+import {
+    type SceneCoverage,
+    parseRandomtestCoverage,
+} from "../common/randomtest-coverage";
 
 // VS Code has a [20 MB limit on file sizes that it'll let extensions open](https://github.com/jjuback/gc-excelviewer/issues/49)
 const FILE_SIZE_LIMIT = 20 * 1024 * 1024;
@@ -360,38 +364,6 @@ async function getRandomtestSettings(
     return settings;
 }
 
-/**
- * Run ChoiceScript's Quicktest.
- *
- * @param testScriptPath Path to the test script.
- * @param csPath Path to the ChoiceScript module.
- * @param scenePath Path to the scene files.
- * @param imagePath Path to the image files.
- * @param csErrorHandler Optional handler for if the test finds an error.
- * @param statusCallback Optional callback for when tests are running or not.
- */
-export function runQuicktest(
-    testScriptPath: string,
-    csPath: string,
-    scenePath: string,
-    imagePath: string,
-    csErrorHandler?: (scene: string, line: integer, message: string) => void,
-    statusCallback?: (running: boolean) => void,
-): void {
-    if (imagePath === undefined) {
-        imagePath = ".";
-    }
-    const args = [csPath, scenePath, "", imagePath];
-    runTest(
-        "Quicktest",
-        testScriptPath,
-        args,
-        outputChannel,
-        csErrorHandler,
-        statusCallback,
-    );
-}
-
 /**
  * Run ChoiceScript's Randomtest.
  *
@@ -402,6 +374,8 @@ export function runQuicktest(
  * @param provider Provider to generate log documents.
  * @param csErrorHandler Optional handler for if the test finds an error.
  * @param statusCallback Optional callback for when tests are running or not.
+ * @param testCountCallback Optional callback for the count of random tests.
+ * @param coverageHandler Optional handler for line coverage statistics, if the test generates them.
  */
 export async function runRandomtest(
     testScriptPath: string,
@@ -412,6 +386,7 @@ export async function runRandomtest(
     csErrorHandler?: (scene: string, line: integer, message: string) => void,
     statusCallback?: (running: boolean) => void,
     testCountCallback?: (count: integer) => void,
+    coverageHandler?: (coverage: Map<string, SceneCoverage>) => void,
 ): Promise<void> {
     const settings = await getRandomtestSettings(source);
     const args = [
@@ -443,6 +418,11 @@ export async function runRandomtest(
         csErrorHandler,
         statusCallback,
         testCountCallback,
+        undefined,
+        settings.showCoverage && coverageHandler !== undefined
+            ? (testOutput) =>
+                  coverageHandler(parseRandomtestCoverage(testOutput))
+            : undefined,
     );
 }
 
@@ -457,6 +437,7 @@ export async function runRandomtest(
  * @param statusCallback Optional callback for when tests are running or not.
  * @param testCountCallback Optional callback for the count of random tests.
  * @param successCallback Optional callback after a test for whether it succeeded or not.
+ * @param outputHandler Optional handler for the test's full output if it succeeds.
  */
 function runTest(
     testName: string,
@@ -467,8 +448,10 @@ function runTest(
     statusCallback?: (running: boolean) => void,
     testCountCallback?: (count: integer) => void,
     successCallback?: (running: boolean) => void,
+    outputHandler?: (testOutput: string) => void,
 ) {
     let lastLine: string;
+    let fullOutput = "";
 
     if (runningProcess !== undefined) {
         vscode.window.showErrorMessage("A test is already running");
@@ -492,6 +475,9 @@ function runTest(
     runningProcess.stdout?.setEncoding("utf-8");
     runningProcess.stdout?.on("data", (data: Buffer) => {
         lastLine = data.toString();
+        if (outputHandler !== undefined) {
+            fullOutput += lastLine;
+        }
         // We need to get rid of at most one carriage return at the end of the line, to handle
         // the corner case where the incoming line ends with a blank line (trimEnd() would
         // get rid of both \n's in that case)
@@ -547,6 +533,9 @@ function runTest(
             if (code == 0) {
                 vscode.window.setStatusBarMessage(`${testName} passed`, 5000);
                 success = true;
+                if (outputHandler !== undefined) {
+                    outputHandler(fullOutput);
+                }
             } else if (signal == "SIGTERM") {
                 vscode.window.setStatusBarMessage(`${testName} stopped`, 5000);
             } else {
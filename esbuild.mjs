@@ -71,6 +71,12 @@ const builds = [
         entryPoints: ["server/src/node/server.ts"],
         outfile: "server/dist/node/server.js",
     },
+    {
+        ...nodeOptions,
+        entryPoints: ["server/src/node/cli.ts"],
+        outfile: "server/dist/node/cli.js",
+        banner: { js: "#!/usr/bin/env node" },
+    },
     {
         ...webOptions,
         entryPoints: ["server/src/web/server.ts"],
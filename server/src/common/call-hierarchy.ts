@@ -0,0 +1,324 @@
+import {
+    type CallHierarchyIncomingCall,
+    type CallHierarchyItem,
+    type CallHierarchyOutgoingCall,
+    type Position,
+    Range,
+    SymbolKind,
+} from "vscode-languageserver";
+
+import type { FlowControlEvent, Label, ProjectIndex } from "./index";
+import { sceneFromUri } from "./language";
+import { SymbolType, findDefinitions } from "./searches";
+
+/**
+ * Commands that call a subroutine.
+ */
+const subroutineCommandsLookup: ReadonlyMap<string, number> = new Map(
+    ["gosub", "gosub_scene"].map((x) => [x, 1]),
+);
+/**
+ * Commands that jump to a label or scene without returning.
+ */
+const gotoCommandsLookup: ReadonlyMap<string, number> = new Map(
+    ["goto", "goto_scene"].map((x) => [x, 1]),
+);
+
+/**
+ * Settings that control the call hierarchy.
+ */
+export interface CallHierarchySettings {
+    /**
+     * Whether to include *goto and *goto_scene jumps as calls.
+     */
+    includeGotos: boolean;
+}
+
+/**
+ * Data stored in a call hierarchy item.
+ */
+interface RoutineData {
+    /**
+     * Label that starts the routine, or "" for the start of the scene.
+     */
+    label: string;
+}
+
+/**
+ * A routine in a scene: either the section of the scene after a label, or the scene's start.
+ */
+interface Routine {
+    uri: string;
+    label?: Label;
+}
+
+/**
+ * Get a scene's labels in document order.
+ * @param uri Scene's URI.
+ * @param projectIndex Project index.
+ */
+function getSortedLabels(uri: string, projectIndex: ProjectIndex): Label[] {
+    return Array.from(projectIndex.getLabels(uri).values()).sort(
+        (a, b) => a.location.range.start.line - b.location.range.start.line,
+    );
+}
+
+/**
+ * Find the routine that contains a line in a scene.
+ * @param uri Scene's URI.
+ * @param line Line in the scene.
+ * @param labels Scene's labels in document order.
+ */
+function findContainingRoutine(
+    uri: string,
+    line: number,
+    labels: readonly Label[],
+): Routine {
+    let containing: Label | undefined;
+    for (const label of labels) {
+        if (label.location.range.start.line > line) {
+            break;
+        }
+        containing = label;
+    }
+    return { uri: uri, label: containing };
+}
+
+/**
+ * Create a call hierarchy item for a routine.
+ * @param routine Routine.
+ */
+function createItem(routine: Routine): CallHierarchyItem {
+    const scene = sceneFromUri(routine.uri) ?? routine.uri;
+    const data: RoutineData = { label: routine.label?.label ?? "" };
+    if (routine.label === undefined) {
+        const range = Range.create(0, 0, 0, 0);
+        return {
+            name: scene,
+            kind: SymbolKind.File,
+            uri: routine.uri,
+            range: range,
+            selectionRange: range,
+            data: data,
+        };
+    }
+    const location = routine.label.location;
+    return {
+        name: routine.label.label,
+        kind: SymbolKind.Function,
+        detail: scene,
+        uri: routine.uri,
+        range: Range.create(
+            location.range.start.line,
+            0,
+            location.range.end.line,
+            location.range.end.character,
+        ),
+        selectionRange: location.range,
+        data: data,
+    };
+}
+
+/**
+ * Find the routine a call hierarchy item refers to.
+ * @param item Call hierarchy item.
+ * @param projectIndex Project index.
+ * @returns The routine, or undefined if its label no longer exists.
+ */
+function routineFromItem(
+    item: CallHierarchyItem,
+    projectIndex: ProjectIndex,
+): Routine | undefined {
+    const label = (item.data as RoutineData | undefined)?.label ?? "";
+    if (label == "") {
+        return { uri: item.uri };
+    }
+    const labelInfo = projectIndex.getLabels(item.uri).get(label);
+    return labelInfo !== undefined
+        ? { uri: item.uri, label: labelInfo }
+        : undefined;
+}
+
+/**
+ * Determine if a flow control event is a call we're interested in.
+ * @param event Flow control event.
+ * @param settings Call hierarchy settings.
+ */
+function isCall(
+    event: FlowControlEvent,
+    settings: CallHierarchySettings,
+): boolean {
+    // Skip computed labels and scenes, since we can't know where they go
+    if (event.label.includes("{") || event.scene.includes("{")) {
+        return false;
+    }
+    // Commands that aren't scene commands need a label to go anywhere
+    if (event.scene == "" && event.label == "") {
+        return false;
+    }
+    return (
+        subroutineCommandsLookup.has(event.command) ||
+        (settings.includeGotos && gotoCommandsLookup.has(event.command))
+    );
+}
+
+/**
+ * Find the range of a call to highlight.
+ * @param event Flow control event for the call.
+ */
+function callRange(event: FlowControlEvent): Range {
+    return (event.labelLocation ?? event.sceneLocation ?? event.commandLocation)
+        .range;
+}
+
+/**
+ * Find the routine at a position in a document.
+ *
+ * If the position is on a label or scene name, that label or scene is the
+ * routine. Otherwise it's the label section that contains the position.
+ * @param documentUri Document's normalized URI.
+ * @param position Position in the document.
+ * @param projectIndex Project index.
+ * @returns Call hierarchy items for the routine.
+ */
+export function prepareCallHierarchy(
+    documentUri: string,
+    position: Position,
+    projectIndex: ProjectIndex,
+): CallHierarchyItem[] {
+    const definition = findDefinitions(
+        documentUri,
+        position,
+        projectIndex,
+    )?.[0];
+    if (definition?.type == SymbolType.Label) {
+        const label = projectIndex
+            .getLabels(definition.location.uri)
+            .get(definition.symbol);
+        if (label !== undefined) {
+            return [createItem({ uri: definition.location.uri, label: label })];
+        }
+    } else if (definition?.type == SymbolType.Scene) {
+        return [createItem({ uri: definition.location.uri })];
+    }
+
+    return [
+        createItem(
+            findContainingRoutine(
+                documentUri,
+                position.line,
+                getSortedLabels(documentUri, projectIndex),
+            ),
+        ),
+    ];
+}
+
+/**
+ * Find the routines that call a routine.
+ * @param item Call hierarchy item for the called routine.
+ * @param projectIndex Project index.
+ * @param settings Call hierarchy settings.
+ * @returns The routines that call it, along with where they make the calls.
+ */
+export function generateIncomingCalls(
+    item: CallHierarchyItem,
+    projectIndex: ProjectIndex,
+    settings: CallHierarchySettings,
+): CallHierarchyIncomingCall[] {
+    const routine = routineFromItem(item, projectIndex);
+    if (routine === undefined) {
+        return [];
+    }
+    const targetLabel = routine.label?.label ?? "";
+
+    const calls: Map<string, CallHierarchyIncomingCall> = new Map();
+    for (const scene of projectIndex.getIndexedScenes()) {
+        const uri = projectIndex.getSceneUri(scene);
+        if (uri === undefined) {
+            continue;
+        }
+        let labels: Label[] | undefined;
+        for (const event of projectIndex.getFlowControlEvents(uri)) {
+            const eventUri =
+                event.scene == "" ? uri : projectIndex.getSceneUri(event.scene);
+            if (
+                !isCall(event, settings) ||
+                event.label != targetLabel ||
+                eventUri != routine.uri
+            ) {
+                continue;
+            }
+            labels ??= getSortedLabels(uri, projectIndex);
+            const caller = findContainingRoutine(
+                uri,
+                event.commandLocation.range.start.line,
+                labels,
+            );
+            const key = `${uri}#${caller.label?.label ?? ""}`;
+            let call = calls.get(key);
+            if (call === undefined) {
+                call = { from: createItem(caller), fromRanges: [] };
+                calls.set(key, call);
+            }
+            call.fromRanges.push(callRange(event));
+        }
+    }
+
+    return Array.from(calls.values());
+}
+
+/**
+ * Find the routines that a routine calls.
+ * @param item Call hierarchy item for the calling routine.
+ * @param projectIndex Project index.
+ * @param settings Call hierarchy settings.
+ * @returns The routines that it calls, along with where it makes the calls.
+ */
+export function generateOutgoingCalls(
+    item: CallHierarchyItem,
+    projectIndex: ProjectIndex,
+    settings: CallHierarchySettings,
+): CallHierarchyOutgoingCall[] {
+    const routine = routineFromItem(item, projectIndex);
+    if (routine === undefined) {
+        return [];
+    }
+    const labels = getSortedLabels(routine.uri, projectIndex);
+    const startLine = routine.label?.location.range.start.line ?? -1;
+    const nextLabel = labels.find(
+        (label) => label.location.range.start.line > startLine,
+    );
+    const endLine = nextLabel?.location.range.start.line ?? Infinity;
+
+    const calls: Map<string, CallHierarchyOutgoingCall> = new Map();
+    for (const event of projectIndex.getFlowControlEvents(routine.uri)) {
+        const line = event.commandLocation.range.start.line;
+        if (line < startLine || line >= endLine || !isCall(event, settings)) {
+            continue;
+        }
+        const uri =
+            event.scene == ""
+                ? routine.uri
+                : projectIndex.getSceneUri(event.scene);
+        if (uri === undefined || !projectIndex.hasUri(uri)) {
+            continue;
+        }
+        let callee: Routine = { uri: uri };
+        if (event.label != "") {
+            const label = projectIndex.getLabels(uri).get(event.label);
+            if (label === undefined) {
+                continue;
+            }
+            callee = { uri: uri, label: label };
+        }
+        const key = `${uri}#${event.label}`;
+        let call = calls.get(key);
+        if (call === undefined) {
+            call = { to: createItem(callee), fromRanges: [] };
+            calls.set(key, call);
+        }
+        call.fromRanges.push(callRange(event));
+    }
+
+    return Array.from(calls.values());
+}
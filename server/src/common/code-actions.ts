@@ -0,0 +1,328 @@
+import {
+    type CodeAction,
+    CodeActionKind,
+    type Diagnostic,
+    Position,
+    TextEdit,
+    type WorkspaceEdit,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+import {
+    type BannedPhraseData,
+    type DiagnosticCode,
+    DiagnosticCodes,
+    type LabelNotFoundData,
+    type SwitchedToTabsData,
+    type VariableNotDefinedData,
+} from "./diagnostics";
+import type { ProjectIndex } from "./index";
+import { sceneFromUri } from "./language";
+import { normalizeUri } from "./utilities";
+
+/**
+ * Number of spaces assumed to equal a tab when we can't tell.
+ */
+const defaultTabSize = 4;
+
+/**
+ * Function that generates quick fixes for a diagnostic.
+ */
+type QuickFixGenerator = (
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+) => CodeAction[];
+
+/**
+ * Create a quick fix code action.
+ * @param title Title of the fix.
+ * @param diagnostic Diagnostic that the fix addresses.
+ * @param uri URI of the document to edit.
+ * @param edits Edits to make to that document.
+ * @param isPreferred True if this is the preferred fix for the diagnostic.
+ */
+function createQuickFix(
+    title: string,
+    diagnostic: Diagnostic,
+    uri: string,
+    edits: TextEdit[],
+    isPreferred = false,
+): CodeAction {
+    const edit: WorkspaceEdit = { changes: { [uri]: edits } };
+    const action: CodeAction = {
+        title: title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: edit,
+    };
+    if (isPreferred) {
+        action.isPreferred = true;
+    }
+    return action;
+}
+
+/**
+ * Generate a fix that swaps ASCII punctuation for its Unicode equivalent.
+ * @param ascii ASCII version of the punctuation.
+ * @param unicode Unicode version of the punctuation.
+ * @param name Name of the punctuation for the fix's title.
+ */
+function unicodePunctuationFix(
+    ascii: string,
+    unicode: string,
+    name: string,
+): QuickFixGenerator {
+    return (diagnostic, textDocument) => {
+        const text = textDocument.getText(diagnostic.range);
+        return [
+            createQuickFix(
+                `Replace with ${name} (${unicode})`,
+                diagnostic,
+                textDocument.uri,
+                [
+                    TextEdit.replace(
+                        diagnostic.range,
+                        text.replace(ascii, unicode),
+                    ),
+                ],
+                true,
+            ),
+        ];
+    };
+}
+
+/**
+ * Generate a fix that swaps a banned phrase for the style guide's replacement.
+ * @param diagnostic Banned phrase diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ */
+function bannedPhraseFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+): CodeAction[] {
+    const data = diagnostic.data as BannedPhraseData | undefined;
+    if (data === undefined) {
+        return [];
+    }
+    return [
+        createQuickFix(
+            `Replace with "${data.replacement}"`,
+            diagnostic,
+            textDocument.uri,
+            [TextEdit.replace(diagnostic.range, data.replacement)],
+            true,
+        ),
+    ];
+}
+
+/**
+ * Generate fixes that create an undefined variable.
+ * @param diagnostic Variable-not-defined diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ * @param projectIndex Project index.
+ */
+function createVariableFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+): CodeAction[] {
+    const data = diagnostic.data as VariableNotDefinedData | undefined;
+    if (data?.variable === undefined) {
+        return [];
+    }
+    const actions: CodeAction[] = [];
+
+    // Add a *create after the last existing one in startup.txt
+    const startupUri = projectIndex.getSceneUri("startup");
+    if (startupUri !== undefined) {
+        let line = 0;
+        for (const location of projectIndex.getGlobalVariables().values()) {
+            line = Math.max(line, location.range.start.line + 1);
+        }
+        actions.push(
+            createQuickFix(
+                `Create global variable "${data.variable}" in startup.txt`,
+                diagnostic,
+                startupUri,
+                [
+                    TextEdit.insert(
+                        Position.create(line, 0),
+                        `*create ${data.variable} 0\n`,
+                    ),
+                ],
+            ),
+        );
+    }
+
+    // Add a *temp to the top of the scene, unless we're in startup.txt (where it'd
+    // come before the *create commands)
+    if (!projectIndex.isStartupFileUri(normalizeUri(textDocument.uri))) {
+        actions.push(
+            createQuickFix(
+                `Create temporary variable "${data.variable}" in this scene`,
+                diagnostic,
+                textDocument.uri,
+                [
+                    TextEdit.insert(
+                        Position.create(0, 0),
+                        `*temp ${data.variable} 0\n`,
+                    ),
+                ],
+            ),
+        );
+    }
+
+    return actions;
+}
+
+/**
+ * Generate a fix that creates a missing label at the end of the current scene.
+ *
+ * Labels missing from other scenes aren't fixed, as we don't have those scenes' contents.
+ * @param diagnostic Label-not-found diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ */
+function createLabelFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+): CodeAction[] {
+    const data = diagnostic.data as LabelNotFoundData | undefined;
+    if (data?.label === undefined) {
+        return [];
+    }
+    if (
+        data.scene !== undefined &&
+        data.scene != "" &&
+        data.scene != sceneFromUri(textDocument.uri)
+    ) {
+        return [];
+    }
+
+    const text = textDocument.getText();
+    const end = textDocument.positionAt(text.length);
+    const prefix = text == "" || text.endsWith("\n") ? "" : "\n";
+    return [
+        createQuickFix(
+            `Create label "${data.label}" at the end of this scene`,
+            diagnostic,
+            textDocument.uri,
+            [TextEdit.insert(end, `${prefix}*label ${data.label}\n`)],
+        ),
+    ];
+}
+
+/**
+ * Generate a fix that wraps an expression in parentheses.
+ * @param diagnostic Missing-parentheses diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ */
+function wrapInParenthesesFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+): CodeAction[] {
+    const text = textDocument.getText(diagnostic.range);
+    return [
+        createQuickFix(
+            "Wrap in parentheses",
+            diagnostic,
+            textDocument.uri,
+            [TextEdit.replace(diagnostic.range, `(${text})`)],
+            true,
+        ),
+    ];
+}
+
+/**
+ * Generate a fix that converts space indents to tabs.
+ * @param diagnostic Switched-to-spaces diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ */
+function spacesToTabsFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+): CodeAction[] {
+    const text = textDocument.getText(diagnostic.range);
+    const newText = text.replace(/ +/g, (spaces) =>
+        "\t".repeat(Math.ceil(spaces.length / defaultTabSize)),
+    );
+    return [
+        createQuickFix(
+            "Convert indent to tabs",
+            diagnostic,
+            textDocument.uri,
+            [TextEdit.replace(diagnostic.range, newText)],
+            true,
+        ),
+    ];
+}
+
+/**
+ * Generate a fix that converts tab indents to spaces.
+ * @param diagnostic Switched-to-tabs diagnostic.
+ * @param textDocument Document containing the diagnostic.
+ */
+function tabsToSpacesFixes(
+    diagnostic: Diagnostic,
+    textDocument: TextDocument,
+): CodeAction[] {
+    const data = diagnostic.data as SwitchedToTabsData | undefined;
+    const indent = data?.indent ?? " ".repeat(defaultTabSize);
+    const text = textDocument.getText(diagnostic.range);
+    return [
+        createQuickFix(
+            "Convert indent to spaces",
+            diagnostic,
+            textDocument.uri,
+            [TextEdit.replace(diagnostic.range, text.replace(/\t/g, indent))],
+            true,
+        ),
+    ];
+}
+
+const quickFixGenerators: ReadonlyMap<DiagnosticCode, QuickFixGenerator> =
+    new Map<DiagnosticCode, QuickFixGenerator>([
+        [
+            DiagnosticCodes.UnicodeEllipsisRequired,
+            unicodePunctuationFix("...", "…", "ellipsis"),
+        ],
+        [
+            DiagnosticCodes.UnicodeEmDashRequired,
+            unicodePunctuationFix("--", "—", "em-dash"),
+        ],
+        [DiagnosticCodes.BannedPhrase, bannedPhraseFixes],
+        [DiagnosticCodes.VariableNotDefined, createVariableFixes],
+        [DiagnosticCodes.LabelNotFound, createLabelFixes],
+        [DiagnosticCodes.MissingParentheses, wrapInParenthesesFixes],
+        [DiagnosticCodes.SwitchedToSpaces, spacesToTabsFixes],
+        [DiagnosticCodes.SwitchedToTabs, tabsToSpacesFixes],
+    ]);
+
+/**
+ * Generate quick fixes for ChoiceScript diagnostics.
+ * @param textDocument Document the diagnostics apply to.
+ * @param diagnostics Diagnostics to generate fixes for.
+ * @param projectIndex Project index.
+ * @returns List of quick fix code actions.
+ */
+export function generateCodeActions(
+    textDocument: TextDocument,
+    diagnostics: Diagnostic[],
+    projectIndex: ProjectIndex,
+): CodeAction[] {
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.source != "ChoiceScript") {
+            continue;
+        }
+        const generator = quickFixGenerators.get(
+            diagnostic.code as DiagnosticCode,
+        );
+        if (generator !== undefined) {
+            actions.push(...generator(diagnostic, textDocument, projectIndex));
+        }
+    }
+
+    return actions;
+}
@@ -0,0 +1,126 @@
+import { type CodeLens, type Location } from "vscode-languageserver";
+
+import { CustomCommands } from "./constants";
+import type { ProjectIndex } from "./index";
+import { sceneFromUri, uriIsStartupFile } from "./language";
+
+/**
+ * Describe how many references a symbol has and how many scenes they're in.
+ * @param references References to the symbol.
+ */
+function describeReferences(references: readonly Location[]): string {
+    const count = references.length;
+    const sceneCount = new Set(references.map((r) => r.uri)).size;
+    return `${count} reference${count == 1 ? "" : "s"} · ${sceneCount} scene${sceneCount == 1 ? "" : "s"}`;
+}
+
+/**
+ * Find the references to a label in a document.
+ *
+ * Only local *goto and *gosub commands and *goto_scene and *gosub_scene commands
+ * that name the document's scene refer to the label, not references to
+ * same-named labels in other scenes.
+ * @param label Label's name.
+ * @param documentUri Normalized URI of the document the label is in.
+ * @param projectIndex Project index.
+ */
+function findLabelReferences(
+    label: string,
+    documentUri: string,
+    projectIndex: ProjectIndex,
+): Location[] {
+    const references: Location[] = [];
+    const referringUris = new Set(
+        projectIndex.getLabelReferences(label).map((location) => location.uri),
+    );
+    for (const uri of referringUris) {
+        for (const event of projectIndex.getFlowControlEvents(uri)) {
+            if (event.labelLocation === undefined || event.label != label) {
+                continue;
+            }
+            const targetUri =
+                event.scene == "" ? uri : projectIndex.getSceneUri(event.scene);
+            if (targetUri == documentUri) {
+                references.push(event.labelLocation);
+            }
+        }
+    }
+    return references;
+}
+
+/**
+ * Create a code lens that shows a symbol's references when clicked.
+ * @param location Location of the symbol's definition.
+ * @param references References to the symbol.
+ */
+function createReferencesLens(
+    location: Location,
+    references: readonly Location[],
+): CodeLens {
+    return {
+        range: location.range,
+        command: {
+            title: describeReferences(references),
+            command: CustomCommands.ShowReferences,
+            arguments: [location.uri, location.range.start, references],
+        },
+    };
+}
+
+/**
+ * Generate code lenses for a document.
+ *
+ * Labels, and the global variables and achievements created in the startup
+ * file, get a lens with their reference count. Labels also get a lens that runs
+ * the game starting at that label.
+ * @param documentUri Document's normalized URI.
+ * @param projectIndex Project index.
+ * @returns Code lenses.
+ */
+export function generateCodeLenses(
+    documentUri: string,
+    projectIndex: ProjectIndex,
+): CodeLens[] {
+    const lenses: CodeLens[] = [];
+    const scene = sceneFromUri(documentUri);
+
+    for (const label of projectIndex.getLabels(documentUri).values()) {
+        lenses.push(
+            createReferencesLens(
+                label.location,
+                findLabelReferences(label.label, documentUri, projectIndex),
+            ),
+        );
+        if (scene !== undefined) {
+            lenses.push({
+                range: label.location.range,
+                command: {
+                    title: "Run game from here",
+                    command: CustomCommands.RunGameFromHere,
+                    arguments: [scene, label.label],
+                },
+            });
+        }
+    }
+
+    if (uriIsStartupFile(documentUri)) {
+        for (const [variable, location] of projectIndex.getGlobalVariables()) {
+            lenses.push(
+                createReferencesLens(
+                    location,
+                    projectIndex.getVariableReferences(variable),
+                ),
+            );
+        }
+        for (const [codename, [location]] of projectIndex.getAchievements()) {
+            lenses.push(
+                createReferencesLens(
+                    location,
+                    projectIndex.getAchievementReferences(codename),
+                ),
+            );
+        }
+    }
+
+    return lenses;
+}
@@ -10,7 +10,9 @@ import {
 import type { TextDocument } from "vscode-languageserver-textdocument";
 
 import type {
+    ArrayDefinition,
     ProjectIndex,
+    ReadonlyArrayIndex,
     IdentifierIndex,
     ReadonlyIdentifierIndex,
     ReadonlyLabelIndex,
@@ -23,6 +25,7 @@ import {
     uriIsStartupFile,
 } from "./language";
 import {
+    caseInsensitiveMapToMap,
     extractToMatchingDelimiter,
     comparePositions,
     normalizeUri,
@@ -62,6 +65,55 @@ function generateCompletionsFromIndex(
     );
 }
 
+/**
+ * Generate completions for an array and its elements' variables.
+ * @param array Name of the array.
+ * @param definition Array's definition.
+ * @param dataDescription Description of where the array comes from.
+ * @returns Completion items.
+ */
+function generateArrayCompletions(
+    array: string,
+    definition: ArrayDefinition,
+    dataDescription: string,
+): CompletionItem[] {
+    const names = [array, `${array}_count`];
+    for (let i = 1; i <= (definition.length ?? 0); i++) {
+        names.push(`${array}_${i}`);
+    }
+    return generateCompletionsFromArray(
+        names,
+        CompletionItemKind.Variable,
+        dataDescription,
+    );
+}
+
+/**
+ * Generate completions for arrays that exist at a position in a document.
+ * @param arrays Index of arrays.
+ * @param position Cursor position in the document, or undefined if the arrays exist everywhere.
+ * @param dataDescription Description of where the arrays come from.
+ * @returns Completion items.
+ */
+function generateCompletionsFromArrayIndex(
+    arrays: ReadonlyArrayIndex,
+    position: Position | undefined,
+    dataDescription: string,
+): CompletionItem[] {
+    const completions: CompletionItem[] = [];
+    for (const [array, definition] of caseInsensitiveMapToMap(arrays)) {
+        if (
+            position === undefined ||
+            comparePositions(definition.location.range.end, position) <= 0
+        ) {
+            completions.push(
+                ...generateArrayCompletions(array, definition, dataDescription),
+            );
+        }
+    }
+    return completions;
+}
+
 /**
  * Generate completions for variables.
  * @param documentUri Document URI. (Normalize before calling!)
@@ -104,7 +156,7 @@ function generateVariableCompletions(
         },
     );
 
-    const completions = Array.from(
+    const completions: CompletionItem[] = Array.from(
         iteratorMap(
             availableVariablesGenerator,
             ([variable, location]: [string, readonly Location[]]) => ({
@@ -132,6 +184,20 @@ function generateVariableCompletions(
         ),
     );
 
+    // Arrays can be referenced by name, like arr[1], or through their elements' variables
+    completions.push(
+        ...generateCompletionsFromArrayIndex(
+            projectIndex.getLocalArrays(documentUri),
+            position,
+            "array-local",
+        ),
+        ...generateCompletionsFromArrayIndex(
+            projectIndex.getGlobalArrays(),
+            undefined,
+            "array-global",
+        ),
+    );
+
     let includeAchievements = false;
     for (const scope of projectIndex.getDocumentScopes(documentUri)
         .achievementVarScopes) {
@@ -278,6 +344,17 @@ export function generateInitialCompletions(
                         );
                         break;
 
+                    case "create_array":
+                    case "temp_array":
+                        if (tokens.length > 3) {
+                            completions = generateVariableCompletions(
+                                documentUri,
+                                position,
+                                projectIndex,
+                            );
+                        }
+                        break;
+
                     case "create":
                     case "temp":
                         if (tokens.length > 2) {
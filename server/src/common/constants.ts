@@ -1,8 +1,16 @@
+export enum CustomCommands {
+    RunGameFromHere = "choicescript.runGameFromHere",
+    ShowReferences = "choicescript.showReferences",
+}
+
 export enum CustomMessages {
     AllowUnsafeScript = "choicescript/allowUnsafeScript",
+    CallHierarchyGotos = "choicescript/callHierarchyGotos",
     CoGStyleGuide = "choicescript/cogStyleGuide",
     DebugMessage = "choicescript/debugMessage",
+    DiagnosticSeverities = "choicescript/diagnosticSeverities",
     ProjectIndexed = "choicescript/projectIndexed",
+    StyleGuide = "choicescript/styleGuide",
     UpdatedSceneFilesPath = "choicescript/sceneFilespath",
     UpdatedImageFilesPath = "choicescript/imageFilespath",
     UpdatedWordCount = "choicescript/updatedWordCount",
@@ -12,8 +20,13 @@ export enum CustomRequests {
     FileContent = "fs/content",
     FileExists = "fs/fileExists",
     FindFiles = "fs/findFiles",
+    FlowGraph = "choicescript/flowGraph",
+    Quicktest = "choicescript/quicktest",
     SelectionWordCount = "choicescript/selectionWordCount",
     WordCount = "choicescript/wordCount",
 }
 
 export type AllowUnsafeScriptOption = "never" | "warn" | "allow";
+
+export type DiagnosticSeverityOption =
+    "error" | "warning" | "info" | "hint" | "off";
@@ -0,0 +1,162 @@
+import type { ProjectIndex } from "./index";
+import { sceneFromUri } from "./language";
+
+/**
+ * Symbols a document defines or references, keyed by the symbol's kind and
+ * name. The value describes the symbol as the document sees it, so that
+ * changes like a variable's type or a label's *params can be detected.
+ */
+type DocumentSymbols = Map<string, string>;
+
+/**
+ * Find the symbols a document shares with other documents.
+ * @param uri Document's normalized URI.
+ * @param projectIndex Index of the project the document belongs to.
+ */
+function findDocumentSymbols(
+    uri: string,
+    projectIndex: ProjectIndex,
+): DocumentSymbols {
+    const symbols: DocumentSymbols = new Map();
+    const scene = sceneFromUri(uri) ?? uri;
+
+    // References
+    for (const variable of projectIndex
+        .getDocumentVariableReferences(uri)
+        .keys()) {
+        symbols.set(
+            `variable:${variable.toLowerCase()}`,
+            `${projectIndex.getVariableType(variable, uri) ?? ""}`,
+        );
+    }
+    for (const array of projectIndex.getDocumentArrayReferences(uri).keys()) {
+        symbols.set(`array:${array.toLowerCase()}`, "");
+    }
+    for (const achievement of projectIndex
+        .getDocumentAchievementReferences(uri)
+        .keys()) {
+        symbols.set(`achievement:${achievement.toLowerCase()}`, "");
+    }
+    for (const event of projectIndex.getFlowControlEvents(uri)) {
+        const targetScene = event.scene != "" ? event.scene : scene;
+        if (event.scene != "") {
+            symbols.set(`scene:${targetScene}`, "");
+        }
+        if (event.label != "") {
+            symbols.set(`label:${targetScene}.${event.label}`, "");
+        }
+    }
+
+    // Definitions
+    symbols.set(
+        `scene:${scene}`,
+        `defined|${projectIndex.getSceneParams(uri)?.join(" ") ?? ""}`,
+    );
+    for (const label of projectIndex.getLabels(uri).values()) {
+        symbols.set(
+            `label:${scene}.${label.label}`,
+            `defined|${label.params?.join(" ") ?? ""}`,
+        );
+    }
+    if (projectIndex.isStartupFileUri(uri)) {
+        for (const variable of projectIndex.getGlobalVariables().keys()) {
+            symbols.set(
+                `variable:${variable.toLowerCase()}`,
+                `defined|${projectIndex.getVariableType(variable, uri) ?? ""}`,
+            );
+        }
+        for (const [array, definition] of projectIndex.getGlobalArrays()) {
+            symbols.set(
+                `array:${array.toLowerCase()}`,
+                `defined|${definition.length ?? ""}`,
+            );
+        }
+        for (const achievement of projectIndex.getAchievements().keys()) {
+            symbols.set(`achievement:${achievement.toLowerCase()}`, "defined");
+        }
+        projectIndex.getSceneList().forEach((listedScene, i) => {
+            symbols.set(`scene:${listedScene}`, `listed|${i}`);
+        });
+    }
+
+    return symbols;
+}
+
+/**
+ * Tracks which symbols each document defines and references, so that when a
+ * document changes, only the documents that depend on what changed need to
+ * be re-validated.
+ */
+export class DependencyGraph {
+    private _documentSymbols: Map<string, DocumentSymbols>;
+
+    constructor() {
+        this._documentSymbols = new Map();
+    }
+
+    /**
+     * Update a document's symbols from the project index.
+     * @param uri Document's normalized URI.
+     * @param projectIndex Index of the project the document belongs to.
+     * @returns Symbols that the document added, removed, or changed. If the document
+     * hasn't been seen before, all of its symbols are considered changed.
+     */
+    updateDocument(uri: string, projectIndex: ProjectIndex): Set<string> {
+        const oldSymbols = this._documentSymbols.get(uri) ?? new Map();
+        const newSymbols = findDocumentSymbols(uri, projectIndex);
+        this._documentSymbols.set(uri, newSymbols);
+
+        const changed: Set<string> = new Set();
+        for (const [symbol, description] of newSymbols) {
+            if (oldSymbols.get(symbol) !== description) {
+                changed.add(symbol);
+            }
+        }
+        for (const symbol of oldSymbols.keys()) {
+            if (!newSymbols.has(symbol)) {
+                changed.add(symbol);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Find the documents that define or reference any of a set of symbols.
+     * @param symbols Symbols to look for.
+     * @returns Normalized URIs of the documents.
+     */
+    findDependentDocuments(symbols: ReadonlySet<string>): string[] {
+        if (symbols.size == 0) {
+            return [];
+        }
+        const uris: string[] = [];
+        for (const [uri, documentSymbols] of this._documentSymbols) {
+            for (const symbol of documentSymbols.keys()) {
+                if (symbols.has(symbol)) {
+                    uris.push(uri);
+                    break;
+                }
+            }
+        }
+        return uris;
+    }
+
+    /**
+     * Get the documents whose symbols are being tracked.
+     * @returns The documents' normalized URIs.
+     */
+    getDocuments(): string[] {
+        return [...this._documentSymbols.keys()];
+    }
+
+    /**
+     * Forget a document's symbols.
+     * @param uri Document's normalized URI.
+     * @returns Symbols that the document defined or referenced.
+     */
+    removeDocument(uri: string): Set<string> {
+        const symbols = new Set(this._documentSymbols.get(uri)?.keys() ?? []);
+        this._documentSymbols.delete(uri);
+        return symbols;
+    }
+}
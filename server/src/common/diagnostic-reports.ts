@@ -0,0 +1,145 @@
+import {
+    type Diagnostic,
+    type FullDocumentDiagnosticReport,
+    type UnchangedDocumentDiagnosticReport,
+    DocumentDiagnosticReportKind,
+} from "vscode-languageserver";
+
+/**
+ * A scene's diagnostics as last given to the client.
+ */
+export interface DiagnosticReport {
+    resultId: string;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Create the report to send a client that pulls diagnostics.
+ * @param report Scene's current diagnostic report.
+ * @param previousResultId ID of the report the client already has, if any.
+ * @returns An unchanged report if the client already has the diagnostics, or a full report otherwise.
+ */
+export function createDocumentReport(
+    report: DiagnosticReport,
+    previousResultId: string | undefined,
+): FullDocumentDiagnosticReport | UnchangedDocumentDiagnosticReport {
+    if (report.resultId == previousResultId) {
+        return {
+            kind: DocumentDiagnosticReportKind.Unchanged,
+            resultId: report.resultId,
+        };
+    }
+    return {
+        kind: DocumentDiagnosticReportKind.Full,
+        resultId: report.resultId,
+        items: report.diagnostics,
+    };
+}
+
+/**
+ * Holds each scene's most recent diagnostics for clients that pull them, so that
+ * scenes whose diagnostics haven't changed can be reported as unchanged.
+ */
+export class DiagnosticReportCache {
+    private _reports: Map<string, DiagnosticReport>;
+    private _staleUris: Set<string>;
+    private _removedUris: Set<string>;
+    private _nextResultId: number;
+    private _needsRefresh: boolean;
+
+    constructor() {
+        this._reports = new Map();
+        this._staleUris = new Set();
+        this._removedUris = new Set();
+        this._nextResultId = 1;
+        this._needsRefresh = false;
+    }
+
+    /**
+     * Store a scene's newly-generated diagnostics.
+     * @param uri Scene's normalized URI.
+     * @param diagnostics The scene's diagnostics.
+     * @returns The diagnostics' report ID, which is unchanged if the diagnostics are.
+     */
+    update(uri: string, diagnostics: Diagnostic[]): string {
+        this._staleUris.delete(uri);
+        this._removedUris.delete(uri);
+        // Keep the old ID if nothing changed so the client doesn't need the diagnostics again
+        const previousReport = this._reports.get(uri);
+        if (
+            previousReport !== undefined &&
+            JSON.stringify(previousReport.diagnostics) ==
+                JSON.stringify(diagnostics)
+        ) {
+            return previousReport.resultId;
+        }
+        const resultId = `${this._nextResultId++}`;
+        this._reports.set(uri, { resultId, diagnostics });
+        this._needsRefresh = true;
+        return resultId;
+    }
+
+    /**
+     * Note that a scene's diagnostics need to be re-generated.
+     * @param uri Scene's normalized URI.
+     */
+    markStale(uri: string): void {
+        this._staleUris.add(uri);
+        this._needsRefresh = true;
+    }
+
+    /**
+     * Get a scene's diagnostic report.
+     * @param uri Scene's normalized URI.
+     * @returns The report, or undefined if there isn't one or it's out of date.
+     */
+    getReport(uri: string): DiagnosticReport | undefined {
+        if (this._staleUris.has(uri)) {
+            return undefined;
+        }
+        return this._reports.get(uri);
+    }
+
+    /**
+     * Get the scenes that have diagnostic reports, whether or not they're out of date.
+     * @returns The scenes' normalized URIs.
+     */
+    getUris(): string[] {
+        return [...this._reports.keys()];
+    }
+
+    /**
+     * Forget a scene's diagnostic report.
+     *
+     * If the client had the scene's diagnostics, the scene is remembered until
+     * {@link takeRemovedUris} is called so that the client can be told to clear them.
+     * @param uri Scene's normalized URI.
+     */
+    remove(uri: string): void {
+        if (this._reports.delete(uri)) {
+            this._removedUris.add(uri);
+            this._needsRefresh = true;
+        }
+        this._staleUris.delete(uri);
+    }
+
+    /**
+     * Get the scenes whose reports were removed since the last call, and forget them.
+     * @returns The scenes' normalized URIs.
+     */
+    takeRemovedUris(): string[] {
+        const uris = [...this._removedUris];
+        this._removedUris.clear();
+        return uris;
+    }
+
+    /**
+     * Check whether any reports have changed or gone stale since the last check.
+     * @returns True if the client should be asked to pull diagnostics again.
+     */
+    checkNeedsRefresh(): boolean {
+        const needsRefresh = this._needsRefresh;
+        this._needsRefresh = false;
+        return needsRefresh;
+    }
+}
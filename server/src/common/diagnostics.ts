@@ -1,10 +1,12 @@
 import {
     DiagnosticSeverity,
     Diagnostic,
+    DiagnosticTag,
     Location,
 } from "vscode-languageserver";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 
+import type { DiagnosticSeverityOption } from "./constants";
 import { statChartCommands } from "./language";
 
 /**
@@ -19,6 +21,10 @@ interface DiagnosticMetadata {
      * Diagnostic severity. If omitted, `DiagnosticSeverity.Error` is used.
      */
     severity?: DiagnosticSeverity;
+    /**
+     * Diagnostic tags, if any.
+     */
+    tags?: DiagnosticTag[];
 }
 
 /**
@@ -27,6 +33,9 @@ interface DiagnosticMetadata {
 export const DiagnosticCodes = {
     AchievementAlreadyCreated: "achievement-already-created",
     AlwaysTrueExpression: "always-true-expression",
+    ArrayIndexNotNumber: "array-index-not-number",
+    ArrayIndexOutOfBounds: "array-index-out-of-bounds",
+    BannedPhrase: "banned-phrase",
     CapitalLettersWillBeLowercased: "capital-letters-will-be-lowercased",
     CommandNotOnItsOwnLine: "command-not-on-its-own-line",
     EmptyBlock: "empty-block",
@@ -63,6 +72,7 @@ export const DiagnosticCodes = {
     MissingAchievementPreEarnedDesc: "missing-pre-earned-desc",
     MissingAchievementTitle: "missing-achievement-title",
     MissingAchievementVisibility: "missing-achievement-visibility",
+    MissingAuthor: "missing-author",
     MissingButtonName: "missing-button-name",
     MissingCloseBrace: "missing-close-brace",
     MissingCloseQuote: "missing-close-quote",
@@ -76,6 +86,7 @@ export const DiagnosticCodes = {
     MissingMultipleGroupSuboptions: "missing-multiple-group-suboptions",
     MissingOptions: "missing-options",
     MissingParentheses: "missing-parentheses",
+    MissingSoundFile: "missing-sound-file",
     MissingSpaceAfterParens: "missing-space-after-parens",
     MissingSpaceAfterVariable: "missing-space-after-variable",
     MissingSpaceBeforeButtonName: "missing-space-before-button-name",
@@ -83,6 +94,7 @@ export const DiagnosticCodes = {
     MissingValueBeforeOperator: "missing-value-before-operator",
     MissingVariableName: "missing-variable-name",
     MissingVariableValue: "missing-variable-value",
+    MissingTitle: "missing-title",
     MixedTabsAndSpaces: "mixed-tabs-and-spaces",
     MustBeBooleanValue: "must-be-boolean-value",
     NestedMultireplace: "nested-multireplace",
@@ -110,6 +122,7 @@ export const DiagnosticCodes = {
     NotStringOrVariable: "not-string-or-variable",
     NotValueOrVariable: "not-value-or-variable",
     NotVariableOrReference: "not-variable-or-reference",
+    OptionFallsOutOfChoice: "option-falls-out-of-choice",
     OptionInChoiceBlockOnly: "option-in-choice-block-only",
     OptionOnlyCommand: "option-only-command",
     PossibleMissingParens: "possible-missing-parens",
@@ -123,11 +136,14 @@ export const DiagnosticCodes = {
     SwitchedToSpaces: "switched-to-spaces",
     SwitchedToTabs: "switched-to-tabs",
     TextAfterReuse: "text-after-reuse",
+    TooFewArguments: "too-few-arguments",
     TooFewOptions: "too-few-options",
     TooLongAchievement: "too-long-achievement",
+    TooLongTitle: "too-long-title",
     TooLongOption: "too-long-option",
     TooManyAchievements: "too-many-achievements",
     TooManyAchievementPoints: "too-many-achievement-points",
+    TooManyArguments: "too-many-arguments",
     TooManyExpressionElements: "too-many-elements",
     UnallowedCheckpointSlotNameCharacters: "unallowed-slot-name-characters",
     UnallowedCommandBeforeOption: "unallowed-command-before-option",
@@ -139,15 +155,66 @@ export const DiagnosticCodes = {
     UnknownError: "unknown-error",
     UnknownFunctionError: "unknown-function-error",
     UnknownOperator: "unknown-operator",
+    UnreachableCode: "unreachable-code",
+    UnreachableScene: "unreachable-scene",
+    UntestedLines: "untested-lines",
+    UnusedGlobalVariable: "unused-global-variable",
+    UnusedLabel: "unused-label",
+    UnusedTemporaryVariable: "unused-temporary-variable",
     VariableAlreadyCreated: "variable-already-created",
     VariableMustStartWithLetter: "variable-must-start-with-letter",
     VariableNotDefined: "variable-not-defined",
+    VariableTypeMismatch: "variable-type-mismatch",
     VariableUsedBeforeCreation: "variable-used-before-creation",
 } as const;
 
 export type DiagnosticCode =
     (typeof DiagnosticCodes)[keyof typeof DiagnosticCodes];
 
+/**
+ * Data attached to a `VariableNotDefined` diagnostic.
+ */
+export interface VariableNotDefinedData {
+    /**
+     * Name of the undefined variable.
+     */
+    variable: string;
+}
+
+/**
+ * Data attached to a `LabelNotFound` diagnostic.
+ */
+export interface LabelNotFoundData {
+    /**
+     * Name of the missing label.
+     */
+    label: string;
+    /**
+     * Scene where the label was expected, or undefined if it's the current scene.
+     */
+    scene?: string;
+}
+
+/**
+ * Data attached to a `BannedPhrase` diagnostic.
+ */
+export interface BannedPhraseData {
+    /**
+     * What the style guide says to use instead.
+     */
+    replacement: string;
+}
+
+/**
+ * Data attached to a `SwitchedToTabs` diagnostic.
+ */
+export interface SwitchedToTabsData {
+    /**
+     * Whitespace the document uses for one level of indent.
+     */
+    indent: string;
+}
+
 const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.AchievementAlreadyCreated]: {
         message: "Achievement was already created",
@@ -156,6 +223,16 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
         message: "Without parentheses, this expression will always be true.",
         severity: DiagnosticSeverity.Warning,
     },
+    [DiagnosticCodes.ArrayIndexNotNumber]: {
+        message: "An array index must be a number.",
+    },
+    [DiagnosticCodes.ArrayIndexOutOfBounds]: {
+        message: "This index is outside of the array.",
+    },
+    [DiagnosticCodes.BannedPhrase]: {
+        message: "The style guide doesn't allow this.",
+        severity: DiagnosticSeverity.Information,
+    },
     [DiagnosticCodes.CapitalLettersWillBeLowercased]: {
         message:
             "The capital letters in this slot's name will be turned into lowercase values.",
@@ -269,6 +346,10 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.MissingAchievementVisibility]: {
         message: "Command *achievement is missing its visibility.",
     },
+    [DiagnosticCodes.MissingAuthor]: {
+        message: "The game is missing an *author command.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.MissingButtonName]: {
         message: "Missing button name.",
     },
@@ -311,6 +392,10 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
             "Arguments to an *if or *selectable_if before an #option must be in parentheses.",
         severity: DiagnosticSeverity.Warning,
     },
+    [DiagnosticCodes.MissingSoundFile]: {
+        message: "Couldn't find this sound file.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.MissingSpaceAfterParens]: {
         message: "Multireplace must have a space after its parentheses.",
     },
@@ -332,6 +417,10 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.MissingVariableValue]: {
         message: "Missing value to set the variable to.",
     },
+    [DiagnosticCodes.MissingTitle]: {
+        message: "The game is missing a *title command.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.MixedTabsAndSpaces]: {
         message: "Tabs and spaces can't be mixed.",
     },
@@ -414,6 +503,10 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.NotVariableOrReference]: {
         message: "Must be a variable or variable reference.",
     },
+    [DiagnosticCodes.OptionFallsOutOfChoice]: {
+        message:
+            "The game can reach the end of this option without a *goto, *finish, or other command that leaves the *choice.",
+    },
     [DiagnosticCodes.OptionInChoiceBlockOnly]: {
         message:
             "An #option must only appear inside a *choice or *fake_choice.",
@@ -460,12 +553,19 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
         message:
             "Nothing except an *if or *selectable_if is allowed between a reuse command and the #option.",
     },
+    [DiagnosticCodes.TooFewArguments]: {
+        message: "Not enough arguments for this subroutine's *params.",
+    },
     [DiagnosticCodes.TooFewOptions]: {
         message: "Multireplace must have at least two options separated by |.",
     },
     [DiagnosticCodes.TooLongAchievement]: {
         message: "This achievement has too many characters.",
     },
+    [DiagnosticCodes.TooLongTitle]: {
+        message: "The title is longer than 30 characters.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.TooLongOption]: {
         message: "Option is more than 15 words long.",
         severity: DiagnosticSeverity.Information,
@@ -476,6 +576,10 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.TooManyAchievementPoints]: {
         message: "Total achievement points must be 1,000 or fewer.",
     },
+    [DiagnosticCodes.TooManyArguments]: {
+        message: "More arguments than this subroutine's *params uses.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.TooManyExpressionElements]: {
         message: "Too many elements - are you missing parentheses?",
     },
@@ -514,6 +618,35 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.UnknownOperator]: {
         message: "Unknown operator.",
     },
+    [DiagnosticCodes.UnreachableCode]: {
+        message: "This code can never be reached.",
+        severity: DiagnosticSeverity.Hint,
+        tags: [DiagnosticTag.Unnecessary],
+    },
+    [DiagnosticCodes.UnreachableScene]: {
+        message: "This scene can never be reached from the start of the game.",
+        severity: DiagnosticSeverity.Hint,
+        tags: [DiagnosticTag.Unnecessary],
+    },
+    [DiagnosticCodes.UntestedLines]: {
+        message: "Quicktest never reached this line.",
+        severity: DiagnosticSeverity.Warning,
+    },
+    [DiagnosticCodes.UnusedGlobalVariable]: {
+        message: "This variable is never used.",
+        severity: DiagnosticSeverity.Hint,
+        tags: [DiagnosticTag.Unnecessary],
+    },
+    [DiagnosticCodes.UnusedLabel]: {
+        message: "Nothing goes to this label.",
+        severity: DiagnosticSeverity.Hint,
+        tags: [DiagnosticTag.Unnecessary],
+    },
+    [DiagnosticCodes.UnusedTemporaryVariable]: {
+        message: "This variable's value is never used.",
+        severity: DiagnosticSeverity.Hint,
+        tags: [DiagnosticTag.Unnecessary],
+    },
     [DiagnosticCodes.VariableAlreadyCreated]: {
         message: "This variable was created earlier.",
     },
@@ -523,6 +656,11 @@ const DiagnosticMetadata: Record<DiagnosticCode, DiagnosticMetadata> = {
     [DiagnosticCodes.VariableNotDefined]: {
         message: "This variable hasn't been defined.",
     },
+    [DiagnosticCodes.VariableTypeMismatch]: {
+        message:
+            "This value doesn't match the type of value the variable holds.",
+        severity: DiagnosticSeverity.Warning,
+    },
     [DiagnosticCodes.VariableUsedBeforeCreation]: {
         message: "This variable is used before it is created.",
     },
@@ -556,6 +694,9 @@ export function createDiagnostic(
         message: message || DiagnosticMetadata[code].message,
         source: "ChoiceScript",
     };
+    if (DiagnosticMetadata[code].tags !== undefined) {
+        diagnostic.tags = DiagnosticMetadata[code].tags;
+    }
 
     return diagnostic;
 }
@@ -579,6 +720,72 @@ export function createDiagnosticFromLocation(
         message: message || DiagnosticMetadata[code].message,
         source: "ChoiceScript",
     };
+    if (DiagnosticMetadata[code].tags !== undefined) {
+        diagnostic.tags = DiagnosticMetadata[code].tags;
+    }
 
     return diagnostic;
 }
+
+const severityOptions: ReadonlyMap<string, DiagnosticSeverity | undefined> =
+    new Map([
+        ["error", DiagnosticSeverity.Error],
+        ["warning", DiagnosticSeverity.Warning],
+        ["info", DiagnosticSeverity.Information],
+        ["hint", DiagnosticSeverity.Hint],
+        ["off", undefined],
+    ]);
+
+/**
+ * Change diagnostics' severities to the ones the user has chosen.
+ *
+ * @param diagnostics Diagnostics to change.
+ * @param severities Severities the user has chosen, keyed by diagnostic code.
+ * @returns The diagnostics with their new severities. Diagnostics whose codes are turned "off" are dropped.
+ */
+export function applySeverityOverrides(
+    diagnostics: readonly Diagnostic[],
+    severities: Readonly<Record<string, DiagnosticSeverityOption>>,
+): Diagnostic[] {
+    const overridden: Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+        const option = severities[`${diagnostic.code}`];
+        if (option === undefined || !severityOptions.has(option)) {
+            overridden.push(diagnostic);
+            continue;
+        }
+        const severity = severityOptions.get(option);
+        if (severity !== undefined) {
+            overridden.push({ ...diagnostic, severity: severity });
+        }
+    }
+    return overridden;
+}
+
+/**
+ * Create a diagnostic whose code isn't one of ChoiceScript's, like one from a custom style guide rule.
+ *
+ * @param code Code for the diagnostic.
+ * @param severity Severity of the diagnostic.
+ * @param location Location of the message in the document.
+ * @param message Diagnostic message.
+ * @returns The diagnostic, or undefined if its severity is "off".
+ */
+export function createCustomDiagnostic(
+    code: string,
+    severity: DiagnosticSeverityOption,
+    location: Location,
+    message: string,
+): Diagnostic | undefined {
+    const diagnosticSeverity = severityOptions.get(severity);
+    if (diagnosticSeverity === undefined) {
+        return undefined;
+    }
+    return {
+        code: code,
+        severity: diagnosticSeverity,
+        range: location.range,
+        message: message,
+        source: "ChoiceScript",
+    };
+}
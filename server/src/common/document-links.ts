@@ -0,0 +1,85 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type { DocumentLink } from "vscode-languageserver";
+
+import type { ProjectIndex, ReadonlyIdentifierMultiIndex } from "./index";
+import { uriIsStartupFile } from "./language";
+
+/**
+ * Find the URI for a media file like an image or sound.
+ *
+ * ChoiceScript looks for sounds in the same directory as images. If we
+ * haven't found that directory yet, assume it's the scene directory.
+ * @param file File name or URL from a command like *image or *sound.
+ * @param projectIndex Project index.
+ * @returns The file's URI, or undefined if the project's location isn't known.
+ */
+export function findMediaFileUri(
+    file: string,
+    projectIndex: ProjectIndex,
+): string | undefined {
+    if (/^https?:\/\//i.test(file)) {
+        return file;
+    }
+    const directory =
+        projectIndex.getPlatformImagePath() ??
+        projectIndex.getPlatformScenePath();
+    if (directory == "") {
+        return undefined;
+    }
+    return pathToFileURL(path.join(directory, file)).toString();
+}
+
+/**
+ * Generate links for a document's images, sounds, and scenes.
+ *
+ * Files referenced by *image, *text_image, *kindle_image, and *sound, the
+ * targets of *goto_scene and *gosub_scene, and entries in the startup
+ * file's *scene_list are all linked.
+ * @param documentUri Document's normalized URI.
+ * @param projectIndex Project index.
+ * @returns Document links.
+ */
+export function generateDocumentLinks(
+    documentUri: string,
+    projectIndex: ProjectIndex,
+): DocumentLink[] {
+    const links: DocumentLink[] = [];
+
+    const addMediaLinks = (files: ReadonlyIdentifierMultiIndex) => {
+        for (const [file, locations] of files) {
+            const target = findMediaFileUri(file, projectIndex);
+            if (target === undefined) {
+                continue;
+            }
+            links.push(
+                ...locations.map((location) => {
+                    return { range: location.range, target: target };
+                }),
+            );
+        }
+    };
+    addMediaLinks(projectIndex.getImages(documentUri));
+    addMediaLinks(projectIndex.getSounds(documentUri));
+
+    for (const event of projectIndex.getFlowControlEvents(documentUri)) {
+        if (event.sceneLocation === undefined || event.scene.includes("{")) {
+            continue;
+        }
+        const target = projectIndex.getSceneUri(event.scene);
+        if (target !== undefined) {
+            links.push({ range: event.sceneLocation.range, target: target });
+        }
+    }
+
+    if (uriIsStartupFile(documentUri)) {
+        for (const [scene, location] of projectIndex.getSceneListLocations()) {
+            const target = projectIndex.getSceneUri(scene);
+            if (target !== undefined) {
+                links.push({ range: location.range, target: target });
+            }
+        }
+    }
+
+    return links;
+}
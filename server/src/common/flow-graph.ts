@@ -0,0 +1,264 @@
+import { Location, Range } from "vscode-languageserver";
+
+import type { FlowControlEvent, Label, ProjectIndex } from "./index";
+import { comparePositions } from "./utilities";
+
+/**
+ * A scene or label in the flow graph.
+ */
+export interface FlowGraphNode {
+    /**
+     * Unique ID: the scene name for scenes, and `scene#label` for labels.
+     */
+    id: string;
+    kind: "scene" | "label";
+    scene: string;
+    label?: string;
+    /**
+     * Where the node is defined, or undefined if its scene hasn't been indexed.
+     */
+    location?: Location;
+    /**
+     * True if the scene is in the `*scene_list`. Labels inherit their scene's value.
+     */
+    inSceneList: boolean;
+    /**
+     * True if a scene has no way to leave it: no `*goto_scene`, `*goto_random_scene`, `*finish`, or `*ending`.
+     */
+    deadEnd: boolean;
+    /**
+     * True if the node can't be reached from the start of the game.
+     */
+    unreachable: boolean;
+}
+
+/**
+ * A way for the game to move from one node to another.
+ */
+export interface FlowGraphEdge {
+    from: string;
+    to: string;
+    /**
+     * Flow control command that causes the move, or "fallthrough" if the
+     * game runs from one section of a scene into the next label.
+     */
+    command: string;
+    /**
+     * Location of the command, if any.
+     */
+    location?: Location;
+}
+
+/**
+ * Directed graph of a project's scenes and labels.
+ */
+export interface FlowGraph {
+    nodes: FlowGraphNode[];
+    edges: FlowGraphEdge[];
+}
+
+/**
+ * Commands that move the game out of a scene.
+ */
+const sceneExitCommands: ReadonlyMap<string, number> = new Map(
+    ["goto_scene", "goto_random_scene", "finish", "ending"].map((x) => [x, 1]),
+);
+
+/**
+ * Get the flow graph ID for a label.
+ * @param scene Scene containing the label.
+ * @param label Label.
+ */
+function labelId(scene: string, label: string): string {
+    return `${scene}#${label}`;
+}
+
+/**
+ * Get a scene's labels, sorted by where they appear in the scene.
+ * @param sceneUri URI of the scene.
+ * @param projectIndex Project index.
+ */
+function sortedLabels(sceneUri: string, projectIndex: ProjectIndex): Label[] {
+    return [...projectIndex.getLabels(sceneUri).values()].sort((a, b) =>
+        comparePositions(a.location.range.start, b.location.range.start),
+    );
+}
+
+/**
+ * Find the node for the section of a scene that contains a flow control event.
+ * @param scene Scene containing the event.
+ * @param labels Scene's labels, sorted by position.
+ * @param event Flow control event.
+ * @returns ID of the scene, or of the last label before the event.
+ */
+function findSectionId(
+    scene: string,
+    labels: Label[],
+    event: FlowControlEvent,
+): string {
+    let id = scene;
+    for (const label of labels) {
+        if (
+            comparePositions(
+                label.location.range.start,
+                event.commandLocation.range.start,
+            ) > 0
+        ) {
+            break;
+        }
+        id = labelId(scene, label.label);
+    }
+    return id;
+}
+
+/**
+ * Generate a directed graph of all of a project's scenes and labels.
+ *
+ * Edges come from the project's flow control commands, from `*finish` moving
+ * to the next scene in the `*scene_list`, and from one section of a scene
+ * running into the label that follows it.
+ * @param projectIndex Project index.
+ * @returns The flow graph.
+ */
+export function generateFlowGraph(projectIndex: ProjectIndex): FlowGraph {
+    const sceneList = projectIndex.getSceneList();
+    const nodes: Map<string, FlowGraphNode> = new Map();
+    const edges: FlowGraphEdge[] = [];
+
+    const addSceneNode = (scene: string): FlowGraphNode => {
+        let node = nodes.get(scene);
+        if (node === undefined) {
+            const uri = projectIndex.getSceneUri(scene);
+            node = {
+                id: scene,
+                kind: "scene",
+                scene: scene,
+                location:
+                    uri !== undefined
+                        ? Location.create(uri, Range.create(0, 0, 0, 0))
+                        : undefined,
+                inSceneList: sceneList.includes(scene),
+                deadEnd: false,
+                unreachable: false,
+            };
+            nodes.set(scene, node);
+        }
+        return node;
+    };
+
+    for (const scene of sceneList) {
+        addSceneNode(scene);
+    }
+    for (const scene of projectIndex.getIndexedScenes()) {
+        addSceneNode(scene);
+    }
+
+    // Labels and how the game runs into them from above
+    const labelsByScene: Map<string, Label[]> = new Map();
+    for (const sceneNode of [...nodes.values()]) {
+        const uri = projectIndex.getSceneUri(sceneNode.scene);
+        if (uri === undefined) {
+            continue;
+        }
+        const labels = sortedLabels(uri, projectIndex);
+        labelsByScene.set(sceneNode.scene, labels);
+        let previousId = sceneNode.id;
+        for (const label of labels) {
+            const id = labelId(sceneNode.scene, label.label);
+            nodes.set(id, {
+                id: id,
+                kind: "label",
+                scene: sceneNode.scene,
+                label: label.label,
+                location: label.location,
+                inSceneList: sceneNode.inSceneList,
+                deadEnd: false,
+                unreachable: false,
+            });
+            if (label.fallsThrough !== false) {
+                edges.push({
+                    from: previousId,
+                    to: id,
+                    command: "fallthrough",
+                });
+            }
+            previousId = id;
+        }
+    }
+
+    // Flow control commands
+    for (const [scene, labels] of labelsByScene) {
+        const uri = projectIndex.getSceneUri(scene);
+        if (uri === undefined) {
+            continue;
+        }
+        let leavesScene = false;
+        for (const event of projectIndex.getFlowControlEvents(uri)) {
+            if (sceneExitCommands.has(event.command)) {
+                leavesScene = true;
+            }
+            let target: string | undefined;
+            if (event.command == "finish") {
+                const sceneIndex = sceneList.indexOf(scene);
+                if (sceneIndex != -1 && sceneIndex + 1 < sceneList.length) {
+                    target = sceneList[sceneIndex + 1];
+                }
+            } else if (event.command.endsWith("_scene")) {
+                if (event.scene != "" && !event.scene.startsWith("{")) {
+                    target = addSceneNode(event.scene).id;
+                    const id = labelId(event.scene, event.label);
+                    if (event.label != "" && nodes.has(id)) {
+                        target = id;
+                    }
+                }
+            } else if (event.label != "") {
+                const id = labelId(scene, event.label);
+                if (nodes.has(id)) {
+                    target = id;
+                }
+            }
+            if (target !== undefined) {
+                edges.push({
+                    from: findSectionId(scene, labels, event),
+                    to: target,
+                    command: event.command,
+                    location: event.commandLocation,
+                });
+            }
+        }
+        const sceneNode = nodes.get(scene);
+        if (sceneNode !== undefined) {
+            sceneNode.deadEnd = !leavesScene;
+        }
+    }
+
+    // Find everything that can't be reached from the start of the game
+    const start = sceneList[0] ?? "startup";
+    if (labelsByScene.has(start)) {
+        const edgesFrom: Map<string, string[]> = new Map();
+        for (const edge of edges) {
+            const targets = edgesFrom.get(edge.from) ?? [];
+            targets.push(edge.to);
+            edgesFrom.set(edge.from, targets);
+        }
+        const reached = new Set([start]);
+        const queue = [start];
+        let id: string | undefined;
+        while ((id = queue.shift()) !== undefined) {
+            for (const target of edgesFrom.get(id) ?? []) {
+                if (!reached.has(target)) {
+                    reached.add(target);
+                    queue.push(target);
+                }
+            }
+        }
+        for (const node of nodes.values()) {
+            node.unreachable = !reached.has(node.id);
+        }
+    }
+
+    return {
+        nodes: [...nodes.values()],
+        edges: edges,
+    };
+}
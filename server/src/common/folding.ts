@@ -0,0 +1,140 @@
+import { FoldingRange, FoldingRangeKind } from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+import { createParserCallbacks, parse } from "./parser";
+
+/**
+ * Commands whose indented block can be folded.
+ */
+const blockCommandsLookup: ReadonlyMap<string, number> = new Map(
+    ["if", "elseif", "else", "stat_chart", "achievement"].map((x) => [x, 1]),
+);
+
+/**
+ * Find the last line of the indented block that follows a line.
+ * @param lines Document's lines.
+ * @param startLine Line that starts the block.
+ * @returns Last non-blank line in the block, or startLine if there's no block.
+ */
+function findBlockEnd(lines: string[], startLine: number): number {
+    const indent = lines[startLine].search(/\S/);
+    let endLine = startLine;
+    for (let line = startLine + 1; line < lines.length; line++) {
+        const lineIndent = lines[line].search(/\S/);
+        if (lineIndent == -1) {
+            continue;
+        }
+        if (lineIndent <= indent) {
+            break;
+        }
+        endLine = line;
+    }
+    return endLine;
+}
+
+/**
+ * Find the last non-blank line before a line.
+ * @param lines Document's lines.
+ * @param beforeLine Line to search before.
+ * @param startLine Earliest line to return.
+ */
+function findLastNonblankLine(
+    lines: string[],
+    beforeLine: number,
+    startLine: number,
+): number {
+    let line = beforeLine - 1;
+    while (line > startLine && lines[line].trim() == "") {
+        line--;
+    }
+    return line;
+}
+
+/**
+ * Generate folding ranges for a ChoiceScript document.
+ *
+ * Choices and their options, *if/*elseif/*else branches, *stat_chart blocks,
+ * achievements, runs of comments, and the sections between labels can all be folded.
+ * @param textDocument Document to generate folding ranges for.
+ * @returns Folding ranges.
+ */
+export function generateFoldingRanges(
+    textDocument: TextDocument,
+): FoldingRange[] {
+    const lines = textDocument.getText().split(/\r?\n/);
+    const ranges: FoldingRange[] = [];
+    const blockLines: number[] = [];
+    const commentLines: number[] = [];
+    const labelLines: number[] = [];
+
+    const addRange = (
+        startLine: number,
+        endLine: number,
+        kind?: FoldingRangeKind,
+    ) => {
+        if (endLine > startLine) {
+            ranges.push(
+                FoldingRange.create(
+                    startLine,
+                    endLine,
+                    undefined,
+                    undefined,
+                    kind,
+                ),
+            );
+        }
+    };
+
+    const callbacks = createParserCallbacks({
+        onCommand: (prefix, command, spacing, line, commandLocation) => {
+            const commandLine = commandLocation.range.start.line;
+            if (command == "comment") {
+                commentLines.push(commandLine);
+            } else if (command == "label") {
+                labelLines.push(commandLine);
+            } else if (blockCommandsLookup.has(command)) {
+                blockLines.push(commandLine);
+            }
+        },
+        onChoiceScope: (scope) => {
+            // Choice scopes can run through blank lines to the start of the next line
+            const end = scope.range.end;
+            addRange(
+                scope.range.start.line,
+                findLastNonblankLine(
+                    lines,
+                    end.character == 0 ? end.line : end.line + 1,
+                    scope.range.start.line,
+                ),
+            );
+        },
+    });
+
+    parse(textDocument, callbacks);
+
+    for (const line of blockLines) {
+        addRange(line, findBlockEnd(lines, line));
+    }
+
+    // Fold runs of consecutive comments
+    let runStart: number | undefined = undefined;
+    commentLines.forEach((line, i) => {
+        runStart ??= line;
+        if (commentLines[i + 1] !== line + 1) {
+            addRange(runStart, line, FoldingRangeKind.Comment);
+            runStart = undefined;
+        }
+    });
+
+    // Fold each label's section up to the next label
+    labelLines.forEach((line, i) => {
+        const nextLine = labelLines[i + 1] ?? lines.length;
+        addRange(
+            line,
+            findLastNonblankLine(lines, nextLine, line),
+            FoldingRangeKind.Region,
+        );
+    });
+
+    return ranges.sort((a, b) => a.startLine - b.startLine);
+}
@@ -0,0 +1,318 @@
+import {
+    type Hover,
+    type Location,
+    MarkupKind,
+    type Position,
+} from "vscode-languageserver";
+
+import { findMediaFileUri } from "./document-links";
+import type { ProjectIndex } from "./index";
+import { sceneFromUri } from "./language";
+import {
+    type SymbolInformation,
+    SymbolType,
+    findDefinitions,
+    findReferences,
+} from "./searches";
+import { positionInRange } from "./utilities";
+
+/**
+ * Describe how many references there are to a symbol.
+ * @param references References to the symbol, or undefined if none.
+ */
+function describeReferenceCount(
+    references: readonly { location: Location }[] | undefined,
+): string {
+    if (references === undefined || references.length == 0) {
+        return "No references";
+    }
+    const count = references.length;
+    const sceneCount = new Set(references.map((r) => r.location.uri)).size;
+    let description = `${count} reference${count == 1 ? "" : "s"}`;
+    if (sceneCount > 1) {
+        description += ` in ${sceneCount} scenes`;
+    }
+    return description;
+}
+
+/**
+ * Describe where a symbol is defined.
+ * @param location Location of the definition.
+ */
+function describeLocation(location: Location): string {
+    const scene = sceneFromUri(location.uri) ?? location.uri;
+    return `${scene}.txt, line ${location.range.start.line + 1}`;
+}
+
+/**
+ * Generate hover content for a variable.
+ * @param documentUri Normalized URI of the document being hovered over.
+ * @param position Hover position.
+ * @param definition Variable's definition.
+ * @param projectIndex Project index.
+ */
+function describeVariable(
+    documentUri: string,
+    position: Position,
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): string[] {
+    const isGlobal = definition.type == SymbolType.GlobalVariable;
+    const lines = [
+        `**${definition.symbol}** (${isGlobal ? "global" : "temporary"} variable)`,
+        `Created with \`*${isGlobal ? "create" : "temp"}\` in ${describeLocation(definition.location)}`,
+    ];
+    const value = projectIndex
+        .getVariableInitialValues(definition.location.uri)
+        .get(definition.symbol);
+    if (value !== undefined) {
+        lines.push(`Initial value: \`${value}\``);
+    }
+    lines.push(
+        describeReferenceCount(
+            findReferences(
+                documentUri,
+                position,
+                { includeDeclaration: false },
+                projectIndex,
+            ),
+        ),
+    );
+
+    return lines;
+}
+
+/**
+ * Generate hover content for an array.
+ * @param documentUri Normalized URI of the document being hovered over.
+ * @param position Hover position.
+ * @param definition Array's definition.
+ * @param projectIndex Project index.
+ */
+function describeArray(
+    documentUri: string,
+    position: Position,
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): string[] {
+    const isGlobal = definition.type == SymbolType.GlobalArray;
+    const lines = [
+        `**${definition.symbol}** (${isGlobal ? "global" : "temporary"} array)`,
+        `Created with \`*${isGlobal ? "create_array" : "temp_array"}\` in ${describeLocation(definition.location)}`,
+    ];
+    const arrays = isGlobal
+        ? projectIndex.getGlobalArrays()
+        : projectIndex.getLocalArrays(definition.location.uri);
+    const length = arrays.get(definition.symbol)?.length;
+    if (length !== undefined) {
+        lines.push(`${length} element${length == 1 ? "" : "s"}`);
+    }
+    lines.push(
+        describeReferenceCount(
+            findReferences(
+                documentUri,
+                position,
+                { includeDeclaration: false },
+                projectIndex,
+            ),
+        ),
+    );
+
+    return lines;
+}
+
+/**
+ * Generate hover content for a label.
+ * @param documentUri Normalized URI of the document being hovered over.
+ * @param position Hover position.
+ * @param definition Label's definition.
+ * @param projectIndex Project index.
+ */
+function describeLabel(
+    documentUri: string,
+    position: Position,
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): string[] {
+    return [
+        `**${definition.symbol}** (label)`,
+        `Defined in ${describeLocation(definition.location)}`,
+        describeReferenceCount(
+            findReferences(
+                documentUri,
+                position,
+                { includeDeclaration: false },
+                projectIndex,
+            ),
+        ),
+    ];
+}
+
+/**
+ * Generate hover content for an achievement.
+ * @param documentUri Normalized URI of the document being hovered over.
+ * @param position Hover position.
+ * @param definition Achievement's definition.
+ * @param projectIndex Project index.
+ */
+function describeAchievement(
+    documentUri: string,
+    position: Position,
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): string[] {
+    const lines = [`**${definition.symbol}** (achievement)`];
+    const achievement = projectIndex.getAchievements().get(definition.symbol);
+    if (achievement !== undefined) {
+        lines.push(`"${achievement[2]}", ${achievement[1]} points`);
+    }
+    lines.push(
+        `Defined in ${describeLocation(definition.location)}`,
+        describeReferenceCount(
+            findReferences(
+                documentUri,
+                position,
+                { includeDeclaration: false },
+                projectIndex,
+            ),
+        ),
+    );
+
+    return lines;
+}
+
+/**
+ * Generate hover content for a scene.
+ * @param scene Scene name.
+ * @param projectIndex Project index.
+ */
+function describeScene(scene: string, projectIndex: ProjectIndex): string[] {
+    const lines = [`**${scene}** (scene)`];
+    const sceneUri = projectIndex.getSceneUri(scene);
+    const wordCount =
+        sceneUri !== undefined
+            ? projectIndex.getWordCount(sceneUri)
+            : undefined;
+    if (wordCount === undefined) {
+        lines.push("Scene file not indexed");
+    } else {
+        lines.push(`${wordCount} words`);
+    }
+    if (!projectIndex.getSceneList().includes(scene)) {
+        lines.push("Not in the `*scene_list`");
+    }
+
+    const references = projectIndex
+        .getSceneReferences(scene)
+        .map((location) => {
+            return { location: location };
+        });
+    lines.push(describeReferenceCount(references));
+
+    return lines;
+}
+
+/**
+ * Generate hover content that previews an image.
+ * @param image Image file or URL.
+ * @param projectIndex Project index.
+ */
+function describeImage(image: string, projectIndex: ProjectIndex): string[] {
+    const uri = findMediaFileUri(image, projectIndex);
+    if (uri === undefined) {
+        return [`\`${image}\``];
+    }
+    return [`![${image}](<${uri}>)`];
+}
+
+/**
+ * Generate hover information for a symbol at a position in a document.
+ *
+ * Variables, arrays, labels, achievements, and scenes referenced by flow control
+ * commands all have hover information. Images referenced by commands like *image
+ * show a preview.
+ * @param documentUri Normalized URI of the document being hovered over.
+ * @param position Hover position.
+ * @param projectIndex Project index.
+ * @returns Hover information, or undefined if there's no symbol at that position.
+ */
+export function generateHover(
+    documentUri: string,
+    position: Position,
+    projectIndex: ProjectIndex,
+): Hover | undefined {
+    let lines: string[] | undefined = undefined;
+
+    const definitions = findDefinitions(documentUri, position, projectIndex);
+    if (definitions !== undefined) {
+        const definition = definitions[0];
+        switch (definition.type) {
+            case SymbolType.GlobalVariable:
+            case SymbolType.LocalVariable:
+                lines = describeVariable(
+                    documentUri,
+                    position,
+                    definition,
+                    projectIndex,
+                );
+                break;
+            case SymbolType.GlobalArray:
+            case SymbolType.LocalArray:
+                lines = describeArray(
+                    documentUri,
+                    position,
+                    definition,
+                    projectIndex,
+                );
+                break;
+            case SymbolType.Label:
+                lines = describeLabel(
+                    documentUri,
+                    position,
+                    definition,
+                    projectIndex,
+                );
+                break;
+            case SymbolType.Achievement:
+                lines = describeAchievement(
+                    documentUri,
+                    position,
+                    definition,
+                    projectIndex,
+                );
+                break;
+            case SymbolType.Scene:
+                lines = describeScene(definition.symbol, projectIndex);
+                break;
+        }
+    } else {
+        const event = projectIndex
+            .getFlowControlEvents(documentUri)
+            .find((event) => {
+                return (
+                    event.sceneLocation !== undefined &&
+                    positionInRange(position, event.sceneLocation.range)
+                );
+            });
+        if (event !== undefined) {
+            lines = describeScene(event.scene, projectIndex);
+        }
+        for (const [image, locations] of projectIndex.getImages(documentUri)) {
+            if (locations.some((l) => positionInRange(position, l.range))) {
+                lines = describeImage(image, projectIndex);
+                break;
+            }
+        }
+    }
+
+    if (lines === undefined) {
+        return undefined;
+    }
+
+    return {
+        contents: {
+            kind: MarkupKind.Markdown,
+            value: lines.join("\n\n"),
+        },
+    };
+}
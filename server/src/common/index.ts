@@ -8,6 +8,7 @@ import {
     mapToUnionedCaseInsensitiveMap,
 } from "./utilities";
 import { uriIsStartupFile } from "./language";
+import type { ExpressionEvalType } from "./tokens";
 
 /**
  * Type for a mutable index of identifiers.
@@ -31,6 +32,49 @@ export type ReadonlyIdentifierMultiIndex = ReadonlyCaseInsensitiveMap<
     string,
     readonly Location[]
 >;
+/**
+ * Type for a mutable index of variables' initial values.
+ */
+export type VariableValueIndex = CaseInsensitiveMap<string, string>;
+/**
+ * Type for an immutable index of variables' initial values.
+ */
+export type ReadonlyVariableValueIndex = ReadonlyCaseInsensitiveMap<
+    string,
+    string
+>;
+/**
+ * Type for a mutable index of the types of values variables hold.
+ */
+export type VariableTypeIndex = CaseInsensitiveMap<string, ExpressionEvalType>;
+/**
+ * Type for an immutable index of the types of values variables hold.
+ */
+export type ReadonlyVariableTypeIndex = ReadonlyCaseInsensitiveMap<
+    string,
+    ExpressionEvalType
+>;
+/**
+ * An array created by *create_array or *temp_array.
+ */
+export interface ArrayDefinition {
+    location: Location;
+    /**
+     * Number of elements in the array, if known.
+     */
+    length?: number;
+}
+/**
+ * Type for a mutable index of arrays.
+ */
+export type ArrayIndex = CaseInsensitiveMap<string, ArrayDefinition>;
+/**
+ * Type for an immutable index of arrays.
+ */
+export type ReadonlyArrayIndex = ReadonlyCaseInsensitiveMap<
+    string,
+    ArrayDefinition
+>;
 /**
  * Type for a mutable index of labels.
  */
@@ -72,6 +116,10 @@ export interface FlowControlEvent {
     labelLocation?: Location;
     scene: string;
     sceneLocation?: Location;
+    /**
+     * Locations of the arguments passed by *gosub and *gosub_scene.
+     */
+    argumentLocations?: Location[];
 }
 
 /**
@@ -81,6 +129,14 @@ export interface Label {
     label: string;
     location: Location;
     scope?: Range;
+    /**
+     * False if the game can't run into the label from the lines above it.
+     */
+    fallsThrough?: boolean;
+    /**
+     * Names of the parameters from the *params that starts the label's subroutine, if any.
+     */
+    params?: string[];
 }
 
 /**
@@ -160,6 +216,29 @@ export interface ProjectIndex {
         sceneUri: string,
         newIndex: Map<string, Location>,
     ): void;
+    /**
+     * Set the index of the initial values given to variables created in a scene.
+     *
+     * If a variable is created more than once, only the first value should be indexed.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param newIndex New index of initial values as they appear in the source. Keys should _not_ be case insensitive.
+     */
+    setVariableInitialValues(
+        sceneUri: string,
+        newIndex: Map<string, string>,
+    ): void;
+    /**
+     * Set the index of the types of values that variables are given in a scene.
+     *
+     * Types come from the values variables are created with or set to. If a variable
+     * is given more than one type, only the first should be indexed.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param newIndex New index of variable types.
+     */
+    setVariableTypes(
+        sceneUri: string,
+        newIndex: Map<string, ExpressionEvalType>,
+    ): void;
     /**
      * Set the index of references to variables.
      * @param sceneUri URI to document whose index is to be updated.
@@ -169,11 +248,46 @@ export interface ProjectIndex {
         sceneUri: string,
         newIndex: IdentifierMultiIndex | Map<string, Location[]>,
     ): void;
+    /**
+     * Set the index of global array definitions from the startup scene.
+     * @param startupUri URI to startup.txt document.
+     * @param newIndex New index of global arrays. Keys should _not_ be case insensitive.
+     */
+    setGlobalArrays(
+        startupUri: string,
+        newIndex: Map<string, ArrayDefinition>,
+    ): void;
+    /**
+     * Set the index of array definitions local to a scene.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param newIndex New index of local arrays. Keys should _not_ be case insensitive.
+     */
+    setLocalArrays(
+        sceneUri: string,
+        newIndex: Map<string, ArrayDefinition>,
+    ): void;
+    /**
+     * Set the index of references to arrays.
+     *
+     * These are references to the array as a whole, like `arr[i]`, and don't include
+     * references to its elements' variables, like `arr_1`.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param newIndex New index of references to arrays.
+     */
+    setArrayReferences(
+        sceneUri: string,
+        newIndex: IdentifierMultiIndex | Map<string, Location[]>,
+    ): void;
     /**
      * Set the list of scene names in the project.
      * @param scenes New list of scene names.
      */
     setSceneList(scenes: string[]): void;
+    /**
+     * Set the locations of the scene names in the *scene_list.
+     * @param newIndex New index of scene names' locations.
+     */
+    setSceneListLocations(newIndex: Map<string, Location>): void;
     /**
      * Set the index of labels in a scene file.
      * @param sceneUri URI to document whose index is to be updated.
@@ -186,6 +300,12 @@ export interface ProjectIndex {
      * @param newEvents New index of flow control events.
      */
     setFlowControlEvents(sceneUri: string, newEvents: FlowControlEvent[]): void;
+    /**
+     * Set the parameters a scene takes when it's called by *gosub_scene without a label.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param params Names of the parameters from the *params before the scene's first label, if any.
+     */
+    setSceneParams(sceneUri: string, params: string[] | undefined): void;
     /**
      * Set the index of achievement codenames in the project.
      * @param newIndex New index of achievement codenames. Keys should _not_ be case insensitive.
@@ -218,6 +338,15 @@ export interface ProjectIndex {
         sceneUri: string,
         newIndex: IdentifierMultiIndex | Map<string, Location[]>,
     ): void;
+    /**
+     * Set the index of references to sounds.
+     * @param sceneUri URI to document whose index is to be updated.
+     * @param newIndex New index of references to sound files or URLs.
+     */
+    setSounds(
+        sceneUri: string,
+        newIndex: IdentifierMultiIndex | Map<string, Location[]>,
+    ): void;
     /**
      * Set the usages of *script.
      * @param sceneUri URI to document whose index is to be updated.
@@ -286,6 +415,10 @@ export interface ProjectIndex {
      * Get list of scenes in the startup file.
      */
     getSceneList(): readonly string[];
+    /**
+     * Get the locations of the scene names in the *scene_list.
+     */
+    getSceneListLocations(): ReadonlyMap<string, Location>;
     /**
      * Get the number of words in a scene, or undefined if the scene doesn't exist.
      */
@@ -304,6 +437,31 @@ export interface ProjectIndex {
      * @param sceneUri Scene document URI.
      */
     getSubroutineLocalVariables(sceneUri: string): ReadonlyIdentifierIndex;
+    /**
+     * Get the initial values of variables created in a scene file.
+     * @param sceneUri Scene document URI.
+     */
+    getVariableInitialValues(sceneUri: string): ReadonlyVariableValueIndex;
+    /**
+     * Get the type of value a variable holds.
+     *
+     * Temporary variables get their type from the scene that creates them. Global
+     * variables get theirs from the startup file or, if the value they're created with
+     * doesn't say, from the first scene that gives them a value whose type is known.
+     * @param variable Variable whose type is to be found.
+     * @param sceneUri URI of the scene where the variable is used.
+     * @returns The variable's type, or undefined if it isn't known.
+     */
+    getVariableType(
+        variable: string,
+        sceneUri: string,
+    ): ExpressionEvalType | undefined;
+    /**
+     * Get the type of value a global variable holds.
+     * @param variable Global variable whose type is to be found.
+     * @returns The variable's type, or undefined if it isn't known or the variable isn't global.
+     */
+    getGlobalVariableType(variable: string): ExpressionEvalType | undefined;
     /**
      * Get the labels in a scene file.
      * @param sceneUri Scene document URI.
@@ -343,11 +501,36 @@ export interface ProjectIndex {
      * @param variable Variable to find references to.
      */
     getVariableReferences(variable: string): readonly Location[];
+    /**
+     * Get global arrays in a project.
+     */
+    getGlobalArrays(): ReadonlyArrayIndex;
+    /**
+     * Get the local arrays in a scene file.
+     * @param sceneUri Scene document URI.
+     */
+    getLocalArrays(sceneUri: string): ReadonlyArrayIndex;
+    /**
+     * Get all references to arrays in one scene document.
+     * @param sceneUri Scene document URI.
+     */
+    getDocumentArrayReferences(sceneUri: string): ReadonlyIdentifierMultiIndex;
+    /**
+     * Get all references to an array across all documents.
+     * @param array Array to find references to.
+     */
+    getArrayReferences(array: string): readonly Location[];
     /**
      * Get all flow control events in a scene document.
      * @param sceneUri Scene document URI.
      */
     getFlowControlEvents(sceneUri: string): readonly FlowControlEvent[];
+    /**
+     * Get the parameters a scene takes when it's called by *gosub_scene without a label.
+     * @param sceneUri Scene document URI.
+     * @returns Names of the parameters, or undefined if the scene doesn't start with *params.
+     */
+    getSceneParams(sceneUri: string): readonly string[] | undefined;
     /**
      * Get all scenes listed in the scene list or referenced by flow control events project-wide.
      */
@@ -357,6 +540,13 @@ export interface ProjectIndex {
      * @param label Label.
      */
     getLabelReferences(label: string): readonly Location[];
+    /**
+     * Get all references to a scene from commands like *goto_scene.
+     *
+     * This doesn't include the scene's entry in the *scene_list.
+     * @param scene Scene name.
+     */
+    getSceneReferences(scene: string): readonly Location[];
     /**
      * Get document scopes for a scene file.
      * @param sceneUri Scene document URI.
@@ -367,6 +557,11 @@ export interface ProjectIndex {
      * @param sceneUri Scene document URI.
      */
     getImages(sceneUri: string): ReadonlyIdentifierMultiIndex;
+    /**
+     * Get list of all sounds referenced in a scene file.
+     * @param sceneUri Scene document URI.
+     */
+    getSounds(sceneUri: string): ReadonlyIdentifierMultiIndex;
     /**
      * Get list of all *script calls in the document.
      * @param sceneUri Scene document URI.
@@ -398,14 +593,22 @@ export class Index implements ProjectIndex {
     private _globalVariables: IdentifierIndex;
     private _localVariables: Map<string, IdentifierMultiIndex>;
     private _subroutineLocalVariables: Map<string, IdentifierIndex>;
+    private _variableInitialValues: Map<string, VariableValueIndex>;
+    private _variableTypes: Map<string, VariableTypeIndex>;
     private _variableReferences: Map<string, IdentifierMultiIndex>;
+    private _globalArrays: ArrayIndex;
+    private _localArrays: Map<string, ArrayIndex>;
+    private _arrayReferences: Map<string, IdentifierMultiIndex>;
     private _scenes: string[];
+    private _sceneListLocations: Map<string, Location>;
     private _localLabels: Map<string, LabelIndex>;
     private _flowControlEvents: Map<string, FlowControlEvent[]>;
+    private _sceneParams: Map<string, string[]>;
     private _achievements: Map<string, [Location, number, string]>;
     private _achievementReferences: Map<string, IdentifierMultiIndex>;
     private _documentScopes: Map<string, DocumentScopes>;
     private _images: Map<string, IdentifierMultiIndex>;
+    private _sounds: Map<string, IdentifierMultiIndex>;
     private _scriptUsages: Map<string, Location[]>;
     private _parseErrors: Map<string, Diagnostic[]>;
     constructor() {
@@ -418,14 +621,22 @@ export class Index implements ProjectIndex {
         this._globalVariables = new CaseInsensitiveMap();
         this._localVariables = new Map();
         this._subroutineLocalVariables = new Map();
+        this._variableInitialValues = new Map();
+        this._variableTypes = new Map();
         this._variableReferences = new Map();
+        this._globalArrays = new CaseInsensitiveMap();
+        this._localArrays = new Map();
+        this._arrayReferences = new Map();
         this._scenes = [];
+        this._sceneListLocations = new Map();
         this._localLabels = new Map();
         this._flowControlEvents = new Map();
+        this._sceneParams = new Map();
         this._achievements = new CaseInsensitiveMap();
         this._achievementReferences = new Map();
         this._documentScopes = new Map();
         this._images = new Map();
+        this._sounds = new Map();
         this._scriptUsages = new Map();
         this._parseErrors = new Map();
     }
@@ -466,6 +677,21 @@ export class Index implements ProjectIndex {
             new CaseInsensitiveMap(newIndex),
         );
     }
+    setVariableInitialValues(
+        sceneUri: string,
+        newIndex: Map<string, string>,
+    ): void {
+        this._variableInitialValues.set(
+            sceneUri,
+            new CaseInsensitiveMap(newIndex),
+        );
+    }
+    setVariableTypes(
+        sceneUri: string,
+        newIndex: Map<string, ExpressionEvalType>,
+    ): void {
+        this._variableTypes.set(sceneUri, new CaseInsensitiveMap(newIndex));
+    }
     setVariableReferences(
         sceneUri: string,
         newIndex: IdentifierMultiIndex | Map<string, Location[]>,
@@ -475,15 +701,47 @@ export class Index implements ProjectIndex {
             mapToUnionedCaseInsensitiveMap(newIndex),
         );
     }
+    setGlobalArrays(
+        startupUri: string,
+        newIndex: Map<string, ArrayDefinition>,
+    ): void {
+        this._startupFileUri = startupUri;
+        this._globalArrays = new CaseInsensitiveMap(newIndex);
+    }
+    setLocalArrays(
+        sceneUri: string,
+        newIndex: Map<string, ArrayDefinition>,
+    ): void {
+        this._localArrays.set(sceneUri, new CaseInsensitiveMap(newIndex));
+    }
+    setArrayReferences(
+        sceneUri: string,
+        newIndex: IdentifierMultiIndex | Map<string, Location[]>,
+    ): void {
+        this._arrayReferences.set(
+            sceneUri,
+            mapToUnionedCaseInsensitiveMap(newIndex),
+        );
+    }
     setSceneList(scenes: string[]): void {
         this._scenes = scenes;
     }
+    setSceneListLocations(newIndex: Map<string, Location>): void {
+        this._sceneListLocations = new Map(newIndex);
+    }
     setLabels(sceneUri: string, newIndex: LabelIndex): void {
         this._localLabels.set(sceneUri, new Map(newIndex));
     }
     setFlowControlEvents(sceneUri: string, newIndex: FlowControlEvent[]): void {
         this._flowControlEvents.set(sceneUri, [...newIndex]);
     }
+    setSceneParams(sceneUri: string, params: string[] | undefined): void {
+        if (params === undefined) {
+            this._sceneParams.delete(sceneUri);
+        } else {
+            this._sceneParams.set(sceneUri, [...params]);
+        }
+    }
     setAchievements(newIndex: Map<string, [Location, number, string]>): void {
         this._achievements = new CaseInsensitiveMap(newIndex);
     }
@@ -505,6 +763,12 @@ export class Index implements ProjectIndex {
     ): void {
         this._images.set(sceneUri, mapToUnionedCaseInsensitiveMap(newIndex));
     }
+    setSounds(
+        sceneUri: string,
+        newIndex: IdentifierMultiIndex | Map<string, Location[]>,
+    ): void {
+        this._sounds.set(sceneUri, mapToUnionedCaseInsensitiveMap(newIndex));
+    }
     setScriptUsages(sceneUri: string, usages: Location[]): void {
         this._scriptUsages.set(sceneUri, usages);
     }
@@ -575,6 +839,9 @@ export class Index implements ProjectIndex {
     getSceneList(): readonly string[] {
         return Array.from(this._scenes);
     }
+    getSceneListLocations(): ReadonlyMap<string, Location> {
+        return this._sceneListLocations;
+    }
     getWordCount(sceneUri: string): number | undefined {
         // Since this is often called as a one-off, leave the normalizeUri() call here.
         return this._wordCounts.get(normalizeUri(sceneUri));
@@ -593,6 +860,43 @@ export class Index implements ProjectIndex {
             new CaseInsensitiveMap();
         return index;
     }
+    getVariableInitialValues(sceneUri: string): ReadonlyVariableValueIndex {
+        const index =
+            this._variableInitialValues.get(sceneUri) ??
+            new CaseInsensitiveMap();
+        return index;
+    }
+    getVariableType(
+        variable: string,
+        sceneUri: string,
+    ): ExpressionEvalType | undefined {
+        if (this.getLocalVariables(sceneUri).has(variable)) {
+            return this._variableTypes.get(sceneUri)?.get(variable);
+        }
+        return this.getGlobalVariableType(variable);
+    }
+    getGlobalVariableType(variable: string): ExpressionEvalType | undefined {
+        if (!this._globalVariables.has(variable)) {
+            return undefined;
+        }
+        const type = this._variableTypes
+            .get(this._startupFileUri)
+            ?.get(variable);
+        if (type !== undefined) {
+            return type;
+        }
+        for (const [uri, types] of this._variableTypes) {
+            // Skip scenes where the name belongs to a temporary variable
+            if (this.getLocalVariables(uri).has(variable)) {
+                continue;
+            }
+            const sceneType = types.get(variable);
+            if (sceneType !== undefined) {
+                return sceneType;
+            }
+        }
+        return undefined;
+    }
     getLabels(sceneUri: string): ReadonlyLabelIndex {
         const index = this._localLabels.get(sceneUri) ?? new Map();
         return index;
@@ -633,10 +937,35 @@ export class Index implements ProjectIndex {
         }
         return locations;
     }
+    getGlobalArrays(): ReadonlyArrayIndex {
+        return this._globalArrays;
+    }
+    getLocalArrays(sceneUri: string): ReadonlyArrayIndex {
+        const index =
+            this._localArrays.get(sceneUri) ?? new CaseInsensitiveMap();
+        return index;
+    }
+    getDocumentArrayReferences(sceneUri: string): ReadonlyIdentifierMultiIndex {
+        const index =
+            this._arrayReferences.get(sceneUri) ?? new CaseInsensitiveMap();
+        return index;
+    }
+    getArrayReferences(array: string): readonly Location[] {
+        const locations: Location[] = [];
+        for (const index of this._arrayReferences.values()) {
+            const partialLocations = index.get(array);
+            if (partialLocations !== undefined)
+                locations.push(...partialLocations);
+        }
+        return locations;
+    }
     getFlowControlEvents(sceneUri: string): readonly FlowControlEvent[] {
         const index = this._flowControlEvents.get(sceneUri) ?? [];
         return index;
     }
+    getSceneParams(sceneUri: string): readonly string[] | undefined {
+        return this._sceneParams.get(sceneUri);
+    }
     getAllReferencedScenes(): readonly string[] {
         const scenes: string[] = [...this.getSceneList()];
 
@@ -672,6 +1001,17 @@ export class Index implements ProjectIndex {
         }
         return locations;
     }
+    getSceneReferences(scene: string): readonly Location[] {
+        const locations: Location[] = [];
+        for (const events of this._flowControlEvents.values()) {
+            for (const event of events) {
+                if (event.sceneLocation !== undefined && event.scene == scene) {
+                    locations.push(event.sceneLocation);
+                }
+            }
+        }
+        return locations;
+    }
     getDocumentScopes(sceneUri: string): DocumentScopes {
         let scopes = this._documentScopes.get(sceneUri);
         if (scopes === undefined) {
@@ -687,6 +1027,10 @@ export class Index implements ProjectIndex {
         const index = this._images.get(sceneUri) ?? new CaseInsensitiveMap();
         return index;
     }
+    getSounds(sceneUri: string): ReadonlyIdentifierMultiIndex {
+        const index = this._sounds.get(sceneUri) ?? new CaseInsensitiveMap();
+        return index;
+    }
     getScriptUsages(sceneUri: string): readonly Location[] {
         return this._scriptUsages.get(sceneUri) ?? [];
     }
@@ -699,19 +1043,27 @@ export class Index implements ProjectIndex {
 
         if (uriIsStartupFile(uri)) {
             this._globalVariables = new CaseInsensitiveMap();
+            this._globalArrays = new CaseInsensitiveMap();
             this._scenes = [];
+            this._sceneListLocations = new Map();
             this._achievements = new CaseInsensitiveMap();
         }
 
         this._wordCounts.delete(uri);
         this._localVariables.delete(uri);
         this._subroutineLocalVariables.delete(uri);
+        this._variableInitialValues.delete(uri);
+        this._variableTypes.delete(uri);
         this._variableReferences.delete(uri);
+        this._localArrays.delete(uri);
+        this._arrayReferences.delete(uri);
         this._localLabels.delete(uri);
         this._flowControlEvents.delete(uri);
+        this._sceneParams.delete(uri);
         this._achievementReferences.delete(uri);
         this._documentScopes.delete(uri);
         this._images.delete(uri);
+        this._sounds.delete(uri);
         this._parseErrors.delete(uri);
     }
 }
@@ -7,8 +7,15 @@ import {
 } from "vscode-languageserver";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 
-import { type ParserCallbacks, type ParsingState, parse } from "./parser";
+import {
+    type ParserCallbacks,
+    type ParsingState,
+    type SectionCache,
+    parse,
+    parseWithSectionCache,
+} from "./parser";
 import type {
+    ArrayDefinition,
     FlowControlEvent,
     DocumentScopes,
     ProjectIndex,
@@ -17,9 +24,24 @@ import type {
     Label,
     AchievementIndex,
 } from "./index";
-import { comparePositions, normalizeUri } from "./utilities";
+import { flowEndingCommands } from "./language";
+import {
+    assignedValueType,
+    type ExpressionEvalType,
+    Expression,
+    type VariableTypeLookup,
+} from "./tokens";
+import {
+    CaseInsensitiveMap,
+    comparePositions,
+    normalizeUri,
+} from "./utilities";
 import { createDiagnosticFromLocation, DiagnosticCodes } from "./diagnostics";
 
+const flowEndingCommandsLookup: ReadonlyMap<string, number> = new Map(
+    flowEndingCommands.map((x) => [x, 1]),
+);
+
 /**
  * Captures information about the current state of indexing
  */
@@ -31,8 +53,15 @@ class IndexingState {
 
     globalVariables: Map<string, Location> = new Map();
     localVariables: Map<string, Location[]> = new Map();
+    variableInitialValues: Map<string, string> = new Map();
+    variableTypes: Map<string, ExpressionEvalType> = new CaseInsensitiveMap();
+    createdVariables: Map<string, number> = new CaseInsensitiveMap(); // Variables the document creates, whose types come from the document itself
     variableReferences: Map<string, Location[]> = new Map();
+    globalArrays: Map<string, ArrayDefinition> = new Map();
+    localArrays: Map<string, ArrayDefinition> = new Map();
+    arrayReferences: Map<string, Location[]> = new Map();
     scenes: string[] = [];
+    sceneListLocations: Map<string, Location> = new Map();
     labels: LabelIndex = new Map();
     scriptCommands: Location[] = [];
     achievements: AchievementIndex = new Map();
@@ -40,10 +69,14 @@ class IndexingState {
     flowControlEvents: FlowControlEvent[] = [];
     referencedScenes: string[] = [];
     images: Map<string, Location[]> = new Map();
+    sounds: Map<string, Location[]> = new Map();
     parseErrors: Diagnostic[] = [];
 
     checkAchievementLocation: Location | undefined = undefined;
+    lastTopLevelCommand: string | undefined = undefined;
+    commandBeforeLabel: string | undefined = undefined;
     paramsLocations: Location[] = [];
+    sceneParams: string[] | undefined = undefined;
     choiceScopes: SummaryScope[] = [];
 
     constructor(textDocument: TextDocument) {
@@ -172,6 +205,7 @@ function findSubroutineVariables(state: IndexingState): Map<string, Location> {
  * @param isStartupFile True if the document is the ChoiceScript startup file.
  * @param isChoicescriptStatsFile True if the document is the ChoiceScript stats file.
  * @param index Project index to update.
+ * @param sectionCache Cache of the document's parsed label sections, so that only changed sections are re-parsed.
  * @returns A list of scenes that are referenced but not yet indexed.
  */
 export function updateProjectIndex(
@@ -179,6 +213,7 @@ export function updateProjectIndex(
     isStartupFile: boolean,
     isChoicescriptStatsFile: boolean,
     index: ProjectIndex,
+    sectionCache?: SectionCache,
 ): string[] {
     const indexingState = new IndexingState(textDocument);
 
@@ -199,14 +234,64 @@ export function updateProjectIndex(
             ) {
                 indexingState.checkAchievementLocation = commandLocation;
             }
-            // Record where params temporary variables are brought into existence
+            // Record where params temporary variables are brought into existence,
+            // and which subroutine each *params belongs to
             if (command == "params") {
                 indexingState.paramsLocations.push(commandLocation);
+                const params = line.match(/\w+/g) ?? [];
+                const size = indexingState.labels.size;
+                if (size == 0) {
+                    indexingState.sceneParams ??= params;
+                } else {
+                    const label = Array.from(indexingState.labels)[size - 1][1];
+                    label.params ??= params;
+                }
             }
             // Record instances of *script
             if (command == "script") {
                 indexingState.scriptCommands.push(commandLocation);
             }
+            // Record commands that leave the scene or end the game
+            if (command == "finish" || command == "ending") {
+                indexingState.flowControlEvents.push({
+                    command: command,
+                    commandLocation: commandLocation,
+                    label: "",
+                    scene: "",
+                });
+            }
+            // Keep track of the unindented command before each label so we know
+            // if the game can run into the label from above
+            if (command == "label") {
+                indexingState.commandBeforeLabel =
+                    indexingState.lastTopLevelCommand;
+            }
+            if (!/[ \t]/.test(prefix) && command != "comment") {
+                indexingState.lastTopLevelCommand = command;
+            }
+            // Record the value a variable is first created with
+            if (command == "create" || command == "temp") {
+                const m = /^(\w+)\s+(.*\S)/.exec(line);
+                if (
+                    m !== null &&
+                    !indexingState.variableInitialValues.has(m[1])
+                ) {
+                    indexingState.variableInitialValues.set(m[1], m[2]);
+                }
+            }
+            // Record the first type of value a variable is given
+            if (command == "create" || command == "temp" || command == "set") {
+                const m = /^(\w+)\s+(.*\S)/.exec(line);
+                if (m !== null && !indexingState.variableTypes.has(m[1])) {
+                    const type = assignedValueType(
+                        new Expression(m[2], 0, textDocument, command == "set")
+                            .evalType,
+                    );
+                    if (type !== undefined) {
+                        indexingState.variableTypes.set(m[1], type);
+                    }
+                }
+            }
         },
 
         onGlobalVariableCreate: (
@@ -228,6 +313,7 @@ export function updateProjectIndex(
                 state.callbacks.onParseError(diagnostic);
             } else {
                 indexingState.globalVariables.set(symbol, location);
+                indexingState.createdVariables.set(symbol, 1);
             }
         },
 
@@ -240,6 +326,48 @@ export function updateProjectIndex(
             const locations = indexingState.localVariables.get(symbol) ?? [];
             locations.push(location);
             indexingState.localVariables.set(symbol, locations);
+            indexingState.createdVariables.set(symbol, 1);
+        },
+
+        onGlobalArrayCreate: (
+            symbol: string,
+            location: Location,
+            length: number | undefined,
+            state: ParsingState,
+        ) => {
+            const prevArray = indexingState.globalArrays.get(symbol);
+            if (prevArray !== undefined) {
+                const relatedInformation: DiagnosticRelatedInformation = {
+                    location: prevArray.location,
+                    message: "Previously-created array",
+                };
+                const diagnostic = createDiagnosticFromLocation(
+                    DiagnosticCodes.VariableAlreadyCreated,
+                    location,
+                    "This array was created earlier.",
+                );
+                diagnostic.relatedInformation = [relatedInformation];
+                state.callbacks.onParseError(diagnostic);
+            } else {
+                indexingState.globalArrays.set(symbol, {
+                    location: location,
+                    length: length,
+                });
+            }
+        },
+
+        onLocalArrayCreate: (
+            symbol: string,
+            location: Location,
+            length: number | undefined,
+        ) => {
+            // Like temp variables, local arrays can be re-created, so keep the first one
+            if (!indexingState.localArrays.has(symbol)) {
+                indexingState.localArrays.set(symbol, {
+                    location: location,
+                    length: length,
+                });
+            }
         },
 
         onLabelCreate: (
@@ -263,6 +391,9 @@ export function updateProjectIndex(
                 const label: Label = {
                     label: symbol,
                     location: location,
+                    fallsThrough: !flowEndingCommandsLookup.has(
+                        indexingState.commandBeforeLabel ?? "",
+                    ),
                 };
                 indexingState.labels.set(symbol, label);
             }
@@ -280,6 +411,13 @@ export function updateProjectIndex(
             indexingState.variableReferences.set(symbol, referenceArray);
         },
 
+        onArrayReference: (symbol: string, location: Location) => {
+            const referenceArray: Location[] =
+                indexingState.arrayReferences.get(symbol) ?? [];
+            referenceArray.push(location);
+            indexingState.arrayReferences.set(symbol, referenceArray);
+        },
+
         onFlowControlEvent: (
             command: string,
             commandLocation: Location,
@@ -287,16 +425,21 @@ export function updateProjectIndex(
             scene: string,
             labelLocation: Location | undefined,
             sceneLocation: Location | undefined,
+            argumentLocations: Location[] | undefined,
             state: ParsingState,
         ) => {
-            indexingState.flowControlEvents.push({
+            const event: FlowControlEvent = {
                 command: command,
                 commandLocation: commandLocation,
                 label: label,
                 labelLocation: labelLocation,
                 scene: scene,
                 sceneLocation: sceneLocation,
-            });
+            };
+            if (argumentLocations !== undefined) {
+                event.argumentLocations = argumentLocations;
+            }
+            indexingState.flowControlEvents.push(event);
 
             if (command == "return") {
                 const size = indexingState.labels.size;
@@ -331,6 +474,12 @@ export function updateProjectIndex(
             indexingState.scenes = scenes;
         },
 
+        onSceneListEntry: (scene: string, location: Location) => {
+            if (!indexingState.sceneListLocations.has(scene)) {
+                indexingState.sceneListLocations.set(scene, location);
+            }
+        },
+
         onAchievementCreate: (
             codename: string,
             location: Location,
@@ -379,17 +528,38 @@ export function updateProjectIndex(
         onImage: (symbol: string, location: Location, state: ParsingState) => {
             // eslint-disable-line @typescript-eslint/no-unused-vars
             const locations: Location[] =
-                indexingState.achievementReferences.get(symbol) ?? [];
+                indexingState.images.get(symbol) ?? [];
             locations.push(location);
             indexingState.images.set(symbol, locations);
         },
 
+        onSound: (symbol: string, location: Location) => {
+            const locations: Location[] =
+                indexingState.sounds.get(symbol) ?? [];
+            locations.push(location);
+            indexingState.sounds.set(symbol, locations);
+        },
+
         onParseError: (error: Diagnostic) => {
             indexingState.parseErrors.push(error);
         },
     };
 
-    const wordCount = parse(textDocument, callbacks);
+    // Check expressions against the variables' types as they're known at that point in the document
+    const variableTypes: VariableTypeLookup = (variable) =>
+        indexingState.createdVariables.has(variable)
+            ? indexingState.variableTypes.get(variable)
+            : index.getGlobalVariableType(variable);
+
+    const wordCount =
+        sectionCache !== undefined
+            ? parseWithSectionCache(
+                  textDocument,
+                  callbacks,
+                  sectionCache,
+                  variableTypes,
+              )
+            : parse(textDocument, callbacks, variableTypes);
     const scopes = generateScopes(indexingState);
     const subroutineVariables = findSubroutineVariables(indexingState);
 
@@ -402,7 +572,9 @@ export function updateProjectIndex(
             indexingState.scenes.push("choicescript_stats");
         }
         index.setGlobalVariables(uri, indexingState.globalVariables);
+        index.setGlobalArrays(uri, indexingState.globalArrays);
         index.setSceneList(indexingState.scenes);
+        index.setSceneListLocations(indexingState.sceneListLocations);
         index.setAchievements(indexingState.achievements);
     }
     if (isChoicescriptStatsFile) {
@@ -411,12 +583,18 @@ export function updateProjectIndex(
     index.setWordCount(uri, wordCount);
     index.setLocalVariables(uri, indexingState.localVariables);
     index.setSubroutineLocalVariables(uri, subroutineVariables);
+    index.setVariableInitialValues(uri, indexingState.variableInitialValues);
+    index.setVariableTypes(uri, indexingState.variableTypes);
     index.setVariableReferences(uri, indexingState.variableReferences);
+    index.setLocalArrays(uri, indexingState.localArrays);
+    index.setArrayReferences(uri, indexingState.arrayReferences);
     index.setLabels(uri, indexingState.labels);
     index.setAchievementReferences(uri, indexingState.achievementReferences);
     index.setDocumentScopes(uri, scopes);
     index.setFlowControlEvents(uri, indexingState.flowControlEvents);
+    index.setSceneParams(uri, indexingState.sceneParams);
     index.setImages(uri, indexingState.images);
+    index.setSounds(uri, indexingState.sounds);
     index.setParseErrors(uri, indexingState.parseErrors);
     index.setScriptUsages(uri, indexingState.scriptCommands);
 
@@ -123,8 +123,11 @@ export const argumentRequiredCommands: readonly string[] = [
     "gotoref",
     "label",
     "create",
+    "create_array",
     "temp",
+    "temp_array",
     "delete",
+    "delete_array",
     "set",
     "setref",
     "print",
@@ -215,9 +218,11 @@ export const insideBlockCommands: readonly string[] = [
  */
 export const symbolCreationCommands: readonly string[] = [
     "temp",
+    "temp_array",
     "label",
     "params",
     "create",
+    "create_array",
 ];
 
 /**
@@ -235,6 +240,7 @@ export const variableReferenceCommands: readonly string[] = [
 export const variableManipulationCommands: readonly string[] = [
     "set",
     "delete",
+    "delete_array",
     "rand",
     "input_text",
     "input_number",
@@ -251,6 +257,20 @@ export const flowControlCommands: readonly string[] = [
     "return",
 ];
 
+/**
+ * Commands that keep the game from running past them to the next line.
+ */
+export const flowEndingCommands: readonly string[] = [
+    "goto",
+    "goto_scene",
+    "goto_random_scene",
+    "finish",
+    "ending",
+    "return",
+    "restart",
+    "choice",
+];
+
 /**
  * Sub-commands under a *stat_chart command.
  */
@@ -272,6 +292,7 @@ export const statChartBlockCommands: readonly string[] = ["opposed_pair"];
  */
 export const startupCommandsCompletions: CompletionItem[] = [
     "create",
+    "create_array",
     "scene_list",
     "title",
     "author",
@@ -292,6 +313,7 @@ export const validCommandsCompletions: CompletionItem[] = [
     "finish",
     "choice",
     "temp",
+    "temp_array",
     "delete",
     "set",
     "if",
@@ -405,6 +427,14 @@ export const builtinVariables = new RegExp(
  */
 export const paramValues = new RegExp("^param_(count|\\d+)$");
 
+/**
+ * Variables that ChoiceScript itself reads to change how the game runs.
+ */
+export const engineSettingVariables: readonly string[] = [
+    "implicit_control_flow",
+    "checkpoint_exclusions",
+];
+
 /**
  * Math operators
  */
@@ -0,0 +1,299 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { type Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import type { FileSystemService } from "./file-system-service";
+import { Index } from "./index";
+import { updateProjectIndex } from "./indexer";
+import { uriIsChoicescriptStatsFile, uriIsStartupFile } from "./language";
+import { type ValidationSettings, generateDiagnostics } from "./validator";
+
+/**
+ * Diagnostics found in one of a project's scene files.
+ */
+export interface SceneDiagnostics {
+    /**
+     * Platform path to the scene file.
+     */
+    path: string;
+    /**
+     * Diagnostics for the scene.
+     */
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Format the results of linting a project can be printed in.
+ */
+export type LintOutputFormat = "text" | "json" | "sarif";
+
+const severityNames: ReadonlyMap<DiagnosticSeverity, string> = new Map([
+    [DiagnosticSeverity.Error, "error"],
+    [DiagnosticSeverity.Warning, "warning"],
+    [DiagnosticSeverity.Information, "info"],
+    [DiagnosticSeverity.Hint, "hint"],
+]);
+
+const sarifLevels: ReadonlyMap<DiagnosticSeverity, string> = new Map([
+    [DiagnosticSeverity.Error, "error"],
+    [DiagnosticSeverity.Warning, "warning"],
+    [DiagnosticSeverity.Information, "note"],
+    [DiagnosticSeverity.Hint, "note"],
+]);
+
+/**
+ * Index a ChoiceScript project and find the diagnostics for all of its scenes.
+ *
+ * Scenes are found the same way the language server finds them: starting with
+ * `startup.txt` and `choicescript_stats.txt` and following every scene they reference.
+ * @param sceneFilesPath Platform path to the directory containing `startup.txt`.
+ * @param fileSystemService Service that provides access to the file system.
+ * @param validationSettings Validation settings.
+ * @returns Diagnostics for each scene that was found, in the order they were indexed.
+ * @throws Error if the directory doesn't contain a `startup.txt` file.
+ */
+export async function lintProject(
+    sceneFilesPath: string,
+    fileSystemService: FileSystemService,
+    validationSettings: ValidationSettings,
+): Promise<SceneDiagnostics[]> {
+    const projectIndex = new Index();
+    projectIndex.setPlatformScenePath(sceneFilesPath);
+    const documents: Map<string, TextDocument> = new Map();
+    const triedScenes: Set<string> = new Set();
+
+    const indexFile = async (filePath: string): Promise<string[]> => {
+        if (!(await fileSystemService.fileExists(filePath))) {
+            return [];
+        }
+        const data = await fileSystemService.readFile(filePath);
+        const uri = pathToFileURL(filePath).toString();
+        const textDocument = TextDocument.create(uri, "ChoiceScript", 0, data);
+        documents.set(filePath, textDocument);
+        return updateProjectIndex(
+            textDocument,
+            uriIsStartupFile(uri),
+            uriIsChoicescriptStatsFile(uri),
+            projectIndex,
+        );
+    };
+
+    const startupPath = path.join(sceneFilesPath, "startup.txt");
+    if (!(await fileSystemService.fileExists(startupPath))) {
+        throw new Error(`No startup.txt file found in ${sceneFilesPath}`);
+    }
+    triedScenes.add("startup");
+    triedScenes.add("choicescript_stats");
+    let newScenes = await indexFile(startupPath);
+    newScenes.push(
+        ...(await indexFile(
+            path.join(sceneFilesPath, "choicescript_stats.txt"),
+        )),
+    );
+
+    // Keep indexing until we stop finding scenes we haven't tried
+    while (newScenes.length > 0) {
+        const scenes = newScenes.filter((scene) => !triedScenes.has(scene));
+        newScenes = [];
+        for (const scene of new Set(scenes)) {
+            triedScenes.add(scene);
+            newScenes.push(
+                ...(await indexFile(path.join(sceneFilesPath, scene + ".txt"))),
+            );
+        }
+    }
+    projectIndex.setProjectIsIndexed(true);
+
+    const results: SceneDiagnostics[] = [];
+    for (const [filePath, textDocument] of documents) {
+        results.push({
+            path: filePath,
+            diagnostics: await generateDiagnostics(
+                textDocument,
+                projectIndex,
+                validationSettings,
+                fileSystemService,
+            ),
+        });
+    }
+    return results;
+}
+
+/**
+ * Count the diagnostics with a given severity.
+ * @param results Diagnostics for each scene.
+ * @param severity Severity to count.
+ */
+export function countDiagnostics(
+    results: readonly SceneDiagnostics[],
+    severity: DiagnosticSeverity,
+): number {
+    let count = 0;
+    for (const result of results) {
+        count += result.diagnostics.filter(
+            (diagnostic) => diagnostic.severity == severity,
+        ).length;
+    }
+    return count;
+}
+
+/**
+ * Get the path to a scene file relative to a root directory, with forward slashes.
+ * @param filePath Platform path to the scene file.
+ * @param rootPath Platform path to the root directory.
+ */
+function relativePath(filePath: string, rootPath: string): string {
+    return path.relative(rootPath, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Format diagnostics as human-readable text, one diagnostic per line.
+ * @param results Diagnostics for each scene.
+ * @param rootPath Platform path that file paths are shown relative to.
+ */
+function formatAsText(
+    results: readonly SceneDiagnostics[],
+    rootPath: string,
+): string {
+    const lines: string[] = [];
+    for (const result of results) {
+        const file = relativePath(result.path, rootPath);
+        for (const diagnostic of result.diagnostics) {
+            const start = diagnostic.range.start;
+            const severity =
+                severityNames.get(
+                    diagnostic.severity ?? DiagnosticSeverity.Error,
+                ) ?? "error";
+            let line = `${file}:${start.line + 1}:${start.character + 1}: ${severity}: ${diagnostic.message}`;
+            if (diagnostic.code !== undefined) {
+                line += ` [${diagnostic.code}]`;
+            }
+            lines.push(line);
+        }
+    }
+
+    const errors = countDiagnostics(results, DiagnosticSeverity.Error);
+    const warnings = countDiagnostics(results, DiagnosticSeverity.Warning);
+    if (lines.length == 0) {
+        lines.push("No problems found.");
+    } else {
+        lines.push(
+            "",
+            `${errors} error${errors == 1 ? "" : "s"}, ${warnings} warning${warnings == 1 ? "" : "s"}`,
+        );
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Format diagnostics as a JSON array with one object per diagnostic.
+ *
+ * Line and column numbers are 1-based.
+ * @param results Diagnostics for each scene.
+ * @param rootPath Platform path that file paths are shown relative to.
+ */
+function formatAsJson(
+    results: readonly SceneDiagnostics[],
+    rootPath: string,
+): string {
+    const output = results.flatMap((result) =>
+        result.diagnostics.map((diagnostic) => ({
+            file: relativePath(result.path, rootPath),
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            endLine: diagnostic.range.end.line + 1,
+            endColumn: diagnostic.range.end.character + 1,
+            severity:
+                severityNames.get(
+                    diagnostic.severity ?? DiagnosticSeverity.Error,
+                ) ?? "error",
+            code: diagnostic.code,
+            message: diagnostic.message,
+        })),
+    );
+    return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Format diagnostics as a SARIF 2.1.0 log.
+ * @param results Diagnostics for each scene.
+ * @param rootPath Platform path that file paths are shown relative to.
+ */
+function formatAsSarif(
+    results: readonly SceneDiagnostics[],
+    rootPath: string,
+): string {
+    const ruleIds = new Set<string>();
+    const sarifResults = results.flatMap((result) =>
+        result.diagnostics.map((diagnostic) => {
+            const ruleId = String(diagnostic.code ?? "choicescript");
+            ruleIds.add(ruleId);
+            return {
+                ruleId: ruleId,
+                level:
+                    sarifLevels.get(
+                        diagnostic.severity ?? DiagnosticSeverity.Error,
+                    ) ?? "error",
+                message: { text: diagnostic.message },
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: {
+                                uri: relativePath(result.path, rootPath),
+                            },
+                            region: {
+                                startLine: diagnostic.range.start.line + 1,
+                                startColumn:
+                                    diagnostic.range.start.character + 1,
+                                endLine: diagnostic.range.end.line + 1,
+                                endColumn: diagnostic.range.end.character + 1,
+                            },
+                        },
+                    },
+                ],
+            };
+        }),
+    );
+
+    const log = {
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: "choicescript-lint",
+                        informationUri:
+                            "https://github.com/sgranade/choicescript_vscode",
+                        rules: [...ruleIds].sort().map((id) => ({ id: id })),
+                    },
+                },
+                results: sarifResults,
+            },
+        ],
+    };
+    return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Format the results of linting a project.
+ * @param results Diagnostics for each scene.
+ * @param format Output format.
+ * @param rootPath Platform path that file paths are shown relative to.
+ * @returns The formatted results.
+ */
+export function formatLintResults(
+    results: readonly SceneDiagnostics[],
+    format: LintOutputFormat,
+    rootPath: string,
+): string {
+    switch (format) {
+        case "json":
+            return formatAsJson(results, rootPath);
+        case "sarif":
+            return formatAsSarif(results, rootPath);
+        default:
+            return formatAsText(results, rootPath);
+    }
+}
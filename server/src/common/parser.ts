@@ -37,6 +37,11 @@ import {
     ExpressionTokenType,
     tokenizeMultireplace,
     ExpressionEvalType,
+    type ExpressionToken,
+    type VariableTypeLookup,
+    assignedValueType,
+    evalTypeDescriptions,
+    findArrayReferenceEnd,
 } from "./tokens";
 import {
     findLineEnd,
@@ -111,6 +116,18 @@ export interface ParserCallbacks {
         location: Location,
         state: ParsingState,
     ): void;
+    onGlobalArrayCreate(
+        symbol: string,
+        location: Location,
+        length: number | undefined,
+        state: ParsingState,
+    ): void;
+    onLocalArrayCreate(
+        symbol: string,
+        location: Location,
+        length: number | undefined,
+        state: ParsingState,
+    ): void;
     onLabelCreate(
         symbol: string,
         location: Location,
@@ -121,6 +138,11 @@ export interface ParserCallbacks {
         location: Location,
         state: ParsingState,
     ): void;
+    onArrayReference(
+        symbol: string,
+        location: Location,
+        state: ParsingState,
+    ): void;
     onFlowControlEvent(
         command: string,
         commandLocation: Location,
@@ -128,6 +150,7 @@ export interface ParserCallbacks {
         scene: string,
         labelLocation: Location | undefined,
         sceneLocation: Location | undefined,
+        argumentLocations: Location[] | undefined,
         state: ParsingState,
     ): void;
     onSceneDefinition(
@@ -135,6 +158,11 @@ export interface ParserCallbacks {
         location: Location,
         state: ParsingState,
     ): void;
+    onSceneListEntry(
+        scene: string,
+        location: Location,
+        state: ParsingState,
+    ): void;
     onAchievementCreate(
         codename: string,
         location: Location,
@@ -149,9 +177,40 @@ export interface ParserCallbacks {
     ): void;
     onChoiceScope(scope: SummaryScope, state: ParsingState): void;
     onImage(symbol: string, location: Location, state: ParsingState): void;
+    onSound(symbol: string, location: Location, state: ParsingState): void;
     onParseError(error: Diagnostic): void;
 }
 
+/**
+ * Create parser callbacks that ignore every event except the ones given.
+ * @param callbacks Callbacks for the events to handle.
+ * @returns The full set of parser callbacks.
+ */
+export function createParserCallbacks(
+    callbacks: Partial<ParserCallbacks>,
+): ParserCallbacks {
+    return {
+        onCommand: () => {},
+        onGlobalVariableCreate: () => {},
+        onLocalVariableCreate: () => {},
+        onGlobalArrayCreate: () => {},
+        onLocalArrayCreate: () => {},
+        onLabelCreate: () => {},
+        onVariableReference: () => {},
+        onArrayReference: () => {},
+        onFlowControlEvent: () => {},
+        onSceneDefinition: () => {},
+        onSceneListEntry: () => {},
+        onAchievementCreate: () => {},
+        onAchievementReference: () => {},
+        onChoiceScope: () => {},
+        onImage: () => {},
+        onSound: () => {},
+        onParseError: () => {},
+        ...callbacks,
+    };
+}
+
 /**
  * Captures information about the current state of parsing
  */
@@ -181,15 +240,25 @@ export class ParsingState {
      * Enclosing block (for parsing e.g. *if or *choice commands)
      */
     enclosingBlock: string | undefined;
+    /**
+     * Function that finds the type of value a variable holds, if known.
+     * Used to check expressions against variables' types
+     */
+    variableTypes: VariableTypeLookup | undefined;
 
     _enclosingBlockStack: string[];
 
-    constructor(textDocument: TextDocument, callbacks: ParserCallbacks) {
+    constructor(
+        textDocument: TextDocument,
+        callbacks: ParserCallbacks,
+        variableTypes?: VariableTypeLookup,
+    ) {
         this.textDocument = textDocument;
         this.textDocumentUri = normalizeUri(textDocument.uri);
         this.sectionGlobalIndex = 0;
         this.callbacks = callbacks;
         this.createdTempVariables = false;
+        this.variableTypes = variableTypes;
         this._enclosingBlockStack = [];
     }
 
@@ -444,6 +513,9 @@ function parseTokenizedExpression(
                 );
                 break;
             }
+            case ExpressionTokenType.ArrayReference:
+                parseArrayReference(token, tokenSectionIndex, state);
+                break;
             case ExpressionTokenType.UnknownOperator: {
                 const diagnostic = createParsingDiagnostic(
                     state,
@@ -477,6 +549,69 @@ function parseTokenizedExpression(
     }
 }
 
+/**
+ * Parse an array reference like `arr[1]` or `arr[i][j]`.
+ *
+ * If all of its indices are numbers, the reference is also a reference to the
+ * variable that holds that element of the array, like `arr_1`.
+ * @param token Array reference token.
+ * @param tokenSectionIndex Location of the token in the section being parsed.
+ * @param state Parsing state.
+ */
+function parseArrayReference(
+    token: ExpressionToken,
+    tokenSectionIndex: number,
+    state: ParsingState,
+): void {
+    const array = token.text.split("[")[0];
+    const location = createParsingLocation(
+        tokenSectionIndex,
+        tokenSectionIndex + array.length,
+        state,
+    );
+    state.callbacks.onArrayReference(array, location, state);
+
+    const indices = token.indices ?? [];
+    const constantIndices: string[] = [];
+    for (const index of indices) {
+        parseTokenizedExpression(index, state);
+        if (
+            index.evalType == ExpressionEvalType.String ||
+            index.evalType == ExpressionEvalType.Boolean
+        ) {
+            const start =
+                index.globalIndex +
+                index.bareExpression.length -
+                index.bareExpression.trimStart().length;
+            const diagnostic = createDiagnostic(
+                DiagnosticCodes.ArrayIndexNotNumber,
+                state.textDocument,
+                start,
+                index.globalIndex + index.bareExpression.trimEnd().length,
+            );
+            state.callbacks.onParseError(diagnostic);
+        }
+        if (
+            index.tokens.length == 1 &&
+            index.tokens[0].type == ExpressionTokenType.Number
+        ) {
+            constantIndices.push(index.tokens[0].text);
+        }
+    }
+    if (indices.length > 0 && constantIndices.length == indices.length) {
+        const elementLocation = createParsingLocation(
+            tokenSectionIndex,
+            tokenSectionIndex + token.text.length,
+            state,
+        );
+        state.callbacks.onVariableReference(
+            `${array}_${constantIndices.join("_")}`,
+            elementLocation,
+            state,
+        );
+    }
+}
+
 /**
  * Parse an expression.
  * @param expression String containing the expression (and only the expression).
@@ -496,6 +631,7 @@ function parseExpression(
         globalIndex,
         state.textDocument,
         isValueSetting,
+        state.variableTypes,
     );
     parseTokenizedExpression(tokenizedExpression, state);
     return tokenizedExpression;
@@ -875,6 +1011,34 @@ function parseParams(
     }
 }
 
+/**
+ * Make sure the value a *set command gives a variable matches the type of value it holds.
+ * @param variable Token for the variable being set.
+ * @param value Expression that sets the variable's value.
+ * @param state Parsing state.
+ */
+function validateSetValueType(
+    variable: ExpressionToken,
+    value: Expression,
+    state: ParsingState,
+): void {
+    if (variable.variableType === undefined) {
+        return;
+    }
+    const valueType = assignedValueType(value.evalType);
+    if (valueType === undefined || valueType == variable.variableType) {
+        return;
+    }
+    const diagnostic = createDiagnostic(
+        DiagnosticCodes.VariableTypeMismatch,
+        state.textDocument,
+        value.globalIndex,
+        value.globalIndex + value.bareExpression.trimEnd().length,
+        `"${variable.text}" holds ${evalTypeDescriptions.get(variable.variableType)}, but this sets it to ${evalTypeDescriptions.get(valueType)}.`,
+    );
+    state.callbacks.onParseError(diagnostic);
+}
+
 /**
  * Parse a *set command.
  * @param line Line after *set that contains the variable and the value to set it to.
@@ -891,6 +1055,7 @@ function parseSet(
         lineSectionIndex + state.sectionGlobalIndex,
         state.textDocument,
         true,
+        state.variableTypes,
     );
     const tokens = tokenizedExpression.tokens;
 
@@ -907,7 +1072,8 @@ function parseSet(
     // The first token must be a variable or a variable reference
     if (
         tokens[0].type != ExpressionTokenType.Variable &&
-        tokens[0].type != ExpressionTokenType.VariableReference
+        tokens[0].type != ExpressionTokenType.VariableReference &&
+        tokens[0].type != ExpressionTokenType.ArrayReference
     ) {
         const diagnostic = createParsingDiagnostic(
             state,
@@ -934,6 +1100,104 @@ function parseSet(
         state.callbacks.onParseError(diagnostic);
     } else {
         parseTokenizedExpression(remainingExpression, state);
+        validateSetValueType(tokens[0], remainingExpression, state);
+    }
+}
+
+/**
+ * Parse a *create_array or *temp_array command.
+ * @param command Command that creates the array.
+ * @param commandSectionIndex Location of the command in the section being parsed.
+ * @param line Remainder of the line after the command. Guaranteed to have content.
+ * @param lineSectionIndex Location of the line in the section being parsed.
+ * @param state Indexing state.
+ */
+function parseArrayCreation(
+    command: string,
+    commandSectionIndex: number,
+    line: string,
+    lineSectionIndex: number,
+    state: ParsingState,
+): void {
+    const lineMatch =
+        /^(?<symbol>\w+)((?<spacing>\s+)(?<length>\S+)(?<values>.*))?/.exec(
+            line,
+        );
+    if (lineMatch === null || lineMatch.groups === undefined) {
+        return;
+    }
+    const symbol = lineMatch.groups.symbol;
+    // As with variables, array names can't start with "choice_"
+    if (symbol.startsWith("choice_")) {
+        const diagnostic = createParsingDiagnostic(
+            state,
+            DiagnosticCodes.NoChoiceVariableNames,
+            lineSectionIndex,
+            lineSectionIndex + symbol.length,
+        );
+        state.callbacks.onParseError(diagnostic);
+        return;
+    }
+    const symbolLocation = createParsingLocation(
+        lineSectionIndex,
+        lineSectionIndex + symbol.length,
+        state,
+    );
+    const lengthText: string | undefined = lineMatch.groups.length;
+    const length =
+        lengthText !== undefined && /^\d+$/.test(lengthText)
+            ? Number(lengthText)
+            : undefined;
+
+    if (command == "create_array") {
+        state.callbacks.onGlobalArrayCreate(
+            symbol,
+            symbolLocation,
+            length,
+            state,
+        );
+        // Warn about using *create_array after *temp in startup.txt
+        if (
+            state.createdTempVariables &&
+            uriIsStartupFile(state.textDocumentUri)
+        ) {
+            const diagnostic = createParsingDiagnostic(
+                state,
+                DiagnosticCodes.NoCreateAfterTemp,
+                commandSectionIndex,
+                commandSectionIndex + command.length,
+                "*create_array must come before all *temp commands.",
+            );
+            state.callbacks.onParseError(diagnostic);
+        }
+    } else {
+        state.callbacks.onLocalArrayCreate(
+            symbol,
+            symbolLocation,
+            length,
+            state,
+        );
+        state.createdTempVariables = true;
+    }
+
+    // Each of the array's initial values is its own expression
+    const values: string | undefined = lineMatch.groups.values;
+    if (lengthText !== undefined && values !== undefined) {
+        const valuesSectionIndex =
+            lineSectionIndex +
+            symbol.length +
+            lineMatch.groups.spacing.length +
+            lengthText.length;
+        const tokenizedValues = new Expression(
+            values,
+            valuesSectionIndex + state.sectionGlobalIndex,
+            state.textDocument,
+            false,
+            state.variableTypes,
+        );
+        for (let i = 0; i < tokenizedValues.tokens.length; i++) {
+            parseTokenizedExpression(tokenizedValues.slice(i, i + 1), state);
+        }
     }
 }
 
@@ -958,6 +1222,14 @@ function parseSymbolManipulationCommand(
         parseParams(line, lineSectionIndex, state);
     } else if (command == "set") {
         parseSet(line, lineSectionIndex, state);
+    } else if (command == "create_array" || command == "temp_array") {
+        parseArrayCreation(
+            command,
+            commandSectionIndex,
+            line,
+            lineSectionIndex,
+            state,
+        );
     } else {
         let linePattern = /(?<symbol>\w+)((?<spacing>\s+?)(?<expression>.+))?/;
         if (command == "label") {
@@ -1077,13 +1349,27 @@ function parseSymbolManipulationCommand(
             case "rand":
             case "input_text":
             case "input_number":
-                // these reference a variable
+                // these reference a variable, which can be an array element
+                if (line[symbol.length] == "[") {
+                    parseExpression(
+                        line.slice(
+                            0,
+                            findArrayReferenceEnd(line, symbol.length),
+                        ),
+                        lineSectionIndex + state.sectionGlobalIndex,
+                        state,
+                    );
+                    break;
+                }
                 state.callbacks.onVariableReference(
                     symbol,
                     symbolLocation,
                     state,
                 );
                 break;
+            case "delete_array":
+                state.callbacks.onArrayReference(symbol, symbolLocation, state);
+                break;
             default:
                 throw Error(
                     `Unexpected command ${command} in parseSymbolManipulatingCommand`,
@@ -1987,9 +2273,19 @@ function parseScenes(
     state: ParsingState,
 ): void {
     const sceneList: string[] = [];
+    const sceneLocations: Location[] = [];
     const scenePattern = /(\s+)(\$\s+)?(\S+)\s*\r?\n/;
     let lineStart = startSectionIndex;
 
+    const addScene = (m: RegExpExecArray): void => {
+        const sceneStart =
+            lineStart + m.index + m[1].length + (m[2]?.length ?? 0);
+        sceneList.push(m[3]);
+        sceneLocations.push(
+            createParsingLocation(sceneStart, sceneStart + m[3].length, state),
+        );
+    };
+
     // Process the first line to get the indent level and first scene
     let lineEnd = findLineEnd(text, lineStart);
     if (!lineEnd) {
@@ -2001,7 +2297,7 @@ function parseScenes(
         return;
     }
     const padding = m[1];
-    sceneList.push(m[3]);
+    addScene(m);
     lineStart = lineEnd;
 
     // Now loop as long as the scene pattern matches and the padding is consistent
@@ -2015,7 +2311,7 @@ function parseScenes(
         if (!m || m[1] != padding) {
             break;
         }
-        sceneList.push(m[3]);
+        addScene(m);
         lineStart = lineEnd;
     }
 
@@ -2027,6 +2323,86 @@ function parseScenes(
     const range = Range.create(startPosition, endPosition);
     const location = Location.create(state.textDocumentUri, range);
     state.callbacks.onSceneDefinition(sceneList, location, state);
+    for (let i = 0; i < sceneList.length; i++) {
+        state.callbacks.onSceneListEntry(
+            sceneList[i],
+            sceneLocations[i],
+            state,
+        );
+    }
+}
+
+/**
+ * Parse the scenes listed under a *goto_random_scene command.
+ * @param text Text to scan.
+ * @param prefix Spaces before the *goto_random_scene command.
+ * @param commandLocation Location of the *goto_random_scene command.
+ * @param startSectionIndex Index at the start of the line after the command.
+ * @param state Parsing state.
+ * @returns Index one past the last listed scene's line, or undefined if no scenes are listed.
+ */
+function parseRandomScenes(
+    text: string,
+    prefix: string,
+    commandLocation: Location,
+    startSectionIndex: number,
+    state: ParsingState,
+): number | undefined {
+    // Each scene can be preceded by *allow_reuse and an *if (condition)
+    const scenePattern =
+        /^(?<padding>[ \t]+)(?<modifiers>(?:\*allow_reuse\s+|\*if\s+\((?<condition>.+)\)\s+)*)(?<scene>\S+)[ \t]*(?:\r?\n|$)/;
+    // prefix can include a leading \n, so don't count that
+    const commandIndent = prefix.replace("\n", "").length;
+    let lineStart = startSectionIndex;
+    let endIndex: number | undefined;
+
+    while (lineStart < text.length) {
+        const lineEnd = findLineEnd(text, lineStart);
+        if (lineEnd <= lineStart) {
+            break;
+        }
+        const line = text.slice(lineStart, lineEnd);
+        if (line.trim() == "") {
+            lineStart = lineEnd;
+            continue;
+        }
+        const m = scenePattern.exec(line);
+        if (
+            m?.groups === undefined ||
+            m.groups.padding.length <= commandIndent
+        ) {
+            break;
+        }
+        const modifiersIndex = lineStart + m.groups.padding.length;
+        if (m.groups.condition !== undefined) {
+            const conditionIndex =
+                modifiersIndex + m.groups.modifiers.indexOf(m.groups.condition);
+            parseExpression(
+                m.groups.condition,
+                state.sectionGlobalIndex + conditionIndex,
+                state,
+            );
+        }
+        const sceneIndex = modifiersIndex + m.groups.modifiers.length;
+        state.callbacks.onFlowControlEvent(
+            "goto_random_scene",
+            commandLocation,
+            "",
+            m.groups.scene,
+            undefined,
+            createParsingLocation(
+                sceneIndex,
+                sceneIndex + m.groups.scene.length,
+                state,
+            ),
+            undefined,
+            state,
+        );
+        endIndex = lineEnd;
+        lineStart = lineEnd;
+    }
+
+    return endIndex;
 }
 
 /**
@@ -2369,6 +2745,19 @@ function parseIfBlock(
         const newCommandLineIndex =
             newCommandIndex + newCommand.length + newCommandSpacing.length;
 
+        state.callbacks.onCommand(
+            m.groups.commandPrefix ?? "",
+            newCommand,
+            newCommandSpacing,
+            newCommandLine,
+            createParsingLocation(
+                newCommandIndex,
+                newCommandIndex + newCommand.length,
+                state,
+            ),
+            state,
+        );
+
         // Check the command for errors
         checkCommandArgumentContents(
             newCommand,
@@ -2452,6 +2841,7 @@ function parseFlowControlCommand(
     let scene = "";
     let labelLocation: Location | undefined = undefined;
     let sceneLocation: Location | undefined = undefined;
+    let argumentLocations: Location[] | undefined = undefined;
 
     if (command != "return") {
         let secondToken = "";
@@ -2539,13 +2929,16 @@ function parseFlowControlCommand(
             );
         }
 
-        if (command.startsWith("gosub") && remainderLine.trim() != "") {
+        if (command.startsWith("gosub")) {
+            argumentLocations = [];
+        }
+        if (argumentLocations !== undefined && remainderLine.trim() != "") {
             // Handle potential parameters by tokenizing them as if they were an expression, but then consider them
             // one at a time
+            const remainderLineSectionIndex =
+                lineSectionIndex + remainderLineLocalIndex;
             const remainderLineGlobalIndex =
-                lineSectionIndex +
-                remainderLineLocalIndex +
-                state.sectionGlobalIndex;
+                remainderLineSectionIndex + state.sectionGlobalIndex;
             const expression = new Expression(
                 remainderLine,
                 remainderLineGlobalIndex,
@@ -2558,6 +2951,15 @@ function parseFlowControlCommand(
                     token.index + remainderLineGlobalIndex,
                     state,
                 );
+                const tokenSectionIndex =
+                    remainderLineSectionIndex + token.index;
+                argumentLocations.push(
+                    createParsingLocation(
+                        tokenSectionIndex,
+                        tokenSectionIndex + token.text.length,
+                        state,
+                    ),
+                );
             }
         }
     }
@@ -2569,6 +2971,7 @@ function parseFlowControlCommand(
         scene,
         labelLocation,
         sceneLocation,
+        argumentLocations,
         state,
     );
 }
@@ -2903,6 +3306,25 @@ function parseImage(
     state.callbacks.onImage(image, location, state);
 }
 
+/**
+ * Parse a sound.
+ * @param sound Sound file or URL.
+ * @param startSectionIndex Index at the start of the sound.
+ * @param state Parsing state.
+ */
+function parseSound(
+    sound: string,
+    startSectionIndex: number,
+    state: ParsingState,
+): void {
+    const location = createParsingLocation(
+        startSectionIndex,
+        startSectionIndex + sound.length,
+        state,
+    );
+    state.callbacks.onSound(sound, location, state);
+}
+
 /**
  * Parse an IFID.
  * @param ifid IFID value.
@@ -3258,6 +3680,18 @@ function parseCommand(
         if (nextLineIndex !== undefined) {
             parseScenes(document, nextLineIndex, state);
         }
+    } else if (command == "goto_random_scene") {
+        const nextLineIndex = findLineEnd(document, commandSectionIndex);
+        if (nextLineIndex !== undefined) {
+            endParseIndex =
+                parseRandomScenes(
+                    document,
+                    prefix,
+                    commandLocation,
+                    nextLineIndex,
+                    state,
+                ) ?? endParseIndex;
+        }
     } else if (command == "stat_chart") {
         const nextLineIndex = findLineEnd(document, commandSectionIndex);
         if (nextLineIndex !== undefined) {
@@ -3296,6 +3730,11 @@ function parseCommand(
                 state,
             );
         }
+    } else if (command == "sound") {
+        const soundMatch = line.match(/^\S+/);
+        if (soundMatch) {
+            parseSound(soundMatch[0], lineSectionIndex, state);
+        }
     } else if (command == "ifid") {
         const ifidMatch = line.match(/^\S+/);
         if (ifidMatch) {
@@ -3531,16 +3970,414 @@ export function countWords(
  *
  * @param textDocument Document to parse.
  * @param callbacks Parser event callbacks.
+ * @param variableTypes Function that finds the type of value a variable holds, if known.
  * @returns Number of words in the document.
  */
 export function parse(
     textDocument: TextDocument,
     callbacks: ParserCallbacks,
+    variableTypes?: VariableTypeLookup,
 ): number {
-    const state = new ParsingState(textDocument, callbacks);
+    const state = new ParsingState(textDocument, callbacks, variableTypes);
     const text = textDocument.getText();
 
     parseSection(text, 0, state);
 
     return countWords(text, textDocument);
 }
+
+/**
+ * A parser callback's arguments, minus the parsing state.
+ */
+type RecordedArguments<T extends unknown[]> = T extends [
+    ...infer Args,
+    ParsingState,
+]
+    ? Args
+    : T;
+
+/**
+ * A parser callback, recorded so it can be replayed later.
+ */
+type ParserEvent = {
+    [K in keyof ParserCallbacks]: {
+        callback: K;
+        args: RecordedArguments<Parameters<ParserCallbacks[K]>>;
+    };
+}[keyof ParserCallbacks];
+
+/**
+ * Parsing results for one label section of a document.
+ */
+interface CachedSection {
+    startLine: number; // Line the section started on when it was parsed
+    events: ParserEvent[]; // Parser callbacks the section generated
+    variableTypes: Map<string, ExpressionEvalType | undefined>; // Variables' types the first time the section looked them up
+    wordCount: number; // Number of words in the section
+    createdTempVariables: boolean; // Whether temp variables had been created by the end of the section
+}
+
+/**
+ * Cache of a document's parsed label sections.
+ *
+ * Sections are keyed by their text and by whether temp variables had been
+ * created before them, since that changes how *create commands are parsed.
+ */
+export class SectionCache {
+    sections: Map<string, CachedSection> = new Map();
+}
+
+/**
+ * Send a recorded parser event to the parser callbacks.
+ * @param event Event to send.
+ * @param callbacks Parser event callbacks.
+ * @param state Parsing state.
+ */
+function dispatchEvent(
+    event: ParserEvent,
+    callbacks: ParserCallbacks,
+    state: ParsingState,
+): void {
+    switch (event.callback) {
+        case "onCommand":
+            callbacks.onCommand(...event.args, state);
+            break;
+        case "onGlobalVariableCreate":
+            callbacks.onGlobalVariableCreate(...event.args, state);
+            break;
+        case "onLocalVariableCreate":
+            callbacks.onLocalVariableCreate(...event.args, state);
+            break;
+        case "onGlobalArrayCreate":
+            callbacks.onGlobalArrayCreate(...event.args, state);
+            break;
+        case "onLocalArrayCreate":
+            callbacks.onLocalArrayCreate(...event.args, state);
+            break;
+        case "onLabelCreate":
+            callbacks.onLabelCreate(...event.args, state);
+            break;
+        case "onVariableReference":
+            callbacks.onVariableReference(...event.args, state);
+            break;
+        case "onArrayReference":
+            callbacks.onArrayReference(...event.args, state);
+            break;
+        case "onFlowControlEvent":
+            callbacks.onFlowControlEvent(...event.args, state);
+            break;
+        case "onSceneDefinition":
+            callbacks.onSceneDefinition(...event.args, state);
+            break;
+        case "onSceneListEntry":
+            callbacks.onSceneListEntry(...event.args, state);
+            break;
+        case "onAchievementCreate":
+            callbacks.onAchievementCreate(...event.args, state);
+            break;
+        case "onAchievementReference":
+            callbacks.onAchievementReference(...event.args, state);
+            break;
+        case "onChoiceScope":
+            callbacks.onChoiceScope(...event.args, state);
+            break;
+        case "onImage":
+            callbacks.onImage(...event.args, state);
+            break;
+        case "onSound":
+            callbacks.onSound(...event.args, state);
+            break;
+        case "onParseError":
+            callbacks.onParseError(...event.args);
+            break;
+    }
+}
+
+/**
+ * Create parser callbacks that record every callback before passing it on.
+ *
+ * Callbacks are passed on with the same parsing state they get when they're
+ * replayed, so that anything they report isn't recorded along with them.
+ * @param events Array the recorded callbacks are added to.
+ * @param callbacks Parser event callbacks to pass the callbacks on to.
+ * @param state Parsing state to pass on with the callbacks.
+ */
+function createRecordingCallbacks(
+    events: ParserEvent[],
+    callbacks: ParserCallbacks,
+    state: ParsingState,
+): ParserCallbacks {
+    const record = (event: ParserEvent) => {
+        events.push(copyAndShiftLines(event, 0));
+        dispatchEvent(event, callbacks, state);
+    };
+
+    return {
+        onCommand: (prefix, command, spacing, line, location) =>
+            record({
+                callback: "onCommand",
+                args: [prefix, command, spacing, line, location],
+            }),
+        onGlobalVariableCreate: (symbol, location) =>
+            record({
+                callback: "onGlobalVariableCreate",
+                args: [symbol, location],
+            }),
+        onLocalVariableCreate: (symbol, location) =>
+            record({
+                callback: "onLocalVariableCreate",
+                args: [symbol, location],
+            }),
+        onGlobalArrayCreate: (symbol, location, length) =>
+            record({
+                callback: "onGlobalArrayCreate",
+                args: [symbol, location, length],
+            }),
+        onLocalArrayCreate: (symbol, location, length) =>
+            record({
+                callback: "onLocalArrayCreate",
+                args: [symbol, location, length],
+            }),
+        onLabelCreate: (symbol, location) =>
+            record({ callback: "onLabelCreate", args: [symbol, location] }),
+        onVariableReference: (symbol, location) =>
+            record({
+                callback: "onVariableReference",
+                args: [symbol, location],
+            }),
+        onArrayReference: (symbol, location) =>
+            record({ callback: "onArrayReference", args: [symbol, location] }),
+        onFlowControlEvent: (
+            command,
+            commandLocation,
+            label,
+            scene,
+            labelLocation,
+            sceneLocation,
+            argumentLocations,
+        ) =>
+            record({
+                callback: "onFlowControlEvent",
+                args: [
+                    command,
+                    commandLocation,
+                    label,
+                    scene,
+                    labelLocation,
+                    sceneLocation,
+                    argumentLocations,
+                ],
+            }),
+        onSceneDefinition: (scenes, location) =>
+            record({ callback: "onSceneDefinition", args: [scenes, location] }),
+        onSceneListEntry: (scene, location) =>
+            record({ callback: "onSceneListEntry", args: [scene, location] }),
+        onAchievementCreate: (codename, location, points, title) =>
+            record({
+                callback: "onAchievementCreate",
+                args: [codename, location, points, title],
+            }),
+        onAchievementReference: (codename, location) =>
+            record({
+                callback: "onAchievementReference",
+                args: [codename, location],
+            }),
+        onChoiceScope: (scope) =>
+            record({ callback: "onChoiceScope", args: [scope] }),
+        onImage: (symbol, location) =>
+            record({ callback: "onImage", args: [symbol, location] }),
+        onSound: (symbol, location) =>
+            record({ callback: "onSound", args: [symbol, location] }),
+        onParseError: (error) => {
+            events.push(
+                copyAndShiftLines(
+                    { callback: "onParseError", args: [error] },
+                    0,
+                ),
+            );
+            callbacks.onParseError(error);
+        },
+    };
+}
+
+/**
+ * Copy a recorded callback argument, moving any positions it contains.
+ *
+ * Copying keeps callbacks that modify their arguments from changing the cache.
+ * @param value Value to copy.
+ * @param lineDelta Number of lines to move positions by.
+ */
+function copyAndShiftLines<T>(value: T, lineDelta: number): T {
+    if (Array.isArray(value)) {
+        return value.map((v: unknown) => copyAndShiftLines(v, lineDelta)) as T;
+    }
+    if (
+        typeof value !== "object" ||
+        value === null ||
+        Object.getPrototypeOf(value) !== Object.prototype
+    ) {
+        return value;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+        copy[key] = copyAndShiftLines(v, lineDelta);
+    }
+    if (Position.is(copy)) {
+        copy.line = (copy.line as number) + lineDelta;
+    }
+    return copy as T;
+}
+
+/**
+ * Split a document's text into sections that each start at an unindented *label.
+ * @param text Document's text.
+ * @returns Each section's offset into the text, along with its text.
+ */
+function splitIntoLabelSections(text: string): [number, string][] {
+    const sections: [number, string][] = [];
+    const labelRegex = /\n(?=\*label\b)/g;
+    let start = 0;
+    let m: RegExpExecArray | null;
+    while ((m = labelRegex.exec(text))) {
+        // Split after the newline so that each section keeps its last line's line ending
+        const end = m.index + 1;
+        if (end > start) {
+            sections.push([start, text.slice(start, end)]);
+        }
+        start = end;
+    }
+    sections.push([start, text.slice(start)]);
+    return sections;
+}
+
+/**
+ * Replay the parser callbacks that a section cache recorded for a document, without re-parsing it.
+ *
+ * Nothing is replayed unless the cache holds every one of the document's current sections.
+ * The replayed callbacks reflect the variables' types when the sections were parsed.
+ * @param textDocument Document whose callbacks to replay.
+ * @param callbacks Parser event callbacks.
+ * @param cache Cache of the document's parsed sections.
+ * @returns True if the callbacks were replayed, or false if the document needs to be parsed.
+ */
+export function replaySectionCache(
+    textDocument: TextDocument,
+    callbacks: ParserCallbacks,
+    cache: SectionCache,
+): boolean {
+    const sections: [number, CachedSection][] = [];
+    let createdTempVariables = false;
+    for (const [offset, text] of splitIntoLabelSections(
+        textDocument.getText(),
+    )) {
+        const section = cache.sections.get(
+            `${createdTempVariables ? "1" : "0"}${text}`,
+        );
+        if (section === undefined) {
+            return false;
+        }
+        sections.push([textDocument.positionAt(offset).line, section]);
+        createdTempVariables = section.createdTempVariables;
+    }
+
+    const state = new ParsingState(textDocument, callbacks);
+    for (const [startLine, section] of sections) {
+        const lineDelta = startLine - section.startLine;
+        for (const event of section.events) {
+            dispatchEvent(
+                copyAndShiftLines(event, lineDelta),
+                callbacks,
+                state,
+            );
+        }
+    }
+    return true;
+}
+
+/**
+ * Parse a ChoiceScript document, re-using the results for label sections that haven't changed.
+ *
+ * The document is split into sections at each unindented *label. Sections whose
+ * text is in the cache have their callbacks replayed instead of being re-parsed,
+ * as long as the variables' types they looked up haven't changed.
+ * The cache is updated to hold only the document's current sections.
+ * @param textDocument Document to parse.
+ * @param callbacks Parser event callbacks.
+ * @param cache Cache of the document's previously-parsed sections.
+ * @param variableTypes Function that finds the type of value a variable holds, if known.
+ * @returns Number of words in the document.
+ */
+export function parseWithSectionCache(
+    textDocument: TextDocument,
+    callbacks: ParserCallbacks,
+    cache: SectionCache,
+    variableTypes?: VariableTypeLookup,
+): number {
+    const state = new ParsingState(textDocument, callbacks, variableTypes);
+    const newSections: Map<string, CachedSection> = new Map();
+    let createdTempVariables = false;
+    let wordCount = 0;
+
+    for (const [offset, text] of splitIntoLabelSections(
+        textDocument.getText(),
+    )) {
+        const key: string = `${createdTempVariables ? "1" : "0"}${text}`;
+        const startLine = textDocument.positionAt(offset).line;
+        let section: CachedSection | undefined =
+            newSections.get(key) ?? cache.sections.get(key);
+        // Variables' types can change without the section's text changing
+        if (
+            section !== undefined &&
+            [...section.variableTypes].some(
+                ([variable, type]) => variableTypes?.(variable) !== type,
+            )
+        ) {
+            section = undefined;
+        }
+        if (section === undefined) {
+            // Parse the section, passing its callbacks along as we record them
+            const events: ParserEvent[] = [];
+            const sectionVariableTypes: Map<
+                string,
+                ExpressionEvalType | undefined
+            > = new Map();
+            const recordingState = new ParsingState(
+                textDocument,
+                createRecordingCallbacks(events, callbacks, state),
+                variableTypes !== undefined
+                    ? (variable) => {
+                          const type = variableTypes(variable);
+                          if (!sectionVariableTypes.has(variable)) {
+                              sectionVariableTypes.set(variable, type);
+                          }
+                          return type;
+                      }
+                    : undefined,
+            );
+            recordingState.createdTempVariables = createdTempVariables;
+            parseSection(text, offset, recordingState);
+            section = {
+                startLine: startLine,
+                events: events,
+                variableTypes: sectionVariableTypes,
+                wordCount: countWords(text, textDocument),
+                createdTempVariables: recordingState.createdTempVariables,
+            };
+        } else {
+            const lineDelta = startLine - section.startLine;
+            for (const event of section.events) {
+                dispatchEvent(
+                    copyAndShiftLines(event, lineDelta),
+                    callbacks,
+                    state,
+                );
+            }
+        }
+        newSections.set(key, section);
+        createdTempVariables = section.createdTempVariables;
+        wordCount += section.wordCount;
+    }
+
+    cache.sections = newSections;
+    return wordCount;
+}
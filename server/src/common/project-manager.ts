@@ -0,0 +1,141 @@
+import { Index, type ProjectIndex } from "./index";
+import { normalizeUri } from "./utilities";
+
+/**
+ * Get the URI of the directory that contains a document.
+ * @param uri Document URI.
+ * @returns Normalized URI to the directory, without a trailing slash.
+ */
+function directoryUri(uri: string): string {
+    const normalizedUri = normalizeUri(uri);
+    return normalizedUri.substring(0, normalizedUri.lastIndexOf("/"));
+}
+
+/**
+ * Normalize a directory URI so that it doesn't end in a slash.
+ * @param uri Directory URI.
+ */
+function normalizeDirectoryUri(uri: string): string {
+    return normalizeUri(uri).replace(/\/+$/, "");
+}
+
+/**
+ * Keeps track of all of the ChoiceScript projects in the workspace.
+ *
+ * Each directory containing a `startup.txt` file is its own project. Documents
+ * that aren't part of a project share an index with the other non-project
+ * documents in their workspace folder.
+ */
+export class ProjectManager {
+    /**
+     * Projects, keyed by the normalized URI of their scene directory.
+     */
+    private _projects: Map<string, ProjectIndex> = new Map();
+    /**
+     * Indices for documents outside of a project, keyed by the normalized URI of their workspace folder.
+     */
+    private _workspaceIndices: Map<string, ProjectIndex> = new Map();
+    /**
+     * Index for documents that are outside of all workspace folders.
+     */
+    private _fallbackIndex: ProjectIndex = new Index();
+
+    /**
+     * Add a workspace folder.
+     * @param workspaceUri URI to the workspace folder.
+     */
+    addWorkspaceFolder(workspaceUri: string): void {
+        const uri = normalizeDirectoryUri(workspaceUri);
+        if (!this._workspaceIndices.has(uri)) {
+            this._workspaceIndices.set(uri, new Index());
+        }
+    }
+
+    /**
+     * Remove a workspace folder and any projects inside of it.
+     * @param workspaceUri URI to the workspace folder.
+     * @returns The removed projects' indices.
+     */
+    removeWorkspaceFolder(workspaceUri: string): ProjectIndex[] {
+        const uri = normalizeDirectoryUri(workspaceUri);
+        const removed: ProjectIndex[] = [];
+        const workspaceIndex = this._workspaceIndices.get(uri);
+        if (workspaceIndex !== undefined) {
+            removed.push(workspaceIndex);
+            this._workspaceIndices.delete(uri);
+        }
+        for (const [sceneUri, project] of this._projects) {
+            if (sceneUri == uri || sceneUri.startsWith(uri + "/")) {
+                removed.push(project);
+                this._projects.delete(sceneUri);
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Add a project, if it doesn't already exist.
+     * @param sceneDirectoryUri URI to the directory containing the project's scene files.
+     * @returns The project's index.
+     */
+    addProject(sceneDirectoryUri: string): ProjectIndex {
+        const uri = normalizeDirectoryUri(sceneDirectoryUri);
+        let project = this._projects.get(uri);
+        if (project === undefined) {
+            project = new Index();
+            this._projects.set(uri, project);
+        }
+        return project;
+    }
+
+    /**
+     * Determine if a document belongs to a project.
+     * @param documentUri URI to the document.
+     * @returns True if the document is in a project's scene directory.
+     */
+    isInProject(documentUri: string): boolean {
+        return this._projects.has(directoryUri(documentUri));
+    }
+
+    /**
+     * Get the index that a document belongs to.
+     *
+     * A document belongs to the project whose scene directory it's in. Failing that,
+     * it belongs to the index for the workspace folder it's in, or the fallback index
+     * if it's in no workspace folder.
+     * @param documentUri URI to the document.
+     */
+    getProject(documentUri: string): ProjectIndex {
+        const directory = directoryUri(documentUri);
+        const project = this._projects.get(directory);
+        if (project !== undefined) {
+            return project;
+        }
+
+        // Find the innermost workspace folder containing the document
+        let workspaceIndex: ProjectIndex | undefined;
+        let workspaceUriLength = -1;
+        for (const [uri, index] of this._workspaceIndices) {
+            if (
+                (directory == uri || directory.startsWith(uri + "/")) &&
+                uri.length > workspaceUriLength
+            ) {
+                workspaceIndex = index;
+                workspaceUriLength = uri.length;
+            }
+        }
+
+        return workspaceIndex ?? this._fallbackIndex;
+    }
+
+    /**
+     * Get all project indices, including the ones for documents outside of projects.
+     */
+    getAllIndices(): ProjectIndex[] {
+        return [
+            ...this._projects.values(),
+            ...this._workspaceIndices.values(),
+            this._fallbackIndex,
+        ];
+    }
+}
@@ -0,0 +1,712 @@
+import { type Diagnostic, Location, Range } from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+import { DiagnosticCodes, createDiagnosticFromLocation } from "./diagnostics";
+import type { ProjectIndex } from "./index";
+import { optionPattern, sceneFromUri, uriIsStartupFile } from "./language";
+import {
+    type SectionCache,
+    createParserCallbacks,
+    parse,
+    replaySectionCache,
+} from "./parser";
+
+/**
+ * Summary of a Quicktest run over a project.
+ */
+export interface QuicktestResults {
+    /**
+     * Number of scenes that were tested.
+     */
+    sceneCount: number;
+    /**
+     * Number of errors found.
+     */
+    errorCount: number;
+    /**
+     * Number of warnings found, including untested lines.
+     */
+    warningCount: number;
+}
+
+/**
+ * Commands that end the game's run through a scene.
+ */
+const sceneEndingCommandsLookup: ReadonlyMap<string, number> = new Map(
+    [
+        "finish",
+        "finish_advertisement",
+        "ending",
+        "end_trial",
+        "restart",
+        "abort",
+        "goto_scene",
+        "redirect_scene",
+        "delay_ending",
+    ].map((x) => [x, 1]),
+);
+
+/**
+ * Commands whose block is skipped if the game runs into them.
+ */
+const skippedBlockCommandsLookup: ReadonlyMap<string, number> = new Map(
+    ["else", "elseif", "elsif"].map((x) => [x, 1]),
+);
+
+const optionRegex = RegExp(`^${optionPattern}`);
+
+/**
+ * A line in a scene, broken into the parts Quicktest cares about.
+ */
+interface SceneLine {
+    /**
+     * Number of whitespace characters before the line's contents.
+     */
+    indent: number;
+    /**
+     * Line's contents without surrounding whitespace.
+     */
+    text: string;
+    /**
+     * Command on the line, in lower case, if any.
+     */
+    command?: string;
+    /**
+     * Everything after the command.
+     */
+    argument: string;
+    /**
+     * True if the line is a choice's #option.
+     */
+    isOption: boolean;
+}
+
+/**
+ * An #option whose block the game is running through.
+ */
+interface OptionContext {
+    /**
+     * Line the #option is on.
+     */
+    optionLine: number;
+    indent: number;
+    /**
+     * First line after the option's *choice.
+     */
+    choiceEndLine: number;
+    /**
+     * True if the game is allowed to run out of the end of the option's block.
+     */
+    canFallOut: boolean;
+}
+
+/**
+ * Where to return to at the end of a *gosub.
+ */
+interface GosubFrame {
+    returnLine: number;
+    contexts: OptionContext[];
+}
+
+/**
+ * A way through the scene that Quicktest still has to follow.
+ */
+interface TestPath {
+    line: number;
+    contexts: OptionContext[];
+    gosubStack: GosubFrame[];
+}
+
+/**
+ * Captures the state of a Quicktest run through a single scene.
+ */
+class QuicktestState {
+    textDocument: TextDocument;
+    lines: SceneLine[];
+    /**
+     * Line number of each label, keyed by the label in lower case.
+     */
+    labels: Map<string, number> = new Map();
+    /**
+     * Lines that the game has run.
+     */
+    covered: boolean[];
+    /**
+     * Labels that have been called with *gosub.
+     */
+    calledLabels: Set<string> = new Set();
+    /**
+     * Places and situations that have already been tested.
+     */
+    visited: Set<string> = new Set();
+    queue: TestPath[] = [];
+    /**
+     * Options that the game can run out of, by line.
+     */
+    fallingOutOptions: Set<number> = new Set();
+    /**
+     * True if the scene jumps to labels whose names are computed while the game runs.
+     */
+    hasComputedJumps = false;
+    /**
+     * True if the game is allowed to run out of the end of *choice options.
+     */
+    implicitControlFlow: boolean;
+
+    constructor(
+        textDocument: TextDocument,
+        implicitControlFlow: boolean,
+        sectionCache?: SectionCache,
+    ) {
+        this.textDocument = textDocument;
+        this.implicitControlFlow = implicitControlFlow;
+        this.lines = textDocument
+            .getText()
+            .split(/\r?\n/)
+            .map((line) => {
+                const text = line.trim();
+                return {
+                    indent: line.length - line.trimStart().length,
+                    text: text,
+                    argument: "",
+                    isOption: optionRegex.test(text),
+                };
+            });
+        this.covered = new Array(this.lines.length).fill(false);
+
+        // Let the parser find the commands and labels, so that lines it treats
+        // as something else (like a *goto_random_scene's scenes) aren't run as commands
+        const callbacks = createParserCallbacks({
+            onCommand: (prefix, command, spacing, line, location) => {
+                const sceneLine = this.lines[location.range.start.line];
+                // Only count commands that start their line
+                if (
+                    sceneLine !== undefined &&
+                    sceneLine.command === undefined &&
+                    location.range.start.character == sceneLine.indent + 1
+                ) {
+                    sceneLine.command = command.toLowerCase();
+                    sceneLine.argument = line.trim();
+                }
+            },
+            onLabelCreate: (symbol, location) => {
+                const label = symbol.toLowerCase();
+                if (!this.labels.has(label)) {
+                    this.labels.set(label, location.range.start.line);
+                }
+            },
+        });
+        // Re-use what the indexer's parse recorded, if we have it
+        if (
+            sectionCache === undefined ||
+            !replaySectionCache(textDocument, callbacks, sectionCache)
+        ) {
+            parse(textDocument, callbacks);
+        }
+    }
+
+    /**
+     * Get a line's contents as a location.
+     * @param line Line number.
+     */
+    lineLocation(line: number): Location {
+        const sceneLine = this.lines[line];
+        return Location.create(
+            this.textDocument.uri,
+            Range.create(
+                line,
+                sceneLine.indent,
+                line,
+                sceneLine.indent + sceneLine.text.length,
+            ),
+        );
+    }
+}
+
+/**
+ * Find the first non-blank line at or after a line.
+ * @param line Line to start at.
+ * @param state Quicktest state.
+ * @returns The non-blank line's number, or the number of lines if there is none.
+ */
+function nextNonblankLine(line: number, state: QuicktestState): number {
+    while (line < state.lines.length && state.lines[line].text == "") {
+        line++;
+    }
+    return line;
+}
+
+/**
+ * Find the end of the block of lines indented under a line.
+ * @param line Line that starts the block.
+ * @param state Quicktest state.
+ * @returns The first non-blank line after the block, or the number of lines if there is none.
+ */
+function findBlockEnd(line: number, state: QuicktestState): number {
+    const indent = state.lines[line].indent;
+    let end = nextNonblankLine(line + 1, state);
+    while (end < state.lines.length && state.lines[end].indent > indent) {
+        end = nextNonblankLine(end + 1, state);
+    }
+    return end;
+}
+
+/**
+ * Add a path to the queue of paths to test.
+ * @param line Line the path starts at.
+ * @param contexts Options the path is inside of.
+ * @param gosubStack Where the path returns to from *gosubs.
+ * @param state Quicktest state.
+ */
+function queuePath(
+    line: number,
+    contexts: OptionContext[],
+    gosubStack: GosubFrame[],
+    state: QuicktestState,
+): void {
+    state.queue.push({
+        line: line,
+        contexts: contexts,
+        gosubStack: gosubStack,
+    });
+}
+
+/**
+ * Queue up every branch of an *if / *elseif / *else chain.
+ * @param ifLine Line with the *if.
+ * @param path Path that reached the *if.
+ * @param state Quicktest state.
+ */
+function queueIfBranches(
+    ifLine: number,
+    path: TestPath,
+    state: QuicktestState,
+): void {
+    const indent = state.lines[ifLine].indent;
+    let line = ifLine;
+    while (true) {
+        state.covered[line] = true;
+        queuePath(line + 1, path.contexts, path.gosubStack, state);
+        const next = findBlockEnd(line, state);
+        const nextLine = state.lines[next];
+        if (nextLine === undefined || nextLine.indent != indent) {
+            queuePath(next, path.contexts, path.gosubStack, state);
+            return;
+        }
+        if (nextLine.command == "elseif" || nextLine.command == "elsif") {
+            line = next;
+        } else if (nextLine.command == "else") {
+            state.covered[next] = true;
+            queuePath(next + 1, path.contexts, path.gosubStack, state);
+            return;
+        } else {
+            queuePath(next, path.contexts, path.gosubStack, state);
+            return;
+        }
+    }
+}
+
+/**
+ * Queue up every option of a *choice or *fake_choice.
+ * @param choiceLine Line with the choice command.
+ * @param path Path that reached the choice.
+ * @param state Quicktest state.
+ */
+function queueChoiceOptions(
+    choiceLine: number,
+    path: TestPath,
+    state: QuicktestState,
+): void {
+    const choiceEnd = findBlockEnd(choiceLine, state);
+    const canFallOut =
+        state.lines[choiceLine].command == "fake_choice" ||
+        state.implicitControlFlow;
+
+    let line = nextNonblankLine(choiceLine + 1, state);
+    while (line < choiceEnd) {
+        const sceneLine = state.lines[line];
+        state.covered[line] = true;
+        if (!sceneLine.isOption) {
+            // Commands like *if that decide which options are shown
+            line = nextNonblankLine(line + 1, state);
+            continue;
+        }
+        const bodyStart = nextNonblankLine(line + 1, state);
+        const bodyLine = state.lines[bodyStart];
+        if (bodyLine === undefined || bodyLine.indent <= sceneLine.indent) {
+            // Options without a body run straight on past the choice
+            if (canFallOut) {
+                queuePath(choiceEnd, path.contexts, path.gosubStack, state);
+            }
+            line = bodyStart;
+            continue;
+        }
+        if (bodyLine.isOption) {
+            // An option from a group of options; its suboptions are the ones we test
+            line = bodyStart;
+            continue;
+        }
+        queuePath(
+            bodyStart,
+            [
+                ...path.contexts,
+                {
+                    optionLine: line,
+                    indent: sceneLine.indent,
+                    choiceEndLine: choiceEnd,
+                    canFallOut: canFallOut,
+                },
+            ],
+            path.gosubStack,
+            state,
+        );
+        line = findBlockEnd(line, state);
+    }
+}
+
+/**
+ * Get the label a *goto or *gosub jumps to.
+ * @param sceneLine Line with the command.
+ * @param state Quicktest state.
+ * @returns The label's line, or undefined if the label can't be found.
+ */
+function findJumpTarget(
+    sceneLine: SceneLine,
+    state: QuicktestState,
+): number | undefined {
+    const label = sceneLine.argument.split(/\s/)[0];
+    if (sceneLine.command == "gotoref" || /[{[]/.test(label)) {
+        state.hasComputedJumps = true;
+        return undefined;
+    }
+    return state.labels.get(label.toLowerCase());
+}
+
+/**
+ * Run the game along a path until the path ends.
+ * @param path Path to follow.
+ * @param state Quicktest state.
+ */
+function followPath(path: TestPath, state: QuicktestState): void {
+    let { line, contexts, gosubStack } = path;
+
+    while (true) {
+        line = nextNonblankLine(line, state);
+
+        // See if we've run out of the bottom of an #option
+        const context = contexts[contexts.length - 1];
+        if (
+            context !== undefined &&
+            (line >= state.lines.length ||
+                state.lines[line].indent <= context.indent)
+        ) {
+            if (!context.canFallOut) {
+                state.fallingOutOptions.add(context.optionLine);
+                return;
+            }
+            contexts = contexts.slice(0, -1);
+            line = context.choiceEndLine;
+            continue;
+        }
+        if (line >= state.lines.length) {
+            return;
+        }
+
+        const key = `${line}:${contexts.map((c) => c.optionLine).join(",")}:${gosubStack.map((f) => f.returnLine).join(",")}`;
+        if (state.visited.has(key)) {
+            return;
+        }
+        state.visited.add(key);
+        state.covered[line] = true;
+
+        const sceneLine = state.lines[line];
+        const command = sceneLine.command;
+        if (sceneLine.isOption) {
+            // We've run into an option outside of its choice
+            line = findBlockEnd(line, state);
+            continue;
+        }
+        if (command === undefined) {
+            line++;
+            continue;
+        }
+        if (sceneEndingCommandsLookup.has(command)) {
+            return;
+        }
+        if (skippedBlockCommandsLookup.has(command)) {
+            line = findBlockEnd(line, state);
+            continue;
+        }
+
+        switch (command) {
+            case "if":
+                queueIfBranches(line, { line, contexts, gosubStack }, state);
+                return;
+
+            case "choice":
+            case "fake_choice":
+                queueChoiceOptions(line, { line, contexts, gosubStack }, state);
+                return;
+
+            case "goto":
+            case "gotoref": {
+                const target = findJumpTarget(sceneLine, state);
+                if (target === undefined) {
+                    return;
+                }
+                line = target;
+                contexts = [];
+                continue;
+            }
+
+            case "gosub": {
+                const target = findJumpTarget(sceneLine, state);
+                const label = sceneLine.argument.split(/\s/)[0].toLowerCase();
+                if (target === undefined || state.calledLabels.has(label)) {
+                    // Assume already-tested subroutines return safely
+                    line++;
+                    continue;
+                }
+                state.calledLabels.add(label);
+                gosubStack = [
+                    ...gosubStack,
+                    { returnLine: line + 1, contexts: contexts },
+                ];
+                line = target;
+                contexts = [];
+                continue;
+            }
+
+            case "return": {
+                const frame = gosubStack[gosubStack.length - 1];
+                if (frame === undefined) {
+                    // Testing scenes on their own, we can't know where a *return goes
+                    return;
+                }
+                gosubStack = gosubStack.slice(0, -1);
+                line = frame.returnLine;
+                contexts = frame.contexts;
+                continue;
+            }
+
+            case "goto_random_scene": {
+                // The scenes it picks from are part of the command
+                const end = findBlockEnd(line, state);
+                state.covered.fill(true, line + 1, end);
+                if (!/\ballow_no_selection\b/.test(sceneLine.argument)) {
+                    return;
+                }
+                line = end;
+                continue;
+            }
+
+            case "bug":
+                if (sceneLine.argument != "choice_beta") {
+                    return;
+                }
+                break;
+        }
+
+        line++;
+    }
+}
+
+/**
+ * Follow every queued path through the scene.
+ * @param state Quicktest state.
+ */
+function followQueuedPaths(state: QuicktestState): void {
+    let path: TestPath | undefined;
+    while ((path = state.queue.shift()) !== undefined) {
+        followPath(path, state);
+    }
+}
+
+/**
+ * Find the labels in a scene that other scenes jump to.
+ * @param scene Name of the scene.
+ * @param projectIndex Project index.
+ */
+function findLabelsFromOtherScenes(
+    scene: string,
+    projectIndex: ProjectIndex,
+): string[] {
+    const labels: string[] = [];
+    for (const otherScene of projectIndex.getIndexedScenes()) {
+        const uri = projectIndex.getSceneUri(otherScene);
+        if (uri === undefined) {
+            continue;
+        }
+        for (const event of projectIndex.getFlowControlEvents(uri)) {
+            if (
+                event.command.endsWith("_scene") &&
+                event.scene.toLowerCase() == scene.toLowerCase() &&
+                event.label != ""
+            ) {
+                labels.push(event.label.toLowerCase());
+            }
+        }
+    }
+    return labels;
+}
+
+/**
+ * Generate diagnostics for lines that the game never ran.
+ * @param state Quicktest state.
+ */
+function generateUntestedDiagnostics(state: QuicktestState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const isUntested = (line: number) => {
+        const sceneLine = state.lines[line];
+        return (
+            !state.covered[line] &&
+            sceneLine.text != "" &&
+            sceneLine.command != "comment" &&
+            sceneLine.command != "bug"
+        );
+    };
+
+    let line = 0;
+    while (line < state.lines.length) {
+        if (!isUntested(line)) {
+            line++;
+            continue;
+        }
+        const start = line;
+        let end = line;
+        line++;
+        while (
+            line < state.lines.length &&
+            (isUntested(line) || state.lines[line].text == "")
+        ) {
+            if (isUntested(line)) {
+                end = line;
+            }
+            line++;
+        }
+        const startLocation = state.lineLocation(start);
+        const endLocation = state.lineLocation(end);
+        diagnostics.push(
+            createDiagnosticFromLocation(
+                DiagnosticCodes.UntestedLines,
+                Location.create(
+                    startLocation.uri,
+                    Range.create(
+                        startLocation.range.start,
+                        endLocation.range.end,
+                    ),
+                ),
+                start == end
+                    ? undefined
+                    : `Quicktest never reached lines ${start + 1}-${end + 1}.`,
+            ),
+        );
+    }
+    return diagnostics;
+}
+
+/**
+ * Check that the startup scene has a title and author like Quicktest requires.
+ * @param state Quicktest state.
+ */
+function generateTitleDiagnostics(state: QuicktestState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const titleLine = state.lines.findIndex((line) => line.command == "title");
+    const authorLine = state.lines.findIndex(
+        (line) => line.command == "author",
+    );
+    const startLocation = Location.create(
+        state.textDocument.uri,
+        Range.create(0, 0, 0, 0),
+    );
+
+    if (titleLine == -1) {
+        diagnostics.push(
+            createDiagnosticFromLocation(
+                DiagnosticCodes.MissingTitle,
+                startLocation,
+            ),
+        );
+    } else if (state.lines[titleLine].argument.length > 30) {
+        diagnostics.push(
+            createDiagnosticFromLocation(
+                DiagnosticCodes.TooLongTitle,
+                state.lineLocation(titleLine),
+                `The title is ${state.lines[titleLine].argument.length} characters long, but can be at most 30.`,
+            ),
+        );
+    }
+    if (authorLine == -1) {
+        diagnostics.push(
+            createDiagnosticFromLocation(
+                DiagnosticCodes.MissingAuthor,
+                startLocation,
+            ),
+        );
+    }
+    return diagnostics;
+}
+
+/**
+ * Run a Quicktest over a scene.
+ *
+ * Like ChoiceScript's Quicktest, this follows both branches of every `*if`
+ * and every `#option` of every choice, as well as any labels that other
+ * scenes jump into. It reports options the game can run out of and lines
+ * that the game never reaches.
+ * @param textDocument Scene to test.
+ * @param projectIndex Index of the scene's project.
+ * @param sectionCache Cache of the scene's parsed label sections, if it has one, so the scene needn't be re-parsed.
+ * @returns Diagnostics for the problems found.
+ */
+export function quicktestScene(
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+    sectionCache?: SectionCache,
+): Diagnostic[] {
+    const startupUri = projectIndex.getSceneUri("startup");
+    const implicitControlFlow =
+        startupUri !== undefined &&
+        projectIndex
+            .getVariableInitialValues(startupUri)
+            .get("implicit_control_flow")
+            ?.toLowerCase() == "true";
+    const state = new QuicktestState(
+        textDocument,
+        implicitControlFlow,
+        sectionCache,
+    );
+
+    queuePath(0, [], [], state);
+    followQueuedPaths(state);
+
+    const scene = sceneFromUri(textDocument.uri);
+    if (scene !== undefined) {
+        for (const label of findLabelsFromOtherScenes(scene, projectIndex)) {
+            const line = state.labels.get(label);
+            if (line !== undefined) {
+                state.calledLabels.clear();
+                queuePath(line, [], [], state);
+                followQueuedPaths(state);
+            }
+        }
+    }
+
+    const diagnostics: Diagnostic[] = [...state.fallingOutOptions]
+        .sort((a, b) => a - b)
+        .map((line) =>
+            createDiagnosticFromLocation(
+                DiagnosticCodes.OptionFallsOutOfChoice,
+                state.lineLocation(line),
+            ),
+        );
+    // If the scene jumps to computed labels, we can't tell which lines are reached
+    if (!state.hasComputedJumps) {
+        diagnostics.push(...generateUntestedDiagnostics(state));
+    }
+    if (uriIsStartupFile(textDocument.uri)) {
+        diagnostics.push(...generateTitleDiagnostics(state));
+    }
+
+    return diagnostics;
+}
@@ -6,6 +6,8 @@ import {
 } from "vscode-languageserver";
 
 import { CustomRequests } from "./constants";
+import type { FlowGraph } from "./flow-graph";
+import type { QuicktestResults } from "./quicktest";
 
 export const SelectionWordCountRequest: RequestType<
     Location,
@@ -15,6 +17,18 @@ export const SelectionWordCountRequest: RequestType<
 export const WordCountRequest: RequestType<string, number | undefined, void> =
     new RequestType(CustomRequests.WordCount);
 
+export const FlowGraphRequest: RequestType<
+    string,
+    FlowGraph | undefined,
+    void
+> = new RequestType(CustomRequests.FlowGraph);
+
+export const QuicktestRequest: RequestType<
+    string,
+    QuicktestResults | undefined,
+    void
+> = new RequestType(CustomRequests.Quicktest);
+
 export const FileContentRequest: RequestType<
     { uri: URI; encoding?: string },
     string,
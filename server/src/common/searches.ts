@@ -1,13 +1,18 @@
 import {
     type Position,
-    type Location,
+    Location,
+    Range,
     type ReferenceContext,
+    RenameFile,
+    TextDocumentEdit,
     type WorkspaceEdit,
     TextEdit,
 } from "vscode-languageserver";
 
 import type {
+    ArrayDefinition,
     ProjectIndex,
+    ReadonlyArrayIndex,
     ReadonlyIdentifierIndex,
     ReadonlyLabelIndex,
     ReadonlyIdentifierMultiIndex,
@@ -15,8 +20,16 @@ import type {
 import {
     variableIsAchievement,
     convertAchievementToVariable,
+    sceneFromUri,
+    uriIsStartupFile,
+    uriIsChoicescriptStatsFile,
 } from "./language";
-import { positionInRange, CaseInsensitiveMap } from "./utilities";
+import {
+    positionInRange,
+    comparePositions,
+    CaseInsensitiveMap,
+    normalizeUri,
+} from "./utilities";
 
 /**
  * Type of a symbol.
@@ -25,8 +38,11 @@ export enum SymbolType {
     Unknown,
     LocalVariable,
     GlobalVariable,
+    LocalArray,
+    GlobalArray,
     Achievement,
     Label,
+    Scene,
 }
 
 /**
@@ -82,6 +98,83 @@ export function findVariableCreationLocations(
     return undefined;
 }
 
+/**
+ * An array's definition and whether it's global or local to a scene.
+ */
+interface ArrayDefinitionInformation {
+    definition: ArrayDefinition;
+    isGlobal: boolean;
+}
+
+/**
+ * The array that a variable like `arr_1` or `arr_count` is an element of.
+ */
+export interface ArrayElementInformation extends ArrayDefinitionInformation {
+    array: string;
+    /**
+     * False if the element's index is outside of the array.
+     */
+    inBounds: boolean;
+}
+
+/**
+ * Find where an array was created.
+ *
+ * Arrays local to the document take precedence over global ones.
+ * @param array Array to find.
+ * @param documentUri Document URI in which to look for local arrays. (Normalize before calling!)
+ * @param index Project index.
+ */
+function findArrayDefinition(
+    array: string,
+    documentUri: string,
+    index: ProjectIndex,
+): ArrayDefinitionInformation | undefined {
+    let definition = index.getLocalArrays(documentUri).get(array);
+    if (definition !== undefined) {
+        return { definition: definition, isGlobal: false };
+    }
+    definition = index.getGlobalArrays().get(array);
+    if (definition !== undefined) {
+        return { definition: definition, isGlobal: true };
+    }
+    return undefined;
+}
+
+const arrayElementRegex = /^(\w+)_(\d+|count)$/i;
+
+/**
+ * Find the array that a variable is an element of.
+ *
+ * Creating an array creates variables for each of its elements, like `arr_1`, and
+ * for its number of elements, `arr_count`.
+ * @param variable Variable that may be an array element.
+ * @param documentUri Document URI in which to look for local arrays. (Normalize before calling!)
+ * @param index Project index.
+ * @returns The array the variable belongs to, or undefined if none.
+ */
+export function findArrayElement(
+    variable: string,
+    documentUri: string,
+    index: ProjectIndex,
+): ArrayElementInformation | undefined {
+    const m = arrayElementRegex.exec(variable);
+    if (m === null) {
+        return undefined;
+    }
+    const information = findArrayDefinition(m[1], documentUri, index);
+    if (information === undefined) {
+        return undefined;
+    }
+    let inBounds = true;
+    if (m[2].toLowerCase() != "count") {
+        const element = Number(m[2]);
+        const length = information.definition.length;
+        inBounds = element >= 1 && (length === undefined || element <= length);
+    }
+    return { ...information, array: m[1], inBounds: inBounds };
+}
+
 /**
  * Find the location where a label was defined.
  * @param label Label.
@@ -111,6 +204,30 @@ export function findLabelLocation(
     return location;
 }
 
+/**
+ * Find the parameters that a subroutine declares with *params.
+ * @param label Label that starts the subroutine, or "" for the start of a scene.
+ * @param scene Scene the subroutine is in, or "" for the local document.
+ * @param documentUri Local document's URI. (Normalize before calling!)
+ * @param index Project index.
+ * @returns The parameters' names, or undefined if the subroutine doesn't start with *params.
+ */
+export function findSubroutineParams(
+    label: string,
+    scene: string,
+    documentUri: string,
+    index: ProjectIndex,
+): readonly string[] | undefined {
+    const uri = scene == "" ? documentUri : index.getSceneUri(scene);
+    if (uri === undefined) {
+        return undefined;
+    }
+    if (label == "") {
+        return index.getSceneParams(uri);
+    }
+    return index.getLabels(uri).get(label)?.params;
+}
+
 /**
  * Find where an achievement is defined.
  * @param codename Codename of an achievement.
@@ -125,6 +242,30 @@ function findAchievementLocation(
     return location;
 }
 
+/**
+ * Find a scene's definition, which is the start of its file.
+ * @param scene Scene name.
+ * @param index Project index.
+ * @returns The scene's definition, or undefined if the scene's file hasn't been indexed.
+ */
+function findSceneDefinition(
+    scene: string,
+    index: ProjectIndex,
+): SymbolInformation[] | undefined {
+    const uri = index.getSceneUri(scene);
+    if (uri === undefined || !index.hasUri(uri)) {
+        return undefined;
+    }
+    return [
+        {
+            symbol: scene,
+            location: Location.create(uri, Range.create(0, 0, 0, 0)),
+            type: SymbolType.Scene,
+            isDefinition: true,
+        },
+    ];
+}
+
 /**
  * Find a symbol whose location encompasses the position.
  * @param documentUri Document's uri. (Normalize before calling!)
@@ -147,6 +288,43 @@ function findMatchingSymbol(
     return undefined;
 }
 
+/**
+ * Find an array whose creation location encompasses the position.
+ * @param documentUri Document's uri. (Normalize before calling!)
+ * @param position Position in the document.
+ * @param index Index of arrays.
+ */
+function findMatchingArray(
+    documentUri: string,
+    position: Position,
+    index: ReadonlyArrayIndex,
+): SymbolLocation | undefined {
+    return findMatchingSymbol(
+        documentUri,
+        position,
+        new CaseInsensitiveMap([...index].map(([k, v]) => [k, v.location])),
+    );
+}
+
+/**
+ * Create symbol information for an array's definition.
+ * @param array Name of the array.
+ * @param information Array's definition.
+ */
+function arrayDefinitionToSymbolInformation(
+    array: string,
+    information: ArrayDefinitionInformation,
+): SymbolInformation {
+    return {
+        symbol: array,
+        location: information.definition.location,
+        type: information.isGlobal
+            ? SymbolType.GlobalArray
+            : SymbolType.LocalArray,
+        isDefinition: true,
+    };
+}
+
 /**
  * Find a symbol with one of multiple locations that encompasses the position.
  * @param documentUri Document's uri. (Normalize before calling!)
@@ -256,6 +434,62 @@ export function findDefinitions(
         }
     }
 
+    // See if we have a created array at this location
+    let arrayLocation = findMatchingArray(
+        documentUri,
+        position,
+        projectIndex.getLocalArrays(documentUri),
+    );
+    if (arrayLocation !== undefined) {
+        return [
+            {
+                symbol: arrayLocation.symbol,
+                location: arrayLocation.location,
+                type: SymbolType.LocalArray,
+                isDefinition: true,
+            },
+        ];
+    }
+    if (projectIndex.isStartupFileUri(documentUri)) {
+        arrayLocation = findMatchingArray(
+            documentUri,
+            position,
+            projectIndex.getGlobalArrays(),
+        );
+        if (arrayLocation !== undefined) {
+            return [
+                {
+                    symbol: arrayLocation.symbol,
+                    location: arrayLocation.location,
+                    type: SymbolType.GlobalArray,
+                    isDefinition: true,
+                },
+            ];
+        }
+    }
+
+    // See if we have an array reference at this location. If the array wasn't created
+    // with *create_array or *temp_array, its elements may have been created one at a time,
+    // so fall back to the variable references
+    const arrayReferences =
+        projectIndex.getDocumentArrayReferences(documentUri);
+    for (const [array, locations] of arrayReferences.entries()) {
+        const match = locations.find((location) => {
+            return positionInRange(position, location.range);
+        });
+        if (match !== undefined) {
+            const information = findArrayDefinition(
+                array,
+                documentUri,
+                projectIndex,
+            );
+            if (information !== undefined) {
+                return [arrayDefinitionToSymbolInformation(array, information)];
+            }
+            break;
+        }
+    }
+
     // See if we have a variable reference at this location
     const references = projectIndex.getDocumentVariableReferences(documentUri);
     for (const [variable, locations] of references.entries()) {
@@ -283,6 +517,19 @@ export function findDefinitions(
                     };
                 });
             } else {
+                const element = findArrayElement(
+                    variable,
+                    documentUri,
+                    projectIndex,
+                );
+                if (element !== undefined) {
+                    return [
+                        arrayDefinitionToSymbolInformation(
+                            element.array,
+                            element,
+                        ),
+                    ];
+                }
                 const achievements = projectIndex.getAchievements();
                 const codename = variableIsAchievement(variable, achievements);
                 if (codename !== undefined) {
@@ -348,6 +595,24 @@ export function findDefinitions(
         return definitions; // Found or not, we had a reference match, so return
     }
 
+    // See if we have a scene reference at this location
+    const sceneEvent = events.find((event) => {
+        return (
+            event.sceneLocation !== undefined &&
+            positionInRange(position, event.sceneLocation.range)
+        );
+    });
+    if (sceneEvent !== undefined) {
+        return findSceneDefinition(sceneEvent.scene, projectIndex);
+    }
+    if (projectIndex.isStartupFileUri(documentUri)) {
+        for (const [scene, location] of projectIndex.getSceneListLocations()) {
+            if (positionInRange(position, location.range)) {
+                return findSceneDefinition(scene, projectIndex);
+            }
+        }
+    }
+
     // See if we have an achievement definition at this location
     const achievements = projectIndex.getAchievements();
     const achievementIndex: ReadonlyIdentifierIndex = new CaseInsensitiveMap(
@@ -439,6 +704,87 @@ function findVariableReferences(
     return information;
 }
 
+/**
+ * Find all references to an array, including references to its elements' variables.
+ * @param definition Array definition.
+ * @param projectIndex Project index.
+ */
+function findArrayReferences(
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): SymbolInformation[] {
+    const information: SymbolInformation[] = [];
+    const isGlobal = definition.type == SymbolType.GlobalArray;
+    let uris = [definition.location.uri];
+    if (isGlobal) {
+        uris = projectIndex
+            .getIndexedScenes()
+            .map((scene) => projectIndex.getSceneUri(scene))
+            .filter((uri): uri is string => uri !== undefined);
+    }
+
+    for (const uri of uris) {
+        const arrayReferences =
+            projectIndex
+                .getDocumentArrayReferences(uri)
+                .get(definition.symbol) ?? [];
+        information.push(
+            ...arrayReferences.map((reference) => {
+                return {
+                    symbol: definition.symbol,
+                    location: reference,
+                    type: definition.type,
+                    isDefinition: false,
+                };
+            }),
+        );
+        // References like arr[1] are also references to the element's variable,
+        // so only add element variables that are used on their own, like arr_1
+        for (const [variable, locations] of projectIndex
+            .getDocumentVariableReferences(uri)
+            .entries()) {
+            if (
+                findVariableCreationLocations(
+                    variable,
+                    false,
+                    uri,
+                    projectIndex,
+                ) !== undefined
+            ) {
+                continue;
+            }
+            const element = findArrayElement(variable, uri, projectIndex);
+            if (
+                element === undefined ||
+                element.isGlobal != isGlobal ||
+                element.array.toLowerCase() != definition.symbol.toLowerCase()
+            ) {
+                continue;
+            }
+            for (const location of locations) {
+                const isArrayReference = arrayReferences.some((reference) => {
+                    return (
+                        comparePositions(
+                            reference.range.start,
+                            location.range.start,
+                        ) == 0
+                    );
+                });
+                if (!isArrayReference) {
+                    information.push({
+                        symbol: variable,
+                        location: location,
+                        type: definition.type,
+                        isDefinition: false,
+                    });
+                }
+            }
+        }
+    }
+
+    return information;
+}
+
 /**
  * Find all references to a label.
  * @param definition Label definition.
@@ -462,6 +808,33 @@ function findLabelReferences(
     return information;
 }
 
+/**
+ * Find all references to a scene, including its entry in the *scene_list.
+ * @param definition Scene definition.
+ * @param projectIndex Project index.
+ */
+function findSceneReferences(
+    definition: SymbolInformation,
+    projectIndex: ProjectIndex,
+): SymbolInformation[] {
+    const locations = [...projectIndex.getSceneReferences(definition.symbol)];
+    const sceneListLocation = projectIndex
+        .getSceneListLocations()
+        .get(definition.symbol);
+    if (sceneListLocation !== undefined) {
+        locations.push(sceneListLocation);
+    }
+
+    return locations.map((reference) => {
+        return {
+            symbol: definition.symbol,
+            location: reference,
+            type: definition.type,
+            isDefinition: false,
+        };
+    });
+}
+
 /**
  * Find all references to an achievement.
  * @param definition Achievement definition.
@@ -503,7 +876,7 @@ function findAchievementReferences(
 /**
  * Find all references, if any, to a symbol at a position in a document.
  *
- * The symbol can be a variable or label.
+ * The symbol can be a variable, array, achievement, label, or scene.
  *
  * If the definition is included as a reference, it is located at the end of the returned array.
  * @param textDocument Normalized URI to the document containing the reference.
@@ -534,10 +907,17 @@ export function findReferences(
         firstDefinition.type == SymbolType.LocalVariable
     ) {
         information = findVariableReferences(firstDefinition, projectIndex);
+    } else if (
+        firstDefinition.type == SymbolType.GlobalArray ||
+        firstDefinition.type == SymbolType.LocalArray
+    ) {
+        information = findArrayReferences(firstDefinition, projectIndex);
     } else if (firstDefinition.type == SymbolType.Label) {
         information = findLabelReferences(firstDefinition, projectIndex);
     } else if (firstDefinition.type == SymbolType.Achievement) {
         information = findAchievementReferences(firstDefinition, projectIndex);
+    } else if (firstDefinition.type == SymbolType.Scene) {
+        information = findSceneReferences(firstDefinition, projectIndex);
     }
 
     if (context.includeDeclaration) {
@@ -550,6 +930,77 @@ export function findReferences(
     return information;
 }
 
+/**
+ * Group text edits that rename a scene's references by the document they're in.
+ * @param references References to the scene, not including its definition.
+ * @param newName New scene name.
+ */
+function generateSceneReferenceEdits(
+    references: SymbolInformation[],
+    newName: string,
+): Map<string, TextEdit[]> {
+    const changes: Map<string, TextEdit[]> = new Map();
+    for (const reference of references) {
+        let edits = changes.get(reference.location.uri);
+        if (edits === undefined) {
+            edits = [];
+            changes.set(reference.location.uri, edits);
+        }
+        edits.push(TextEdit.replace(reference.location.range, newName));
+    }
+    return changes;
+}
+
+/**
+ * Generate renames for a scene, which also renames the scene's file.
+ * @param definition Scene definition.
+ * @param references References to the scene, not including its definition.
+ * @param newName New scene name.
+ * @param projectIndex Project index.
+ */
+function generateSceneRenames(
+    definition: SymbolInformation,
+    references: SymbolInformation[],
+    newName: string,
+    projectIndex: ProjectIndex,
+): WorkspaceEdit | null {
+    const oldUri = definition.location.uri;
+    // The new name has to work as a file name, and the game can't run without its startup
+    // and stats scenes
+    if (
+        !/^[\w-]+$/.test(newName) ||
+        uriIsStartupFile(oldUri) ||
+        uriIsChoicescriptStatsFile(oldUri)
+    ) {
+        return null;
+    }
+    const newUri =
+        oldUri.slice(0, oldUri.length - `${definition.symbol}.txt`.length) +
+        `${newName}.txt`;
+    // Renaming onto an existing scene would merge its references with this one's
+    // and leave the file rename to fail
+    if (
+        projectIndex.hasUri(normalizeUri(newUri)) ||
+        projectIndex.getSceneList().includes(newName)
+    ) {
+        return null;
+    }
+
+    // Edit the references before the file they're in gets renamed
+    const documentChanges: (TextDocumentEdit | RenameFile)[] = [];
+    for (const [uri, edits] of generateSceneReferenceEdits(
+        references,
+        newName,
+    )) {
+        documentChanges.push(
+            TextDocumentEdit.create({ uri: uri, version: null }, edits),
+        );
+    }
+    documentChanges.push(RenameFile.create(oldUri, newUri));
+
+    return { documentChanges: documentChanges };
+}
+
 /**
  * Generate renames for a symbol.
  * @param textDocumentUri Normalized URI of the document containing the symbol to rename.
@@ -576,6 +1027,14 @@ export function generateRenames(
 
     // The definition should be included and is guaranteed to be at the end of the array
     const definition = referencesToChange[referencesToChange.length - 1];
+    if (definition.type == SymbolType.Scene) {
+        return generateSceneRenames(
+            definition,
+            referencesToChange.slice(0, -1),
+            newName,
+            projectIndex,
+        );
+    }
     const changes: Map<string, TextEdit[]> = new Map();
 
     for (const reference of referencesToChange) {
@@ -587,6 +1046,15 @@ export function generateRenames(
         ) {
             change.newText = convertAchievementToVariable(newName);
         }
+        // References to an array's elements' variables, like arr_1, keep their suffix
+        if (
+            (definition.type == SymbolType.GlobalArray ||
+                definition.type == SymbolType.LocalArray) &&
+            reference.symbol.length > definition.symbol.length
+        ) {
+            change.newText =
+                newName + reference.symbol.slice(definition.symbol.length);
+        }
         let edits = changes.get(reference.location.uri);
         if (edits === undefined) {
             edits = [];
@@ -606,3 +1074,49 @@ export function generateRenames(
 
     return workspaceEdit;
 }
+
+/**
+ * Generate the edits needed when a scene's file is renamed.
+ *
+ * The scene's references, including its entry in the *scene_list, are changed to the new name.
+ * @param oldUri URI of the scene file before it's renamed.
+ * @param newUri URI of the scene file after it's renamed.
+ * @param projectIndex Project index.
+ * @returns Edits to make, or null if the file isn't a scene that stays in the project.
+ */
+export function generateSceneFileRenames(
+    oldUri: string,
+    newUri: string,
+    projectIndex: ProjectIndex,
+): WorkspaceEdit | null {
+    const scene = sceneFromUri(oldUri);
+    const newScene = sceneFromUri(newUri);
+    if (scene === undefined || newScene === undefined || scene == newScene) {
+        return null;
+    }
+    if (
+        projectIndex.getSceneUri(scene) != normalizeUri(oldUri) ||
+        projectIndex.getSceneUri(newScene) != normalizeUri(newUri)
+    ) {
+        return null;
+    }
+
+    const references = findSceneReferences(
+        {
+            symbol: scene,
+            location: Location.create(oldUri, Range.create(0, 0, 0, 0)),
+            type: SymbolType.Scene,
+            isDefinition: true,
+        },
+        projectIndex,
+    );
+    if (references.length == 0) {
+        return null;
+    }
+
+    return {
+        changes: Object.fromEntries(
+            generateSceneReferenceEdits(references, newScene),
+        ),
+    };
+}
@@ -0,0 +1,423 @@
+import {
+    type Location,
+    type SemanticTokens,
+    SemanticTokensBuilder,
+    type SemanticTokensLegend,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+import type { ProjectIndex } from "./index";
+import {
+    builtinVariables,
+    paramValues,
+    variableIsAchievement,
+} from "./language";
+import { createParserCallbacks, parse } from "./parser";
+import { tokenizeMultireplace } from "./tokens";
+import { extractToMatchingDelimiter } from "./utilities";
+
+/**
+ * Semantic token types that we generate.
+ */
+const tokenTypes = [
+    "variable",
+    "parameter",
+    "label",
+    "namespace",
+    "enumMember",
+    "markup",
+] as const;
+type TokenType = (typeof tokenTypes)[number];
+
+/**
+ * Semantic token modifiers that we generate.
+ */
+const tokenModifiers = [
+    "declaration",
+    "defaultLibrary",
+    "global",
+    "local",
+    "italic",
+    "bold",
+] as const;
+type TokenModifier = (typeof tokenModifiers)[number];
+
+/**
+ * Legend describing the semantic tokens the server generates.
+ */
+export const semanticTokensLegend: SemanticTokensLegend = {
+    tokenTypes: [...tokenTypes],
+    tokenModifiers: [...tokenModifiers],
+};
+
+const tokenTypeLookup: ReadonlyMap<TokenType, number> = new Map(
+    tokenTypes.map((type, i) => [type, i]),
+);
+const tokenModifierLookup: ReadonlyMap<TokenModifier, number> = new Map(
+    tokenModifiers.map((modifier, i) => [modifier, 1 << i]),
+);
+
+/**
+ * A single semantic token in a document.
+ */
+interface SemanticToken {
+    line: number;
+    character: number;
+    length: number;
+    type: TokenType;
+    modifiers: TokenModifier[];
+}
+
+/**
+ * Current state of ChoiceScript's italic and bold markup.
+ */
+interface MarkupState {
+    italic: boolean;
+    bold: boolean;
+}
+
+/**
+ * Create a semantic token that covers a location.
+ * @param location Location of the token.
+ * @param type Token type.
+ * @param modifiers Token modifiers.
+ * @returns The token, or undefined if the location spans multiple lines.
+ */
+function tokenFromLocation(
+    location: Location,
+    type: TokenType,
+    modifiers: TokenModifier[] = [],
+): SemanticToken | undefined {
+    const range = location.range;
+    if (
+        range.start.line != range.end.line ||
+        range.end.character <= range.start.character
+    ) {
+        return undefined;
+    }
+    return {
+        line: range.start.line,
+        character: range.start.character,
+        length: range.end.character - range.start.character,
+        type: type,
+        modifiers: modifiers,
+    };
+}
+
+/**
+ * Find tokens for the symbols in a document.
+ * @param textDocument Document to tokenize.
+ * @param projectIndex Index of the document's project.
+ */
+function findSymbolTokens(
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const localVariables = new Set<string>();
+    const parameters = new Set<string>();
+    const references: Location[] = [];
+    const localArrays = new Set<string>();
+    const arrayReferences: [string, Location][] = [];
+    let paramsLine: number | undefined = undefined;
+
+    const push = (token: SemanticToken | undefined) => {
+        if (token !== undefined) {
+            tokens.push(token);
+        }
+    };
+
+    const callbacks = createParserCallbacks({
+        onCommand: (prefix, command, spacing, line, commandLocation) => {
+            // Remember where *params is so its variables can be marked as parameters
+            paramsLine =
+                command == "params"
+                    ? commandLocation.range.start.line
+                    : undefined;
+        },
+        onGlobalVariableCreate: (symbol, location) => {
+            push(
+                tokenFromLocation(location, "variable", [
+                    "declaration",
+                    "global",
+                ]),
+            );
+        },
+        onLocalVariableCreate: (symbol, location) => {
+            if (location.range.start.line === paramsLine) {
+                parameters.add(symbol.toLowerCase());
+                push(tokenFromLocation(location, "parameter", ["declaration"]));
+            } else {
+                localVariables.add(symbol.toLowerCase());
+                push(
+                    tokenFromLocation(location, "variable", [
+                        "declaration",
+                        "local",
+                    ]),
+                );
+            }
+        },
+        onGlobalArrayCreate: (symbol, location) => {
+            push(
+                tokenFromLocation(location, "variable", [
+                    "declaration",
+                    "global",
+                ]),
+            );
+        },
+        onLocalArrayCreate: (symbol, location) => {
+            localArrays.add(symbol.toLowerCase());
+            push(
+                tokenFromLocation(location, "variable", [
+                    "declaration",
+                    "local",
+                ]),
+            );
+        },
+        onLabelCreate: (symbol, location) => {
+            push(tokenFromLocation(location, "label", ["declaration"]));
+        },
+        onVariableReference: (symbol, location) => {
+            // Wait until the whole document's parsed to classify references, since
+            // local variables can be created after they're referenced
+            references.push(location);
+        },
+        onArrayReference: (symbol, location) => {
+            arrayReferences.push([symbol, location]);
+        },
+        onFlowControlEvent: (
+            command,
+            commandLocation,
+            label,
+            scene,
+            labelLocation,
+            sceneLocation,
+        ) => {
+            if (labelLocation !== undefined) {
+                push(tokenFromLocation(labelLocation, "label"));
+            }
+            if (sceneLocation !== undefined) {
+                push(tokenFromLocation(sceneLocation, "namespace"));
+            }
+        },
+        onAchievementCreate: (codename, location) => {
+            push(tokenFromLocation(location, "enumMember", ["declaration"]));
+        },
+        onAchievementReference: (codename, location) => {
+            push(tokenFromLocation(location, "enumMember"));
+        },
+    });
+
+    parse(textDocument, callbacks);
+
+    const globalVariables = projectIndex.getGlobalVariables();
+    const achievements = projectIndex.getAchievements();
+    for (const location of references) {
+        const symbol = textDocument.getText(location.range);
+        const lowerSymbol = symbol.toLowerCase();
+        if (builtinVariables.test(symbol)) {
+            push(tokenFromLocation(location, "variable", ["defaultLibrary"]));
+        } else if (paramValues.test(symbol) || parameters.has(lowerSymbol)) {
+            push(tokenFromLocation(location, "parameter"));
+        } else if (variableIsAchievement(symbol, achievements) !== undefined) {
+            push(tokenFromLocation(location, "variable", ["defaultLibrary"]));
+        } else if (localVariables.has(lowerSymbol)) {
+            push(tokenFromLocation(location, "variable", ["local"]));
+        } else if (globalVariables.has(symbol)) {
+            push(tokenFromLocation(location, "variable", ["global"]));
+        }
+    }
+    const globalArrays = projectIndex.getGlobalArrays();
+    for (const [symbol, location] of arrayReferences) {
+        if (localArrays.has(symbol.toLowerCase())) {
+            push(tokenFromLocation(location, "variable", ["local"]));
+        } else if (globalArrays.has(symbol)) {
+            push(tokenFromLocation(location, "variable", ["global"]));
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Find tokens for styled text in a range of a line.
+ *
+ * Multireplace options are each styled starting from the markup state at the
+ * start of the multireplace. Afterwards, text is styled if any option leaves it styled.
+ * @param line Line of text.
+ * @param lineIndex Line number.
+ * @param lineGlobalIndex Global index to the start of the line.
+ * @param start Index in the line to start at.
+ * @param end Index in the line to stop at.
+ * @param state Markup state at the start, which is updated as markup is found.
+ * @param textDocument Document containing the line.
+ * @param tokens Array to add the tokens to.
+ */
+function findMarkupTokensInRange(
+    line: string,
+    lineIndex: number,
+    lineGlobalIndex: number,
+    start: number,
+    end: number,
+    state: MarkupState,
+    textDocument: TextDocument,
+    tokens: SemanticToken[],
+): void {
+    const pushText = (textStart: number, textEnd: number) => {
+        if (textEnd > textStart && (state.italic || state.bold)) {
+            const modifiers: TokenModifier[] = [];
+            if (state.italic) modifiers.push("italic");
+            if (state.bold) modifiers.push("bold");
+            tokens.push({
+                line: lineIndex,
+                character: textStart,
+                length: textEnd - textStart,
+                type: "markup",
+                modifiers: modifiers,
+            });
+        }
+    };
+
+    const pattern = /\[(\/?)(i|b)\]|(@!?!?\{)|(\$!?!?\{)/g;
+    pattern.lastIndex = start;
+    let textStart = start;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(line)) !== null && m.index < end) {
+        pushText(textStart, m.index);
+        let nextIndex = m.index + m[0].length;
+        if (m[2] !== undefined) {
+            const isOn = m[1] == "";
+            if (m[2] == "i") {
+                state.italic = isOn;
+            } else {
+                state.bold = isOn;
+            }
+        } else if (m[3] !== undefined) {
+            const multireplace = tokenizeMultireplace(
+                line,
+                textDocument,
+                lineGlobalIndex + nextIndex,
+                nextIndex,
+            );
+            if (multireplace !== undefined) {
+                const endStates = multireplace.body.map((option) => {
+                    const optionState = { ...state };
+                    findMarkupTokensInRange(
+                        line,
+                        lineIndex,
+                        lineGlobalIndex,
+                        option.localIndex,
+                        option.localIndex + option.text.length,
+                        optionState,
+                        textDocument,
+                        tokens,
+                    );
+                    return optionState;
+                });
+                if (endStates.length > 0) {
+                    state.italic = endStates.some((s) => s.italic);
+                    state.bold = endStates.some((s) => s.bold);
+                }
+                nextIndex = Math.min(multireplace.endIndex, line.length);
+            }
+        } else {
+            // Skip over the replacement's contents
+            const contents = extractToMatchingDelimiter(
+                line,
+                "{",
+                "}",
+                nextIndex,
+            );
+            nextIndex =
+                contents === undefined
+                    ? line.length
+                    : nextIndex + contents.length + 1;
+        }
+        textStart = nextIndex;
+        pattern.lastIndex = nextIndex;
+    }
+    pushText(textStart, Math.min(end, line.length));
+}
+
+/**
+ * Find tokens for text styled with italic or bold markup.
+ *
+ * Markup is tracked line by line, and only in text and option lines.
+ * @param textDocument Document to tokenize.
+ */
+function findMarkupTokens(textDocument: TextDocument): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const lines = textDocument.getText().split(/\r?\n/);
+    const optionCommandPattern =
+        /^\s*\*(if|selectable_if|(allow|hide|disable)_reuse)\b[^#]*#/;
+
+    let lineGlobalIndex = 0;
+    let lineIndex = 0;
+    for (const line of lines) {
+        let start: number | undefined = 0;
+        if (/^\s*\*/.test(line)) {
+            const m = optionCommandPattern.exec(line);
+            start = m === null ? undefined : m[0].length;
+        }
+        if (start !== undefined) {
+            findMarkupTokensInRange(
+                line,
+                lineIndex,
+                lineGlobalIndex,
+                start,
+                line.length,
+                { italic: false, bold: false },
+                textDocument,
+                tokens,
+            );
+        }
+        lineGlobalIndex = textDocument.offsetAt({
+            line: lineIndex + 1,
+            character: 0,
+        });
+        lineIndex++;
+    }
+
+    return tokens;
+}
+
+/**
+ * Generate semantic tokens for a document.
+ * @param textDocument Document to tokenize.
+ * @param projectIndex Index of the document's project.
+ * @returns The document's semantic tokens.
+ */
+export function generateSemanticTokens(
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+): SemanticTokens {
+    const tokens = [
+        ...findSymbolTokens(textDocument, projectIndex),
+        ...findMarkupTokens(textDocument),
+    ].sort((a, b) => a.line - b.line || a.character - b.character);
+
+    const builder = new SemanticTokensBuilder();
+    let lastLine = -1;
+    let lastEnd = 0;
+    for (const token of tokens) {
+        // Tokens can't overlap
+        if (token.line == lastLine && token.character < lastEnd) {
+            continue;
+        }
+        let modifiers = 0;
+        for (const modifier of token.modifiers) {
+            modifiers |= tokenModifierLookup.get(modifier) ?? 0;
+        }
+        builder.push(
+            token.line,
+            token.character,
+            token.length,
+            tokenTypeLookup.get(token.type) ?? 0,
+            modifiers,
+        );
+        lastLine = token.line;
+        lastEnd = token.character + token.length;
+    }
+
+    return builder.build();
+}
@@ -1,37 +1,126 @@
 import * as path from "path";
 import { fileURLToPath, pathToFileURL } from "url";
 import {
+    type CallHierarchyIncomingCall,
+    type CallHierarchyIncomingCallsParams,
+    type CallHierarchyItem,
+    type CallHierarchyOutgoingCall,
+    type CallHierarchyOutgoingCallsParams,
+    type CallHierarchyPrepareParams,
+    type CodeAction,
+    type CodeActionParams,
+    CodeActionKind,
+    type CodeLens,
+    type CodeLensParams,
     type CompletionItem,
     type Connection,
     type Definition,
+    type Diagnostic,
+    DiagnosticSeverity,
+    DidChangeWatchedFilesNotification,
+    type DidChangeWatchedFilesParams,
+    type DocumentDiagnosticParams,
+    type DocumentDiagnosticReport,
+    DocumentDiagnosticReportKind,
+    type DocumentLink,
+    type DocumentLinkParams,
+    type DocumentSymbol,
     type DocumentSymbolParams,
+    FileChangeType,
+    type FileOperationRegistrationOptions,
+    type FoldingRange,
+    type FoldingRangeParams,
+    type Hover,
+    type InitializeParams,
     type Location,
     type ReferenceParams,
+    type RenameFilesParams,
     type RenameParams,
+    type SemanticTokens,
+    type SemanticTokensParams,
+    type SignatureHelp,
     type SymbolInformation,
     type TextDocumentPositionParams,
     TextDocumentSyncKind,
     TextDocuments,
+    type TextEdit,
+    RenameFile,
+    type WorkspaceDiagnosticParams,
+    type WorkspaceDiagnosticReport,
+    type WorkspaceDocumentDiagnosticReport,
     type WorkspaceEdit,
     type WorkspaceFolder,
+    type WorkspaceSymbolParams,
 } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
 
+import {
+    type CallHierarchySettings,
+    generateIncomingCalls,
+    generateOutgoingCalls,
+    prepareCallHierarchy,
+} from "./call-hierarchy";
+import { generateCodeActions } from "./code-actions";
+import { generateCodeLenses } from "./code-lens";
 import { generateInitialCompletions } from "./completions";
-import { AllowUnsafeScriptOption, CustomMessages } from "./constants";
+import {
+    AllowUnsafeScriptOption,
+    CustomMessages,
+    DiagnosticSeverityOption,
+} from "./constants";
+import { DependencyGraph } from "./dependency-graph";
+import {
+    type DiagnosticReport,
+    DiagnosticReportCache,
+    createDocumentReport,
+} from "./diagnostic-reports";
+import { applySeverityOverrides } from "./diagnostics";
+import { generateDocumentLinks } from "./document-links";
 import {
     type FileSystemProvider,
     FileSystemService,
 } from "./file-system-service";
-import { Index, type ProjectIndex } from "./index";
+import { type FlowGraph, generateFlowGraph } from "./flow-graph";
+import { generateFoldingRanges } from "./folding";
+import { generateHover } from "./hover";
+import type { ProjectIndex } from "./index";
 import { updateProjectIndex } from "./indexer";
-import { uriIsStartupFile, uriIsChoicescriptStatsFile } from "./language";
-import { countWords } from "./parser";
-import { SelectionWordCountRequest, WordCountRequest } from "./request-service";
-import { findDefinitions, findReferences, generateRenames } from "./searches";
+import {
+    sceneFromUri,
+    uriIsStartupFile,
+    uriIsChoicescriptStatsFile,
+} from "./language";
+import { SectionCache, countWords } from "./parser";
+import { ProjectManager } from "./project-manager";
+import { type QuicktestResults, quicktestScene } from "./quicktest";
+import {
+    FlowGraphRequest,
+    QuicktestRequest,
+    SelectionWordCountRequest,
+    WordCountRequest,
+} from "./request-service";
+import {
+    findDefinitions,
+    findReferences,
+    generateRenames,
+    generateSceneFileRenames,
+} from "./searches";
+import {
+    generateSemanticTokens,
+    semanticTokensLegend,
+} from "./semantic-tokens";
+import { generateSignatureHelp } from "./signature-help";
+import {
+    type StyleGuide,
+    findStyleGuide,
+    parseStyleGuides,
+    styleGuidesFilename,
+} from "./style-guides";
 import { generateSymbols } from "./structure";
+import { removeSuppressedDiagnostics } from "./suppressions";
 import { normalizeUri } from "./utilities";
 import { type ValidationSettings, generateDiagnostics } from "./validator";
+import { generateWorkspaceSymbols } from "./workspace-symbols";
 
 /**
  * Server event arguments about an updated word count in a document.
@@ -47,35 +136,71 @@ interface UpdatedWordCount {
     count?: number;
 }
 
+/**
+ * Server event arguments about an updated image path in a project.
+ */
+interface UpdatedImageFilesPath {
+    /**
+     * Path to the project's scene files.
+     */
+    scenePath: string;
+    /**
+     * Path to the project's image files.
+     */
+    imagePath: string;
+}
+
 export const startServer = (
     connection: Connection,
     fsProvider: FileSystemProvider,
 ) => {
     const fileSystemService = new FileSystemService(fsProvider);
 
-    // Create a simple text document manager. The text document manager
-    // supports full document sync only
+    // Create a simple text document manager. It applies the client's
+    // incremental changes to keep each open document's text up to date
     const documents: TextDocuments<TextDocument> = new TextDocuments(
         TextDocument,
     );
 
-    // TODO handle multiple directories with startup.txt
-    const projectIndex = new Index();
+    // Every directory with a startup.txt file is its own project
+    const projects = new ProjectManager();
 
     const validationSettings: ValidationSettings = {
         useCoGStyleGuide: true,
         allowUnsafeScript: "never",
+        diagnosticSeverities: {},
     };
 
+    const callHierarchySettings: CallHierarchySettings = {
+        includeGotos: false,
+    };
+
+    // Diagnostics from the most recent Quicktest, by scene URI, along with the text that was tested
+    const quicktestDiagnostics: Map<
+        string,
+        { text: string; diagnostics: Diagnostic[] }
+    > = new Map();
+
+    // Most recent diagnostics for each scene when the client pulls them
+    const diagnosticReports = new DiagnosticReportCache();
+    // Whether the client pulls diagnostics from us instead of our pushing them
+    let usePullDiagnostics = false;
+    // Whether the client can be asked to pull diagnostics again
+    let canRefreshDiagnostics = false;
+
     // Queue of documents whose content has changed and who need to be updated
     const changedDocuments: Map<string, TextDocument> = new Map();
-    // Queue of possibly new scenes that need to be indexed
-    const newScenes: Set<string> = new Set();
-    // Have the files in the index changed or something happened where re-validation is required?
+    // Parsed label sections of each open document, so edits only re-parse the sections they touch
+    const sectionCaches: Map<string, SectionCache> = new Map();
+    // Symbols each indexed document defines and references, to find who needs re-validating after a change
+    const dependencyGraph = new DependencyGraph();
+    // Queue of possibly new scenes that need to be indexed, by project
+    const newScenes: Map<ProjectIndex, Set<string>> = new Map();
+    // Projects whose files in the index have changed or where something happened that requires re-validation
     // (Strictly speaking, those two events don't have to be coupled -- changing startup.txt requires
     // revalidation but doesn't indicate that the project files have actually changed) but for simplicity
-    // I'm combining the concepts into a single "project files have changed" variable
-    let projectFilesHaveChanged = false;
+    // I'm combining the concepts into a single "project files have changed" set
+    const changedProjects: Set<ProjectIndex> = new Set();
     // Heartbeat ID
     let heartbeatId: ReturnType<typeof setInterval> | undefined = undefined;
     // How often to update the documents in the queue, in ms
@@ -84,11 +209,44 @@ export const startServer = (
     const minHeartbeatDelay = 50;
     // Last queue update time
     let lastHeartbeatTime = -1;
+    // Whether the client can be asked to re-request semantic tokens
+    let canRefreshSemanticTokens = false;
+    // Scene files that a rename we generated is moving. Their references have already been
+    // updated, so they don't need updating again when the client tells us they're being renamed
+    const renamingSceneFiles: Set<string> = new Set();
+    // Scene files whose renames we want to hear about
+    const sceneFileOperations: FileOperationRegistrationOptions = {
+        filters: [{ scheme: "file", pattern: { glob: "**/*.txt" } }],
+    };
+    // Whether the client can be asked to watch each project's scene files for changes made outside the editor
+    let canWatchSceneFiles = false;
+    // Scene directories whose files we've asked the client to watch
+    const watchedSceneDirectories: Set<string> = new Set();
+    // Name of the style guide the user has chosen
+    let styleGuideName = "choiceOfGames";
+    // Custom style guides from each workspace folder's style guides file, by the file's normalized URI
+    const customStyleGuides: Map<string, Map<string, StyleGuide>> = new Map();
+    // Open documents that depend on scene files that were deleted outside the editor and need re-validating
+    const dependentsOfDeletedFiles: Set<string> = new Set();
 
     documents.listen(connection);
 
-    connection.onInitialize(() => {
-        const syncKind: TextDocumentSyncKind = TextDocumentSyncKind.Full;
+    connection.onInitialize((params: InitializeParams) => {
+        canRefreshSemanticTokens =
+            params.capabilities.workspace?.semanticTokens?.refreshSupport ??
+            false;
+        usePullDiagnostics =
+            params.capabilities.textDocument?.diagnostic !== undefined;
+        canRefreshDiagnostics =
+            params.capabilities.workspace?.diagnostics?.refreshSupport ?? false;
+        canWatchSceneFiles =
+            (params.capabilities.workspace?.didChangeWatchedFiles
+                ?.dynamicRegistration ??
+                false) &&
+            (params.capabilities.workspace?.didChangeWatchedFiles
+                ?.relativePatternSupport ??
+                false);
+        const syncKind: TextDocumentSyncKind = TextDocumentSyncKind.Incremental;
         return {
             capabilities: {
                 textDocumentSync: {
@@ -104,9 +262,45 @@ export const startServer = (
                     triggerCharacters: ["*", "{"],
                 },
                 definitionProvider: true,
+                hoverProvider: true,
+                signatureHelpProvider: {
+                    triggerCharacters: [" ", "("],
+                },
                 referencesProvider: true,
                 renameProvider: true,
                 documentSymbolProvider: true,
+                documentLinkProvider: {
+                    resolveProvider: false,
+                },
+                foldingRangeProvider: true,
+                workspaceSymbolProvider: true,
+                callHierarchyProvider: true,
+                codeActionProvider: {
+                    codeActionKinds: [CodeActionKind.QuickFix],
+                },
+                codeLensProvider: {
+                    resolveProvider: false,
+                },
+                semanticTokensProvider: {
+                    legend: semanticTokensLegend,
+                    full: true,
+                },
+                diagnosticProvider: usePullDiagnostics
+                    ? {
+                          interFileDependencies: true,
+                          workspaceDiagnostics: true,
+                      }
+                    : undefined,
+                workspace: {
+                    workspaceFolders: {
+                        supported: true,
+                        changeNotifications: true,
+                    },
+                    fileOperations: {
+                        willRename: sceneFileOperations,
+                        didRename: sceneFileOperations,
+                    },
+                },
             },
         };
     });
@@ -116,6 +310,48 @@ export const startServer = (
             if (workspaces && workspaces.length > 0)
                 findAndIndexProjects(fileSystemService, workspaces);
         });
+        connection.workspace.onWillRenameFiles(onWillRenameFiles);
+        connection.workspace.onDidRenameFiles(onDidRenameFiles);
+        connection.onDidChangeWatchedFiles(onDidChangeWatchedFiles);
+        connection.workspace.onDidChangeWorkspaceFolders((e) => {
+            for (const workspace of e.removed) {
+                customStyleGuides.delete(
+                    normalizeUri(styleGuidesFileUri(workspace.uri)),
+                );
+                // Note which project each document is in before the folder's projects are gone
+                const documentProjects = [
+                    ...new Set([
+                        ...dependencyGraph.getDocuments(),
+                        ...diagnosticReports.getUris(),
+                        ...changedDocuments.keys(),
+                        ...dependentsOfDeletedFiles,
+                    ]),
+                ].map((uri): [string, ProjectIndex] => [
+                    uri,
+                    projects.getProject(uri),
+                ]);
+                const removedProjects = new Set(
+                    projects.removeWorkspaceFolder(workspace.uri),
+                );
+                for (const projectIndex of removedProjects) {
+                    newScenes.delete(projectIndex);
+                    changedProjects.delete(projectIndex);
+                }
+                // The heartbeat asks clients that pull diagnostics to pull them again
+                for (const [uri, projectIndex] of documentProjects) {
+                    if (removedProjects.has(projectIndex)) {
+                        changedDocuments.delete(uri);
+                        dependentsOfDeletedFiles.delete(uri);
+                        dependencyGraph.removeDocument(uri);
+                        clearDiagnostics(uri);
+                    }
+                }
+            }
+            if (e.added.length > 0) {
+                findAndIndexProjects(fileSystemService, e.added);
+            }
+            updateStyleGuide();
+        });
         // Handle custom requests from the client
         connection.onNotification(
             CustomMessages.CoGStyleGuide,
@@ -125,8 +361,23 @@ export const startServer = (
             CustomMessages.AllowUnsafeScript,
             onAllowUnsafeScript,
         );
+        connection.onNotification(CustomMessages.StyleGuide, onStyleGuide);
+        connection.onNotification(
+            CustomMessages.DiagnosticSeverities,
+            onDiagnosticSeverities,
+        );
+        connection.onNotification(
+            CustomMessages.CallHierarchyGotos,
+            (includeGotos: boolean) => {
+                callHierarchySettings.includeGotos = includeGotos;
+            },
+        );
+        connection.languages.diagnostics.on(onDocumentDiagnostics);
+        connection.languages.diagnostics.onWorkspace(onWorkspaceDiagnostics);
         connection.onRequest(WordCountRequest, onWordCount);
         connection.onRequest(SelectionWordCountRequest, onSelectionWordCount);
+        connection.onRequest(FlowGraphRequest, onFlowGraph);
+        connection.onRequest(QuicktestRequest, onQuicktest);
 
         heartbeatId = setInterval(heartbeat, heartbeatDelay);
     });
@@ -150,7 +401,7 @@ export const startServer = (
             return generateInitialCompletions(
                 document,
                 textDocumentPosition.position,
-                projectIndex,
+                projects.getProject(document.uri),
             );
         },
     );
@@ -166,7 +417,7 @@ export const startServer = (
                 const definitionAndLocations = findDefinitions(
                     normalizeUri(document.uri),
                     textDocumentPosition.position,
-                    projectIndex,
+                    projects.getProject(document.uri),
                 );
                 if (definitionAndLocations !== undefined) {
                     return definitionAndLocations[0].location;
@@ -176,6 +427,43 @@ export const startServer = (
         },
     );
 
+    connection.onHover(
+        (
+            textDocumentPosition: TextDocumentPositionParams,
+        ): Hover | undefined => {
+            const document = documents.get(
+                textDocumentPosition.textDocument.uri,
+            );
+            if (document === undefined) {
+                return undefined;
+            }
+            return generateHover(
+                normalizeUri(document.uri),
+                textDocumentPosition.position,
+                projects.getProject(document.uri),
+            );
+        },
+    );
+
+    connection.onSignatureHelp(
+        (
+            textDocumentPosition: TextDocumentPositionParams,
+        ): SignatureHelp | undefined => {
+            const document = documents.get(
+                textDocumentPosition.textDocument.uri,
+            );
+            if (document === undefined) {
+                return undefined;
+            }
+            return generateSignatureHelp(
+                normalizeUri(document.uri),
+                document,
+                textDocumentPosition.position,
+                projects.getProject(document.uri),
+            );
+        },
+    );
+
     connection.onReferences(
         (referencesParams: ReferenceParams): Location[] | undefined => {
             const document = documents.get(referencesParams.textDocument.uri);
@@ -186,7 +474,7 @@ export const startServer = (
                 normalizeUri(document.uri),
                 referencesParams.position,
                 referencesParams.context,
-                projectIndex,
+                projects.getProject(document.uri),
             );
             return references?.map((reference) => {
                 return reference.location;
@@ -200,55 +488,171 @@ export const startServer = (
             if (document === undefined) {
                 return null;
             }
-            return generateRenames(
+            const edit = generateRenames(
                 normalizeUri(document.uri),
                 renameParams.position,
                 renameParams.newName,
-                projectIndex,
+                projects.getProject(document.uri),
             );
+            for (const change of edit?.documentChanges ?? []) {
+                if (RenameFile.is(change)) {
+                    renamingSceneFiles.add(normalizeUri(change.oldUri));
+                }
+            }
+            return edit;
         },
     );
 
     connection.onDocumentSymbol(
         (
             documentSymbolParams: DocumentSymbolParams,
-        ): SymbolInformation[] | null => {
+        ): DocumentSymbol[] | null => {
             const document = documents.get(
                 documentSymbolParams.textDocument.uri,
             );
             if (document === undefined) {
                 return null;
             }
-            return generateSymbols(document, projectIndex);
+            return generateSymbols(document, projects.getProject(document.uri));
+        },
+    );
+
+    connection.onCodeLens((codeLensParams: CodeLensParams): CodeLens[] => {
+        const uri = normalizeUri(codeLensParams.textDocument.uri);
+        return generateCodeLenses(uri, projects.getProject(uri));
+    });
+
+    connection.onDocumentLinks(
+        (documentLinkParams: DocumentLinkParams): DocumentLink[] => {
+            const uri = normalizeUri(documentLinkParams.textDocument.uri);
+            return generateDocumentLinks(uri, projects.getProject(uri));
+        },
+    );
+
+    connection.onFoldingRanges(
+        (foldingRangeParams: FoldingRangeParams): FoldingRange[] | null => {
+            const document = documents.get(foldingRangeParams.textDocument.uri);
+            if (document === undefined) {
+                return null;
+            }
+            return generateFoldingRanges(document);
+        },
+    );
+
+    connection.onWorkspaceSymbol(
+        (workspaceSymbolParams: WorkspaceSymbolParams): SymbolInformation[] => {
+            return generateWorkspaceSymbols(
+                workspaceSymbolParams.query,
+                projects.getAllIndices(),
+            );
+        },
+    );
+
+    connection.languages.semanticTokens.on(
+        (semanticTokensParams: SemanticTokensParams): SemanticTokens => {
+            const document = documents.get(
+                semanticTokensParams.textDocument.uri,
+            );
+            if (document === undefined) {
+                return { data: [] };
+            }
+            return generateSemanticTokens(
+                document,
+                projects.getProject(document.uri),
+            );
+        },
+    );
+
+    connection.languages.callHierarchy.onPrepare(
+        (params: CallHierarchyPrepareParams): CallHierarchyItem[] | null => {
+            const document = documents.get(params.textDocument.uri);
+            if (document === undefined) {
+                return null;
+            }
+            return prepareCallHierarchy(
+                normalizeUri(document.uri),
+                params.position,
+                projects.getProject(document.uri),
+            );
+        },
+    );
+
+    connection.languages.callHierarchy.onIncomingCalls(
+        (
+            params: CallHierarchyIncomingCallsParams,
+        ): CallHierarchyIncomingCall[] => {
+            return generateIncomingCalls(
+                params.item,
+                projects.getProject(params.item.uri),
+                callHierarchySettings,
+            );
+        },
+    );
+
+    connection.languages.callHierarchy.onOutgoingCalls(
+        (
+            params: CallHierarchyOutgoingCallsParams,
+        ): CallHierarchyOutgoingCall[] => {
+            return generateOutgoingCalls(
+                params.item,
+                projects.getProject(params.item.uri),
+                callHierarchySettings,
+            );
+        },
+    );
+
+    connection.onCodeAction(
+        (codeActionParams: CodeActionParams): CodeAction[] => {
+            const document = documents.get(codeActionParams.textDocument.uri);
+            if (document === undefined) {
+                return [];
+            }
+            return generateCodeActions(
+                document,
+                codeActionParams.context.diagnostics,
+                projects.getProject(document.uri),
+            );
         },
     );
 
     connection.onDidChangeConfiguration((change) => {
         // eslint-disable-line @typescript-eslint/no-unused-vars
         // Revalidate all open text documents
-        documents
-            .all()
-            .forEach((doc) => validateTextDocument(doc, projectIndex));
+        validateAllDocuments();
     });
 
     documents.onDidOpen((e) => {
         const isStartupFile = uriIsStartupFile(e.document.uri);
 
-        updateProjectIndex(
-            e.document,
-            isStartupFile,
-            uriIsChoicescriptStatsFile(e.document.uri),
+        // A startup file outside of any known project starts a new one
+        if (isStartupFile && !projects.isInProject(e.document.uri)) {
+            indexProject(path.dirname(fileURLToPath(e.document.uri)));
+        }
+
+        const uri = normalizeUri(e.document.uri);
+        const projectIndex = projects.getProject(e.document.uri);
+        queueNewScenes(
             projectIndex,
-        ).forEach((newScene) => {
-            newScenes.add(newScene);
-        });
+            updateProjectIndex(
+                e.document,
+                isStartupFile,
+                uriIsChoicescriptStatsFile(e.document.uri),
+                projectIndex,
+                getSectionCache(uri),
+            ),
+        );
+        dependencyGraph.updateDocument(uri, projectIndex);
 
-        notifyChangedWordCount(e.document);
+        notifyChangedWordCount(e.document, projectIndex);
         if (isStartupFile) {
-            projectFilesHaveChanged = true;
+            changedProjects.add(projectIndex);
         }
     });
 
+    documents.onDidClose((e) => {
+        sectionCaches.delete(normalizeUri(e.document.uri));
+    });
+
     // A document has been opened or its content has been changed.
     documents.onDidChangeContent((change) => {
         // Put the document on the queue for later processing (so we don't DDOS via updates)
@@ -269,7 +673,41 @@ export const startServer = (
     }
 
     /**
-     * Find the `startup.txt` file and index the project associated with it.
+     * Get the cache of an open document's parsed label sections.
+     *
+     * @param uri Document's normalized URI.
+     */
+    function getSectionCache(uri: string): SectionCache {
+        let cache = sectionCaches.get(uri);
+        if (cache === undefined) {
+            cache = new SectionCache();
+            sectionCaches.set(uri, cache);
+        }
+        return cache;
+    }
+
+    /**
+     * Add a list of scenes to the queue of scenes to index.
+     *
+     * @param projectIndex Index of the project the scenes belong to.
+     * @param scenes Scene names to queue.
+     */
+    function queueNewScenes(projectIndex: ProjectIndex, scenes: string[]) {
+        if (scenes.length == 0) {
+            return;
+        }
+        let queue = newScenes.get(projectIndex);
+        if (queue === undefined) {
+            queue = new Set();
+            newScenes.set(projectIndex, queue);
+        }
+        for (const scene of scenes) {
+            queue.add(scene);
+        }
+    }
+
+    /**
+     * Find all of the `startup.txt` files and index the projects associated with them.
      *
      * @param fileSystemService Service that provides access to the file system.
      * @param workspaces List of workspace folders.
@@ -279,18 +717,121 @@ export const startServer = (
         workspaces: WorkspaceFolder[],
     ): void {
         workspaces.forEach((workspace) => {
+            projects.addWorkspaceFolder(workspace.uri);
+            loadStyleGuides(styleGuidesFileUri(workspace.uri)).then(() => {
+                updateStyleGuide();
+            });
+            watchStyleGuides(workspace.uri);
             const rootPath = fileURLToPath(workspace.uri);
             fileSystemService
                 .findFiles("**/startup.txt", rootPath)
                 .then((files) => {
-                    if (files.length > 0) {
-                        // TODO handle multiple startup.txt files in multiple directories
-                        indexProject(rootPath, files[0]);
+                    for (const file of files) {
+                        // Filenames from globby are posix paths regardless of platform
+                        const sceneFilesPath = path.join(
+                            rootPath,
+                            ...path.posix.dirname(file).split("/"),
+                        );
+                        indexProject(sceneFilesPath, rootPath);
                     }
                 });
         });
     }
 
+    /**
+     * Get the URI of a workspace folder's style guides file.
+     * @param workspaceUri URI of the workspace folder.
+     */
+    function styleGuidesFileUri(workspaceUri: string): string {
+        return `${workspaceUri.replace(/\/+$/, "")}/${styleGuidesFilename}`;
+    }
+
+    /**
+     * Load the custom style guides from a style guides file.
+     *
+     * If the file doesn't exist, its style guides are forgotten.
+     * @param fileUri URI of the style guides file.
+     */
+    async function loadStyleGuides(fileUri: string): Promise<void> {
+        const uri = normalizeUri(fileUri);
+        const filePath = fileURLToPath(fileUri);
+        if (!(await fileSystemService.fileExists(filePath))) {
+            customStyleGuides.delete(uri);
+            return;
+        }
+        try {
+            const styleGuides = parseStyleGuides(
+                await fileSystemService.readFile(filePath),
+            );
+            if (typeof styleGuides === "string") {
+                connection.console.error(
+                    `Could not read style guides from ${filePath} (${styleGuides})`,
+                );
+                customStyleGuides.delete(uri);
+            } else {
+                customStyleGuides.set(uri, styleGuides);
+            }
+        } catch (err) {
+            connection.console.error(
+                `Could not read file ${filePath} (${err})`,
+            );
+        }
+    }
+
+    /**
+     * Ask the client to tell us when a workspace folder's style guides file changes.
+     * @param workspaceUri URI of the workspace folder.
+     */
+    function watchStyleGuides(workspaceUri: string): void {
+        if (!canWatchSceneFiles) {
+            return;
+        }
+        connection.client.register(DidChangeWatchedFilesNotification.type, {
+            watchers: [
+                {
+                    globPattern: {
+                        baseUri: workspaceUri,
+                        pattern: styleGuidesFilename,
+                    },
+                },
+            ],
+        });
+    }
+
+    /**
+     * Switch to the style guide the user chose and re-validate all open documents.
+     */
+    function updateStyleGuide(): void {
+        const allCustomStyleGuides: Map<string, StyleGuide> = new Map();
+        for (const styleGuides of customStyleGuides.values()) {
+            for (const [name, styleGuide] of styleGuides) {
+                allCustomStyleGuides.set(name, styleGuide);
+            }
+        }
+        const styleGuide = findStyleGuide(styleGuideName, allCustomStyleGuides);
+        if (styleGuide === undefined) {
+            connection.console.error(
+                `Couldn't find the ${styleGuideName} style guide, so using the Choice of Games one instead`,
+            );
+        }
+        validationSettings.styleGuide = styleGuide;
+        validateAllDocuments();
+    }
+
+    /**
+     * Re-validate all open documents.
+     */
+    function validateAllDocuments(): void {
+        for (const uri of diagnosticReports.getUris()) {
+            markDiagnosticsStale(uri);
+        }
+        documents
+            .all()
+            .forEach((doc) =>
+                validateTextDocument(doc, projects.getProject(doc.uri)),
+            );
+    }
+
     async function validateTextDocument(
         textDocument: TextDocument,
         projectIndex: ProjectIndex,
@@ -303,60 +844,222 @@ export const startServer = (
             validationSettings,
             fileSystemService,
         );
-        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+        // Quicktest results only hold until the scene is edited
+        const quicktest = quicktestDiagnostics.get(
+            normalizeUri(textDocument.uri),
+        );
+        if (quicktest?.text == textDocument.getText()) {
+            diagnostics.push(
+                ...applyDiagnosticSettings(quicktest.diagnostics, textDocument),
+            );
+        }
+        reportDiagnostics(textDocument, diagnostics);
         const newImagePath = projectIndex.getPlatformImagePath();
         if (newImagePath != oldImagePath && newImagePath !== undefined) {
-            connection.sendNotification(
-                CustomMessages.UpdatedImageFilesPath,
-                newImagePath,
+            notifyChangedImagePath(projectIndex, newImagePath);
+        }
+    }
+
+    /**
+     * Apply the user's diagnostic severities and suppression comments to diagnostics
+     * that didn't come from the validator, which applies them itself.
+     * @param diagnostics Diagnostics to apply the settings to.
+     * @param textDocument Document the diagnostics are for.
+     * @returns The diagnostics the user wants to see.
+     */
+    function applyDiagnosticSettings(
+        diagnostics: readonly Diagnostic[],
+        textDocument: TextDocument,
+    ): Diagnostic[] {
+        return removeSuppressedDiagnostics(
+            applySeverityOverrides(
+                diagnostics,
+                validationSettings.diagnosticSeverities ?? {},
+            ),
+            textDocument,
+        );
+    }
+
+    /**
+     * Send a document's diagnostics to the client.
+     *
+     * If the client pulls diagnostics, they're instead held until it asks for them.
+     * @param textDocument Document the diagnostics are for.
+     * @param diagnostics The document's diagnostics.
+     * @returns The diagnostics' report ID, if the client pulls diagnostics.
+     */
+    function reportDiagnostics(
+        textDocument: TextDocument,
+        diagnostics: Diagnostic[],
+    ): string | undefined {
+        if (!usePullDiagnostics) {
+            connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+            return undefined;
+        }
+
+        return diagnosticReports.update(
+            normalizeUri(textDocument.uri),
+            diagnostics,
+        );
+    }
+
+    /**
+     * Note that a scene's pulled diagnostics need to be re-generated.
+     * @param uri Scene's normalized URI.
+     */
+    function markDiagnosticsStale(uri: string): void {
+        if (usePullDiagnostics) {
+            diagnosticReports.markStale(uri);
+        }
+    }
+
+    /**
+     * Clear the diagnostics the client has for a scene that no longer exists.
+     *
+     * If the client pulls diagnostics, they're cleared the next time it asks for them.
+     * @param uri Scene's normalized URI.
+     */
+    function clearDiagnostics(uri: string): void {
+        quicktestDiagnostics.delete(uri);
+        diagnosticReports.remove(uri);
+        if (!usePullDiagnostics) {
+            connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+        }
+    }
+
+    /**
+     * Get a scene's diagnostic report, re-generating it if it's out of date.
+     * @param sceneUri Scene's normalized URI.
+     * @returns The report, or undefined if the scene couldn't be read.
+     */
+    async function getDiagnosticReport(
+        sceneUri: string,
+    ): Promise<DiagnosticReport | undefined> {
+        let report = diagnosticReports.getReport(sceneUri);
+        if (report === undefined) {
+            const textDocument = await readSceneDocument(sceneUri);
+            if (textDocument === undefined) {
+                return undefined;
+            }
+            await validateTextDocument(
+                textDocument,
+                projects.getProject(sceneUri),
+            );
+            report = diagnosticReports.getReport(sceneUri);
+        }
+        return report;
+    }
+
+    /**
+     * Find a scene's open document.
+     * @param sceneUri Scene's normalized URI.
+     * @returns The open document, or undefined if the scene isn't open.
+     */
+    function findOpenDocument(sceneUri: string): TextDocument | undefined {
+        return documents
+            .all()
+            .find((document) => normalizeUri(document.uri) == sceneUri);
+    }
+
+    /**
+     * Get a scene's document, reading it from disk if it isn't open.
+     * @param sceneUri Scene's normalized URI.
+     * @returns The document, or undefined if the scene couldn't be read.
+     */
+    async function readSceneDocument(
+        sceneUri: string,
+    ): Promise<TextDocument | undefined> {
+        const textDocument = findOpenDocument(sceneUri);
+        if (textDocument !== undefined) {
+            return textDocument;
+        }
+        try {
+            const data = await fileSystemService.readFile(
+                fileURLToPath(sceneUri),
+            );
+            return TextDocument.create(sceneUri, "ChoiceScript", 0, data);
+        } catch (err) {
+            connection.console.error(
+                `Could not read file ${sceneUri} (${err})`,
             );
+            return undefined;
         }
     }
 
     /**
-     * Fully index a ChoiceScript project given the path to `startup.txt`.
+     * Notify the client that a project's image path has changed.
+     * @param projectIndex Project whose image path changed.
+     * @param imagePath New image path.
+     */
+    function notifyChangedImagePath(
+        projectIndex: ProjectIndex,
+        imagePath: string,
+    ): void {
+        const e: UpdatedImageFilesPath = {
+            scenePath: projectIndex.getPlatformScenePath(),
+            imagePath: imagePath,
+        };
+        connection.sendNotification(CustomMessages.UpdatedImageFilesPath, e);
+    }
+
+    /**
+     * Fully index a ChoiceScript project given the path to its `startup.txt` file's directory.
      *
-     * @param workspacePath Resolved path to the root of the workspace.
-     * @param relativeStartupFilePath Path to `startup.txt` relative to the workspace.
+     * @param sceneFilesPath Resolved path to the directory containing `startup.txt`.
+     * @param workspacePath Resolved path to the root of the workspace, if known.
      */
     async function indexProject(
-        workspacePath: string,
-        relativeStartupFilePath: string,
+        sceneFilesPath: string,
+        workspacePath?: string,
     ): Promise<void> {
-        const projectPath = path.dirname(relativeStartupFilePath);
-        // Filenames from globby are posix paths regardless of platform
-        const projectPathComponents = projectPath.split("/");
-        const sceneFilesPath = path.join(
-            workspacePath,
-            ...projectPathComponents,
+        // Any open documents in the project's directory were indexed elsewhere,
+        // so move them to the new project
+        const previousIndices = new Map(
+            documents.all().map((doc) => [doc, projects.getProject(doc.uri)]),
         );
+        const projectIndex = projects.addProject(
+            pathToFileURL(sceneFilesPath).toString(),
+        );
+        for (const [document, previousIndex] of previousIndices) {
+            if (
+                previousIndex !== projectIndex &&
+                projects.getProject(document.uri) === projectIndex
+            ) {
+                previousIndex.removeDocument(document.uri);
+                dependencyGraph.removeDocument(normalizeUri(document.uri));
+                changedDocuments.set(normalizeUri(document.uri), document);
+            }
+        }
+
+        if (workspacePath !== undefined) {
+            projectIndex.setPlatformWorkspacePath(workspacePath);
+        }
         projectIndex.setPlatformScenePath(sceneFilesPath);
         connection.sendNotification(
             CustomMessages.UpdatedSceneFilesPath,
             sceneFilesPath,
         );
+        watchSceneFiles(sceneFilesPath);
 
         // Index the startup.txt file
-        await indexFile(
-            path.join(sceneFilesPath, path.basename(relativeStartupFilePath)),
-        );
+        await indexFile(path.join(sceneFilesPath, "startup.txt"), projectIndex);
 
         // Try to index the stats page (which might not exist)
-        await indexFile(path.join(sceneFilesPath, "choicescript_stats.txt"));
+        await indexFile(
+            path.join(sceneFilesPath, "choicescript_stats.txt"),
+            projectIndex,
+        );
 
         const scenes = projectIndex.getAllReferencedScenes();
 
         if (scenes !== undefined) {
             // Try to index all of the scene files
-            await indexScenes(scenes);
+            await indexScenes(scenes, projectIndex);
         }
 
         const imagePath = projectIndex.getPlatformImagePath();
         if (imagePath !== undefined) {
-            connection.sendNotification(
-                CustomMessages.UpdatedImageFilesPath,
-                imagePath,
-            );
+            notifyChangedImagePath(projectIndex, imagePath);
         }
 
         projectIndex.setProjectIsIndexed(true);
@@ -364,12 +1067,40 @@ export const startServer = (
     }
 
     /**
-     * Index a ChoiceScript file and add it to the overall project index.
+     * Ask the client to tell us when a project's scene files are created, changed,
+     * or deleted outside of the editor.
+     *
+     * @param sceneFilesPath Resolved path to the directory containing the project's scene files.
+     */
+    function watchSceneFiles(sceneFilesPath: string): void {
+        const sceneFilesUri = pathToFileURL(sceneFilesPath).toString();
+        if (
+            !canWatchSceneFiles ||
+            watchedSceneDirectories.has(normalizeUri(sceneFilesUri))
+        ) {
+            return;
+        }
+        watchedSceneDirectories.add(normalizeUri(sceneFilesUri));
+        connection.client.register(DidChangeWatchedFilesNotification.type, {
+            watchers: [
+                {
+                    globPattern: { baseUri: sceneFilesUri, pattern: "*.txt" },
+                },
+            ],
+        });
+    }
+
+    /**
+     * Index a ChoiceScript file and add it to its project's index.
      *
      * @param path Absolute path to the file to index.
+     * @param projectIndex Index of the project the file belongs to.
      * @returns True if indexing succeeded; false otherwise.
      */
-    async function indexFile(path: string): Promise<boolean> {
+    async function indexFile(
+        path: string,
+        projectIndex: ProjectIndex,
+    ): Promise<boolean> {
         const fileUri = pathToFileURL(path).toString();
 
         try {
@@ -383,16 +1114,21 @@ export const startServer = (
             const newFile = !projectIndex.hasUri(
                 normalizeUri(textDocument.uri),
             );
-            updateProjectIndex(
-                textDocument,
-                uriIsStartupFile(fileUri),
-                uriIsChoicescriptStatsFile(fileUri),
+            queueNewScenes(
                 projectIndex,
-            ).forEach((newScene) => {
-                newScenes.add(newScene);
-            });
+                updateProjectIndex(
+                    textDocument,
+                    uriIsStartupFile(fileUri),
+                    uriIsChoicescriptStatsFile(fileUri),
+                    projectIndex,
+                ),
+            );
+            dependencyGraph.updateDocument(
+                normalizeUri(textDocument.uri),
+                projectIndex,
+            );
             if (newFile) {
-                projectFilesHaveChanged = true;
+                changedProjects.add(projectIndex);
             }
             return true;
         } catch (err) {
@@ -405,13 +1141,21 @@ export const startServer = (
      * Index a list of scenes by name.
      *
      * @param sceneNames List of scene names to index (such as "startup" or "chapter_1").
+     * @param projectIndex Index of the project the scenes belong to.
      */
-    async function indexScenes(sceneNames: readonly string[]) {
+    async function indexScenes(
+        sceneNames: readonly string[],
+        projectIndex: ProjectIndex,
+    ) {
         const platformScenePath = projectIndex.getPlatformScenePath();
+        // Documents outside of a project have no scene path to find scenes in
+        if (platformScenePath == "") {
+            return;
+        }
         const scenePaths = sceneNames.map((name) =>
             path.join(platformScenePath, name + ".txt"),
         );
-        const promises = scenePaths.map((x) => indexFile(x));
+        const promises = scenePaths.map((x) => indexFile(x, projectIndex));
         await Promise.all(promises);
     }
 
@@ -428,39 +1172,119 @@ export const startServer = (
             // Process changed documents
             const processingQueue = new Map(changedDocuments);
             changedDocuments.clear();
-            let processedStartupFile = false;
 
+            // Re-validate the changed documents and any open documents that
+            // define or reference the symbols that changed
+            const documentsToValidate: Set<string> = new Set(
+                dependentsOfDeletedFiles,
+            );
+            dependentsOfDeletedFiles.clear();
+            // Variables' types are checked when a document is indexed, so documents
+            // that use variables that changed elsewhere need to be re-indexed
+            const documentsToReindex: Map<string, ProjectIndex> = new Map();
             for (const [uri, document] of processingQueue) {
-                processChangedDocument(document);
-                if (uriIsStartupFile(uri)) {
-                    processedStartupFile = true;
+                const projectIndex = projects.getProject(uri);
+                const changedSymbols = processChangedDocument(
+                    document,
+                    projectIndex,
+                );
+                documentsToValidate.add(uri);
+                for (const dependentUri of dependencyGraph.findDependentDocuments(
+                    changedSymbols,
+                )) {
+                    if (projects.getProject(dependentUri) === projectIndex) {
+                        documentsToValidate.add(dependentUri);
+                    }
+                }
+                for (const dependentUri of dependencyGraph.findDependentDocuments(
+                    new Set(
+                        [...changedSymbols].filter((symbol) =>
+                            symbol.startsWith("variable:"),
+                        ),
+                    ),
+                )) {
+                    if (
+                        !processingQueue.has(dependentUri) &&
+                        projects.getProject(dependentUri) === projectIndex
+                    ) {
+                        documentsToReindex.set(dependentUri, projectIndex);
+                    }
+                }
+                // Global variables may have changed, which affects how variables are highlighted
+                if (
+                    uriIsStartupFile(uri) &&
+                    changedSymbols.size > 0 &&
+                    canRefreshSemanticTokens
+                ) {
+                    connection.languages.semanticTokens.refresh();
                 }
             }
 
-            // If we processed a startup file, which defines global variables,
-            // re-validate all files & notify that scene files may have changed
-            if (processedStartupFile) {
-                // Since the startup file defines global variables, if it changes,
-                // re-validate all other files
-                projectFilesHaveChanged = true;
-            } else {
-                for (const document of processingQueue.values()) {
+            const openDocuments = new Map(
+                documents
+                    .all()
+                    .map((document) => [normalizeUri(document.uri), document]),
+            );
+            for (const [uri, projectIndex] of documentsToReindex) {
+                const document = openDocuments.get(uri);
+                if (document !== undefined) {
+                    processChangedDocument(document, projectIndex);
+                } else {
+                    await indexFile(fileURLToPath(uri), projectIndex);
+                }
+            }
+
+            // Scenes that aren't open get their diagnostics when the client asks for them
+            for (const uri of documentsToValidate) {
+                markDiagnosticsStale(uri);
+            }
+            for (const document of documents.all()) {
+                const uri = normalizeUri(document.uri);
+                const projectIndex = projects.getProject(uri);
+                if (
+                    documentsToValidate.has(uri) &&
+                    !changedProjects.has(projectIndex)
+                ) {
                     validateTextDocument(document, projectIndex);
                 }
             }
 
             // Index new scenes
             if (newScenes.size > 0) {
-                const scenes = [...newScenes.keys()];
+                const scenesByProject = [...newScenes.entries()];
                 newScenes.clear();
-                await indexScenes(scenes);
+                await Promise.all(
+                    scenesByProject.map(([projectIndex, scenes]) =>
+                        indexScenes([...scenes], projectIndex),
+                    ),
+                );
             }
 
-            if (projectFilesHaveChanged) {
-                projectFilesHaveChanged = false;
-                documents
-                    .all()
-                    .forEach((doc) => validateTextDocument(doc, projectIndex));
+            if (changedProjects.size > 0) {
+                const projectsToValidate = new Set(changedProjects);
+                changedProjects.clear();
+                for (const uri of diagnosticReports.getUris()) {
+                    if (projectsToValidate.has(projects.getProject(uri))) {
+                        markDiagnosticsStale(uri);
+                    }
+                }
+                for (const document of documents.all()) {
+                    const projectIndex = projects.getProject(document.uri);
+                    if (projectsToValidate.has(projectIndex)) {
+                        validateTextDocument(document, projectIndex);
+                    }
+                }
+                // Global variables may have changed, which affects how variables are highlighted
+                if (canRefreshSemanticTokens) {
+                    connection.languages.semanticTokens.refresh();
+                }
+            }
+
+            if (
+                diagnosticReports.checkNeedsRefresh() &&
+                canRefreshDiagnostics
+            ) {
+                connection.languages.diagnostics.refresh();
             }
         } finally {
             lastHeartbeatTime = Date.now();
@@ -469,25 +1293,39 @@ export const startServer = (
 
     /**
      * Process a document whose content has changed.
+     * @param document Document that changed.
+     * @param projectIndex Index of the project the document belongs to.
+     * @returns Symbols the document defines or references that changed.
      */
-    function processChangedDocument(document: TextDocument) {
-        updateProjectIndex(
-            document,
-            uriIsStartupFile(document.uri),
-            uriIsChoicescriptStatsFile(document.uri),
+    function processChangedDocument(
+        document: TextDocument,
+        projectIndex: ProjectIndex,
+    ): Set<string> {
+        const uri = normalizeUri(document.uri);
+        queueNewScenes(
             projectIndex,
-        ).forEach((newScene) => {
-            newScenes.add(newScene);
-        });
+            updateProjectIndex(
+                document,
+                uriIsStartupFile(document.uri),
+                uriIsChoicescriptStatsFile(document.uri),
+                projectIndex,
+                sectionCaches.get(uri),
+            ),
+        );
 
-        notifyChangedWordCount(document);
+        notifyChangedWordCount(document, projectIndex);
+        return dependencyGraph.updateDocument(uri, projectIndex);
     }
 
     /**
      * Notify the client about a document's word count.
      * @param document Document whose word count is to be sent.
+     * @param projectIndex Index of the project the document belongs to.
      */
-    function notifyChangedWordCount(document: TextDocument): void {
+    function notifyChangedWordCount(
+        document: TextDocument,
+        projectIndex: ProjectIndex,
+    ): void {
         const e: UpdatedWordCount = {
             uri: document.uri,
             count: projectIndex.getWordCount(document.uri),
@@ -498,20 +1336,28 @@ export const startServer = (
 
     function onCoGStyleGuide(useCoGStyleGuide: boolean) {
         validationSettings.useCoGStyleGuide = useCoGStyleGuide;
-        documents
-            .all()
-            .forEach((doc) => validateTextDocument(doc, projectIndex));
+        validateAllDocuments();
     }
 
     function onAllowUnsafeScript(allowUnsafeScript: AllowUnsafeScriptOption) {
         validationSettings.allowUnsafeScript = allowUnsafeScript;
-        documents
-            .all()
-            .forEach((doc) => validateTextDocument(doc, projectIndex));
+        validateAllDocuments();
+    }
+
+    function onStyleGuide(name: string | null) {
+        styleGuideName = name ?? "choiceOfGames";
+        updateStyleGuide();
+    }
+
+    function onDiagnosticSeverities(
+        severities: Record<string, DiagnosticSeverityOption> | null,
+    ) {
+        validationSettings.diagnosticSeverities = severities ?? {};
+        validateAllDocuments();
     }
 
     function onWordCount(uri: string): number | undefined {
-        return projectIndex.getWordCount(uri);
+        return projects.getProject(uri).getWordCount(uri);
     }
 
     function onSelectionWordCount(location: Location): number | undefined {
@@ -531,6 +1377,271 @@ export const startServer = (
         return countWords(section, document);
     }
 
+    function onFlowGraph(uri: string): FlowGraph | undefined {
+        if (!projects.isInProject(uri)) {
+            return undefined;
+        }
+        return generateFlowGraph(projects.getProject(uri));
+    }
+
+    /**
+     * Update references to scene files that the client is about to rename.
+     * @param params Files being renamed.
+     * @returns Edits to the scenes' references, or null if there are none.
+     */
+    function onWillRenameFiles(
+        params: RenameFilesParams,
+    ): WorkspaceEdit | null {
+        const changes: Record<string, TextEdit[]> = {};
+        for (const file of params.files) {
+            if (
+                renamingSceneFiles.delete(normalizeUri(file.oldUri)) ||
+                !projects.isInProject(file.oldUri)
+            ) {
+                continue;
+            }
+            const edit = generateSceneFileRenames(
+                file.oldUri,
+                file.newUri,
+                projects.getProject(file.oldUri),
+            );
+            for (const [uri, edits] of Object.entries(edit?.changes ?? {})) {
+                changes[uri] = [...(changes[uri] ?? []), ...edits];
+            }
+        }
+        return Object.keys(changes).length > 0 ? { changes: changes } : null;
+    }
+
+    /**
+     * Re-index scene files that the client renamed.
+     * @param params Files that were renamed.
+     */
+    function onDidRenameFiles(params: RenameFilesParams): void {
+        for (const file of params.files) {
+            renamingSceneFiles.delete(normalizeUri(file.oldUri));
+            if (!projects.isInProject(file.oldUri)) {
+                continue;
+            }
+            const projectIndex = projects.getProject(file.oldUri);
+            projectIndex.removeDocument(file.oldUri);
+            dependencyGraph.removeDocument(normalizeUri(file.oldUri));
+            const scene = sceneFromUri(file.newUri);
+            if (
+                scene !== undefined &&
+                projects.getProject(file.newUri) === projectIndex
+            ) {
+                queueNewScenes(projectIndex, [scene]);
+            }
+            changedProjects.add(projectIndex);
+        }
+    }
+
+    /**
+     * Keep the index in sync with scene files that were created, changed, or
+     * deleted outside of the editor.
+     * @param params Files that changed.
+     */
+    async function onDidChangeWatchedFiles(
+        params: DidChangeWatchedFilesParams,
+    ): Promise<void> {
+        for (const change of params.changes) {
+            if (change.uri.endsWith(`/${styleGuidesFilename}`)) {
+                await loadStyleGuides(change.uri);
+                updateStyleGuide();
+                continue;
+            }
+            // Open documents are kept up to date by the editor instead
+            if (documents.get(change.uri) !== undefined) {
+                continue;
+            }
+            // A new startup file outside of any known project starts a new one
+            if (
+                change.type == FileChangeType.Created &&
+                uriIsStartupFile(change.uri) &&
+                !projects.isInProject(change.uri)
+            ) {
+                await indexProject(path.dirname(fileURLToPath(change.uri)));
+                continue;
+            }
+            if (!projects.isInProject(change.uri)) {
+                continue;
+            }
+
+            const uri = normalizeUri(change.uri);
+            const projectIndex = projects.getProject(change.uri);
+            if (change.type == FileChangeType.Deleted) {
+                changedDocuments.delete(uri);
+                clearDiagnostics(uri);
+                projectIndex.removeDocument(change.uri);
+                const symbols = dependencyGraph.removeDocument(uri);
+                for (const dependentUri of dependencyGraph.findDependentDocuments(
+                    symbols,
+                )) {
+                    if (projects.getProject(dependentUri) === projectIndex) {
+                        dependentsOfDeletedFiles.add(dependentUri);
+                    }
+                }
+                continue;
+            }
+
+            // Queue created and changed files the same way as edited documents
+            // so that the documents that depend on them are re-validated
+            try {
+                const data = await fileSystemService.readFile(
+                    fileURLToPath(change.uri),
+                );
+                if (documents.get(change.uri) === undefined) {
+                    changedDocuments.set(
+                        uri,
+                        TextDocument.create(
+                            change.uri,
+                            "ChoiceScript",
+                            0,
+                            data,
+                        ),
+                    );
+                }
+            } catch (err) {
+                connection.console.error(
+                    `Could not read file ${change.uri} (${err})`,
+                );
+            }
+        }
+    }
+
+    /**
+     * Give the client a document's diagnostics.
+     * @param params Document whose diagnostics the client wants.
+     * @returns Diagnostic report, which is marked unchanged if the client already has it.
+     */
+    async function onDocumentDiagnostics(
+        params: DocumentDiagnosticParams,
+    ): Promise<DocumentDiagnosticReport> {
+        const report = await getDiagnosticReport(
+            normalizeUri(params.textDocument.uri),
+        );
+        if (report === undefined) {
+            return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+        }
+        return createDocumentReport(report, params.previousResultId);
+    }
+
+    /**
+     * Give the client diagnostics for every indexed scene, whether or not it's open.
+     * @param params Diagnostic reports the client already has.
+     * @returns Reports for each scene. Scenes whose diagnostics the client already has are marked unchanged.
+     */
+    async function onWorkspaceDiagnostics(
+        params: WorkspaceDiagnosticParams,
+    ): Promise<WorkspaceDiagnosticReport> {
+        const previousResultIds = new Map(
+            params.previousResultIds.map((previous) => [
+                normalizeUri(previous.uri),
+                previous.value,
+            ]),
+        );
+        // Scenes that are gone get an empty report so the client drops their old diagnostics
+        const items: WorkspaceDocumentDiagnosticReport[] = diagnosticReports
+            .takeRemovedUris()
+            .map((uri) => ({
+                kind: DocumentDiagnosticReportKind.Full,
+                uri: uri,
+                version: null,
+                items: [],
+            }));
+
+        for (const projectIndex of projects.getAllIndices()) {
+            for (const scene of projectIndex.getIndexedScenes()) {
+                const sceneUri = projectIndex.getSceneUri(scene);
+                if (sceneUri === undefined) {
+                    continue;
+                }
+                const report = await getDiagnosticReport(sceneUri);
+                if (report === undefined) {
+                    continue;
+                }
+                items.push({
+                    ...createDocumentReport(
+                        report,
+                        previousResultIds.get(sceneUri),
+                    ),
+                    uri: sceneUri,
+                    version: findOpenDocument(sceneUri)?.version ?? null,
+                });
+            }
+        }
+
+        return { items: items };
+    }
+
+    /**
+     * Run Quicktest over every scene in a project.
+     *
+     * The problems it finds are sent to the client as diagnostics.
+     * @param uri URI of a document in the project.
+     * @returns Summary of the results, or undefined if the document isn't in a project.
+     */
+    async function onQuicktest(
+        uri: string,
+    ): Promise<QuicktestResults | undefined> {
+        if (!projects.isInProject(uri)) {
+            return undefined;
+        }
+        const projectIndex = projects.getProject(uri);
+        const results: QuicktestResults = {
+            sceneCount: 0,
+            errorCount: 0,
+            warningCount: 0,
+        };
+
+        for (const scene of projectIndex.getIndexedScenes()) {
+            const sceneUri = projectIndex.getSceneUri(scene);
+            if (sceneUri === undefined) {
+                continue;
+            }
+            const textDocument = await readSceneDocument(sceneUri);
+            if (textDocument === undefined) {
+                continue;
+            }
+
+            const diagnostics = quicktestScene(
+                textDocument,
+                projectIndex,
+                sectionCaches.get(sceneUri),
+            );
+            const reportedDiagnostics = applyDiagnosticSettings(
+                diagnostics,
+                textDocument,
+            );
+            quicktestDiagnostics.set(sceneUri, {
+                text: textDocument.getText(),
+                diagnostics: diagnostics,
+            });
+            const validationDiagnostics = await generateDiagnostics(
+                textDocument,
+                projectIndex,
+                validationSettings,
+                fileSystemService,
+            );
+            const allDiagnostics = [
+                ...validationDiagnostics,
+                ...reportedDiagnostics,
+            ];
+            reportDiagnostics(textDocument, allDiagnostics);
+
+            results.sceneCount++;
+            results.errorCount += allDiagnostics.filter(
+                (diagnostic) => diagnostic.severity == DiagnosticSeverity.Error,
+            ).length;
+            results.warningCount += allDiagnostics.filter(
+                (diagnostic) =>
+                    diagnostic.severity == DiagnosticSeverity.Warning,
+            ).length;
+        }
+
+        return results;
+    }
+
     documents.listen(connection);
 
     connection.listen();
@@ -0,0 +1,233 @@
+import {
+    type ParameterInformation,
+    type Position,
+    type SignatureHelp,
+    type SignatureInformation,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+import type { ProjectIndex } from "./index";
+import { findSubroutineParams } from "./searches";
+import { Expression } from "./tokens";
+
+/**
+ * Parameters and descriptions of ChoiceScript's built-in functions (see `functions` in language.ts).
+ */
+const functionSignatures: ReadonlyMap<
+    string,
+    { parameter: string; documentation?: string }
+> = new Map([
+    [
+        "not",
+        {
+            parameter: "value",
+            documentation:
+                "Returns true if the value is false, and vice versa.",
+        },
+    ],
+    [
+        "round",
+        {
+            parameter: "number",
+            documentation: "Rounds the number to the nearest whole number.",
+        },
+    ],
+    [
+        "timestamp",
+        {
+            parameter: "date",
+            documentation:
+                'Converts a date like "2024-01-31" to the number of seconds since January 1, 1970.',
+        },
+    ],
+    [
+        "log",
+        {
+            parameter: "number",
+            documentation: "Returns the base-10 logarithm of the number.",
+        },
+    ],
+    [
+        "length",
+        {
+            parameter: "string",
+            documentation: "Returns the number of characters in the string.",
+        },
+    ],
+    ["auto", { parameter: "value" }],
+]);
+
+/**
+ * Create signature information whose parameters are found by their position in the label.
+ * @param prefix Start of the label before the parameters.
+ * @param params Parameter names.
+ * @param separator Text between parameters.
+ * @param suffix End of the label after the parameters.
+ * @param documentation Signature's documentation, if any.
+ */
+function createSignature(
+    prefix: string,
+    params: readonly string[],
+    separator: string,
+    suffix: string,
+    documentation?: string,
+): SignatureInformation {
+    let label = prefix;
+    const parameters: ParameterInformation[] = [];
+    params.forEach((param, i) => {
+        if (i > 0) {
+            label += separator;
+        }
+        parameters.push({ label: [label.length, label.length + param.length] });
+        label += param;
+    });
+    label += suffix;
+    const signature: SignatureInformation = { label, parameters };
+    if (documentation !== undefined) {
+        signature.documentation = documentation;
+    }
+    return signature;
+}
+
+/**
+ * Count how many whole arguments come before the end of a line.
+ * @param args Arguments text up to the cursor.
+ * @param document Document the arguments are in.
+ * @returns Index of the argument that's being written.
+ */
+function findActiveArgument(args: string, document: TextDocument): number {
+    if (args.trim() == "") {
+        return 0;
+    }
+    const count = new Expression(args, 0, document).combinedTokens.length;
+    // If the cursor's right after an argument, it's still being written
+    return /\s$/.test(args) ? count : Math.max(count - 1, 0);
+}
+
+/**
+ * Generate signature help for a *gosub or *gosub_scene command.
+ * @param linePrefix Line text up to the cursor.
+ * @param documentUri Document's normalized URI.
+ * @param document Document being edited.
+ * @param projectIndex Project index.
+ */
+function generateSubroutineSignatureHelp(
+    linePrefix: string,
+    documentUri: string,
+    document: TextDocument,
+    projectIndex: ProjectIndex,
+): SignatureHelp | undefined {
+    let m = /^\s*\*gosub[ \t]+(\S+)[ \t]+(.*)$/.exec(linePrefix);
+    let scene = "";
+    let label: string;
+    let args: string;
+    let prefix: string;
+    if (m !== null) {
+        label = m[1];
+        args = m[2];
+        prefix = `*gosub ${label} `;
+    } else {
+        m = /^\s*\*gosub_scene[ \t]+([\w-]+)[ \t]+(\S+)[ \t]+(.*)$/.exec(
+            linePrefix,
+        );
+        if (m === null) {
+            return undefined;
+        }
+        scene = m[1];
+        label = m[2];
+        args = m[3];
+        prefix = `*gosub_scene ${scene} ${label} `;
+    }
+
+    const params = findSubroutineParams(
+        label,
+        scene,
+        documentUri,
+        projectIndex,
+    );
+    if (params === undefined || params.length == 0) {
+        return undefined;
+    }
+
+    return {
+        signatures: [createSignature(prefix, params, " ", "")],
+        activeSignature: 0,
+        activeParameter: findActiveArgument(args, document),
+    };
+}
+
+/**
+ * Generate signature help for a built-in function call that the cursor is inside of.
+ * @param linePrefix Line text up to the cursor.
+ */
+function generateFunctionSignatureHelp(
+    linePrefix: string,
+): SignatureHelp | undefined {
+    // Track the words that come before each open parenthesis
+    const openParens: string[] = [];
+    let inString = false;
+    for (let i = 0; i < linePrefix.length; i++) {
+        const c = linePrefix[i];
+        if (c == "\\" && inString) {
+            i++;
+        } else if (c == '"') {
+            inString = !inString;
+        } else if (inString) {
+            continue;
+        } else if (c == "(") {
+            const m = /(\w+)\s*$/.exec(linePrefix.slice(0, i));
+            openParens.push(m !== null ? m[1] : "");
+        } else if (c == ")") {
+            openParens.pop();
+        }
+    }
+
+    const fn = openParens.pop();
+    const signature = fn !== undefined ? functionSignatures.get(fn) : undefined;
+    if (signature === undefined) {
+        return undefined;
+    }
+
+    return {
+        signatures: [
+            createSignature(
+                `${fn}(`,
+                [signature.parameter],
+                "",
+                ")",
+                signature.documentation,
+            ),
+        ],
+        activeSignature: 0,
+        activeParameter: 0,
+    };
+}
+
+/**
+ * Generate signature help for subroutine calls and built-in functions.
+ * @param documentUri Document's normalized URI.
+ * @param document Document being edited.
+ * @param position Cursor position.
+ * @param projectIndex Project index.
+ * @returns Signature help, or undefined if the cursor isn't in a subroutine call or function.
+ */
+export function generateSignatureHelp(
+    documentUri: string,
+    document: TextDocument,
+    position: Position,
+    projectIndex: ProjectIndex,
+): SignatureHelp | undefined {
+    const linePrefix = document.getText({
+        start: { line: position.line, character: 0 },
+        end: position,
+    });
+
+    return (
+        generateSubroutineSignatureHelp(
+            linePrefix,
+            documentUri,
+            document,
+            projectIndex,
+        ) ?? generateFunctionSignatureHelp(linePrefix)
+    );
+}
@@ -1,76 +1,264 @@
-import { type SymbolInformation, SymbolKind } from "vscode-languageserver";
+import {
+    type DocumentSymbol,
+    type Location,
+    Range,
+    SymbolKind,
+} from "vscode-languageserver";
 import { type TextDocument } from "vscode-languageserver-textdocument";
 
-import { type ProjectIndex } from "./index";
+import { type ProjectIndex, type SummaryScope } from "./index";
 import { uriIsStartupFile } from "./language";
-import { normalizeUri } from "./utilities";
+import {
+    comparePositions,
+    normalizeUri,
+    positionInRange,
+    rangeInOtherRange,
+} from "./utilities";
 
+/**
+ * Create a document symbol for something at a single location.
+ * @param name Symbol's name.
+ * @param kind Symbol's kind.
+ * @param location Symbol's location.
+ * @param detail Extra details about the symbol, if any.
+ */
+function createLocationSymbol(
+    name: string,
+    kind: SymbolKind,
+    location: Location,
+    detail?: string,
+): DocumentSymbol {
+    const symbol: DocumentSymbol = {
+        name: name,
+        kind: kind,
+        range: location.range,
+        selectionRange: location.range,
+    };
+    if (detail !== undefined) {
+        symbol.detail = detail;
+    }
+    return symbol;
+}
+
+/**
+ * Create a document symbol that groups other symbols.
+ * @param name Group's name.
+ * @param children Symbols in the group, in document order.
+ * @returns The group, or undefined if there are no symbols to group.
+ */
+function createGroupSymbol(
+    name: string,
+    children: DocumentSymbol[],
+): DocumentSymbol | undefined {
+    if (children.length == 0) {
+        return undefined;
+    }
+    return {
+        name: name,
+        kind: SymbolKind.Module,
+        range: Range.create(
+            children[0].range.start,
+            children[children.length - 1].range.end,
+        ),
+        selectionRange: children[0].selectionRange,
+        children: children,
+    };
+}
+
+/**
+ * Compare two symbols by their position in the document.
+ */
+function compareSymbols(a: DocumentSymbol, b: DocumentSymbol): number {
+    return comparePositions(a.range.start, b.range.start);
+}
+
+/**
+ * Sort symbols and all of their children into document order.
+ * @param symbols Symbols to sort.
+ */
+function sortSymbols(symbols: DocumentSymbol[]): DocumentSymbol[] {
+    for (const symbol of symbols) {
+        if (symbol.children !== undefined) {
+            sortSymbols(symbol.children);
+        }
+    }
+    return symbols.sort(compareSymbols);
+}
+
+/**
+ * Determine if a choice scope is for a *choice or *fake_choice command, as opposed to one of its options.
+ * @param scope Choice scope.
+ * @param textDocument Document containing the scope.
+ */
+function scopeIsChoice(
+    scope: SummaryScope,
+    textDocument: TextDocument,
+): boolean {
+    // Choice scopes start at the command, while options' scopes start at the beginning of their line
+    const start = scope.range.start;
+    if (start.character == 0) {
+        return false;
+    }
+    const commandText = textDocument.getText(
+        Range.create(
+            start.line,
+            start.character - 1,
+            start.line,
+            start.character + "fake_choice".length,
+        ),
+    );
+    return /^\*(fake_)?choice\b/.test(commandText);
+}
+
+/**
+ * Create symbols for each label, covering the label up to the next one.
+ * @param uri Document's normalized URI.
+ * @param textDocument Document.
+ * @param projectIndex Project index.
+ */
+function generateLabelSymbols(
+    uri: string,
+    textDocument: TextDocument,
+    projectIndex: ProjectIndex,
+): DocumentSymbol[] {
+    const labels = Array.from(projectIndex.getLabels(uri).values()).sort(
+        (a, b) =>
+            comparePositions(a.location.range.start, b.location.range.start),
+    );
+    const documentEnd = textDocument.positionAt(textDocument.getText().length);
+
+    return labels.map((label, i): DocumentSymbol => {
+        const nextLabel = labels[i + 1];
+        const end =
+            nextLabel !== undefined
+                ? { line: nextLabel.location.range.start.line, character: 0 }
+                : documentEnd;
+        return {
+            name: label.label,
+            kind: SymbolKind.Namespace,
+            range: Range.create(
+                label.location.range.start.line,
+                0,
+                end.line,
+                end.character,
+            ),
+            selectionRange: label.location.range,
+            children: [],
+        };
+    });
+}
+
+/**
+ * Generate a hierarchical outline of a document.
+ *
+ * Labels contain the choices and temporary variables in their section of the scene,
+ * and choices contain their options. The startup file also gets groups for its
+ * global variables and achievements.
+ * @param textDocument Document to outline.
+ * @param projectIndex Project index.
+ * @returns The document's top-level symbols.
+ */
 export function generateSymbols(
     textDocument: TextDocument,
     projectIndex: ProjectIndex,
-): SymbolInformation[] {
+): DocumentSymbol[] {
     const uri = normalizeUri(textDocument.uri);
+    const roots: DocumentSymbol[] = [];
 
-    // Generate label locations
-    const info = Array.from(projectIndex.getLabels(uri).values()).map(
-        (label): SymbolInformation => {
-            if (label.scope !== undefined) {
-                return {
-                    name: label.label,
-                    kind: SymbolKind.Namespace,
-                    location: {
-                        range: label.scope,
-                        uri: label.location.uri,
-                    },
-                };
-            } else {
-                return {
-                    name: label.label,
-                    kind: SymbolKind.Namespace,
-                    location: label.location,
-                };
-            }
-        },
-    );
+    const labelSymbols = generateLabelSymbols(uri, textDocument, projectIndex);
+    const choiceSymbols = projectIndex
+        .getDocumentScopes(uri)
+        .choiceScopes.map((scope): DocumentSymbol => {
+            return {
+                name: scope.summary,
+                kind: scopeIsChoice(scope, textDocument)
+                    ? SymbolKind.Function
+                    : SymbolKind.Method,
+                range: scope.range,
+                selectionRange: Range.create(
+                    scope.range.start,
+                    scope.range.start,
+                ),
+                children: [],
+            };
+        });
 
-    info.push(
-        ...projectIndex
-            .getDocumentScopes(uri)
-            .choiceScopes.map((scope): SymbolInformation => {
-                return {
-                    name: `${scope.summary}`,
-                    kind: SymbolKind.Function,
-                    location: {
-                        range: scope.range,
-                        uri: textDocument.uri,
-                    },
-                };
-            }),
+    // Nest labels, choices, and options by which ones contain the others
+    const nestable = [...labelSymbols, ...choiceSymbols].sort(
+        (a, b) =>
+            compareSymbols(a, b) || comparePositions(b.range.end, a.range.end),
     );
+    const stack: DocumentSymbol[] = [];
+    for (const symbol of nestable) {
+        while (
+            stack.length > 0 &&
+            !rangeInOtherRange(symbol.range, stack[stack.length - 1].range)
+        ) {
+            stack.pop();
+        }
+        (stack[stack.length - 1]?.children ?? roots).push(symbol);
+        stack.push(symbol);
+    }
 
+    // Temporary variables and arrays go under the label they're created in
+    const addToLabel = (symbol: DocumentSymbol) => {
+        const label = labelSymbols.find((l) =>
+            positionInRange(symbol.range.start, l.range),
+        );
+        (label?.children ?? roots).push(symbol);
+    };
     for (const [variable, locations] of projectIndex.getLocalVariables(uri)) {
         for (const location of locations) {
-            info.push({
-                name: variable,
-                kind: SymbolKind.Variable,
-                location: location,
-            });
+            addToLabel(
+                createLocationSymbol(variable, SymbolKind.Variable, location),
+            );
         }
     }
+    for (const [array, definition] of projectIndex.getLocalArrays(uri)) {
+        addToLabel(
+            createLocationSymbol(array, SymbolKind.Array, definition.location),
+        );
+    }
 
     if (uriIsStartupFile(uri)) {
-        info.push(
+        const globals: DocumentSymbol[] = [
             ...Array.from(projectIndex.getGlobalVariables()).map(
-                ([variable, location]): SymbolInformation => {
-                    return {
-                        name: variable,
-                        kind: SymbolKind.Variable,
-                        location: location,
-                    };
-                },
+                ([variable, location]) =>
+                    createLocationSymbol(
+                        variable,
+                        SymbolKind.Variable,
+                        location,
+                    ),
             ),
-        );
+            ...Array.from(projectIndex.getGlobalArrays()).map(
+                ([array, definition]) =>
+                    createLocationSymbol(
+                        array,
+                        SymbolKind.Array,
+                        definition.location,
+                    ),
+            ),
+        ].sort(compareSymbols);
+        const achievements = Array.from(projectIndex.getAchievements())
+            .map(([codename, [location, , title]]) =>
+                createLocationSymbol(
+                    codename,
+                    SymbolKind.EnumMember,
+                    location,
+                    title,
+                ),
+            )
+            .sort(compareSymbols);
+
+        for (const group of [
+            createGroupSymbol("Global variables", globals),
+            createGroupSymbol("Achievements", achievements),
+        ]) {
+            if (group !== undefined) {
+                roots.push(group);
+            }
+        }
     }
 
-    return info;
+    return sortSymbols(roots);
 }
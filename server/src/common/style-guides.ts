@@ -0,0 +1,304 @@
+import type { DiagnosticSeverityOption } from "./constants";
+
+/**
+ * Name of the file in a workspace folder or project that defines custom style guides.
+ */
+export const styleGuidesFilename = "choicescript-styles.json";
+
+/**
+ * A word or phrase that a style guide doesn't allow.
+ */
+export interface BannedPhrase {
+    /**
+     * The phrase. Case doesn't matter, and it only matches whole words.
+     */
+    phrase: string;
+    /**
+     * What to use instead, if anything.
+     */
+    replacement?: string;
+}
+
+/**
+ * A custom rule that flags text matching a regular expression.
+ */
+export interface StyleRule {
+    /**
+     * Regular expression to search for.
+     */
+    pattern: string;
+    /**
+     * Diagnostic code to report matches with.
+     */
+    code: string;
+    /**
+     * Diagnostic message to report matches with.
+     */
+    message: string;
+    /**
+     * Severity of the diagnostic. If omitted, "info" is used.
+     */
+    severity?: DiagnosticSeverityOption;
+}
+
+/**
+ * A style guide's rules for a game's text.
+ */
+export interface StyleGuide {
+    /**
+     * Most words an option can have, or undefined if there's no limit.
+     */
+    maxOptionWords?: number;
+    /**
+     * Whether to require a Unicode ellipsis (…) instead of three periods. Not required if omitted.
+     */
+    requireUnicodeEllipsis?: boolean;
+    /**
+     * Whether to require a Unicode em-dash (—) instead of two hyphens. Not required if omitted.
+     */
+    requireUnicodeEmDash?: boolean;
+    /**
+     * Words and phrases to flag.
+     */
+    bannedPhrases?: BannedPhrase[];
+    /**
+     * Custom rules.
+     */
+    rules?: StyleRule[];
+}
+
+/**
+ * A user-defined style guide, which can build on an existing one.
+ */
+interface CustomStyleGuide extends StyleGuide {
+    /**
+     * Name of the style guide whose rules this one starts from.
+     */
+    extends?: string;
+}
+
+/**
+ * Style guides that come with the extension.
+ */
+export const builtInStyleGuides: ReadonlyMap<string, StyleGuide> = new Map([
+    [
+        "choiceOfGames",
+        {
+            maxOptionWords: 15,
+            requireUnicodeEllipsis: true,
+            requireUnicodeEmDash: true,
+        },
+    ],
+    // Hosted Games leaves punctuation and option length up to the author
+    [
+        "hostedGames",
+        {
+            requireUnicodeEllipsis: false,
+            requireUnicodeEmDash: false,
+        },
+    ],
+]);
+
+// Severities a custom rule can report its matches with
+const ruleSeverities: ReadonlyMap<string, number> = new Map(
+    ["error", "warning", "info", "hint", "off"].map((x) => [x, 1]),
+);
+
+/**
+ * Determine whether a value is a well-formed banned phrase.
+ * @param value Value to check.
+ */
+export function isBannedPhrase(value: unknown): value is BannedPhrase {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const banned = value as Record<string, unknown>;
+    return (
+        typeof banned.phrase === "string" &&
+        banned.phrase.trim() != "" &&
+        (banned.replacement === undefined ||
+            typeof banned.replacement === "string")
+    );
+}
+
+/**
+ * Determine whether a value is a well-formed custom rule.
+ *
+ * The rule's pattern isn't checked to see if it's a valid regular expression.
+ * @param value Value to check.
+ */
+export function isStyleRule(value: unknown): value is StyleRule {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const rule = value as Record<string, unknown>;
+    return (
+        typeof rule.pattern === "string" &&
+        typeof rule.code === "string" &&
+        typeof rule.message === "string" &&
+        (rule.severity === undefined ||
+            (typeof rule.severity === "string" &&
+                ruleSeverities.has(rule.severity)))
+    );
+}
+
+/**
+ * Check a custom style guide from a style guides file.
+ * @param name Name of the style guide.
+ * @param styleGuide The style guide's contents.
+ * @returns An error message if the style guide is malformed, or undefined if it's okay.
+ */
+function checkStyleGuide(
+    name: string,
+    styleGuide: unknown,
+): string | undefined {
+    if (
+        typeof styleGuide !== "object" ||
+        styleGuide === null ||
+        Array.isArray(styleGuide)
+    ) {
+        return `Style guide ${name} needs to be an object`;
+    }
+    const contents = styleGuide as Record<string, unknown>;
+    if (
+        contents.extends !== undefined &&
+        typeof contents.extends !== "string"
+    ) {
+        return `Style guide ${name} has a bad extends (it needs to be a style guide name)`;
+    }
+    if (
+        contents.maxOptionWords !== undefined &&
+        !(
+            Number.isInteger(contents.maxOptionWords) &&
+            (contents.maxOptionWords as number) > 0
+        )
+    ) {
+        return `Style guide ${name} has a bad maxOptionWords (it needs to be a positive whole number)`;
+    }
+    for (const setting of ["requireUnicodeEllipsis", "requireUnicodeEmDash"]) {
+        if (
+            contents[setting] !== undefined &&
+            typeof contents[setting] !== "boolean"
+        ) {
+            return `Style guide ${name} has a bad ${setting} (it needs to be true or false)`;
+        }
+    }
+    if (contents.bannedPhrases !== undefined) {
+        if (
+            !Array.isArray(contents.bannedPhrases) ||
+            !contents.bannedPhrases.every(isBannedPhrase)
+        ) {
+            return `Style guide ${name} has a bad banned phrase (each needs a phrase and an optional replacement)`;
+        }
+    }
+    if (contents.rules !== undefined) {
+        if (!Array.isArray(contents.rules)) {
+            return `Style guide ${name} has bad rules (they need to be a list)`;
+        }
+        for (const rule of contents.rules) {
+            if (!isStyleRule(rule)) {
+                return `Style guide ${name} has a bad rule (each needs a pattern, code, message, and an optional severity of error, warning, info, hint, or off)`;
+            }
+            try {
+                RegExp(rule.pattern);
+            } catch (err) {
+                return `Style guide ${name} has a bad rule pattern (${err})`;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Read the custom style guides from the contents of a style guides file.
+ *
+ * The file holds a JSON object whose `styleGuides` property maps each style
+ * guide's name to its rules. A style guide can start from another one's rules
+ * by naming it in its `extends` property.
+ * @param json Contents of the style guides file.
+ * @returns The style guides, or an error message if the file couldn't be read.
+ */
+export function parseStyleGuides(
+    json: string,
+): Map<string, StyleGuide> | string {
+    let contents: unknown;
+    try {
+        contents = JSON.parse(json);
+    } catch (err) {
+        return `${err}`;
+    }
+    const styleGuides = (contents as { styleGuides?: unknown })?.styleGuides;
+    if (
+        typeof styleGuides !== "object" ||
+        styleGuides === null ||
+        Array.isArray(styleGuides)
+    ) {
+        return "The file needs a styleGuides object";
+    }
+
+    for (const [name, styleGuide] of Object.entries(styleGuides)) {
+        const error = checkStyleGuide(name, styleGuide);
+        if (error !== undefined) {
+            return error;
+        }
+    }
+    const customStyleGuides = new Map(
+        Object.entries(styleGuides as Record<string, CustomStyleGuide>),
+    );
+
+    const resolved: Map<string, StyleGuide> = new Map();
+    // Returns null if the style guide ends up extending itself
+    const resolve = (
+        name: string,
+        visited: Set<string>,
+    ): StyleGuide | undefined | null => {
+        const styleGuide = customStyleGuides.get(name);
+        if (styleGuide === undefined) {
+            return builtInStyleGuides.get(name);
+        }
+        if (visited.has(name)) {
+            return null;
+        }
+        visited.add(name);
+        const base =
+            styleGuide.extends !== undefined
+                ? resolve(styleGuide.extends, visited)
+                : undefined;
+        if (base === null) {
+            return null;
+        }
+        const rules: CustomStyleGuide = { ...styleGuide };
+        delete rules.extends;
+        return {
+            ...base,
+            ...rules,
+            bannedPhrases: [
+                ...(base?.bannedPhrases ?? []),
+                ...(rules.bannedPhrases ?? []),
+            ],
+            rules: [...(base?.rules ?? []), ...(rules.rules ?? [])],
+        };
+    };
+    for (const name of customStyleGuides.keys()) {
+        const styleGuide = resolve(name, new Set());
+        if (!styleGuide) {
+            return `Style guide ${name} extends itself`;
+        }
+        resolved.set(name, styleGuide);
+    }
+
+    return resolved;
+}
+
+/**
+ * Find a style guide by name.
+ * @param name Name of the style guide.
+ * @param customStyleGuides User-defined style guides, which take precedence over the built-in ones.
+ * @returns The style guide, or undefined if none has that name.
+ */
+export function findStyleGuide(
+    name: string,
+    customStyleGuides: ReadonlyMap<string, StyleGuide>,
+): StyleGuide | undefined {
+    return customStyleGuides.get(name) ?? builtInStyleGuides.get(name);
+}
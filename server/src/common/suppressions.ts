@@ -0,0 +1,141 @@
+import type { Diagnostic } from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+
+/**
+ * Diagnostic code that stands for every code, used when a comment doesn't list any.
+ */
+const allCodes = "*";
+
+/**
+ * Lines where a diagnostic code has been turned off.
+ */
+interface Suppression {
+    /**
+     * Code that's turned off, or `allCodes`.
+     */
+    code: string;
+    /**
+     * First line that's turned off, 0-based.
+     */
+    startLine: number;
+    /**
+     * Last line that's turned off, 0-based.
+     */
+    endLine: number;
+}
+
+const suppressionRegex =
+    /^\s*\*comment\s+choicescript-(?<kind>disable-next-line|disable-file|disable|enable)(?=\s|$)(?<codes>.*)$/;
+
+/**
+ * Find the lines where diagnostics have been turned off by suppression comments.
+ *
+ * Suppression comments look like:
+ *
+ *     *comment choicescript-disable-next-line code-1, code-2
+ *     *comment choicescript-disable code-1
+ *     *comment choicescript-enable code-1
+ *     *comment choicescript-disable-file code-1 code-2
+ *
+ * `disable` turns codes off until a matching `enable` or the end of the file.
+ * A comment that doesn't list any codes applies to all of them.
+ * @param textDocument Document to search.
+ * @returns The suppressions.
+ */
+function findSuppressions(textDocument: TextDocument): Suppression[] {
+    const suppressions: Suppression[] = [];
+    // Start line of each code turned off by a "disable" comment that hasn't been turned back on
+    const disabled: Map<string, number> = new Map();
+
+    const lines = textDocument.getText().split(/\r?\n/);
+    lines.forEach((line, lineNumber) => {
+        const m = suppressionRegex.exec(line);
+        if (m?.groups === undefined) {
+            return;
+        }
+        let codes = m.groups.codes.split(/[\s,]+/).filter((c) => c != "");
+        if (codes.length == 0) {
+            codes = [allCodes];
+        }
+
+        switch (m.groups.kind) {
+            case "disable-next-line":
+                for (const code of codes) {
+                    suppressions.push({
+                        code: code,
+                        startLine: lineNumber + 1,
+                        endLine: lineNumber + 1,
+                    });
+                }
+                break;
+            case "disable-file":
+                for (const code of codes) {
+                    suppressions.push({
+                        code: code,
+                        startLine: 0,
+                        endLine: Infinity,
+                    });
+                }
+                break;
+            case "disable":
+                for (const code of codes) {
+                    if (!disabled.has(code)) {
+                        disabled.set(code, lineNumber);
+                    }
+                }
+                break;
+            case "enable":
+                for (const code of codes[0] == allCodes
+                    ? [...disabled.keys()]
+                    : codes) {
+                    const startLine = disabled.get(code);
+                    if (startLine !== undefined) {
+                        suppressions.push({
+                            code: code,
+                            startLine: startLine,
+                            endLine: lineNumber,
+                        });
+                        disabled.delete(code);
+                    }
+                }
+                break;
+        }
+    });
+
+    for (const [code, startLine] of disabled) {
+        suppressions.push({
+            code: code,
+            startLine: startLine,
+            endLine: Infinity,
+        });
+    }
+
+    return suppressions;
+}
+
+/**
+ * Remove diagnostics that have been turned off by suppression comments.
+ *
+ * @param diagnostics Diagnostics to filter.
+ * @param textDocument Document the diagnostics belong to.
+ * @returns The diagnostics that haven't been turned off.
+ */
+export function removeSuppressedDiagnostics(
+    diagnostics: readonly Diagnostic[],
+    textDocument: TextDocument,
+): Diagnostic[] {
+    const suppressions = findSuppressions(textDocument);
+    if (suppressions.length == 0) {
+        return [...diagnostics];
+    }
+    return diagnostics.filter((diagnostic) => {
+        const line = diagnostic.range.start.line;
+        return !suppressions.some(
+            (suppression) =>
+                (suppression.code == allCodes ||
+                    suppression.code == diagnostic.code) &&
+                line >= suppression.startLine &&
+                line <= suppression.endLine,
+        );
+    });
+}
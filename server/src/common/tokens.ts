@@ -67,6 +67,7 @@ export enum ExpressionTokenType {
     Number, // 1, 3.4
     VariableReference, // {var}
     Variable, // var
+    ArrayReference, // arr[1], arr[i][j]
     String, // "I'm a string!"
     Parentheses, // (1+2)
     Unprocessed, // Haven't processed yet
@@ -99,6 +100,69 @@ export interface ExpressionToken {
     index: number;
     /** Tokenized contents, if any */
     contents?: Expression;
+    /** Tokenized indices, if the token is an array reference */
+    indices?: Expression[];
+    /** Type of value the variable holds, if the token is a variable whose type is known */
+    variableType?: ExpressionEvalType;
+}
+
+/**
+ * Function that finds the type of value a variable holds.
+ *
+ * Returns undefined if the type isn't known.
+ */
+export type VariableTypeLookup = (
+    variable: string,
+) => ExpressionEvalType | undefined;
+
+/**
+ * Descriptions of the types of value a variable can hold.
+ */
+export const evalTypeDescriptions: ReadonlyMap<ExpressionEvalType, string> =
+    new Map([
+        [ExpressionEvalType.Number, "a number"],
+        [ExpressionEvalType.Boolean, "true or false"],
+        [ExpressionEvalType.String, "a string"],
+    ]);
+
+/**
+ * Find the type of value an expression gives a variable it's assigned to.
+ *
+ * Expressions like "+2" that change a variable's value count as the type they change it to.
+ * @param evalType Type the expression evaluates to.
+ * @returns Number, boolean, or string type, or undefined if the type can't be known.
+ */
+export function assignedValueType(
+    evalType: ExpressionEvalType,
+): ExpressionEvalType | undefined {
+    switch (evalType) {
+        case ExpressionEvalType.Number:
+        case ExpressionEvalType.NumberChange:
+            return ExpressionEvalType.Number;
+        case ExpressionEvalType.Boolean:
+            return ExpressionEvalType.Boolean;
+        case ExpressionEvalType.String:
+        case ExpressionEvalType.StringChange:
+            return ExpressionEvalType.String;
+    }
+    return undefined;
+}
+
+/**
+ * Add a note to an error message about the type of value a variable holds.
+ * @param token Token the error is about.
+ * @param message Error message.
+ * @returns The message, with the note if the token is a variable whose type is known.
+ */
+function noteVariableType(token: ExpressionToken, message: string): string {
+    const description =
+        token.variableType !== undefined
+            ? evalTypeDescriptions.get(token.variableType)
+            : undefined;
+    if (description === undefined) {
+        return message;
+    }
+    return `${message} ("${token.text}" holds ${description})`;
 }
 
 /**
@@ -205,6 +269,11 @@ export function tokenEffectiveType(
 ): ExpressionTokenType {
     let effectiveType = token.type;
 
+    // Array references act like any other variable
+    if (effectiveType == ExpressionTokenType.ArrayReference) {
+        effectiveType = ExpressionTokenType.Variable;
+    }
+
     // If we've got a function, find out what its effective type is
     if (
         effectiveType == ExpressionTokenType.FunctionAndContents ||
@@ -218,6 +287,24 @@ export function tokenEffectiveType(
         }
     }
 
+    // Variables whose type we know act like values of that type
+    if (
+        effectiveType == ExpressionTokenType.Variable &&
+        token.variableType !== undefined
+    ) {
+        switch (token.variableType) {
+            case ExpressionEvalType.Number:
+                effectiveType = ExpressionTokenType.Number;
+                break;
+            case ExpressionEvalType.Boolean:
+                effectiveType = ExpressionTokenType.BooleanNamedValue;
+                break;
+            case ExpressionEvalType.String:
+                effectiveType = ExpressionTokenType.String;
+                break;
+        }
+    }
+
     // Ditto for parentheses
     if (
         effectiveType == ExpressionTokenType.Parentheses &&
@@ -300,7 +387,7 @@ function checkOperatorAgainstToken(
     if (errorMessage === undefined || errorCode === undefined) {
         return undefined;
     }
-    return [errorCode, errorMessage];
+    return [errorCode, noteVariableType(token, errorMessage)];
 }
 
 /**
@@ -356,7 +443,7 @@ function checkTokenAgainstOperator(
     if (errorCode === undefined || errorMessage === undefined) {
         return undefined;
     }
-    return [errorCode, errorMessage];
+    return [errorCode, noteVariableType(token, errorMessage)];
 }
 
 /**
@@ -400,6 +487,58 @@ function determineEvalType(token: ExpressionToken): ExpressionEvalType {
     return ExpressionEvalType.Error;
 }
 
+/**
+ * Determine if a location in an expression is inside of a string, reference, or parentheses.
+ * @param expression Expression to check.
+ * @param index Location in the expression.
+ */
+function isInsideDelimiters(expression: string, index: number): boolean {
+    let inString = false;
+    let depth = 0;
+    for (let i = 0; i < index; i++) {
+        const c = expression[i];
+        if (c == "\\") {
+            i++;
+        } else if (c == '"') {
+            inString = !inString;
+        } else if (!inString) {
+            if (c == "{" || c == "(") {
+                depth++;
+            } else if ((c == "}" || c == ")") && depth > 0) {
+                depth--;
+            }
+        }
+    }
+    return inString || depth > 0;
+}
+
+/**
+ * Find the end of an array reference like `arr[1]` or `arr[i][j]`.
+ * @param text Text containing the array reference.
+ * @param bracketIndex Index to the reference's first open bracket.
+ * @param onIndex Function called with the contents of each index and the location where they start.
+ * @returns Index to just past the end of the array reference.
+ */
+export function findArrayReferenceEnd(
+    text: string,
+    bracketIndex: number,
+    onIndex?: (index: string, indexStart: number) => void,
+): number {
+    let localIndex = bracketIndex;
+    while (text[localIndex] == "[") {
+        // To deal with multi-dimensional arrays
+        localIndex++;
+        const index = extractToMatchingDelimiter(text, "[", "]", localIndex);
+        if (index !== undefined) {
+            onIndex?.(index, localIndex);
+            localIndex += index.length + 1;
+        } else {
+            localIndex++;
+        }
+    }
+    return localIndex;
+}
+
 export class Expression {
     // The raw text of the expression
     readonly bareExpression: string;
@@ -417,6 +556,7 @@ export class Expression {
     readonly validateErrors: Diagnostic[];
     private textDocument: TextDocument;
     private isValueSetting: boolean;
+    private variableTypes: VariableTypeLookup | undefined;
 
     /**
      *
@@ -424,18 +564,21 @@ export class Expression {
      * @param globalIndex Global index in the document to the start of the expression.
      * @param textDocument Document containing the expression.
      * @param isValueSetting If true, expression is being used to set a variable's value.
+     * @param variableTypes Function that finds the type of value a variable holds, if known.
      */
     constructor(
         bareExpression: string,
         globalIndex: number,
         textDocument: TextDocument,
         isValueSetting = false,
+        variableTypes?: VariableTypeLookup,
     ) {
         this.parseErrors = [];
         this.validateErrors = [];
         this.textDocument = textDocument;
         this.globalIndex = globalIndex;
         this.isValueSetting = isValueSetting;
+        this.variableTypes = variableTypes;
 
         this.bareExpression = bareExpression;
         this.tokens = this.tokenizeExpression(bareExpression);
@@ -475,6 +618,7 @@ export class Expression {
             this.globalIndex + startIndex,
             this.textDocument,
             this.isValueSetting,
+            this.variableTypes,
         );
     }
 
@@ -562,11 +706,18 @@ export class Expression {
                         type = ExpressionTokenType.UnknownOperator;
                     }
                 }
-                tokens.push({
+                const token: ExpressionToken = {
                     text: tokenContents,
                     type: type,
                     index: splitIndex + m.index,
-                });
+                };
+                if (
+                    type == ExpressionTokenType.Variable &&
+                    this.variableTypes !== undefined
+                ) {
+                    token.variableType = this.variableTypes(tokenContents);
+                }
+                tokens.push(token);
             }
             splitIndex += chunk.length;
         }
@@ -637,6 +788,8 @@ export class Expression {
                             openDelimiterIndex +
                             1,
                         this.textDocument,
+                        false,
+                        this.variableTypes,
                     );
                 }
                 contents += closeDelimiter;
@@ -671,30 +824,42 @@ export class Expression {
     private tokenizeExpression(expression: string): ExpressionToken[] {
         let m: RegExpExecArray | null;
 
-        // Deal with arrays first by not dealing with them at all
-        const arrayPattern = /(\w+)\[/;
+        // Deal with arrays first, since their indices can contain anything. Arrays inside of
+        // strings, references, and parentheses are left for those tokens' own expressions
+        const arrayTokens: ExpressionToken[] = [];
+        const arrayPattern = /(\w+)\[/g;
         while ((m = arrayPattern.exec(expression))) {
-            let localIndex = m.index + m[0].length - 1;
-            while (expression[localIndex] == "[") {
-                // To deal with multi-dimensional arrays
-                localIndex++;
-                const reference = extractToMatchingDelimiter(
-                    expression,
-                    "[",
-                    "]",
-                    localIndex,
-                );
-                if (reference !== undefined) {
-                    localIndex += reference.length + 1;
-                } else {
-                    localIndex++;
-                }
+            if (isInsideDelimiters(expression, m.index)) {
+                continue;
             }
+            const indices: Expression[] = [];
+            const endIndex = findArrayReferenceEnd(
+                expression,
+                m.index + m[0].length - 1,
+                (index, indexStart) => {
+                    indices.push(
+                        new Expression(
+                            index,
+                            this.globalIndex + indexStart,
+                            this.textDocument,
+                            false,
+                            this.variableTypes,
+                        ),
+                    );
+                },
+            );
+            arrayTokens.push({
+                text: expression.slice(m.index, endIndex),
+                type: ExpressionTokenType.ArrayReference,
+                index: m.index,
+                indices: indices,
+            });
             // blank out the matched string
             expression =
                 expression.slice(0, m.index) +
-                " ".repeat(localIndex - m.index) +
-                expression.slice(localIndex);
+                " ".repeat(endIndex - m.index) +
+                expression.slice(endIndex);
+            arrayPattern.lastIndex = endIndex;
         }
 
         // Expressions can contain numbers, strings, operators, built-in variables, variables, and variable references
@@ -712,6 +877,11 @@ export class Expression {
             }
         }
 
+        if (arrayTokens.length > 0) {
+            tokens.push(...arrayTokens);
+            tokens.sort((a, b) => a.index - b.index);
+        }
+
         return tokens;
     }
 
@@ -814,6 +984,10 @@ export class Expression {
                     this.createTokenError(
                         this.combinedTokens[1],
                         DiagnosticCodes.NotNumberOrVariable,
+                        noteVariableType(
+                            this.combinedTokens[1],
+                            "Must be a number or a variable.",
+                        ),
                     ),
                 );
                 return ExpressionEvalType.Error;
@@ -826,6 +1000,10 @@ export class Expression {
                     this.createTokenError(
                         this.combinedTokens[1],
                         DiagnosticCodes.NotStringOrVariable,
+                        noteVariableType(
+                            this.combinedTokens[1],
+                            "Must be a string or a variable.",
+                        ),
                     ),
                 );
                 return ExpressionEvalType.Error;
@@ -1110,7 +1288,7 @@ export class Expression {
         let neverTrue = false;
         if (
             operator.type == ExpressionTokenType.ComparisonOperator &&
-            isAnyDefiniteValue(first)
+            (isAnyDefiniteValue(first) || first.variableType !== undefined)
         ) {
             if (isNumberCompatible(first) && !isNumberCompatible(second)) {
                 neverTrue = true;
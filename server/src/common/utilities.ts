@@ -139,6 +139,16 @@ export function summarize(text: string, maxLength: number): string {
     return text;
 }
 
+/**
+ * Escape text so that it matches itself when used in a regular expression.
+ *
+ * @param text Text to escape.
+ * @returns The escaped text.
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 /**
  * Scan a document's text to find the beginning of the current line.
  *
@@ -3,22 +3,37 @@ import * as path from "path";
 import {
     Diagnostic,
     type DiagnosticRelatedInformation,
-    type Location,
+    Location,
+    Range,
 } from "vscode-languageserver";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 
-import { AllowUnsafeScriptOption } from "./constants";
+import { AllowUnsafeScriptOption, DiagnosticSeverityOption } from "./constants";
 import {
+    applySeverityOverrides,
+    type BannedPhraseData,
+    createCustomDiagnostic,
     createDiagnostic,
     createDiagnosticFromLocation,
     DiagnosticCode,
     DiagnosticCodes,
+    type LabelNotFoundData,
+    type SwitchedToTabsData,
+    type VariableNotDefinedData,
 } from "./diagnostics";
 import type { FileSystemService } from "./file-system-service";
-import type { ProjectIndex } from "./index";
+import { generateFlowGraph } from "./flow-graph";
+import type {
+    FlowControlEvent,
+    ProjectIndex,
+    ReadonlyIdentifierMultiIndex,
+} from "./index";
 import {
     builtinVariables,
+    engineSettingVariables,
+    flowEndingCommands,
     paramValues,
+    variableManipulationCommands,
     uriIsStartupFile,
     stylePattern,
     variableIsAchievement,
@@ -30,9 +45,22 @@ import {
     optionPattern,
     multiStartPattern,
 } from "./language";
-import { findVariableCreationLocations, findLabelLocation } from "./searches";
+import {
+    findVariableCreationLocations,
+    findLabelLocation,
+    findArrayElement,
+    findSubroutineParams,
+} from "./searches";
+import {
+    builtInStyleGuides,
+    isBannedPhrase,
+    isStyleRule,
+    type StyleGuide,
+} from "./style-guides";
+import { removeSuppressedDiagnostics } from "./suppressions";
 import { tokenizeMultireplace } from "./tokens";
 import {
+    escapeRegExp,
     findLineBegin,
     comparePositions,
     rangeInOtherRange,
@@ -45,19 +73,37 @@ const validCommandsLookup: ReadonlyMap<string, number> = new Map(
 const reuseCommandsLookup: ReadonlyMap<string, number> = new Map(
     reuseCommands.map((x) => [x, 1]),
 );
+const engineSettingVariablesLookup: ReadonlyMap<string, number> = new Map(
+    engineSettingVariables.map((x) => [x, 1]),
+);
+// A *choice's options can only fall out of it in some games, so don't count it
+const unconditionalJumpCommandsLookup: ReadonlyMap<string, number> = new Map(
+    flowEndingCommands.filter((x) => x != "choice").map((x) => [x, 1]),
+);
+const variableWritePattern = new RegExp(
+    `^\\s*\\*(${variableManipulationCommands.join("|")})\\s+$`,
+);
 
 /**
  * Validation settings.
  */
 export interface ValidationSettings {
     /**
-     * Whether to validate against CoG style guides.
+     * Whether to validate against a style guide.
      */
     useCoGStyleGuide: boolean;
+    /**
+     * Style guide to validate against. If omitted, the Choice of Games style guide is used.
+     */
+    styleGuide?: StyleGuide;
     /**
      * Whether to error or warn on script.
      */
     allowUnsafeScript: AllowUnsafeScriptOption;
+    /**
+     * Severities to use instead of the default ones, keyed by diagnostic code.
+     */
+    diagnosticSeverities?: Record<string, DiagnosticSeverityOption>;
 }
 
 /**
@@ -84,6 +130,10 @@ class ValidationState {
      * Document text as fetched from textDocument
      */
     text = "";
+    /**
+     * Style guide to validate against, if any
+     */
+    styleGuide: StyleGuide | undefined;
 
     constructor(
         projectIndex: ProjectIndex,
@@ -95,6 +145,10 @@ class ValidationState {
         this.textDocumentUri = normalizeUri(textDocument.uri);
         this.validationSettings = validationSettings;
         this.text = textDocument.getText();
+        this.styleGuide = validationSettings.useCoGStyleGuide
+            ? (validationSettings.styleGuide ??
+              builtInStyleGuides.get("choiceOfGames"))
+            : undefined;
     }
 }
 
@@ -198,6 +252,8 @@ function validateLabelReference(
                 DiagnosticCodes.LabelNotFound,
                 location,
             );
+            const data: LabelNotFoundData = { label: label, scene: scene };
+            diagnostic.data = data;
         }
     }
     return diagnostic;
@@ -246,12 +302,45 @@ function validateReferences(state: ValidationState): Diagnostic[] {
     }
     for (const [variable, locations] of references.entries()) {
         // Effective creation locations take precedence
-        const creationLocations = findVariableCreationLocations(
+        let creationLocations = findVariableCreationLocations(
             variable,
             true,
             state.textDocumentUri,
             state.projectIndex,
         );
+        // Array elements are created along with their array
+        if (creationLocations === undefined) {
+            const element = findArrayElement(
+                variable,
+                state.textDocumentUri,
+                state.projectIndex,
+            );
+            if (element !== undefined && !element.inBounds) {
+                const length = element.definition.length;
+                const message =
+                    length !== undefined
+                        ? `"${element.array}" has elements 1 through ${length}.`
+                        : undefined;
+                diagnostics.push(
+                    ...locations.map((location) => {
+                        return createDiagnosticFromLocation(
+                            DiagnosticCodes.ArrayIndexOutOfBounds,
+                            location,
+                            message,
+                        );
+                    }),
+                );
+                continue;
+            } else if (
+                element?.isGlobal &&
+                !uriIsStartupFile(state.textDocumentUri)
+            ) {
+                // Global arrays exist by the time any other scene runs
+                continue;
+            } else if (element !== undefined) {
+                creationLocations = [element.definition.location];
+            }
+        }
 
         if (creationLocations !== undefined && creationLocations !== null) {
             // Make sure we don't reference variables before they're created
@@ -328,11 +417,14 @@ function validateReferences(state: ValidationState): Diagnostic[] {
             }
             const newDiagnostics = trimmedLocations.map(
                 (location: Location): Diagnostic => {
-                    return createDiagnosticFromLocation(
+                    const diagnostic = createDiagnosticFromLocation(
                         DiagnosticCodes.VariableNotDefined,
                         location,
                         `Variable "${variable}" not defined ${whereDefined}`,
                     );
+                    const data: VariableNotDefinedData = { variable: variable };
+                    diagnostic.data = data;
+                    return diagnostic;
                 },
             );
             diagnostics.push(...newDiagnostics);
@@ -342,6 +434,60 @@ function validateReferences(state: ValidationState): Diagnostic[] {
     return diagnostics;
 }
 
+/**
+ * Validate the number of arguments a *gosub or *gosub_scene passes to its subroutine.
+ * @param event Flow control event that calls the subroutine.
+ * @param state Validation state.
+ * @returns Diagnostic, or undefined if the arguments match the subroutine's *params.
+ */
+function validateSubroutineArguments(
+    event: FlowControlEvent,
+    state: ValidationState,
+): Diagnostic | undefined {
+    const argumentLocations = event.argumentLocations;
+    if (argumentLocations === undefined) {
+        return undefined;
+    }
+    const params = findSubroutineParams(
+        event.label,
+        event.scene,
+        state.textDocumentUri,
+        state.projectIndex,
+    );
+    if (
+        params === undefined ||
+        params.length == 0 ||
+        argumentLocations.length == params.length
+    ) {
+        return undefined;
+    }
+
+    const paramCount = `${params.length} argument${params.length == 1 ? "" : "s"}`;
+    if (argumentLocations.length < params.length) {
+        const target =
+            event.labelLocation ?? event.sceneLocation ?? event.commandLocation;
+        const end =
+            argumentLocations[argumentLocations.length - 1]?.range.end ??
+            target.range.end;
+        return createDiagnosticFromLocation(
+            DiagnosticCodes.TooFewArguments,
+            Location.create(target.uri, Range.create(target.range.start, end)),
+            `The subroutine's *params needs ${paramCount} (${params.join(", ")}) but got ${argumentLocations.length}.`,
+        );
+    }
+    return createDiagnosticFromLocation(
+        DiagnosticCodes.TooManyArguments,
+        Location.create(
+            event.commandLocation.uri,
+            Range.create(
+                argumentLocations[params.length].range.start,
+                argumentLocations[argumentLocations.length - 1].range.end,
+            ),
+        ),
+        `The subroutine's *params only uses ${paramCount} (${params.join(", ")}).`,
+    );
+}
+
 /**
  * Validate all flow control events in a scene document.
  * @param state Validation state.
@@ -375,14 +521,19 @@ function validateFlowControlEvents(state: ValidationState): Diagnostic[] {
                     );
                     if (diagnostic !== undefined) diagnostics.push(diagnostic);
                 }
+                if (diagnostic === undefined) {
+                    diagnostic = validateSubroutineArguments(event, state);
+                    if (diagnostic !== undefined) diagnostics.push(diagnostic);
+                }
             }
         } else if (event.label != "" && event.labelLocation !== undefined) {
-            const diagnostic = validateLabelReference(
+            let diagnostic = validateLabelReference(
                 event.label,
                 undefined,
                 event.labelLocation,
                 state,
             );
+            diagnostic ??= validateSubroutineArguments(event, state);
             if (diagnostic !== undefined) diagnostics.push(diagnostic);
         }
     }
@@ -393,7 +544,297 @@ function validateFlowControlEvents(state: ValidationState): Diagnostic[] {
 const commandRegex = RegExp(commandPattern);
 
 /**
- * Validate a set of characters against the Choice of Games style manual.
+ * Find global variables that are never used.
+ *
+ * Global variables are only checked in the startup file once the full project's been indexed.
+ * @param state Validation state.
+ */
+function validateUnusedGlobalVariables(state: ValidationState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (
+        !state.projectIndex.isStartupFileUri(state.textDocumentUri) ||
+        !state.projectIndex.projectIsIndexed()
+    ) {
+        return diagnostics;
+    }
+
+    for (const [variable, location] of state.projectIndex
+        .getGlobalVariables()
+        .entries()) {
+        if (
+            !engineSettingVariablesLookup.has(variable.toLowerCase()) &&
+            state.projectIndex.getVariableReferences(variable).length == 0
+        ) {
+            diagnostics.push(
+                createDiagnosticFromLocation(
+                    DiagnosticCodes.UnusedGlobalVariable,
+                    location,
+                ),
+            );
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find temporary variables whose values are never read.
+ *
+ * Variables created by `*params` aren't checked, since their order matters.
+ * @param state Validation state.
+ */
+function validateUnusedTemporaryVariables(
+    state: ValidationState,
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const lines = state.text.split("\n");
+    const references = state.projectIndex.getDocumentVariableReferences(
+        state.textDocumentUri,
+    );
+
+    for (const [variable, locations] of state.projectIndex
+        .getLocalVariables(state.textDocumentUri)
+        .entries()) {
+        if (engineSettingVariablesLookup.has(variable.toLowerCase())) {
+            continue;
+        }
+        const isRead = (references.get(variable) ?? []).some((location) => {
+            const start = location.range.start;
+            const before = (lines[start.line] ?? "").slice(0, start.character);
+            return !variableWritePattern.test(before);
+        });
+        if (isRead) {
+            continue;
+        }
+        for (const location of locations) {
+            const line = lines[location.range.start.line] ?? "";
+            if (!/^\s*\*params\b/.test(line)) {
+                diagnostics.push(
+                    createDiagnosticFromLocation(
+                        DiagnosticCodes.UnusedTemporaryVariable,
+                        location,
+                    ),
+                );
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find labels that no command goes to.
+ *
+ * Labels are only checked once the full project's been indexed, since other scenes can go to them.
+ * @param state Validation state.
+ */
+function validateUnusedLabels(state: ValidationState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!state.projectIndex.projectIsIndexed()) {
+        return diagnostics;
+    }
+    // If the scene goes to a label it computes, we can't tell which labels are unused
+    const events = state.projectIndex.getFlowControlEvents(
+        state.textDocumentUri,
+    );
+    if (events.some((event) => event.label.startsWith("{"))) {
+        return diagnostics;
+    }
+
+    for (const [label, labelInfo] of state.projectIndex
+        .getLabels(state.textDocumentUri)
+        .entries()) {
+        if (state.projectIndex.getLabelReferences(label).length == 0) {
+            diagnostics.push(
+                createDiagnosticFromLocation(
+                    DiagnosticCodes.UnusedLabel,
+                    labelInfo.location,
+                ),
+            );
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find scenes in the startup file's `*scene_list` that the game can never reach.
+ * @param state Validation state.
+ */
+function validateUnreachableScenes(state: ValidationState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const projectIndex = state.projectIndex;
+    if (
+        !projectIndex.isStartupFileUri(state.textDocumentUri) ||
+        !projectIndex.projectIsIndexed()
+    ) {
+        return diagnostics;
+    }
+    // If any scene goes to a scene it computes, we can't tell which are unreachable
+    for (const scene of projectIndex.getIndexedScenes()) {
+        const uri = projectIndex.getSceneUri(scene);
+        if (
+            uri !== undefined &&
+            projectIndex
+                .getFlowControlEvents(uri)
+                .some((event) => event.scene.startsWith("{"))
+        ) {
+            return diagnostics;
+        }
+    }
+
+    const reachedScenes = new Set(
+        generateFlowGraph(projectIndex)
+            .nodes.filter((node) => !node.unreachable)
+            .map((node) => node.scene),
+    );
+    const sceneListMatch = /(?:^|\n)[ \t]*\*scene_list[ \t]*\r?\n/.exec(
+        state.text,
+    );
+    if (sceneListMatch === null) {
+        return diagnostics;
+    }
+    const scenePattern = /^([ \t]+)(\$[ \t]+)?(\S+)[ \t]*(?:\r?\n|$)/;
+    let index = sceneListMatch.index + sceneListMatch[0].length;
+    let m: RegExpExecArray | null;
+    while ((m = scenePattern.exec(state.text.slice(index))) !== null) {
+        const scene = m[3];
+        if (!reachedScenes.has(scene)) {
+            const start = index + m[1].length + (m[2]?.length ?? 0);
+            diagnostics.push(
+                createDiagnostic(
+                    DiagnosticCodes.UnreachableScene,
+                    state.textDocument,
+                    start,
+                    start + scene.length,
+                ),
+            );
+        }
+        index += m[0].length;
+        if (m[0].length == 0) {
+            break;
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find lines that can't be reached because they follow a command that always
+ * jumps somewhere else, like `*goto` or `*finish`.
+ *
+ * Lines are unreachable until the indent drops below the command's or a `*label` gives
+ * the game a way back in.
+ * @param state Validation state.
+ */
+function validateUnreachableCode(state: ValidationState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const linePattern = /^([ \t]*)(?:\*(\w+))?(.*)$/gm;
+    // Indent of the jump we're in the shadow of, if any
+    let jumpIndent: number | undefined;
+    // Indent of the *goto_random_scene whose list of scenes we're in, if any
+    let randomSceneIndent: number | undefined;
+    let unreachableStart: number | undefined;
+    let unreachableEnd = 0;
+
+    const endUnreachable = () => {
+        if (unreachableStart !== undefined) {
+            diagnostics.push(
+                createDiagnostic(
+                    DiagnosticCodes.UnreachableCode,
+                    state.textDocument,
+                    unreachableStart,
+                    unreachableEnd,
+                ),
+            );
+        }
+        jumpIndent = undefined;
+        unreachableStart = undefined;
+    };
+
+    let m: RegExpExecArray | null;
+    while ((m = linePattern.exec(state.text)) !== null) {
+        const line = m[0].replace(/\r$/, "");
+        if (line.trim() == "") {
+            if (m[0].length == 0) {
+                // Step past the empty match
+                linePattern.lastIndex++;
+            }
+            continue;
+        }
+        const indent = m[1].length;
+        const command = m[2];
+
+        if (randomSceneIndent !== undefined) {
+            if (indent > randomSceneIndent) {
+                continue;
+            }
+            randomSceneIndent = undefined;
+        }
+        if (jumpIndent !== undefined) {
+            if (indent < jumpIndent || command == "label") {
+                endUnreachable();
+            } else {
+                unreachableStart ??= m.index + indent;
+                unreachableEnd = m.index + line.length;
+                continue;
+            }
+        }
+        if (command == "goto_random_scene") {
+            // The indented lines that follow are the scenes to choose from, and
+            // if none can be chosen the game can be allowed to carry on
+            randomSceneIndent = indent;
+            if (/\ballow_no_selection\b/.test(m[3])) {
+                continue;
+            }
+        }
+        if (
+            command !== undefined &&
+            unconditionalJumpCommandsLookup.has(command)
+        ) {
+            jumpIndent = indent;
+        }
+    }
+    endUnreachable();
+
+    return diagnostics;
+}
+
+/**
+ * Determine if a location in the document is inside a *comment.
+ *
+ * @param index Location in the document.
+ * @param state Validation state.
+ * @returns True if the location is on a *comment line.
+ */
+function isInComment(index: number, state: ValidationState): boolean {
+    const lineBegin = findLineBegin(state.text, index - 1);
+    const line = state.text.substring(lineBegin, index - 1);
+    const m = commandRegex.exec(line);
+    return m?.groups?.command == "comment";
+}
+
+const optionRegex = RegExp(optionPattern);
+
+/**
+ * Determine if a location is in text the player reads: a line of prose or an #option's text.
+ *
+ * @param index Location in the document.
+ * @param state Validation state.
+ * @returns True if the location is in the player-visible text.
+ */
+function isInPlayerText(index: number, state: ValidationState): boolean {
+    const lineBegin = findLineBegin(state.text, index - 1);
+    const line = state.text.substring(lineBegin, index);
+    if (!/^\s*\*/.test(line)) {
+        return true;
+    }
+    // An #option can follow commands like *if on the same line
+    return optionRegex.exec(line)?.groups?.option !== undefined;
+}
+
+/**
+ * Validate a set of characters against the style guide's punctuation rules.
  *
  * @param characters Characters being evaluated for style.
  * @param index Location of the characters in the document.
@@ -405,23 +846,21 @@ function validateStyle(
     index: number,
     state: ValidationState,
 ): Diagnostic | undefined {
-    const lineBegin = findLineBegin(state.text, index - 1);
-    const line = state.text.substring(lineBegin, index - 1);
-    const m = commandRegex.exec(line);
-    let actualCommand = m?.groups?.command;
-    if (actualCommand === undefined) {
-        actualCommand = "";
-    }
-
     // Anything goes in a comment
-    if (actualCommand == "comment") {
+    if (isInComment(index, state)) {
         return;
     }
 
     let code;
     if (characters == "...") {
+        if (!state.styleGuide?.requireUnicodeEllipsis) {
+            return;
+        }
         code = DiagnosticCodes.UnicodeEllipsisRequired;
     } else {
+        if (!state.styleGuide?.requireUnicodeEmDash) {
+            return;
+        }
         code = DiagnosticCodes.UnicodeEmDashRequired;
     }
     return createDiagnostic(
@@ -504,7 +943,8 @@ function validateOption(
     let overLimitLocalIndex: number | undefined = undefined;
 
     // Count words while handling multireplaces (assuming we're following CoG style guide requirements)
-    if (state.validationSettings.useCoGStyleGuide) {
+    const maxWords = state.styleGuide?.maxOptionWords;
+    if (maxWords !== undefined) {
         let runningWordCount = 0;
         let e: RegExpExecArray | null;
         let remainingOption = option;
@@ -527,9 +967,9 @@ function validateOption(
             // This pattern won't find the last word in the string if it's not followed by a space, but
             // that's what we want b/c it would be followed by the multireplace, which won't introduce a space
             const pretextWordCount = (pretext.match(/\S+?\s+?/g) || []).length;
-            if (pretextWordCount > 15 - runningWordCount) {
+            if (pretextWordCount > maxWords - runningWordCount) {
                 const m = pretext.match(
-                    `(\\S+?\\s+?){${15 - runningWordCount}}`,
+                    `(\\S+?\\s+?){${maxWords - runningWordCount}}`,
                 );
                 if (m != null && m[0].length < pretext.length) {
                     overLimitLocalIndex =
@@ -549,9 +989,9 @@ function validateOption(
                         longestWordCount = newWordCount;
                     }
                 }
-                if (longestWordCount > 15 - runningWordCount) {
+                if (longestWordCount > maxWords - runningWordCount) {
                     const m = longestBody.text.match(
-                        `(\\S+?\\s+?){${15 - runningWordCount}}`,
+                        `(\\S+?\\s+?){${maxWords - runningWordCount}}`,
                     );
                     if (m != null && m[0].length < longestBody.text.length) {
                         overLimitLocalIndex =
@@ -581,7 +1021,7 @@ function validateOption(
 
         if (overLimitLocalIndex === undefined && remainingOption.trim() != "") {
             const m = remainingOption.match(
-                `(\\S+?\\s+?){${15 - runningWordCount}}`,
+                `(\\S+?\\s+?){${maxWords - runningWordCount}}`,
             );
             if (
                 m != null &&
@@ -592,13 +1032,14 @@ function validateOption(
             }
         }
 
-        // See if we've got more than 15 words
+        // See if we've got more than the allowed number of words
         if (overLimitLocalIndex !== undefined) {
             diagnostic = createDiagnostic(
                 DiagnosticCodes.TooLongOption,
                 state.textDocument,
                 index + overLimitLocalIndex,
                 index + option.length,
+                `Option is more than ${maxWords} words long.`,
             );
         }
     }
@@ -607,29 +1048,33 @@ function validateOption(
 }
 
 /**
- * Validate whether or not images exist.
+ * Validate whether or not media files like images and sounds exist.
+ *
+ * ChoiceScript looks for sounds in the same directory as images.
+ * @param files Index of references to media files.
+ * @param code Diagnostic code for files that are missing.
  * @param state Current parsing state.
  * @param fsProvider File system provider.
  */
-async function validateImages(
+async function validateMediaFiles(
+    files: ReadonlyIdentifierMultiIndex,
+    code: DiagnosticCode,
     state: ValidationState,
     fsProvider: FileSystemService,
 ): Promise<Diagnostic[]> {
     const diagnostics: Diagnostic[] = [];
     let imagePath = state.projectIndex.getPlatformImagePath();
 
-    for (const [image, locations] of state.projectIndex.getImages(
-        state.textDocumentUri,
-    )) {
+    for (const [file, locations] of files) {
         let found: boolean;
 
         if (imagePath === undefined) {
             // Our logic: First look in the scene files' directory.
-            // If the image isn't found, and the scene directory isn't the
+            // If the file isn't found, and the scene directory isn't the
             // workspace directory, check the directory above the scene
             // directory.
             imagePath = state.projectIndex.getPlatformScenePath();
-            found = await fsProvider.fileExists(path.join(imagePath, image));
+            found = await fsProvider.fileExists(path.join(imagePath, file));
             if (
                 !found &&
                 path.relative(
@@ -638,25 +1083,18 @@ async function validateImages(
                 ) != ""
             ) {
                 imagePath = path.normalize(path.join(imagePath, ".."));
-                found = await fsProvider.fileExists(
-                    path.join(imagePath, image),
-                );
+                found = await fsProvider.fileExists(path.join(imagePath, file));
             }
             if (found) {
                 state.projectIndex.setPlatformImagePath(imagePath);
             }
         } else {
-            found = await fsProvider.fileExists(path.join(imagePath, image));
+            found = await fsProvider.fileExists(path.join(imagePath, file));
         }
 
         if (!found) {
             diagnostics.push(
-                ...locations.map((l) =>
-                    createDiagnosticFromLocation(
-                        DiagnosticCodes.MissingImageFile,
-                        l,
-                    ),
-                ),
+                ...locations.map((l) => createDiagnosticFromLocation(code, l)),
             );
         }
     }
@@ -664,6 +1102,40 @@ async function validateImages(
     return diagnostics;
 }
 
+/**
+ * Validate whether or not images exist.
+ * @param state Current parsing state.
+ * @param fsProvider File system provider.
+ */
+async function validateImages(
+    state: ValidationState,
+    fsProvider: FileSystemService,
+): Promise<Diagnostic[]> {
+    return validateMediaFiles(
+        state.projectIndex.getImages(state.textDocumentUri),
+        DiagnosticCodes.MissingImageFile,
+        state,
+        fsProvider,
+    );
+}
+
+/**
+ * Validate whether or not sounds exist.
+ * @param state Current parsing state.
+ * @param fsProvider File system provider.
+ */
+async function validateSounds(
+    state: ValidationState,
+    fsProvider: FileSystemService,
+): Promise<Diagnostic[]> {
+    return validateMediaFiles(
+        state.projectIndex.getSounds(state.textDocumentUri),
+        DiagnosticCodes.MissingSoundFile,
+        state,
+        fsProvider,
+    );
+}
+
 /**
  * Validate there are no swaps between tabs and spaces.
  * @param state Current parsing state.
@@ -671,10 +1143,11 @@ async function validateImages(
 function validateIndents(state: ValidationState): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
 
-    let m = /(?:^|\n)([ \t])/.exec(state.text);
+    let m = /(?:^|\n)([ \t]+)/.exec(state.text);
 
     if (m !== null) {
-        const indentChar = m[1];
+        const indent = m[1];
+        const indentChar = indent[0];
 
         let searchRegex: RegExp;
         let code: DiagnosticCode;
@@ -695,6 +1168,10 @@ function validateIndents(state: ValidationState): Diagnostic[] {
                 m.index + m[0].length - m[1].length,
                 m.index + m[0].length,
             );
+            if (code == DiagnosticCodes.SwitchedToTabs) {
+                const data: SwitchedToTabsData = { indent: indent };
+                diagnostic.data = data;
+            }
             diagnostics.push(diagnostic);
         }
     }
@@ -784,6 +1261,96 @@ function validateScriptUsage(state: ValidationState): Diagnostic[] {
     return diagnostics;
 }
 
+/**
+ * Validate the document against the style guide's banned phrases and custom rules.
+ *
+ * @param state Validation state.
+ * @returns Diagnostic messages.
+ */
+function validateStyleGuideRules(state: ValidationState): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    const findMatches = (
+        regex: RegExp,
+        toDiagnostic: (
+            location: Location,
+            match: RegExpExecArray,
+        ) => Diagnostic | undefined,
+    ) => {
+        let m: RegExpExecArray | null;
+        while ((m = regex.exec(state.text))) {
+            if (m[0].length == 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            // Only check what the player reads, not comments or commands' arguments
+            if (!isInPlayerText(m.index, state)) {
+                continue;
+            }
+            const location = Location.create(state.textDocumentUri, {
+                start: state.textDocument.positionAt(m.index),
+                end: state.textDocument.positionAt(m.index + m[0].length),
+            });
+            const diagnostic = toDiagnostic(location, m);
+            if (diagnostic !== undefined) {
+                diagnostics.push(diagnostic);
+            }
+        }
+    };
+
+    // Style guides handed to the validator directly may not be well-formed, so skip anything that isn't
+    for (const banned of state.styleGuide?.bannedPhrases ?? []) {
+        if (!isBannedPhrase(banned)) {
+            continue;
+        }
+        const regex = RegExp(
+            `(?<!\\w)${escapeRegExp(banned.phrase)}(?!\\w)`,
+            "gi",
+        );
+        findMatches(regex, (location, m) => {
+            if (banned.replacement === undefined) {
+                return createDiagnosticFromLocation(
+                    DiagnosticCodes.BannedPhrase,
+                    location,
+                    `The style guide doesn't allow "${m[0]}".`,
+                );
+            }
+            const diagnostic = createDiagnosticFromLocation(
+                DiagnosticCodes.BannedPhrase,
+                location,
+                `The style guide doesn't allow "${m[0]}". Use "${banned.replacement}" instead.`,
+            );
+            const data: BannedPhraseData = {
+                replacement: banned.replacement,
+            };
+            diagnostic.data = data;
+            return diagnostic;
+        });
+    }
+
+    for (const rule of state.styleGuide?.rules ?? []) {
+        if (!isStyleRule(rule)) {
+            continue;
+        }
+        let regex: RegExp;
+        try {
+            regex = RegExp(rule.pattern, "g");
+        } catch {
+            continue;
+        }
+        findMatches(regex, (location) =>
+            createCustomDiagnostic(
+                rule.code,
+                rule.severity ?? "info",
+                location,
+                rule.message,
+            ),
+        );
+    }
+
+    return diagnostics;
+}
+
 const matchPattern = RegExp(
     `${stylePattern}|${incorrectCommandPattern}|${optionPattern}`,
     "g",
@@ -826,6 +1393,7 @@ export async function generateDiagnostics(
 
     // Validate image existence
     diagnostics.push(...(await validateImages(state, fsProvider)));
+    diagnostics.push(...(await validateSounds(state, fsProvider)));
 
     // Validate tabs/spaces
     diagnostics.push(...validateIndents(state));
@@ -836,6 +1404,16 @@ export async function generateDiagnostics(
     // Validate script usage
     diagnostics.push(...validateScriptUsage(state));
 
+    // Find unused symbols and code that can't be reached
+    diagnostics.push(...validateUnusedGlobalVariables(state));
+    diagnostics.push(...validateUnusedTemporaryVariables(state));
+    diagnostics.push(...validateUnusedLabels(state));
+    diagnostics.push(...validateUnreachableScenes(state));
+    diagnostics.push(...validateUnreachableCode(state));
+
+    // Check the style guide's banned phrases and custom rules
+    diagnostics.push(...validateStyleGuideRules(state));
+
     // Add suggestions for the user that don't rise to the level of an error
     matchPattern.lastIndex = 0;
     let m: RegExpExecArray | null;
@@ -843,11 +1421,8 @@ export async function generateDiagnostics(
     while ((m = matchPattern.exec(state.text))) {
         if (m.groups === undefined) continue;
 
-        if (
-            m.groups.styleGuide !== undefined &&
-            state.validationSettings.useCoGStyleGuide
-        ) {
-            // Items against CoG styleguide
+        if (m.groups.styleGuide !== undefined && state.styleGuide) {
+            // Items against the style guide
             const diagnostic = validateStyle(
                 m.groups.styleGuide,
                 m.index,
@@ -872,5 +1447,12 @@ export async function generateDiagnostics(
         }
     }
 
-    return diagnostics;
+    // Apply the user's choices about which diagnostics they want to see
+    return removeSuppressedDiagnostics(
+        applySeverityOverrides(
+            diagnostics,
+            state.validationSettings.diagnosticSeverities ?? {},
+        ),
+        textDocument,
+    );
 }
@@ -0,0 +1,163 @@
+import {
+    Location,
+    Range,
+    type SymbolInformation,
+    SymbolKind,
+} from "vscode-languageserver";
+
+import type { ProjectIndex } from "./index";
+
+/**
+ * Most symbols to return for a single search.
+ */
+const maxResults = 500;
+
+/**
+ * Characters that start a new word in a symbol's name.
+ */
+const wordSeparators = /[_\-.\s]/;
+
+/**
+ * Score how well a query fuzzily matches some text.
+ *
+ * The query's characters have to appear in the text in order, but not
+ * necessarily next to each other. Runs of matching characters and matches
+ * at the start of words score higher.
+ * @param query Query to match, in lower case.
+ * @param text Text to match against.
+ * @returns The match's score, or undefined if the query doesn't match.
+ */
+export function fuzzyMatchScore(
+    query: string,
+    text: string,
+): number | undefined {
+    const lowerText = text.toLowerCase();
+    let score = 0;
+    let textIndex = 0;
+    let lastMatch = -2;
+    for (const c of query) {
+        const matchIndex = lowerText.indexOf(c, textIndex);
+        if (matchIndex == -1) {
+            return undefined;
+        }
+        score += 1;
+        if (matchIndex == lastMatch + 1) {
+            score += 2;
+        }
+        if (matchIndex == 0 || wordSeparators.test(lowerText[matchIndex - 1])) {
+            score += 3;
+        }
+        lastMatch = matchIndex;
+        textIndex = matchIndex + 1;
+    }
+    // Prefer shorter names when everything else is equal
+    return score - lowerText.length / 100;
+}
+
+/**
+ * A workspace symbol along with how well it matched the query.
+ */
+interface ScoredSymbol {
+    symbol: SymbolInformation;
+    score: number;
+}
+
+/**
+ * Search a project for symbols whose names fuzzily match a query.
+ * @param query Lower-case query.
+ * @param projectIndex Project index.
+ * @param results Matching symbols, which are added to.
+ */
+function searchProject(
+    query: string,
+    projectIndex: ProjectIndex,
+    results: ScoredSymbol[],
+): void {
+    const add = (
+        name: string,
+        kind: SymbolKind,
+        location: Location,
+        containerName?: string,
+        qualifiedName?: string,
+    ) => {
+        let score = fuzzyMatchScore(query, name);
+        if (qualifiedName !== undefined) {
+            const qualifiedScore = fuzzyMatchScore(query, qualifiedName);
+            if (
+                qualifiedScore !== undefined &&
+                (score === undefined || qualifiedScore > score)
+            ) {
+                score = qualifiedScore;
+            }
+        }
+        if (score === undefined) {
+            return;
+        }
+        const symbol: SymbolInformation = { name, kind, location };
+        if (containerName !== undefined) {
+            symbol.containerName = containerName;
+        }
+        results.push({ symbol, score });
+    };
+
+    for (const scene of projectIndex.getSceneList()) {
+        const uri = projectIndex.getSceneUri(scene);
+        if (uri !== undefined && projectIndex.hasUri(uri)) {
+            add(
+                scene,
+                SymbolKind.File,
+                Location.create(uri, Range.create(0, 0, 0, 0)),
+            );
+        }
+    }
+
+    for (const scene of projectIndex.getIndexedScenes()) {
+        const uri = projectIndex.getSceneUri(scene);
+        if (uri === undefined) {
+            continue;
+        }
+        for (const label of projectIndex.getLabels(uri).values()) {
+            add(
+                label.label,
+                SymbolKind.Namespace,
+                label.location,
+                scene,
+                `${scene}.${label.label}`,
+            );
+        }
+    }
+
+    for (const [variable, location] of projectIndex.getGlobalVariables()) {
+        add(variable, SymbolKind.Variable, location, "startup");
+    }
+    for (const [array, definition] of projectIndex.getGlobalArrays()) {
+        add(array, SymbolKind.Array, definition.location, "startup");
+    }
+
+    for (const [codename, achievement] of projectIndex.getAchievements()) {
+        const [location, , title] = achievement;
+        add(codename, SymbolKind.EnumMember, location, title);
+    }
+}
+
+/**
+ * Find labels, global variables, achievements, and scenes across projects that fuzzily match a query.
+ * @param query Query to match.
+ * @param projectIndices Indices of the projects to search.
+ * @returns Matching symbols, best matches first.
+ */
+export function generateWorkspaceSymbols(
+    query: string,
+    projectIndices: readonly ProjectIndex[],
+): SymbolInformation[] {
+    const lowerQuery = query.replace(/\s+/g, "").toLowerCase();
+    const results: ScoredSymbol[] = [];
+    for (const projectIndex of projectIndices) {
+        searchProject(lowerQuery, projectIndex, results);
+    }
+
+    return results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
+        .map((result) => result.symbol);
+}
@@ -0,0 +1,243 @@
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+
+import type {
+    AllowUnsafeScriptOption,
+    DiagnosticSeverityOption,
+} from "../common/constants";
+import { FileSystemService } from "../common/file-system-service";
+import {
+    type LintOutputFormat,
+    type SceneDiagnostics,
+    countDiagnostics,
+    formatLintResults,
+    lintProject,
+} from "../common/linter";
+import {
+    type StyleGuide,
+    findStyleGuide,
+    parseStyleGuides,
+    styleGuidesFilename,
+} from "../common/style-guides";
+import type { ValidationSettings } from "../common/validator";
+import { SystemFileProvider } from "./system-file-provider";
+
+const usage = `Usage: choicescript-lint [options] <directory>
+
+Check a ChoiceScript game for errors. <directory> is the folder that contains
+startup.txt, or a folder containing one or more such projects.
+
+Options:
+  --format <text|json|sarif>               Output format (default: text)
+  --include-hints                          Also report hints, such as unused labels
+  --no-style-guide                         Don't check a style guide
+  --style-guide <name>                     Style guide to check (default: choiceOfGames).
+                                           Custom ones are read from choicescript-styles.json
+                                           in <directory>
+  --allow-unsafe-script <never|warn|allow> How to treat *script (default: never)
+  --severity <code>=<level>                Change a diagnostic's severity, where
+                                           <level> is error, warning, info, hint,
+                                           or off. Can be given more than once
+  -h, --help                               Show this message
+
+Exits with 1 if any errors were found and 2 if the game couldn't be checked.`;
+
+const outputFormats: ReadonlyMap<string, number> = new Map(
+    ["text", "json", "sarif"].map((x) => [x, 1]),
+);
+
+const unsafeScriptOptions: ReadonlyMap<string, number> = new Map(
+    ["never", "warn", "allow"].map((x) => [x, 1]),
+);
+
+const severityOptions: ReadonlyMap<string, number> = new Map(
+    ["error", "warning", "info", "hint", "off"].map((x) => [x, 1]),
+);
+
+interface CliOptions {
+    directory: string;
+    format: LintOutputFormat;
+    includeHints: boolean;
+    styleGuideName: string;
+    validationSettings: ValidationSettings;
+}
+
+/**
+ * Parse command-line arguments.
+ * @param args Arguments, not including the node executable and script.
+ * @returns The options, or an error message if the arguments are invalid.
+ */
+function parseArguments(args: string[]): CliOptions | string {
+    const diagnosticSeverities: Record<string, DiagnosticSeverityOption> = {};
+    const options: CliOptions = {
+        directory: "",
+        format: "text",
+        includeHints: false,
+        styleGuideName: "choiceOfGames",
+        validationSettings: {
+            useCoGStyleGuide: true,
+            allowUnsafeScript: "never",
+            diagnosticSeverities: diagnosticSeverities,
+        },
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg == "--format") {
+            const format = args[++i];
+            if (format === undefined || !outputFormats.has(format)) {
+                return "--format must be one of text, json, or sarif";
+            }
+            options.format = format as LintOutputFormat;
+        } else if (arg == "--include-hints") {
+            options.includeHints = true;
+        } else if (arg == "--no-style-guide") {
+            options.validationSettings.useCoGStyleGuide = false;
+        } else if (arg == "--style-guide") {
+            const name = args[++i];
+            if (name === undefined) {
+                return "--style-guide needs the name of a style guide";
+            }
+            options.styleGuideName = name;
+        } else if (arg == "--allow-unsafe-script") {
+            const option = args[++i];
+            if (option === undefined || !unsafeScriptOptions.has(option)) {
+                return "--allow-unsafe-script must be one of never, warn, or allow";
+            }
+            options.validationSettings.allowUnsafeScript =
+                option as AllowUnsafeScriptOption;
+        } else if (arg == "--severity") {
+            const [code, level] = (args[++i] ?? "").split("=");
+            if (!code || level === undefined || !severityOptions.has(level)) {
+                return "--severity must look like <code>=<level>, where <level> is one of error, warning, info, hint, or off";
+            }
+            diagnosticSeverities[code] = level as DiagnosticSeverityOption;
+        } else if (arg.startsWith("-")) {
+            return `Unknown option ${arg}`;
+        } else if (options.directory != "") {
+            return "Only one directory can be checked at a time";
+        } else {
+            options.directory = arg;
+        }
+    }
+
+    if (options.directory == "") {
+        return "No directory given";
+    }
+    return options;
+}
+
+/**
+ * Find the directories containing a startup.txt file.
+ * @param directory Directory to search.
+ * @param fileSystemService Service that provides access to the file system.
+ * @returns Absolute paths to the project directories.
+ */
+async function findProjects(
+    directory: string,
+    fileSystemService: FileSystemService,
+): Promise<string[]> {
+    if (
+        await fileSystemService.fileExists(path.join(directory, "startup.txt"))
+    ) {
+        return [directory];
+    }
+    const startupFiles = await fileSystemService.findFiles(
+        "**/startup.txt",
+        directory,
+    );
+    return startupFiles
+        .map((file) => path.dirname(path.join(directory, file)))
+        .sort();
+}
+
+/**
+ * Find the style guide to check against.
+ * @param name Name of the style guide.
+ * @param directory Directory that may contain a style guides file.
+ * @param fileSystemService Service that provides access to the file system.
+ * @returns The style guide, or an error message if it couldn't be found.
+ */
+async function loadStyleGuide(
+    name: string,
+    directory: string,
+    fileSystemService: FileSystemService,
+): Promise<StyleGuide | string> {
+    let customStyleGuides: ReadonlyMap<string, StyleGuide> = new Map();
+    const styleGuidesPath = path.join(directory, styleGuidesFilename);
+    if (await fileSystemService.fileExists(styleGuidesPath)) {
+        const styleGuides = parseStyleGuides(
+            await fileSystemService.readFile(styleGuidesPath),
+        );
+        if (typeof styleGuides === "string") {
+            return `Could not read style guides from ${styleGuidesPath} (${styleGuides})`;
+        }
+        customStyleGuides = styleGuides;
+    }
+    return (
+        findStyleGuide(name, customStyleGuides) ??
+        `No style guide named ${name}`
+    );
+}
+
+async function main(): Promise<number> {
+    const args = process.argv.slice(2);
+    if (args.includes("-h") || args.includes("--help")) {
+        console.log(usage);
+        return 0;
+    }
+    const options = parseArguments(args);
+    if (typeof options === "string") {
+        console.error(`${options}\n\n${usage}`);
+        return 2;
+    }
+
+    const fileSystemService = new FileSystemService(new SystemFileProvider());
+    const rootPath = path.resolve(options.directory);
+    const projects = await findProjects(rootPath, fileSystemService);
+    if (projects.length == 0) {
+        console.error(`No startup.txt file found in ${rootPath}`);
+        return 2;
+    }
+    const styleGuide = await loadStyleGuide(
+        options.styleGuideName,
+        rootPath,
+        fileSystemService,
+    );
+    if (typeof styleGuide === "string") {
+        console.error(styleGuide);
+        return 2;
+    }
+    options.validationSettings.styleGuide = styleGuide;
+
+    const results: SceneDiagnostics[] = [];
+    for (const project of projects) {
+        results.push(
+            ...(await lintProject(
+                project,
+                fileSystemService,
+                options.validationSettings,
+            )),
+        );
+    }
+    if (!options.includeHints) {
+        for (const result of results) {
+            result.diagnostics = result.diagnostics.filter(
+                (diagnostic) => diagnostic.severity != DiagnosticSeverity.Hint,
+            );
+        }
+    }
+
+    console.log(formatLintResults(results, options.format, rootPath));
+    return countDiagnostics(results, DiagnosticSeverity.Error) > 0 ? 1 : 0;
+}
+
+main().then(
+    (exitCode) => {
+        process.exitCode = exitCode;
+    },
+    (err) => {
+        console.error(err instanceof Error ? err.message : err);
+        process.exitCode = 2;
+    },
+);
@@ -0,0 +1,389 @@
+import { expect } from "chai";
+import "mocha";
+import * as path from "path";
+
+import {
+    DebuggableGame,
+    GameDebugCommand,
+    GameDebugOptions,
+    GameDebugSession,
+} from "../../../client/src/common/game-debugger";
+
+const scenePath = path.join("game", "scenes");
+
+class FakeGame implements DebuggableGame {
+    public commands: GameDebugCommand[] = [];
+    public startOptions: GameDebugOptions | undefined;
+    public startScene: string | undefined;
+    public stopped = false;
+
+    constructor(private readonly sceneFilesPath?: string) {}
+
+    async start(options: GameDebugOptions, scene?: string) {
+        this.startOptions = JSON.parse(JSON.stringify(options));
+        this.startScene = scene;
+        return this.sceneFilesPath;
+    }
+
+    send(command: GameDebugCommand) {
+        this.commands.push(command);
+    }
+
+    stop() {
+        this.stopped = true;
+    }
+}
+
+interface TestSession {
+    session: GameDebugSession;
+    game: FakeGame;
+    messages: any[];
+}
+
+let nextSeq = 1;
+
+function createSession(hasGame = true) {
+    const game = new FakeGame(hasGame ? scenePath : undefined);
+    const session = new GameDebugSession(game);
+    const messages: any[] = [];
+    session.onDidSendMessage((message) => messages.push(message));
+    return { session: session, game: game, messages: messages };
+}
+
+// Let the session finish handling any requests
+function settle(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
+
+function startRequest(
+    test: TestSession,
+    command: string,
+    args?: Record<string, unknown>,
+): number {
+    const seq = nextSeq++;
+    test.session.handleMessage({
+        seq: seq,
+        type: "request",
+        command: command,
+        arguments: args,
+    });
+    return seq;
+}
+
+function responseTo(test: TestSession, seq: number): any {
+    return test.messages.find(
+        (message) => message.type == "response" && message.request_seq == seq,
+    );
+}
+
+async function request(
+    test: TestSession,
+    command: string,
+    args?: Record<string, unknown>,
+): Promise<any> {
+    const seq = startRequest(test, command, args);
+    await settle();
+    return responseTo(test, seq);
+}
+
+async function launch(
+    test: TestSession,
+    args: Record<string, unknown> = {},
+): Promise<any> {
+    const seq = startRequest(test, "launch", args);
+    await request(test, "configurationDone");
+    await settle();
+    return responseTo(test, seq);
+}
+
+function events(test: TestSession, event: string): any[] {
+    return test.messages.filter(
+        (message) => message.type == "event" && message.event == event,
+    );
+}
+
+describe("Game Debugger", () => {
+    describe("Starting", () => {
+        it("should offer to pause on *choice", async () => {
+            const test = createSession();
+
+            const response = await request(test, "initialize", {});
+
+            expect(response.success).to.be.true;
+            expect(response.body.exceptionBreakpointFilters[0].filter).to.equal(
+                "choice",
+            );
+            expect(events(test, "initialized").length).to.equal(1);
+        });
+
+        it("should start the game once breakpoints are set", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            const seq = startRequest(test, "launch", {
+                stopOnEntry: true,
+                scene: "chapter1|fight",
+            });
+            await settle();
+            const earlyResponse = responseTo(test, seq);
+            await request(test, "setBreakpoints", {
+                source: { path: path.join(scenePath, "Chapter1.txt") },
+                breakpoints: [{ line: 3 }, { line: 10 }],
+            });
+            await request(test, "setExceptionBreakpoints", {
+                filters: ["choice"],
+            });
+
+            await request(test, "configurationDone");
+            await settle();
+
+            expect(earlyResponse).to.be.undefined;
+            expect(responseTo(test, seq).success).to.be.true;
+            expect(test.game.startScene).to.equal("chapter1|fight");
+            expect(test.game.startOptions).to.eql({
+                breakpoints: { chapter1: [2, 9] },
+                pauseOnChoice: true,
+                stopOnEntry: true,
+            });
+        });
+
+        it("should respect 0-based lines", async () => {
+            const test = createSession();
+            await request(test, "initialize", { linesStartAt1: false });
+            await request(test, "setBreakpoints", {
+                source: { path: path.join(scenePath, "startup.txt") },
+                breakpoints: [{ line: 3 }],
+            });
+
+            await launch(test);
+
+            expect(test.game.startOptions?.breakpoints).to.eql({
+                startup: [3],
+            });
+        });
+
+        it("should fail to launch if there's no game", async () => {
+            const test = createSession(false);
+            await request(test, "initialize", {});
+
+            const response = await launch(test);
+
+            expect(response.success).to.be.false;
+            expect(events(test, "terminated").length).to.equal(1);
+        });
+    });
+
+    describe("Running", () => {
+        it("should send breakpoints to a running game", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+
+            const response = await request(test, "setBreakpoints", {
+                source: { path: path.join(scenePath, "startup.txt") },
+                breakpoints: [{ line: 5 }],
+            });
+
+            expect(response.body.breakpoints).to.eql([
+                { verified: true, line: 5 },
+            ]);
+            expect(test.game.commands).to.eql([
+                {
+                    command: "debug-set-breakpoints",
+                    scene: "startup",
+                    lines: [4],
+                },
+            ]);
+        });
+
+        it("should pass stepping commands to the game", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+
+            await request(test, "next", { threadId: 1 });
+            await request(test, "stepIn", { threadId: 1 });
+            await request(test, "stepOut", { threadId: 1 });
+            await request(test, "continue", { threadId: 1 });
+
+            expect(test.game.commands).to.eql([
+                { command: "debug-step", kind: "over" },
+                { command: "debug-step", kind: "in" },
+                { command: "debug-step", kind: "out" },
+                { command: "debug-continue" },
+            ]);
+        });
+
+        it("should stop the game on disconnect", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+
+            await request(test, "disconnect", {});
+
+            expect(test.game.stopped).to.be.true;
+        });
+
+        it("should end the session when the game is closed", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+
+            test.session.handleGameClosed();
+
+            expect(events(test, "terminated").length).to.equal(1);
+        });
+    });
+
+    describe("Paused", () => {
+        async function pausedSession(): Promise<TestSession> {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+            test.session.handleGameMessage({
+                command: "debug-stopped",
+                reason: "choice",
+                frames: [
+                    { name: "chapter1.sub", scene: "chapter1", line: 12 },
+                    { name: "chapter1", scene: "chapter1", line: 4 },
+                ],
+                stats: { strength: "50", name: "Ada", brave: true },
+                temps: { count: 2 },
+            });
+            return test;
+        }
+
+        it("should tell VS Code why the game stopped", async () => {
+            const test = await pausedSession();
+
+            const stopped = events(test, "stopped");
+
+            expect(stopped.length).to.equal(1);
+            expect(stopped[0].body.reason).to.equal("choice");
+            expect(stopped[0].body.description).to.equal("Paused on *choice");
+        });
+
+        it("should list the call stack", async () => {
+            const test = await pausedSession();
+
+            const response = await request(test, "stackTrace", {
+                threadId: 1,
+            });
+
+            expect(response.body.stackFrames.length).to.equal(2);
+            expect(response.body.stackFrames[0].name).to.equal("chapter1.sub");
+            expect(response.body.stackFrames[0].line).to.equal(13);
+            expect(response.body.stackFrames[0].source.path).to.equal(
+                path.join(scenePath, "chapter1.txt"),
+            );
+            expect(response.body.stackFrames[1].line).to.equal(5);
+        });
+
+        it("should list stats in alphabetical order", async () => {
+            const test = await pausedSession();
+
+            const response = await request(test, "variables", {
+                variablesReference: 1,
+            });
+
+            expect(response.body.variables).to.eql([
+                { name: "brave", value: "true", variablesReference: 0 },
+                { name: "name", value: '"Ada"', variablesReference: 0 },
+                { name: "strength", value: "50", variablesReference: 0 },
+            ]);
+        });
+
+        it("should show stats that hold numbers as numbers", async () => {
+            const test = await pausedSession();
+
+            const response = await request(test, "variables", {
+                variablesReference: 1,
+            });
+
+            expect(response.body.variables[2].value).to.equal("50");
+        });
+
+        it("should list temps", async () => {
+            const test = await pausedSession();
+
+            const response = await request(test, "variables", {
+                variablesReference: 2,
+            });
+
+            expect(response.body.variables).to.eql([
+                { name: "count", value: "2", variablesReference: 0 },
+            ]);
+        });
+
+        it("should forget the paused state once the game continues", async () => {
+            const test = await pausedSession();
+            await request(test, "continue", { threadId: 1 });
+
+            const response = await request(test, "stackTrace", {
+                threadId: 1,
+            });
+
+            expect(response.body.stackFrames).to.be.empty;
+        });
+    });
+
+    describe("Evaluation", () => {
+        it("should evaluate expressions in the game", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+            const seq = startRequest(test, "evaluate", {
+                expression: "strength + 5",
+            });
+            await settle();
+
+            const command = test.game.commands[0];
+            expect(command).to.eql({
+                command: "debug-evaluate",
+                id: 1,
+                expression: "strength + 5",
+            });
+            test.session.handleGameMessage({
+                command: "debug-evaluated",
+                id: 1,
+                value: 55,
+            });
+            await settle();
+
+            expect(responseTo(test, seq).body.result).to.equal("55");
+        });
+
+        it("should report errors from the game", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+            await launch(test);
+            const seq = startRequest(test, "evaluate", {
+                expression: "nonexistent",
+            });
+            await settle();
+
+            test.session.handleGameMessage({
+                command: "debug-evaluated",
+                id: 1,
+                error: "Non-existent variable 'nonexistent'",
+            });
+            await settle();
+
+            expect(responseTo(test, seq).success).to.be.false;
+            expect(responseTo(test, seq).message).to.equal(
+                "Non-existent variable 'nonexistent'",
+            );
+        });
+
+        it("should not evaluate expressions if the game isn't running", async () => {
+            const test = createSession();
+            await request(test, "initialize", {});
+
+            const response = await request(test, "evaluate", {
+                expression: "strength",
+            });
+
+            expect(response.success).to.be.false;
+            expect(test.game.commands).to.be.empty;
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import "mocha";
+
+import {
+    completeCoverage,
+    findUnreachedLines,
+    heatLevel,
+    parseRandomtestCoverage,
+} from "../../../client/src/common/randomtest-coverage";
+
+describe("Randomtest Coverage", () => {
+    describe("Parsing", () => {
+        it("should parse coverage for each scene", () => {
+            const output = [
+                "*****Iteration 10 Seed 9",
+                "startup 10: *title Game",
+                "startup 0: ",
+                "startup 10: *finish",
+                "chapter 7: Text",
+                "RANDOMTEST PASSED",
+                "Time: 0.5s",
+            ].join("\n");
+
+            const coverage = parseRandomtestCoverage(output);
+
+            expect([...coverage.keys()]).to.eql(["startup", "chapter"]);
+            expect(coverage.get("startup")).to.eql({
+                counts: [10, 0, 10],
+                lines: ["*title Game", "", "*finish"],
+            });
+            expect(coverage.get("chapter")).to.eql({
+                counts: [7],
+                lines: ["Text"],
+            });
+        });
+
+        it("should only parse the coverage block just before the test passed", () => {
+            const output = [
+                "startup 3: Not coverage",
+                "*****Iteration 10 Seed 9",
+                "startup 10: *finish",
+                "RANDOMTEST PASSED",
+            ].join("\n");
+
+            const coverage = parseRandomtestCoverage(output);
+
+            expect(coverage.get("startup")?.counts).to.eql([10]);
+        });
+
+        it("should handle Windows line endings", () => {
+            const output = "startup 2: Line\r\nRANDOMTEST PASSED\r\n";
+
+            const coverage = parseRandomtestCoverage(output);
+
+            expect(coverage.get("startup")?.lines).to.eql(["Line"]);
+        });
+
+        it("should return no coverage if the test didn't pass", () => {
+            const output = "startup 2: Line\nRANDOMTEST FAILED\n";
+
+            const coverage = parseRandomtestCoverage(output);
+
+            expect(coverage.size).to.equal(0);
+        });
+    });
+
+    describe("Completing Coverage", () => {
+        it("should pad a scene's coverage out to its full length", () => {
+            const coverage = new Map([
+                ["startup", { counts: [3, 3], lines: ["*title Game", "Text"] }],
+            ]);
+            const sceneTexts = new Map([
+                ["startup", "*title Game\r\nText\r\n*finish\r\n"],
+            ]);
+
+            const completed = completeCoverage(coverage, sceneTexts);
+
+            expect(completed.get("startup")).to.eql({
+                counts: [3, 3, 0, 0],
+                lines: ["*title Game", "Text", "*finish", ""],
+            });
+        });
+
+        it("should add coverage for scenes that were never visited", () => {
+            const coverage = new Map([
+                ["startup", { counts: [3], lines: ["*finish"] }],
+            ]);
+            const sceneTexts = new Map([
+                ["startup", "*finish"],
+                ["lost", "Text\n*finish"],
+            ]);
+
+            const completed = completeCoverage(coverage, sceneTexts);
+
+            expect(completed.get("lost")).to.eql({
+                counts: [0, 0],
+                lines: ["Text", "*finish"],
+            });
+            expect(findUnreachedLines(completed.get("lost")!)).to.eql([
+                { start: 0, end: 1 },
+            ]);
+        });
+    });
+
+    describe("Unreached Lines", () => {
+        it("should find ranges of lines that were never run", () => {
+            const coverage = {
+                counts: [1, 0, 0, 0, 0, 2, 0],
+                lines: [
+                    "One",
+                    "Two",
+                    "",
+                    "*comment hi",
+                    "Three",
+                    "Four",
+                    "Five",
+                ],
+            };
+
+            const ranges = findUnreachedLines(coverage);
+
+            expect(ranges).to.eql([
+                { start: 1, end: 4 },
+                { start: 6, end: 6 },
+            ]);
+        });
+
+        it("should not count blank lines or comments as unreached", () => {
+            const coverage = {
+                counts: [1, 0, 0],
+                lines: ["One", "", "  *comment hi"],
+            };
+
+            const ranges = findUnreachedLines(coverage);
+
+            expect(ranges).to.be.empty;
+        });
+    });
+
+    describe("Heat Levels", () => {
+        it("should give lines that were never run a level of zero", () => {
+            expect(heatLevel(0, 100, 4)).to.equal(0);
+        });
+
+        it("should give the most-run lines the highest level", () => {
+            expect(heatLevel(100, 100, 4)).to.equal(4);
+        });
+
+        it("should give lines run once the lowest level", () => {
+            expect(heatLevel(1, 100, 4)).to.equal(1);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { Position, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import {
+    generateIncomingCalls,
+    generateOutgoingCalls,
+    prepareCallHierarchy,
+} from "../../../server/src/common/call-hierarchy";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+const noGotos = { includeGotos: false };
+const withGotos = { includeGotos: true };
+
+function sceneUri(scene: string): string {
+    return `file:///c:/${scene}.txt`;
+}
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            TextDocument.create(sceneUri(scene), "ChoiceScript", 0, text),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+const scenes = {
+    startup:
+        "*title Game\n*author Me\n*scene_list\n  startup\n  utils\n*gosub_scene utils check_stat\n*label intro\n*gosub_scene utils check_stat\n*gosub_scene utils check_stat\n*goto_scene utils\n",
+    utils: "*finish\n*label check_stat\n*gosub helper\n*return\n*label helper\n*return\n",
+};
+
+describe("Call Hierarchy", () => {
+    describe("Preparing", () => {
+        it("should return the label whose name is under the cursor", () => {
+            const index = createIndex(scenes);
+
+            const items = prepareCallHierarchy(
+                sceneUri("startup"),
+                Position.create(5, 20),
+                index,
+            );
+
+            expect(items.length).to.equal(1);
+            expect(items[0].name).to.equal("check_stat");
+            expect(items[0].kind).to.equal(SymbolKind.Function);
+            expect(items[0].uri).to.equal(sceneUri("utils"));
+            expect(items[0].detail).to.equal("utils");
+            expect(items[0].selectionRange.start).to.eql({
+                line: 1,
+                character: 7,
+            });
+        });
+
+        it("should return the label section that contains the cursor", () => {
+            const index = createIndex(scenes);
+
+            const items = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(3, 2),
+                index,
+            );
+
+            expect(items[0].name).to.equal("check_stat");
+        });
+
+        it("should return the scene if the cursor is before any label", () => {
+            const index = createIndex(scenes);
+
+            const items = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(0, 2),
+                index,
+            );
+
+            expect(items[0].name).to.equal("utils");
+            expect(items[0].kind).to.equal(SymbolKind.File);
+        });
+    });
+
+    describe("Incoming Calls", () => {
+        it("should find every routine that calls a subroutine", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(1, 8),
+                index,
+            );
+
+            const calls = generateIncomingCalls(item, index, noGotos);
+
+            expect(calls.map((c) => c.from.name)).to.eql(["startup", "intro"]);
+            expect(calls[1].fromRanges.length).to.equal(2);
+            expect(calls[1].fromRanges[0].start).to.eql({
+                line: 7,
+                character: 19,
+            });
+        });
+
+        it("should find local calls", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(4, 8),
+                index,
+            );
+
+            const calls = generateIncomingCalls(item, index, noGotos);
+
+            expect(calls.map((c) => c.from.name)).to.eql(["check_stat"]);
+        });
+
+        it("should only include *goto jumps if asked to", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(0, 2),
+                index,
+            );
+
+            const withoutGotos = generateIncomingCalls(item, index, noGotos);
+            const gotos = generateIncomingCalls(item, index, withGotos);
+
+            expect(withoutGotos).to.be.empty;
+            expect(gotos.map((c) => c.from.name)).to.eql(["intro"]);
+        });
+    });
+
+    describe("Outgoing Calls", () => {
+        it("should find the subroutines a label section calls", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("startup"),
+                Position.create(6, 2),
+                index,
+            );
+
+            const calls = generateOutgoingCalls(item, index, noGotos);
+
+            expect(calls.length).to.equal(1);
+            expect(calls[0].to.name).to.equal("check_stat");
+            expect(calls[0].to.uri).to.equal(sceneUri("utils"));
+            expect(calls[0].fromRanges.length).to.equal(2);
+        });
+
+        it("should only find calls in the label's own section", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("utils"),
+                Position.create(1, 8),
+                index,
+            );
+
+            const calls = generateOutgoingCalls(item, index, noGotos);
+
+            expect(calls.map((c) => c.to.name)).to.eql(["helper"]);
+        });
+
+        it("should include *goto jumps if asked to", () => {
+            const index = createIndex(scenes);
+            const [item] = prepareCallHierarchy(
+                sceneUri("startup"),
+                Position.create(6, 2),
+                index,
+            );
+
+            const calls = generateOutgoingCalls(item, index, withGotos);
+
+            expect(calls.map((c) => c.to.name)).to.eql(["check_stat", "utils"]);
+        });
+    });
+});
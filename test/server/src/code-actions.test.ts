@@ -0,0 +1,296 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { Diagnostic, TextEdit } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { generateCodeActions } from "../../../server/src/common/code-actions";
+import {
+    createDiagnostic,
+    DiagnosticCodes,
+} from "../../../server/src/common/diagnostics";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+const startupUri = "file:///c:/startup.txt";
+const sceneUri = "file:///c:/scene.txt";
+
+function createDocument(text: string, uri: string = sceneUri): TextDocument {
+    return TextDocument.create(uri, "ChoiceScript", 0, text);
+}
+
+function createIndex(startupText: string = ""): Index {
+    const index = new Index();
+    updateProjectIndex(
+        createDocument(startupText, startupUri),
+        true,
+        false,
+        index,
+    );
+    return index;
+}
+
+function editsFor(
+    edits: TextEdit[] | undefined,
+    document: TextDocument,
+): string {
+    return TextDocument.applyEdits(document, edits ?? []);
+}
+
+describe("Code Actions", () => {
+    it("should replace three periods with a unicode ellipsis", () => {
+        const document = createDocument("Wait... what?");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.UnicodeEllipsisRequired,
+            document,
+            4,
+            7,
+        );
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions.length).to.equal(1);
+        expect(actions[0].isPreferred).to.be.true;
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("Wait… what?");
+    });
+
+    it("should replace two dashes with a unicode em-dash", () => {
+        const document = createDocument("Wait--what?");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.UnicodeEmDashRequired,
+            document,
+            4,
+            6,
+        );
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("Wait—what?");
+    });
+
+    it("should offer to create an undefined variable in startup.txt after the last *create", () => {
+        const startupText =
+            "*create one 1\n*create two 2\n*scene_list\n\tscene\n";
+        const startupDocument = createDocument(startupText, startupUri);
+        const document = createDocument("${unknown}");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.VariableNotDefined,
+            document,
+            2,
+            9,
+        );
+        diagnostic.data = { variable: "unknown" };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(startupText),
+        );
+
+        expect(actions[0].title).to.include("startup.txt");
+        expect(
+            editsFor(actions[0].edit?.changes?.[startupUri], startupDocument),
+        ).to.equal(
+            "*create one 1\n*create two 2\n*create unknown 0\n*scene_list\n\tscene\n",
+        );
+    });
+
+    it("should offer to create an undefined variable as a temp in the scene", () => {
+        const document = createDocument("${unknown}");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.VariableNotDefined,
+            document,
+            2,
+            9,
+        );
+        diagnostic.data = { variable: "unknown" };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions[1].title).to.include("temporary");
+        expect(
+            editsFor(actions[1].edit?.changes?.[sceneUri], document),
+        ).to.equal("*temp unknown 0\n${unknown}");
+    });
+
+    it("should not offer to create a temp variable in startup.txt", () => {
+        const document = createDocument("${unknown}", startupUri);
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.VariableNotDefined,
+            document,
+            2,
+            9,
+        );
+        diagnostic.data = { variable: "unknown" };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions.length).to.equal(1);
+        expect(actions[0].title).to.include("startup.txt");
+    });
+
+    it("should offer to create a missing label in the current scene", () => {
+        const document = createDocument("*goto missing\nText");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.LabelNotFound,
+            document,
+            6,
+            13,
+        );
+        diagnostic.data = { label: "missing", scene: undefined };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("*goto missing\nText\n*label missing\n");
+    });
+
+    it("should not offer to create a missing label in another scene", () => {
+        const document = createDocument("*goto_scene other missing\n");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.LabelNotFound,
+            document,
+            18,
+            25,
+        );
+        diagnostic.data = { label: "missing", scene: "other" };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions).to.be.empty;
+    });
+
+    it("should wrap an expression in parentheses", () => {
+        const document = createDocument("\t*if var > 2 #Option");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.MissingParentheses,
+            document,
+            5,
+            12,
+        );
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("\t*if (var > 2) #Option");
+    });
+
+    it("should convert spaces to tabs", () => {
+        const document = createDocument("*if true\n\t\tindent\n\t    indent");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.SwitchedToSpaces,
+            document,
+            19,
+            23,
+        );
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("*if true\n\t\tindent\n\t\tindent");
+    });
+
+    it("should convert tabs to the document's space indent", () => {
+        const document = createDocument("*if true\n  indent\n\tindent");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.SwitchedToTabs,
+            document,
+            18,
+            19,
+        );
+        diagnostic.data = { indent: "  " };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("*if true\n  indent\n  indent");
+    });
+
+    it("should replace a banned phrase with the style guide's replacement", () => {
+        const document = createDocument("It's okay.");
+        const diagnostic = createDiagnostic(
+            DiagnosticCodes.BannedPhrase,
+            document,
+            5,
+            9,
+        );
+        diagnostic.data = { replacement: "OK" };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions.length).to.equal(1);
+        expect(
+            editsFor(actions[0].edit?.changes?.[sceneUri], document),
+        ).to.equal("It's OK.");
+    });
+
+    it("should ignore diagnostics from other sources", () => {
+        const document = createDocument("Wait... what?");
+        const diagnostic: Diagnostic = {
+            ...createDiagnostic(
+                DiagnosticCodes.UnicodeEllipsisRequired,
+                document,
+                4,
+                7,
+            ),
+            source: "Other",
+        };
+
+        const actions = generateCodeActions(
+            document,
+            [diagnostic],
+            createIndex(),
+        );
+
+        expect(actions).to.be.empty;
+    });
+});
@@ -0,0 +1,135 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { generateCodeLenses } from "../../../server/src/common/code-lens";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+function createDocument(scene: string, text: string): TextDocument {
+    return TextDocument.create(
+        `file:///c:/${scene}.txt`,
+        "ChoiceScript",
+        0,
+        text,
+    );
+}
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            createDocument(scene, text),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+describe("Code Lenses", () => {
+    it("should count a label's references and the scenes they're in", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n  startup\n  other\n*goto fight\n*gosub_scene other fight\n*label fight\n*finish\n",
+            other: "*label fight\n*goto fight\n*gosub_scene startup fight\n*return\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/other.txt", index);
+
+        expect(lenses[0].command?.title).to.equal("2 references · 2 scenes");
+        expect(lenses[0].command?.command).to.equal(
+            "choicescript.showReferences",
+        );
+        expect(lenses[0].command?.arguments?.[0]).to.equal(
+            "file:///c:/other.txt",
+        );
+        expect(lenses[0].command?.arguments?.[1]).to.eql({
+            line: 0,
+            character: 7,
+        });
+        expect(lenses[0].command?.arguments?.[2].length).to.equal(2);
+    });
+
+    it("should not count references to a same-named label in another scene", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n  startup\n  other\n*goto fight\n*label fight\n*gosub_scene other fight\n*finish\n",
+            other: "*label fight\n*return\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/startup.txt", index);
+
+        expect(lenses[0].command?.title).to.equal("1 reference · 1 scene");
+        expect(lenses[0].command?.arguments?.[2][0].range.start).to.eql({
+            line: 3,
+            character: 6,
+        });
+    });
+
+    it("should add a lens to run the game from a label", () => {
+        const index = createIndex({
+            other: "*label fight\n*return\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/other.txt", index);
+
+        expect(lenses[1].command?.title).to.equal("Run game from here");
+        expect(lenses[1].command?.command).to.equal(
+            "choicescript.runGameFromHere",
+        );
+        expect(lenses[1].command?.arguments).to.eql(["other", "fight"]);
+    });
+
+    it("should use the singular for a single reference in a single scene", () => {
+        const index = createIndex({
+            other: "*goto fight\n*label fight\n*return\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/other.txt", index);
+
+        expect(lenses[0].command?.title).to.equal("1 reference · 1 scene");
+    });
+
+    it("should count references to global variables in the startup file", () => {
+        const index = createIndex({
+            startup: "*create strength 5\n*set strength 6\n",
+            other: "${strength}\n*if strength > 2\n  Strong!\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/startup.txt", index);
+
+        expect(lenses.length).to.equal(1);
+        expect(lenses[0].range).to.eql({
+            start: { line: 0, character: 8 },
+            end: { line: 0, character: 16 },
+        });
+        expect(lenses[0].command?.title).to.equal("3 references · 2 scenes");
+    });
+
+    it("should not add variable lenses outside the startup file", () => {
+        const index = createIndex({
+            startup: "*create strength 5\n",
+            other: "*temp weakness 2\n${strength}\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/other.txt", index);
+
+        expect(lenses).to.be.empty;
+    });
+
+    it("should count references to achievements", () => {
+        const index = createIndex({
+            startup:
+                "*achievement codename true 10 Title\n  Pre-earned.\n  Post-earned.\n*achieve codename\n",
+            other: "*achieve codename\n",
+        });
+
+        const lenses = generateCodeLenses("file:///c:/startup.txt", index);
+
+        expect(lenses[0].command?.title).to.equal("2 references · 2 scenes");
+    });
+});
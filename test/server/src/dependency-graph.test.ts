@@ -0,0 +1,144 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { DependencyGraph } from "../../../server/src/common/dependency-graph";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+function uriFor(scene: string): string {
+    return `file:///c:/${scene}.txt`;
+}
+
+function indexScene(index: Index, scene: string, text: string): void {
+    updateProjectIndex(
+        TextDocument.create(uriFor(scene), "ChoiceScript", 0, text),
+        scene == "startup",
+        false,
+        index,
+    );
+}
+
+function createGraph(
+    index: Index,
+    scenes: Record<string, string>,
+): DependencyGraph {
+    const graph = new DependencyGraph();
+    for (const [scene, text] of Object.entries(scenes)) {
+        indexScene(index, scene, text);
+    }
+    for (const scene of Object.keys(scenes)) {
+        graph.updateDocument(uriFor(scene), index);
+    }
+    return graph;
+}
+
+describe("Dependency Graph", () => {
+    it("should find documents that reference a changed global variable", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: '*create strength 5\n*create name "Bob"\n',
+            fight: "*set strength +1\n",
+            talk: "Hello ${name}.\n",
+        });
+
+        indexScene(index, "startup", "*create strength 5\n");
+        const changed = graph.updateDocument(uriFor("startup"), index);
+
+        expect(graph.findDependentDocuments(changed)).to.eql([uriFor("talk")]);
+    });
+
+    it("should notice when a global variable's type changes", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: "*create strength 5\n",
+            fight: "*set strength +1\n",
+        });
+
+        indexScene(index, "startup", '*create strength "high"\n');
+        const changed = graph.updateDocument(uriFor("startup"), index);
+
+        expect(graph.findDependentDocuments(changed)).to.eql([
+            uriFor("startup"),
+            uriFor("fight"),
+        ]);
+    });
+
+    it("should find documents that go to a changed label", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup:
+                "*scene_list\n  startup\n  shop\n*gosub_scene shop buy 1\n",
+            shop: "*label buy\n*params amount\n*return\n",
+            other: "*label buy\n*return\n",
+        });
+
+        indexScene(
+            index,
+            "shop",
+            "*label buy\n*params amount price\n*return\n",
+        );
+        const changed = graph.updateDocument(uriFor("shop"), index);
+
+        expect(graph.findDependentDocuments(changed)).to.eql([
+            uriFor("startup"),
+            uriFor("shop"),
+        ]);
+    });
+
+    it("should not find any documents if no shared symbols changed", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: "*create strength 5\n",
+            fight: "You fight.\n*set strength +1\n",
+        });
+
+        indexScene(index, "fight", "You fight bravely.\n*set strength +1\n");
+        const changed = graph.updateDocument(uriFor("fight"), index);
+
+        expect(changed.size).to.equal(0);
+        expect(graph.findDependentDocuments(changed)).to.be.empty;
+    });
+
+    it("should forget removed documents", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: "*create strength 5\n",
+            fight: "*set strength +1\n",
+        });
+
+        graph.removeDocument(uriFor("fight"));
+
+        expect(
+            graph.findDependentDocuments(new Set(["variable:strength"])),
+        ).to.eql([uriFor("startup")]);
+    });
+
+    it("should return a removed document's symbols", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: "*create strength 5\n",
+            fight: "*set strength +1\n",
+        });
+
+        const symbols = graph.removeDocument(uriFor("fight"));
+
+        expect(graph.findDependentDocuments(symbols)).to.eql([
+            uriFor("startup"),
+        ]);
+    });
+
+    it("should list the documents it tracks", () => {
+        const index = new Index();
+        const graph = createGraph(index, {
+            startup: "*create strength 5\n",
+            fight: "*set strength +1\n",
+        });
+
+        graph.removeDocument(uriFor("fight"));
+
+        expect(graph.getDocuments()).to.eql([uriFor("startup")]);
+    });
+});
@@ -0,0 +1,265 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import {
+    type Diagnostic,
+    DiagnosticSeverity,
+    DocumentDiagnosticReportKind,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { DependencyGraph } from "../../../server/src/common/dependency-graph";
+import {
+    DiagnosticReportCache,
+    createDocumentReport,
+} from "../../../server/src/common/diagnostic-reports";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+function uriFor(scene: string): string {
+    return `file:///c:/${scene}.txt`;
+}
+
+function createDiagnostic(message: string): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Error,
+        range: {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 5 },
+        },
+        message: message,
+    };
+}
+
+function indexScene(index: Index, scene: string, text: string): void {
+    updateProjectIndex(
+        TextDocument.create(uriFor(scene), "ChoiceScript", 0, text),
+        scene == "startup",
+        false,
+        index,
+    );
+}
+
+describe("Diagnostic Reports", () => {
+    describe("Unchanged Scenes", () => {
+        it("should keep a scene's result ID if its diagnostics don't change", () => {
+            const cache = new DiagnosticReportCache();
+            const firstId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+
+            const secondId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+
+            expect(secondId).to.equal(firstId);
+        });
+
+        it("should report a scene as unchanged if the client has its diagnostics", () => {
+            const cache = new DiagnosticReportCache();
+            const resultId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+
+            const report = createDocumentReport(
+                cache.getReport(uriFor("chapter"))!,
+                resultId,
+            );
+
+            expect(report).to.eql({
+                kind: DocumentDiagnosticReportKind.Unchanged,
+                resultId: resultId,
+            });
+        });
+
+        it("should report a scene's diagnostics in full if the client has an older report", () => {
+            const cache = new DiagnosticReportCache();
+            const oldId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+            const newId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Different"),
+            ]);
+
+            const report = createDocumentReport(
+                cache.getReport(uriFor("chapter"))!,
+                oldId,
+            );
+
+            expect(report).to.eql({
+                kind: DocumentDiagnosticReportKind.Full,
+                resultId: newId,
+                items: [createDiagnostic("Different")],
+            });
+        });
+
+        it("should report a scene's diagnostics in full if the client has no report", () => {
+            const cache = new DiagnosticReportCache();
+            const resultId = cache.update(uriFor("chapter"), []);
+
+            const report = createDocumentReport(
+                cache.getReport(uriFor("chapter"))!,
+                undefined,
+            );
+
+            expect(report).to.eql({
+                kind: DocumentDiagnosticReportKind.Full,
+                resultId: resultId,
+                items: [],
+            });
+        });
+
+        it("should not need a refresh if no diagnostics changed", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.checkNeedsRefresh();
+
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+
+            expect(cache.checkNeedsRefresh()).to.be.false;
+        });
+    });
+
+    describe("Stale Reports", () => {
+        it("should not return a report for a scene that was edited", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+
+            cache.markStale(uriFor("chapter"));
+
+            expect(cache.getReport(uriFor("chapter"))).to.be.undefined;
+        });
+
+        it("should need a refresh once a report is stale", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.checkNeedsRefresh();
+
+            cache.markStale(uriFor("chapter"));
+
+            expect(cache.checkNeedsRefresh()).to.be.true;
+        });
+
+        it("should return a stale scene's report once it's re-generated", () => {
+            const cache = new DiagnosticReportCache();
+            const resultId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+            cache.markStale(uriFor("chapter"));
+
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+
+            expect(cache.getReport(uriFor("chapter"))?.resultId).to.equal(
+                resultId,
+            );
+        });
+
+        it("should mark only the reports of scenes that depend on a changed scene as stale", () => {
+            const index = new Index();
+            const graph = new DependencyGraph();
+            const cache = new DiagnosticReportCache();
+            const scenes: Record<string, string> = {
+                startup: '*create strength 5\n*create name "Bob"\n',
+                fight: "*set strength +1\n",
+                talk: "Hello ${name}.\n",
+            };
+            for (const [scene, text] of Object.entries(scenes)) {
+                indexScene(index, scene, text);
+            }
+            for (const scene of Object.keys(scenes)) {
+                graph.updateDocument(uriFor(scene), index);
+                cache.update(uriFor(scene), []);
+            }
+
+            indexScene(index, "startup", "*create strength 5\n");
+            const changed = graph.updateDocument(uriFor("startup"), index);
+            for (const uri of graph.findDependentDocuments(changed)) {
+                cache.markStale(uri);
+            }
+
+            expect(cache.getReport(uriFor("talk"))).to.be.undefined;
+            expect(cache.getReport(uriFor("fight"))).to.not.be.undefined;
+            expect(cache.getReport(uriFor("startup"))).to.not.be.undefined;
+        });
+    });
+
+    describe("Deleted Scenes", () => {
+        it("should drop a deleted scene's report", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.update(uriFor("other"), []);
+
+            cache.remove(uriFor("chapter"));
+
+            expect(cache.getReport(uriFor("chapter"))).to.be.undefined;
+            expect(cache.getUris()).to.eql([uriFor("other")]);
+        });
+
+        it("should list a deleted scene once so the client can clear its diagnostics", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.remove(uriFor("chapter"));
+
+            const firstRemoved = cache.takeRemovedUris();
+            const secondRemoved = cache.takeRemovedUris();
+
+            expect(firstRemoved).to.eql([uriFor("chapter")]);
+            expect(secondRemoved).to.be.empty;
+        });
+
+        it("should need a refresh once a scene is deleted", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.checkNeedsRefresh();
+
+            cache.remove(uriFor("chapter"));
+
+            expect(cache.checkNeedsRefresh()).to.be.true;
+        });
+
+        it("should not list a deleted scene that was re-created", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), [createDiagnostic("Oops")]);
+            cache.remove(uriFor("chapter"));
+
+            cache.update(uriFor("chapter"), []);
+
+            expect(cache.takeRemovedUris()).to.be.empty;
+        });
+
+        it("should not list a deleted scene the client never had diagnostics for", () => {
+            const cache = new DiagnosticReportCache();
+
+            cache.remove(uriFor("chapter"));
+
+            expect(cache.takeRemovedUris()).to.be.empty;
+        });
+
+        it("should give a re-created scene a new result ID", () => {
+            const cache = new DiagnosticReportCache();
+            const oldId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+            cache.remove(uriFor("chapter"));
+
+            const newId = cache.update(uriFor("chapter"), [
+                createDiagnostic("Oops"),
+            ]);
+
+            expect(newId).to.not.equal(oldId);
+        });
+
+        it("should not keep a deleted scene's report stale", () => {
+            const cache = new DiagnosticReportCache();
+            cache.update(uriFor("chapter"), []);
+            cache.markStale(uriFor("chapter"));
+            cache.remove(uriFor("chapter"));
+
+            cache.update(uriFor("chapter"), []);
+
+            expect(cache.getReport(uriFor("chapter"))).to.not.be.undefined;
+        });
+    });
+});
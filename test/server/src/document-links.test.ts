@@ -0,0 +1,139 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { generateDocumentLinks } from "../../../server/src/common/document-links";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+function createDocument(scene: string, text: string): TextDocument {
+    return TextDocument.create(
+        `file:///c:/${scene}.txt`,
+        "ChoiceScript",
+        0,
+        text,
+    );
+}
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    index.setPlatformScenePath("/workspace/scenes");
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            createDocument(scene, text),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+function fileUri(...parts: string[]): string {
+    return pathToFileURL(path.join(...parts)).toString();
+}
+
+describe("Document Links", () => {
+    it("should link images to the scene directory if the image directory isn't known", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n",
+            chapter: "*image cover.png\n",
+        });
+
+        const links = generateDocumentLinks("file:///c:/chapter.txt", index);
+
+        expect(links).to.eql([
+            {
+                range: {
+                    start: { line: 0, character: 7 },
+                    end: { line: 0, character: 16 },
+                },
+                target: fileUri("/workspace/scenes", "cover.png"),
+            },
+        ]);
+    });
+
+    it("should link images and sounds to the image directory", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n",
+            chapter: "*kindle_image cover.png\n*sound ding.mp3\n",
+        });
+        index.setPlatformImagePath("/workspace/media");
+
+        const links = generateDocumentLinks("file:///c:/chapter.txt", index);
+
+        expect(links.map((link) => link.target)).to.eql([
+            fileUri("/workspace/media", "cover.png"),
+            fileUri("/workspace/media", "ding.mp3"),
+        ]);
+    });
+
+    it("should link remote images to their URL", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n",
+            chapter: "*text_image https://example.com/cover.png\n",
+        });
+
+        const links = generateDocumentLinks("file:///c:/chapter.txt", index);
+
+        expect(links[0].target).to.equal("https://example.com/cover.png");
+    });
+
+    it("should link scene targets of flow control commands", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n",
+            chapter: "*goto_scene ending\n*gosub_scene shop buy\n",
+        });
+
+        const links = generateDocumentLinks("file:///c:/chapter.txt", index);
+
+        expect(links).to.eql([
+            {
+                range: {
+                    start: { line: 0, character: 12 },
+                    end: { line: 0, character: 18 },
+                },
+                target: "file:///c:/ending.txt",
+            },
+            {
+                range: {
+                    start: { line: 1, character: 13 },
+                    end: { line: 1, character: 17 },
+                },
+                target: "file:///c:/shop.txt",
+            },
+        ]);
+    });
+
+    it("should not link computed scene names", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n",
+            chapter: "*goto_scene {next}\n",
+        });
+
+        const links = generateDocumentLinks("file:///c:/chapter.txt", index);
+
+        expect(links).to.be.empty;
+    });
+
+    it("should link scene list entries in the startup file", () => {
+        const index = createIndex({
+            startup: "*scene_list\n  startup\n  chapter\n",
+        });
+
+        const links = generateDocumentLinks("file:///c:/startup.txt", index);
+
+        expect(links.map((link) => link.target)).to.eql([
+            "file:///c:/startup.txt",
+            "file:///c:/chapter.txt",
+        ]);
+        expect(links[1].range).to.eql({
+            start: { line: 2, character: 2 },
+            end: { line: 2, character: 9 },
+        });
+    });
+});
@@ -0,0 +1,178 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { generateFlowGraph } from "../../../server/src/common/flow-graph";
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            TextDocument.create(
+                `file:///c:/${scene}.txt`,
+                "ChoiceScript",
+                0,
+                text,
+            ),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+describe("Flow Graph", () => {
+    it("should create nodes for scenes and labels", () => {
+        const index = createIndex({
+            startup: "*scene_list\n\tstartup\n\tend\n*label one\n*finish\n",
+            end: "*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(graph.nodes.map((n) => n.id)).to.have.members([
+            "startup",
+            "startup#one",
+            "end",
+        ]);
+    });
+
+    it("should link labels to the scene's flow control commands", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\n*goto two\n*label one\n*finish\n*label two\n*gosub one\n*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(graph.edges).to.deep.include({
+            from: "startup",
+            to: "startup#two",
+            command: "goto",
+            location: graph.edges.find((e) => e.command == "goto")!.location,
+        });
+        expect(
+            graph.edges.some(
+                (e) =>
+                    e.from == "startup#two" &&
+                    e.to == "startup#one" &&
+                    e.command == "gosub",
+            ),
+        ).to.be.true;
+    });
+
+    it("should link scenes through *goto_scene and *finish", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\n\tmiddle\n\tend\n*goto_scene end start\n",
+            middle: "*finish\n",
+            end: "*label start\n*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(
+            graph.edges.some(
+                (e) =>
+                    e.from == "startup" &&
+                    e.to == "end#start" &&
+                    e.command == "goto_scene",
+            ),
+        ).to.be.true;
+        expect(
+            graph.edges.some(
+                (e) =>
+                    e.from == "middle" &&
+                    e.to == "end" &&
+                    e.command == "finish",
+            ),
+        ).to.be.true;
+    });
+
+    it("should run into a label unless the game can't get past the line above it", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\nText\n*label one\n*goto three\n*label two\n*label three\n*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+        const fallthroughs = graph.edges
+            .filter((e) => e.command == "fallthrough")
+            .map((e) => `${e.from}->${e.to}`);
+
+        expect(fallthroughs).to.have.members([
+            "startup->startup#one",
+            "startup#two->startup#three",
+        ]);
+    });
+
+    it("should run into a label after an indented flow control command", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\n*if true\n\t*goto one\n*label one\n*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(
+            graph.edges.some(
+                (e) => e.command == "fallthrough" && e.to == "startup#one",
+            ),
+        ).to.be.true;
+    });
+
+    it("should flag dead-end scenes", () => {
+        const index = createIndex({
+            startup: "*scene_list\n\tstartup\n\ttrap\n*finish\n",
+            trap: "*label loop\n*goto loop\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(graph.nodes.find((n) => n.id == "trap")!.deadEnd).to.be.true;
+        expect(graph.nodes.find((n) => n.id == "startup")!.deadEnd).to.be.false;
+    });
+
+    it("should link scenes through *goto_random_scene", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\n\tone\n\ttwo\n*goto_random_scene\n\tone\n\t*allow_reuse two\n",
+            one: "*ending\n",
+            two: "*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+        const randomEdges = graph.edges
+            .filter((e) => e.command == "goto_random_scene")
+            .map((e) => `${e.from}->${e.to}`);
+
+        expect(randomEdges).to.have.members(["startup->one", "startup->two"]);
+        expect(graph.nodes.find((n) => n.id == "startup")!.deadEnd).to.be.false;
+        expect(graph.nodes.find((n) => n.id == "one")!.unreachable).to.be.false;
+        expect(graph.nodes.find((n) => n.id == "two")!.unreachable).to.be.false;
+    });
+
+    it("should flag unreachable labels and scenes", () => {
+        const index = createIndex({
+            startup:
+                "*scene_list\n\tstartup\n\tend\n*goto_scene end\n*label orphan\n*ending\n",
+            end: "*ending\n",
+            unused: "*ending\n",
+        });
+
+        const graph = generateFlowGraph(index);
+
+        expect(graph.nodes.find((n) => n.id == "end")!.unreachable).to.be.false;
+        expect(graph.nodes.find((n) => n.id == "startup#orphan")!.unreachable)
+            .to.be.true;
+        expect(graph.nodes.find((n) => n.id == "unused")!.unreachable).to.be
+            .true;
+        expect(graph.nodes.find((n) => n.id == "unused")!.inSceneList).to.be
+            .false;
+    });
+});
@@ -0,0 +1,113 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { FoldingRangeKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { generateFoldingRanges } from "../../../server/src/common/folding";
+
+function createDocument(text: string): TextDocument {
+    return TextDocument.create("file:///c:/scene.txt", "ChoiceScript", 0, text);
+}
+
+function foldedLines(text: string) {
+    return generateFoldingRanges(createDocument(text)).map((r) => [
+        r.startLine,
+        r.endLine,
+    ]);
+}
+
+describe("Folding Ranges", () => {
+    it("should fold a choice and its options", () => {
+        const text =
+            "*choice\n  #One\n    Text\n    *finish\n\n  #Two\n    *finish\n\nAfter\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([
+            [0, 6],
+            [1, 3],
+            [5, 6],
+        ]);
+    });
+
+    it("should fold a fake choice", () => {
+        const text = "*fake_choice\n  #One\n    Text\n  #Two\nAfter\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([
+            [0, 3],
+            [1, 2],
+        ]);
+    });
+
+    it("should fold each branch of an *if block", () => {
+        const text =
+            "*if x\n  Yes\n  More\n*elseif y\n  Maybe\n*else\n  No\n\nAfter\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([
+            [0, 2],
+            [3, 4],
+            [5, 6],
+        ]);
+    });
+
+    it("should fold *stat_chart blocks", () => {
+        const text = "*stat_chart\n  percent str\n  text name\nAfter\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([[0, 2]]);
+    });
+
+    it("should fold achievement definitions", () => {
+        const text =
+            "*achievement codename true 10 Title\n  Pre-earned.\n  Post-earned.\n*finish\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([[0, 2]]);
+    });
+
+    it("should fold runs of comments", () => {
+        const text =
+            "*comment one\n*comment two\n*comment three\nText\n*comment four\n";
+
+        const ranges = generateFoldingRanges(createDocument(text));
+
+        expect(ranges.length).to.equal(1);
+        expect(ranges[0].startLine).to.equal(0);
+        expect(ranges[0].endLine).to.equal(2);
+        expect(ranges[0].kind).to.equal(FoldingRangeKind.Comment);
+    });
+
+    it("should fold from each label to the next", () => {
+        const text = "*label one\nText\n*return\n\n*label two\nMore\n*finish\n";
+
+        const ranges = generateFoldingRanges(createDocument(text));
+
+        expect(ranges.map((r) => [r.startLine, r.endLine])).to.eql([
+            [0, 2],
+            [4, 6],
+        ]);
+        expect(ranges[0].kind).to.equal(FoldingRangeKind.Region);
+    });
+
+    it("should fold blocks inside of options", () => {
+        const text =
+            "*choice\n  #One\n    *if x\n      Yes\n    *finish\n  #Two\n    *finish\n";
+
+        const ranges = foldedLines(text);
+
+        expect(ranges).to.eql([
+            [0, 6],
+            [1, 4],
+            [2, 3],
+            [5, 6],
+        ]);
+    });
+});
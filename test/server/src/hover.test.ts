@@ -0,0 +1,184 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { MarkupContent, Position } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import { generateHover } from "../../../server/src/common/hover";
+
+const startupUri = "file:///c:/startup.txt";
+const sceneUri = "file:///c:/scene.txt";
+
+function createIndex(startupText: string, sceneText: string): Index {
+    const index = new Index();
+    updateProjectIndex(
+        TextDocument.create(startupUri, "ChoiceScript", 0, startupText),
+        true,
+        false,
+        index,
+    );
+    updateProjectIndex(
+        TextDocument.create(sceneUri, "ChoiceScript", 0, sceneText),
+        false,
+        false,
+        index,
+    );
+    return index;
+}
+
+function hoverText(
+    uri: string,
+    position: Position,
+    index: Index,
+): string | undefined {
+    const hover = generateHover(uri, position, index);
+    return (hover?.contents as MarkupContent | undefined)?.value;
+}
+
+describe("Hover", () => {
+    describe("Variables", () => {
+        it("should describe a global variable's creation and initial value", () => {
+            const index = createIndex(
+                "*create strength 50\n",
+                "Your strength is ${strength}.\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 20), index);
+
+            expect(text).to.include("**strength** (global variable)");
+            expect(text).to.include("`*create` in startup.txt, line 1");
+            expect(text).to.include("Initial value: `50`");
+        });
+
+        it("should count references to a global variable", () => {
+            const index = createIndex(
+                "*create strength 50\n",
+                "${strength}\n*set strength +1\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 4), index);
+
+            expect(text).to.include("2 references");
+        });
+
+        it("should describe a temporary variable's creation and initial value", () => {
+            const index = createIndex(
+                "*create strength 50\n",
+                '*temp name "Bob"\nHi ${name}.\n',
+            );
+
+            const text = hoverText(sceneUri, Position.create(1, 7), index);
+
+            expect(text).to.include("**name** (temporary variable)");
+            expect(text).to.include("`*temp` in scene.txt, line 1");
+            expect(text).to.include('Initial value: `"Bob"`');
+            expect(text).to.include("1 reference");
+        });
+
+        it("should describe a variable when hovering over its creation", () => {
+            const index = createIndex("*create strength 50\n", "");
+
+            const text = hoverText(startupUri, Position.create(0, 10), index);
+
+            expect(text).to.include("**strength** (global variable)");
+            expect(text).to.include("No references");
+        });
+    });
+
+    describe("Labels", () => {
+        it("should describe a label and its references", () => {
+            const index = createIndex(
+                "",
+                "*goto ending\n*label ending\nThe end.\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 8), index);
+
+            expect(text).to.include("**ending** (label)");
+            expect(text).to.include("scene.txt, line 2");
+            expect(text).to.include("1 reference");
+        });
+    });
+
+    describe("Achievements", () => {
+        it("should describe an achievement", () => {
+            const index = createIndex(
+                "*achievement codename true 10 Title\n\tPre-earned\n\tPost-earned\n",
+                "*achieve codename\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 10), index);
+
+            expect(text).to.include("**codename** (achievement)");
+            expect(text).to.include('"Title", 10 points');
+            expect(text).to.include("1 reference");
+        });
+    });
+
+    describe("Scenes", () => {
+        it("should describe a scene referenced by a flow control command", () => {
+            const index = createIndex(
+                "*scene_list\n\tstartup\n\tscene\n",
+                "Some words here.\n*goto_scene scene\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(1, 14), index);
+
+            expect(text).to.include("**scene** (scene)");
+            expect(text).to.include("words");
+            expect(text).to.include("1 reference");
+        });
+
+        it("should note a scene that isn't in the scene list", () => {
+            const index = createIndex(
+                "*scene_list\n\tstartup\n",
+                "*goto_scene other\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 14), index);
+
+            expect(text).to.include("Scene file not indexed");
+            expect(text).to.include("Not in the `*scene_list`");
+        });
+    });
+
+    describe("Images", () => {
+        it("should preview an image", () => {
+            const index = createIndex("", "*image cover.png\n");
+            index.setPlatformImagePath("/workspace/images");
+            const imageUri = pathToFileURL(
+                path.join("/workspace/images", "cover.png"),
+            ).toString();
+
+            const text = hoverText(sceneUri, Position.create(0, 9), index);
+
+            expect(text).to.equal(`![cover.png](<${imageUri}>)`);
+        });
+
+        it("should preview a remote image", () => {
+            const index = createIndex(
+                "",
+                "*text_image https://example.com/cover.png\n",
+            );
+
+            const text = hoverText(sceneUri, Position.create(0, 15), index);
+
+            expect(text).to.equal(
+                "![https://example.com/cover.png](<https://example.com/cover.png>)",
+            );
+        });
+    });
+
+    it("should return undefined when not over a symbol", () => {
+        const index = createIndex("*create strength 50\n", "Plain text.\n");
+
+        const hover = generateHover(sceneUri, Position.create(0, 3), index);
+
+        expect(hover).to.be.undefined;
+    });
+});
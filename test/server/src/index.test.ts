@@ -4,9 +4,11 @@ import { Substitute } from "@fluffy-spoon/substitute";
 import { Location, Range } from "vscode-languageserver/node";
 
 import { Index, type FlowControlEvent } from "../../../server/src/common/index";
+import { ExpressionEvalType } from "../../../server/src/common/tokens";
 
 const documentUri = "file:///faker.txt";
 const otherSceneUri = "file:///other-scene.txt";
+const startupUri = "file:///startup.txt";
 
 describe("Project Index", () => {
     describe("Index", () => {
@@ -443,6 +445,102 @@ describe("Project Index", () => {
             expect(references[1].range.end).to.eql({ line: 9, character: 7 });
         });
 
+        describe("Variable Types", () => {
+            it("should get a temporary variable's type from its scene", () => {
+                const index = new Index();
+                index.setLocalVariables(
+                    documentUri,
+                    new Map([
+                        [
+                            "variable",
+                            [
+                                Location.create(
+                                    documentUri,
+                                    Range.create(1, 0, 1, 5),
+                                ),
+                            ],
+                        ],
+                    ]),
+                );
+                index.setVariableTypes(
+                    documentUri,
+                    new Map([["variable", ExpressionEvalType.String]]),
+                );
+                index.setVariableTypes(
+                    otherSceneUri,
+                    new Map([["variable", ExpressionEvalType.Number]]),
+                );
+
+                const result = index.getVariableType("VARIABLE", documentUri);
+
+                expect(result).to.equal(ExpressionEvalType.String);
+            });
+
+            it("should get a global variable's type from the startup file", () => {
+                const index = new Index();
+                index.setGlobalVariables(
+                    startupUri,
+                    new Map([
+                        [
+                            "variable",
+                            Location.create(
+                                startupUri,
+                                Range.create(1, 0, 1, 5),
+                            ),
+                        ],
+                    ]),
+                );
+                index.setVariableTypes(
+                    startupUri,
+                    new Map([["variable", ExpressionEvalType.Boolean]]),
+                );
+                index.setVariableTypes(
+                    otherSceneUri,
+                    new Map([["variable", ExpressionEvalType.Number]]),
+                );
+
+                const result = index.getVariableType("variable", documentUri);
+
+                expect(result).to.equal(ExpressionEvalType.Boolean);
+            });
+
+            it("should get a global variable's type from other scenes if the startup file doesn't know it", () => {
+                const index = new Index();
+                index.setGlobalVariables(
+                    startupUri,
+                    new Map([
+                        [
+                            "variable",
+                            Location.create(
+                                startupUri,
+                                Range.create(1, 0, 1, 5),
+                            ),
+                        ],
+                    ]),
+                );
+                index.setVariableTypes(
+                    otherSceneUri,
+                    new Map([["variable", ExpressionEvalType.Number]]),
+                );
+
+                const result = index.getVariableType("variable", documentUri);
+
+                expect(result).to.equal(ExpressionEvalType.Number);
+            });
+
+            it("should not get a type for variables that aren't created", () => {
+                const index = new Index();
+                index.setVariableTypes(
+                    otherSceneUri,
+                    new Map([["variable", ExpressionEvalType.Number]]),
+                );
+
+                const result = index.getVariableType("variable", documentUri);
+
+                expect(result).to.be.undefined;
+            });
+        });
+
         describe("Indexed Scenes", () => {
             // Since indexed scenes come from so many sources, group them
             it("should include word count URIs in indexed scenes", () => {
@@ -542,6 +640,69 @@ describe("Project Index", () => {
             });
         });
 
+        describe("Scene References", () => {
+            it("should find references to a scene in every document", () => {
+                const index = new Index();
+                const sceneLocation = Location.create(
+                    documentUri,
+                    Range.create(1, 12, 1, 17),
+                );
+                const otherSceneLocation = Location.create(
+                    otherSceneUri,
+                    Range.create(2, 12, 2, 17),
+                );
+                const events: FlowControlEvent[] = [
+                    {
+                        command: "goto_scene",
+                        commandLocation: Substitute.for<Location>(),
+                        label: "",
+                        scene: "chapter",
+                        sceneLocation: sceneLocation,
+                    },
+                    {
+                        command: "goto_scene",
+                        commandLocation: Substitute.for<Location>(),
+                        label: "",
+                        scene: "ending",
+                        sceneLocation: Substitute.for<Location>(),
+                    },
+                ];
+                index.setFlowControlEvents(documentUri, events);
+                index.setFlowControlEvents(otherSceneUri, [
+                    {
+                        command: "gosub_scene",
+                        commandLocation: Substitute.for<Location>(),
+                        label: "",
+                        scene: "chapter",
+                        sceneLocation: otherSceneLocation,
+                    },
+                ]);
+
+                const references = index.getSceneReferences("chapter");
+
+                expect(references).to.eql([sceneLocation, otherSceneLocation]);
+            });
+
+            it("should clear the scene list's locations when startup is removed", () => {
+                const index = new Index();
+                index.setSceneListLocations(
+                    new Map([
+                        [
+                            "chapter",
+                            Location.create(
+                                startupUri,
+                                Range.create(1, 1, 1, 8),
+                            ),
+                        ],
+                    ]),
+                );
+
+                index.removeDocument(startupUri);
+
+                expect(index.getSceneListLocations().size).to.equal(0);
+            });
+        });
+
         describe("URIs in the Project", () => {
             // Since URIs come from so many sources, group them
             it("should include word count URIs in captured URIs", () => {
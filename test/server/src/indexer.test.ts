@@ -8,12 +8,14 @@ import { TextDocument } from "vscode-languageserver-textdocument";
 
 import { DiagnosticCodes } from "../../../server/src/common/diagnostics";
 import {
+    Index,
     ProjectIndex,
     LabelIndex,
     FlowControlEvent,
     DocumentScopes,
 } from "../../../server/src/common/index";
 import { updateProjectIndex } from "../../../server/src/common/indexer";
+import { ExpressionEvalType } from "../../../server/src/common/tokens";
 
 const fakeDocumentUri = "file:///startup.txt";
 
@@ -34,6 +36,7 @@ function createIndex(): SubstituteOf<ProjectIndex> {
     let fakeIndex = Substitute.for<ProjectIndex>();
     fakeIndex.getIndexedScenes().returns([]);
     fakeIndex.getAllReferencedScenes().returns([]);
+    fakeIndex.getGlobalVariableType(Arg.all()).returns(undefined);
     return fakeIndex;
 }
 
@@ -153,6 +156,90 @@ describe("Indexer", () => {
             // If things worked as expected, we won't get s1 as a subroutine-local var
             expect([...received[0].keys()]).to.eql([]);
         });
+        it("should index the initial values of created variables", () => {
+            let fakeDocument = createDocument(
+                '*create variable 3\n*create other "text value"',
+            );
+            let received: Array<Map<string, string>> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setVariableInitialValues(Arg.all())
+                .mimicks((uri: string, index: Map<string, string>) => {
+                    received.push(index);
+                });
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+
+            expect(received[0].get("variable")).to.equal("3");
+            expect(received[0].get("other")).to.equal('"text value"');
+        });
+
+        it("should only index the first initial value of a local variable created multiple times", () => {
+            let fakeDocument = createDocument(
+                "*temp variable 3\n*temp variable true",
+            );
+            let received: Array<Map<string, string>> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setVariableInitialValues(Arg.all())
+                .mimicks((uri: string, index: Map<string, string>) => {
+                    received.push(index);
+                });
+
+            updateProjectIndex(fakeDocument, false, false, fakeIndex);
+
+            expect(received[0].get("variable")).to.equal("3");
+        });
+
+        it("should index the types of values variables are given", () => {
+            let fakeDocument = createDocument(
+                '*create strength 50\n*create name "Ada"\n*create flag false\n*set unknown other_var\n*set later +2',
+            );
+            let received: Array<Map<string, ExpressionEvalType>> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setVariableTypes(Arg.all())
+                .mimicks(
+                    (uri: string, index: Map<string, ExpressionEvalType>) => {
+                        received.push(index);
+                    },
+                );
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+
+            expect(received[0].get("strength")).to.equal(
+                ExpressionEvalType.Number,
+            );
+            expect(received[0].get("name")).to.equal(ExpressionEvalType.String);
+            expect(received[0].get("flag")).to.equal(
+                ExpressionEvalType.Boolean,
+            );
+            expect(received[0].has("unknown")).to.be.false;
+            expect(received[0].get("later")).to.equal(
+                ExpressionEvalType.Number,
+            );
+        });
+
+        it("should only index the first type a variable is given", () => {
+            let fakeDocument = createDocument(
+                '*temp variable 3\n*set variable "text"',
+            );
+            let received: Array<Map<string, ExpressionEvalType>> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setVariableTypes(Arg.all())
+                .mimicks(
+                    (uri: string, index: Map<string, ExpressionEvalType>) => {
+                        received.push(index);
+                    },
+                );
+
+            updateProjectIndex(fakeDocument, false, false, fakeIndex);
+
+            expect(received[0].get("variable")).to.equal(
+                ExpressionEvalType.Number,
+            );
+        });
     });
 
     describe("Symbol Command Indexing", () => {
@@ -572,6 +659,43 @@ describe("Indexer", () => {
                 receivedLabels[0].get("label_two")?.scope?.end.line,
             ).to.equal(55);
         });
+
+        it("should add a label's *params", () => {
+            let fakeDocument = createDocument(
+                "*label label_name\n*params one two\n*return",
+            );
+            let receivedLabels: LabelIndex[] = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setLabels(Arg.any(), Arg.any())
+                .mimicks((uri: string, index: LabelIndex) => {
+                    receivedLabels.push(index);
+                });
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+
+            expect(receivedLabels[0].get("label_name")?.params).to.eql([
+                "one",
+                "two",
+            ]);
+        });
+
+        it("should index a scene's *params before its first label", () => {
+            let fakeDocument = createDocument(
+                "*params one\n*label label_name\n*params two",
+            );
+            let receivedParams: (string[] | undefined)[] = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setSceneParams(Arg.any(), Arg.any())
+                .mimicks((uri: string, params: string[] | undefined) => {
+                    receivedParams.push(params);
+                });
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+
+            expect(receivedParams).to.eql([["one"]]);
+        });
     });
 
     describe("Variable Scoping", () => {
@@ -789,6 +913,30 @@ describe("Indexer", () => {
         });
     });
 
+    describe("Sounds", () => {
+        it("should capture referenced sounds", () => {
+            let fakeDocument = createDocument(
+                "*sound ding.mp3\nText\n*sound ding.mp3",
+            );
+            let received: Map<string, Location[]>[] = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setSounds(Arg.all())
+                .mimicks((uri: string, index: Map<string, Location[]>) => {
+                    received.push(index);
+                });
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+            const ding = received[0].get("ding.mp3") ?? [];
+
+            expect(received.length).to.eql(1);
+            expect(Array.from(received[0].keys())).to.eql(["ding.mp3"]);
+            expect(ding.length).to.eql(2);
+            expect(ding[0].range.start.line).to.eql(7);
+            expect(ding[1].range.start.line).to.eql(28);
+        });
+    });
+
     describe("Script commands", () => {
         it("should capture *script commands", () => {
             let fakeDocument = createDocument(
@@ -903,6 +1051,113 @@ describe("Indexer", () => {
         });
     });
 
+    describe("Variable Type Errors", () => {
+        it("should flag expressions that don't match a variable's type", () => {
+            let fakeDocument = createDocument(
+                '*create name "Ada"\n*if name > 3\n  Text',
+            );
+            let received: Array<Diagnostic[]> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setParseErrors(Arg.all())
+                .mimicks((uri: string, errors: Diagnostic[]) => {
+                    received.push(errors);
+                });
+
+            updateProjectIndex(fakeDocument, true, false, fakeIndex);
+
+            expect(received[0].length).to.equal(1);
+            expect(received[0][0].code).to.equal(
+                DiagnosticCodes.NotStringCompatible,
+            );
+            expect(received[0][0].range.start.line).to.equal(28);
+            expect(received[0][0].range.end.line).to.equal(29);
+        });
+
+        it("should flag setting a temporary variable to a value of a different type", () => {
+            let fakeDocument = createDocument(
+                '*temp strength 50\n*set strength "high"',
+                "file:///scene.txt",
+            );
+            let received: Array<Diagnostic[]> = [];
+            let fakeIndex = createIndex();
+            fakeIndex
+                .setParseErrors(Arg.all())
+                .mimicks((uri: string, errors: Diagnostic[]) => {
+                    received.push(errors);
+                });
+
+            updateProjectIndex(fakeDocument, false, false, fakeIndex);
+
+            expect(received[0].length).to.equal(1);
+            expect(received[0][0].code).to.equal(
+                DiagnosticCodes.VariableTypeMismatch,
+            );
+        });
+
+        it("should check global variables against their types from the startup file", () => {
+            let index = new Index();
+            updateProjectIndex(
+                TextDocument.create(
+                    "file:///startup.txt",
+                    "ChoiceScript",
+                    0,
+                    "*create strength 50",
+                ),
+                true,
+                false,
+                index,
+            );
+
+            updateProjectIndex(
+                TextDocument.create(
+                    "file:///scene.txt",
+                    "ChoiceScript",
+                    0,
+                    '*set strength "high"',
+                ),
+                false,
+                false,
+                index,
+            );
+
+            const errors = index.getParseErrors("file:///scene.txt");
+            expect(errors.length).to.equal(1);
+            expect(errors[0].code).to.equal(
+                DiagnosticCodes.VariableTypeMismatch,
+            );
+        });
+
+        it("should use a temporary variable's type over a global variable's", () => {
+            let index = new Index();
+            updateProjectIndex(
+                TextDocument.create(
+                    "file:///startup.txt",
+                    "ChoiceScript",
+                    0,
+                    "*create strength 50",
+                ),
+                true,
+                false,
+                index,
+            );
+
+            updateProjectIndex(
+                TextDocument.create(
+                    "file:///scene.txt",
+                    "ChoiceScript",
+                    0,
+                    '*temp strength "low"\n*set strength "high"',
+                ),
+                false,
+                false,
+                index,
+            );
+
+            expect(index.getParseErrors("file:///scene.txt")).to.be.empty;
+        });
+    });
+
     describe("Word Counts", () => {
         it("should count words in a document", () => {
             let fakeDocument = createDocument(
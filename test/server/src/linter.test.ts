@@ -0,0 +1,240 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+
+import {
+    FileSystemProvider,
+    FileSystemService,
+} from "../../../server/src/common/file-system-service";
+import {
+    SceneDiagnostics,
+    countDiagnostics,
+    formatLintResults,
+    lintProject,
+} from "../../../server/src/common/linter";
+import { ValidationSettings } from "../../../server/src/common/validator";
+
+const projectPath = path.resolve("/game/scenes");
+const validationSettings: ValidationSettings = {
+    useCoGStyleGuide: true,
+    allowUnsafeScript: "never",
+};
+
+function createFileSystem(files: Record<string, string>): FileSystemService {
+    const contents: Map<string, string> = new Map(
+        Object.entries(files).map(([name, text]) => [
+            path.join(projectPath, name),
+            text,
+        ]),
+    );
+    const provider: FileSystemProvider = {
+        readFile: async (filePath) => {
+            const text = contents.get(filePath);
+            if (text === undefined) {
+                throw new Error(`No such file ${filePath}`);
+            }
+            return text;
+        },
+        findFiles: async () => [],
+        fileExists: async (filePath) => contents.has(filePath),
+    };
+    return new FileSystemService(provider);
+}
+
+describe("Linter", () => {
+    describe("Project Linting", () => {
+        it("should lint startup and the scenes it references", async () => {
+            const fileSystem = createFileSystem({
+                "startup.txt": "*scene_list\n  startup\n  chapter\n\n*finish\n",
+                "chapter.txt": "Text\n*goto missing\n",
+            });
+
+            const results = await lintProject(
+                projectPath,
+                fileSystem,
+                validationSettings,
+            );
+
+            expect(results.map((r) => path.basename(r.path))).to.eql([
+                "startup.txt",
+                "chapter.txt",
+            ]);
+        });
+
+        it("should follow scenes referenced by other scenes", async () => {
+            const fileSystem = createFileSystem({
+                "startup.txt": "*scene_list\n  startup\n\n*goto_scene one\n",
+                "one.txt": "*goto_scene two\n",
+                "two.txt": "*ending\n",
+            });
+
+            const results = await lintProject(
+                projectPath,
+                fileSystem,
+                validationSettings,
+            );
+
+            expect(results.map((r) => path.basename(r.path))).to.eql([
+                "startup.txt",
+                "one.txt",
+                "two.txt",
+            ]);
+        });
+
+        it("should report errors in scenes", async () => {
+            const fileSystem = createFileSystem({
+                "startup.txt": "*scene_list\n  startup\n  chapter\n\n*finish\n",
+                "chapter.txt": "Text\n*goto missing\n",
+            });
+
+            const results = await lintProject(
+                projectPath,
+                fileSystem,
+                validationSettings,
+            );
+            const chapterResults = results[1].diagnostics;
+
+            expect(chapterResults.length).to.equal(1);
+            expect(chapterResults[0].message).to.equal(
+                "This label wasn't found.",
+            );
+            expect(chapterResults[0].range.start.line).to.equal(1);
+        });
+
+        it("should skip referenced scenes that don't exist", async () => {
+            const fileSystem = createFileSystem({
+                "startup.txt": "*scene_list\n  startup\n  chapter\n\n*finish\n",
+            });
+
+            const results = await lintProject(
+                projectPath,
+                fileSystem,
+                validationSettings,
+            );
+
+            expect(results.map((r) => path.basename(r.path))).to.eql([
+                "startup.txt",
+            ]);
+        });
+
+        it("should throw an error if there's no startup file", async () => {
+            const fileSystem = createFileSystem({
+                "chapter.txt": "Text\n",
+            });
+            let error: Error | undefined;
+
+            try {
+                await lintProject(projectPath, fileSystem, validationSettings);
+            } catch (err) {
+                error = err as Error;
+            }
+
+            expect(error?.message).to.include("No startup.txt file found");
+        });
+    });
+
+    describe("Result Formatting", () => {
+        const results: SceneDiagnostics[] = [
+            {
+                path: path.join(projectPath, "chapter.txt"),
+                diagnostics: [
+                    {
+                        range: {
+                            start: { line: 1, character: 6 },
+                            end: { line: 1, character: 13 },
+                        },
+                        severity: DiagnosticSeverity.Error,
+                        code: "label-not-found",
+                        message: 'Label "missing" wasn\'t found',
+                    },
+                    {
+                        range: {
+                            start: { line: 3, character: 0 },
+                            end: { line: 3, character: 4 },
+                        },
+                        severity: DiagnosticSeverity.Warning,
+                        code: "style-guide",
+                        message: "Style issue",
+                    },
+                ],
+            },
+        ];
+
+        it("should count diagnostics by severity", () => {
+            const errors = countDiagnostics(results, DiagnosticSeverity.Error);
+            const hints = countDiagnostics(results, DiagnosticSeverity.Hint);
+
+            expect(errors).to.equal(1);
+            expect(hints).to.equal(0);
+        });
+
+        it("should format results as text with 1-based positions", () => {
+            const output = formatLintResults(results, "text", projectPath);
+
+            expect(output.split("\n")).to.eql([
+                'chapter.txt:2:7: error: Label "missing" wasn\'t found [label-not-found]',
+                "chapter.txt:4:1: warning: Style issue [style-guide]",
+                "",
+                "1 error, 1 warning",
+            ]);
+        });
+
+        it("should say when there are no problems", () => {
+            const output = formatLintResults(
+                [
+                    {
+                        path: path.join(projectPath, "startup.txt"),
+                        diagnostics: [],
+                    },
+                ],
+                "text",
+                projectPath,
+            );
+
+            expect(output).to.equal("No problems found.");
+        });
+
+        it("should format results as JSON", () => {
+            const output = JSON.parse(
+                formatLintResults(results, "json", projectPath),
+            );
+
+            expect(output[0]).to.eql({
+                file: "chapter.txt",
+                line: 2,
+                column: 7,
+                endLine: 2,
+                endColumn: 14,
+                severity: "error",
+                code: "label-not-found",
+                message: 'Label "missing" wasn\'t found',
+            });
+        });
+
+        it("should format results as SARIF", () => {
+            const output = JSON.parse(
+                formatLintResults(results, "sarif", projectPath),
+            );
+            const run = output.runs[0];
+
+            expect(output.version).to.equal("2.1.0");
+            expect(run.tool.driver.rules).to.eql([
+                { id: "label-not-found" },
+                { id: "style-guide" },
+            ]);
+            expect(run.results[1].level).to.equal("warning");
+            expect(run.results[0].locations[0].physicalLocation).to.eql({
+                artifactLocation: { uri: "chapter.txt" },
+                region: {
+                    startLine: 2,
+                    startColumn: 7,
+                    endLine: 2,
+                    endColumn: 14,
+                },
+            });
+        });
+    });
+});
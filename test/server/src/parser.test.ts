@@ -10,10 +10,14 @@ import {
 import type { TextDocument } from "vscode-languageserver-textdocument";
 
 import { DiagnosticCodes } from "../../../server/src/common/diagnostics";
+import { ExpressionEvalType } from "../../../server/src/common/tokens";
 import {
     type ParserCallbacks,
     type ParsingState,
     parse,
+    parseWithSectionCache,
+    replaySectionCache,
+    SectionCache,
 } from "../../../server/src/common/parser";
 import type {
     FlowControlEvent,
@@ -182,6 +186,45 @@ describe("Parser", () => {
             expect(received[0].spacing).to.equal("  ");
             expect(received[0].line).to.equal("with arguments ");
         });
+
+        it("should callback on the *elseif and *else commands in an *if block", () => {
+            let fakeDocument = createDocument(
+                "*if true\n\tYes\n*elseif false\n\tMaybe\n*else\n\tNo",
+            );
+            let received: Array<CommandLine> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onCommand(Arg.all())
+                .mimicks(
+                    (
+                        prefix: string,
+                        command: string,
+                        spacing: string,
+                        line: string,
+                        l: Location,
+                        state: ParsingState,
+                    ) => {
+                        received.push({
+                            prefix: prefix,
+                            command: command,
+                            spacing: spacing,
+                            line: line,
+                            location: l,
+                        });
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.map((c) => c.command)).to.eql([
+                "if",
+                "elseif",
+                "else",
+            ]);
+            expect(received[1].line).to.equal("false");
+            expect(received[1].location.range.start.line).to.equal(15);
+            expect(received[1].location.range.end.line).to.equal(21);
+        });
     });
 
     describe("Flow Control Command Parsing", () => {
@@ -199,6 +242,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -231,6 +275,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -266,6 +311,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -301,6 +347,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -336,6 +383,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -445,6 +493,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -479,6 +528,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -513,6 +563,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -534,6 +585,48 @@ describe("Parser", () => {
             expect(received[0].sceneLocation?.range.end.line).to.equal(21);
         });
 
+        it("should callback on each scene in a goto_random_scene list", () => {
+            let fakeDocument = createDocument(
+                "*goto_random_scene\n  one\n  *allow_reuse two\n  *if (var) three\nText",
+            );
+            let received: Array<FlowControlEvent> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onFlowControlEvent(Arg.all())
+                .mimicks(
+                    (
+                        command: string,
+                        commandLocation: Location,
+                        label: string,
+                        scene: string,
+                        labelLocation: Location | undefined,
+                        sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push({
+                            command: command,
+                            commandLocation: commandLocation,
+                            label: label,
+                            scene: scene,
+                            labelLocation: labelLocation,
+                            sceneLocation: sceneLocation,
+                        });
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.map((e) => e.scene)).to.eql([
+                "one",
+                "two",
+                "three",
+            ]);
+            expect(received[0].command).to.equal("goto_random_scene");
+            expect(received[1].sceneLocation?.range.start.line).to.equal(40);
+            expect(received[1].sceneLocation?.range.end.line).to.equal(43);
+        });
+
         it("should callback on gosub_scene", () => {
             let fakeDocument = createDocument("*gosub_scene scenename");
             let received: Array<FlowControlEvent> = [];
@@ -548,6 +641,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -583,6 +677,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -617,6 +712,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -651,6 +747,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -688,6 +785,7 @@ describe("Parser", () => {
                         scene: string,
                         labelLocation: Location | undefined,
                         sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
                         state: ParsingState,
                     ) => {
                         received.push({
@@ -748,6 +846,91 @@ describe("Parser", () => {
             expect(received[0].location.range.start.line).to.equal(29);
             expect(received[0].location.range.end.line).to.equal(38);
         });
+
+        it("should callback with the locations of arguments passed to gosub", () => {
+            let fakeDocument = createDocument('*gosub label 1 "two" (3 + 4)');
+            let received: Array<Location[] | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onFlowControlEvent(Arg.all())
+                .mimicks(
+                    (
+                        command: string,
+                        commandLocation: Location,
+                        label: string,
+                        scene: string,
+                        labelLocation: Location | undefined,
+                        sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push(argumentLocations);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(
+                received[0]?.map((l) => [l.range.start.line, l.range.end.line]),
+            ).to.eql([
+                [13, 14],
+                [15, 20],
+                [21, 28],
+            ]);
+        });
+
+        it("should callback with no arguments on a gosub_scene without any", () => {
+            let fakeDocument = createDocument("*gosub_scene scenename label");
+            let received: Array<Location[] | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onFlowControlEvent(Arg.all())
+                .mimicks(
+                    (
+                        command: string,
+                        commandLocation: Location,
+                        label: string,
+                        scene: string,
+                        labelLocation: Location | undefined,
+                        sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push(argumentLocations);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received).to.eql([[]]);
+        });
+
+        it("should not callback with arguments on a goto", () => {
+            let fakeDocument = createDocument("*goto label");
+            let received: Array<Location[] | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onFlowControlEvent(Arg.all())
+                .mimicks(
+                    (
+                        command: string,
+                        commandLocation: Location,
+                        label: string,
+                        scene: string,
+                        labelLocation: Location | undefined,
+                        sceneLocation: Location | undefined,
+                        argumentLocations: Location[] | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push(argumentLocations);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received).to.eql([undefined]);
+        });
     });
 
     describe("Image Parsing", () => {
@@ -904,6 +1087,31 @@ describe("Parser", () => {
         });
     });
 
+    describe("Sound Parsing", () => {
+        it("should callback on a sound", () => {
+            let fakeDocument = createDocument("Line 0\n*sound ding.mp3");
+            let received: [string, Location][] = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onSound(Arg.all())
+                .mimicks(
+                    (
+                        sound: string,
+                        location: Location,
+                        state: ParsingState,
+                    ) => {
+                        received.push([sound, location]);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0][0]).to.equal("ding.mp3");
+            expect(received[0][1].range.start.line).to.equal(14);
+            expect(received[0][1].range.end.line).to.equal(22);
+        });
+    });
     describe("Choice Command Parsing", () => {
         it("should callback on a choice with spaces", () => {
             let fakeDocument = createDocument(
@@ -1355,6 +1563,104 @@ describe("Parser", () => {
             expect(received[0].location.range.start.line).to.equal(29);
             expect(received[0].location.range.end.line).to.equal(37);
         });
+
+        it("should callback on global array creation", () => {
+            let fakeDocument = createDocument("*create_array stats 3 1 2 3");
+            let received: Array<Symbol> = [];
+            let receivedLengths: Array<number | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onGlobalArrayCreate(Arg.all())
+                .mimicks(
+                    (
+                        s: string,
+                        l: Location,
+                        length: number | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push({ text: s, location: l });
+                        receivedLengths.push(length);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("stats");
+            expect(received[0].location.range.start.line).to.equal(14);
+            expect(received[0].location.range.end.line).to.equal(19);
+            expect(receivedLengths).to.eql([3]);
+        });
+
+        it("should callback on local array creation", () => {
+            let fakeDocument = createDocument("*temp_array stats 2 0");
+            let received: Array<Symbol> = [];
+            let receivedLengths: Array<number | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onLocalArrayCreate(Arg.all())
+                .mimicks(
+                    (
+                        s: string,
+                        l: Location,
+                        length: number | undefined,
+                        state: ParsingState,
+                    ) => {
+                        received.push({ text: s, location: l });
+                        receivedLengths.push(length);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("stats");
+            expect(received[0].location.range.start.line).to.equal(12);
+            expect(received[0].location.range.end.line).to.equal(17);
+            expect(receivedLengths).to.eql([2]);
+        });
+
+        it("should not give a length for arrays created with a computed length", () => {
+            let fakeDocument = createDocument("*temp_array stats count 0");
+            let receivedLengths: Array<number | undefined> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onLocalArrayCreate(Arg.all())
+                .mimicks(
+                    (
+                        s: string,
+                        l: Location,
+                        length: number | undefined,
+                        state: ParsingState,
+                    ) => {
+                        receivedLengths.push(length);
+                    },
+                );
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(receivedLengths).to.eql([undefined]);
+        });
+
+        it("should callback on references in array creation", () => {
+            let fakeDocument = createDocument(
+                "*temp_array stats 2 other_var 3",
+            );
+            let received: Array<Symbol> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onVariableReference(Arg.all())
+                .mimicks((s: string, l: Location, state: ParsingState) => {
+                    received.push({ text: s, location: l });
+                });
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("other_var");
+            expect(received[0].location.range.start.line).to.equal(20);
+            expect(received[0].location.range.end.line).to.equal(29);
+        });
     });
 
     describe("Symbol-Manipulating Command Parsing", () => {
@@ -1671,7 +1977,7 @@ describe("Parser", () => {
             expect(received[0].text).to.equal("variable");
         });
 
-        it("should not callback on arrays", () => {
+        it("should callback on variables in array indices", () => {
             let fakeDocument = createDocument("*set variable[other_var] 3");
             let received: Array<Symbol> = [];
             let fakeCallbacks = Substitute.for<ParserCallbacks>();
@@ -1683,10 +1989,49 @@ describe("Parser", () => {
 
             parse(fakeDocument, fakeCallbacks);
 
-            expect(received.length).to.equal(0);
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("other_var");
+            expect(received[0].location.range.start.line).to.equal(14);
+            expect(received[0].location.range.end.line).to.equal(23);
         });
 
-        it("should not callback on 2D array references", () => {
+        it("should callback on array elements with constant indices", () => {
+            let fakeDocument = createDocument("*set variable[2] 3");
+            let received: Array<Symbol> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onVariableReference(Arg.all())
+                .mimicks((s: string, l: Location, state: ParsingState) => {
+                    received.push({ text: s, location: l });
+                });
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("variable_2");
+            expect(received[0].location.range.start.line).to.equal(5);
+            expect(received[0].location.range.end.line).to.equal(16);
+        });
+
+        it("should callback on array references", () => {
+            let fakeDocument = createDocument("*set variable[other_var] 3");
+            let received: Array<Symbol> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onArrayReference(Arg.all())
+                .mimicks((s: string, l: Location, state: ParsingState) => {
+                    received.push({ text: s, location: l });
+                });
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("variable");
+            expect(received[0].location.range.start.line).to.equal(5);
+            expect(received[0].location.range.end.line).to.equal(13);
+        });
+
+        it("should callback on variables in 2D array references", () => {
             let fakeDocument = createDocument(
                 "*set variable[other_var][another_var] final_var",
             );
@@ -1700,8 +2045,11 @@ describe("Parser", () => {
 
             parse(fakeDocument, fakeCallbacks);
 
-            expect(received.length).to.equal(1);
-            expect(received[0].text).to.equal("final_var");
+            expect(received.map((r) => r.text)).to.eql([
+                "other_var",
+                "another_var",
+                "final_var",
+            ]);
         });
     });
 
@@ -2491,7 +2839,7 @@ describe("Parser", () => {
             expect(received).to.eql(["if", "variable", "comment", "parsed"]);
         });
 
-        it("should not callback on array references", () => {
+        it("should callback on variables in array references", () => {
             let fakeDocument = createDocument(
                 '*if variable[other_var] = "other_variable"',
             );
@@ -2505,10 +2853,11 @@ describe("Parser", () => {
 
             parse(fakeDocument, fakeCallbacks);
 
-            expect(received.length).to.equal(0);
+            expect(received.length).to.equal(1);
+            expect(received[0].text).to.equal("other_var");
         });
 
-        it("should not callback on 2D arrays", () => {
+        it("should callback on variables in 2D arrays", () => {
             let fakeDocument = createDocument(
                 '*if variable[other_var][another_var] = "other_variable"',
             );
@@ -2522,7 +2871,10 @@ describe("Parser", () => {
 
             parse(fakeDocument, fakeCallbacks);
 
-            expect(received.length).to.equal(0);
+            expect(received.map((r) => r.text)).to.eql([
+                "other_var",
+                "another_var",
+            ]);
         });
     });
 
@@ -2543,6 +2895,29 @@ describe("Parser", () => {
 
             expect(received).to.eql([["scene-1", "scene-2"]]);
         });
+
+        it("should callback on each scene in the scene list", () => {
+            let fakeDocument = createDocument(
+                "*scene_list\n\tscene-1\n\t$ scene-2\n",
+            );
+            let received: Array<Symbol> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onSceneListEntry(Arg.all())
+                .mimicks((s: string, l: Location, state: ParsingState) => {
+                    received.push({ text: s, location: l });
+                });
+
+            parse(fakeDocument, fakeCallbacks);
+
+            expect(received.length).to.equal(2);
+            expect(received[0].text).to.equal("scene-1");
+            expect(received[0].location.range.start.line).to.equal(13);
+            expect(received[0].location.range.end.line).to.equal(20);
+            expect(received[1].text).to.equal("scene-2");
+            expect(received[1].location.range.start.line).to.equal(24);
+            expect(received[1].location.range.end.line).to.equal(31);
+        });
     });
 
     describe("Stat Chart Command Parsing", () => {
@@ -4483,6 +4858,28 @@ describe("Parser", () => {
                 expect(received[0].range.start.line).to.equal(18);
                 expect(received[0].range.end.line).to.equal(24);
             });
+
+            it("should flag *create_array commands after a *temp command", () => {
+                let fakeDocument = createDocument(
+                    "*temp var1 false\n*create_array arr 2 0",
+                );
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+
+                parse(fakeDocument, fakeCallbacks);
+
+                expect(received.length).to.equal(1);
+                expect(received[0].code).to.equal(
+                    DiagnosticCodes.NoCreateAfterTemp,
+                );
+                expect(received[0].range.start.line).to.equal(18);
+                expect(received[0].range.end.line).to.equal(30);
+            });
         });
 
         describe("Variable Reference Commands", () => {
@@ -5056,6 +5453,124 @@ describe("Parser", () => {
                 expect(received[0].range.start.line).to.equal(24);
                 expect(received[0].range.end.line).to.equal(27);
             });
+
+            it("should flag setting a variable to a value of a different type", () => {
+                let fakeDocument = createDocument('*set strength "high"');
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+                let variableTypes = (variable: string) =>
+                    variable == "strength"
+                        ? ExpressionEvalType.Number
+                        : undefined;
+
+                parse(fakeDocument, fakeCallbacks, variableTypes);
+
+                expect(received.length).to.equal(1);
+                expect(received[0].code).to.equal(
+                    DiagnosticCodes.VariableTypeMismatch,
+                );
+                expect(received[0].message).to.include(
+                    '"strength" holds a number, but this sets it to a string',
+                );
+                expect(received[0].range.start.line).to.equal(14);
+                expect(received[0].range.end.line).to.equal(20);
+            });
+
+            it("should flag changing a boolean variable with fairmath", () => {
+                let fakeDocument = createDocument("*set flag %+10");
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+                let variableTypes = (variable: string) =>
+                    variable == "flag" ? ExpressionEvalType.Boolean : undefined;
+
+                parse(fakeDocument, fakeCallbacks, variableTypes);
+
+                expect(received.length).to.equal(1);
+                expect(received[0].code).to.equal(
+                    DiagnosticCodes.VariableTypeMismatch,
+                );
+                expect(received[0].range.start.line).to.equal(10);
+                expect(received[0].range.end.line).to.equal(14);
+            });
+
+            it("should be good with setting a variable to a value of the same type", () => {
+                let fakeDocument = createDocument("*set strength +10");
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+                let variableTypes = (variable: string) =>
+                    variable == "strength"
+                        ? ExpressionEvalType.Number
+                        : undefined;
+
+                parse(fakeDocument, fakeCallbacks, variableTypes);
+
+                expect(received.length).to.equal(0);
+            });
+
+            it("should flag non-numeric array indices", () => {
+                let fakeDocument = createDocument('*set arr["one"] 3');
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+
+                parse(fakeDocument, fakeCallbacks);
+
+                expect(received.length).to.equal(1);
+                expect(received[0].code).to.equal(
+                    DiagnosticCodes.ArrayIndexNotNumber,
+                );
+                expect(received[0].range.start.line).to.equal(9);
+                expect(received[0].range.end.line).to.equal(14);
+            });
+
+            it("should not flag numeric array indices", () => {
+                let fakeDocument = createDocument("*set arr[count + 1] 3");
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+
+                parse(fakeDocument, fakeCallbacks);
+
+                expect(received.length).to.equal(0);
+            });
+
+            it("should not flag setting a variable whose type isn't known", () => {
+                let fakeDocument = createDocument('*set strength "high"');
+                let received: Array<Diagnostic> = [];
+                let fakeCallbacks = Substitute.for<ParserCallbacks>();
+                fakeCallbacks
+                    .onParseError(Arg.all())
+                    .mimicks((e: Diagnostic) => {
+                        received.push(e);
+                    });
+
+                parse(fakeDocument, fakeCallbacks);
+
+                expect(received.length).to.equal(0);
+            });
         });
 
         describe("Stat Charts", () => {
@@ -6468,4 +6983,309 @@ describe("Parser", () => {
             expect(wordCount).to.equal(9);
         });
     });
+
+    describe("Section Cache", () => {
+        function createLabelCallbacks(
+            received: [string, Location][],
+        ): SubstituteOf<ParserCallbacks> {
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onLabelCreate(Arg.all())
+                .mimicks(
+                    (
+                        symbol: string,
+                        location: Location,
+                        state: ParsingState,
+                    ) => {
+                        received.push([symbol, location]);
+                    },
+                );
+            return fakeCallbacks;
+        }
+
+        it("should callback the same as a full parse", () => {
+            let fakeDocument = createDocument(
+                "Start\n*label one\n*choice\n  #Go\n    *goto two\n*label two\nEnd",
+            );
+            let fullReceived: [string, Location][] = [];
+            let cachedReceived: [string, Location][] = [];
+
+            const fullCount = parse(
+                fakeDocument,
+                createLabelCallbacks(fullReceived),
+            );
+            const cachedCount = parseWithSectionCache(
+                fakeDocument,
+                createLabelCallbacks(cachedReceived),
+                new SectionCache(),
+            );
+
+            expect(cachedReceived).to.eql(fullReceived);
+            expect(cachedCount).to.equal(fullCount);
+        });
+
+        it("should callback the same as a full parse for a scene list just before a label", () => {
+            for (const newline of ["\n", "\r\n"]) {
+                let fakeDocument = createDocument(
+                    [
+                        "*scene_list",
+                        "  startup",
+                        "  last_scene",
+                        "*label one",
+                        "End",
+                    ].join(newline),
+                );
+                let fullReceived: [string, Location][] = [];
+                let cachedReceived: [string, Location][] = [];
+                let fullCallbacks = Substitute.for<ParserCallbacks>();
+                fullCallbacks
+                    .onSceneListEntry(Arg.all())
+                    .mimicks((scene: string, location: Location) => {
+                        fullReceived.push([scene, location]);
+                    });
+                let cachedCallbacks = Substitute.for<ParserCallbacks>();
+                cachedCallbacks
+                    .onSceneListEntry(Arg.all())
+                    .mimicks((scene: string, location: Location) => {
+                        cachedReceived.push([scene, location]);
+                    });
+
+                parse(fakeDocument, fullCallbacks);
+                parseWithSectionCache(
+                    fakeDocument,
+                    cachedCallbacks,
+                    new SectionCache(),
+                );
+
+                expect(fullReceived.map(([scene]) => scene)).to.eql([
+                    "startup",
+                    "last_scene",
+                ]);
+                expect(cachedReceived).to.eql(fullReceived);
+            }
+        });
+
+        it("should re-use unchanged sections", () => {
+            let cache = new SectionCache();
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            const oldSections = Array.from(cache.sections.values());
+
+            parseWithSectionCache(
+                createDocument("Changed start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            const newSections = Array.from(cache.sections.values());
+
+            expect(newSections[0]).to.not.equal(oldSections[0]);
+            expect(newSections[1]).to.equal(oldSections[1]);
+        });
+
+        it("should move the locations from re-used sections", () => {
+            let cache = new SectionCache();
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            let received: [string, Location][] = [];
+
+            parseWithSectionCache(
+                createDocument("Changed start\n*label one\nText"),
+                createLabelCallbacks(received),
+                cache,
+            );
+
+            expect(received.length).to.equal(1);
+            expect(received[0][0]).to.equal("one");
+            expect(received[0][1].range.start.line).to.equal(21);
+            expect(received[0][1].range.end.line).to.equal(24);
+        });
+
+        it("should flag variable type errors the same as a full parse", () => {
+            let fakeDocument = createDocument(
+                '*set strength "high"\n*label one\n*set strength "low"',
+            );
+            let fullReceived: Array<Diagnostic> = [];
+            let cachedReceived: Array<Diagnostic> = [];
+            let fullCallbacks = Substitute.for<ParserCallbacks>();
+            fullCallbacks.onParseError(Arg.all()).mimicks((e: Diagnostic) => {
+                fullReceived.push(e);
+            });
+            let cachedCallbacks = Substitute.for<ParserCallbacks>();
+            cachedCallbacks.onParseError(Arg.all()).mimicks((e: Diagnostic) => {
+                cachedReceived.push(e);
+            });
+            let variableTypes = (variable: string) =>
+                variable == "strength" ? ExpressionEvalType.Number : undefined;
+
+            parse(fakeDocument, fullCallbacks, variableTypes);
+            parseWithSectionCache(
+                fakeDocument,
+                cachedCallbacks,
+                new SectionCache(),
+                variableTypes,
+            );
+
+            expect(fullReceived.length).to.equal(2);
+            expect(cachedReceived).to.eql(fullReceived);
+        });
+
+        it("should re-parse sections whose variables' types have changed", () => {
+            let cache = new SectionCache();
+            parseWithSectionCache(
+                createDocument('Start\n*label one\n*set strength "high"'),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+                () => undefined,
+            );
+            let received: Array<Diagnostic> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks.onParseError(Arg.all()).mimicks((e: Diagnostic) => {
+                received.push(e);
+            });
+
+            parseWithSectionCache(
+                createDocument('Start\n*label one\n*set strength "high"'),
+                fakeCallbacks,
+                cache,
+                (variable: string) =>
+                    variable == "strength"
+                        ? ExpressionEvalType.Number
+                        : undefined,
+            );
+
+            expect(received.length).to.equal(1);
+            expect(received[0].code).to.equal(
+                DiagnosticCodes.VariableTypeMismatch,
+            );
+        });
+
+        it("should not cache errors that callbacks report", () => {
+            let cache = new SectionCache();
+            let received: Array<Diagnostic> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks
+                .onLabelCreate(Arg.all())
+                .mimicks(
+                    (
+                        symbol: string,
+                        location: Location,
+                        state: ParsingState,
+                    ) => {
+                        state.callbacks.onParseError(
+                            Diagnostic.create(location.range, "Label error"),
+                        );
+                    },
+                );
+            fakeCallbacks.onParseError(Arg.all()).mimicks((e: Diagnostic) => {
+                received.push(e);
+            });
+
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                fakeCallbacks,
+                cache,
+            );
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                fakeCallbacks,
+                cache,
+            );
+
+            expect(received.length).to.equal(2);
+        });
+
+        it("should flag *create commands after a *temp command in an earlier section", () => {
+            let fakeDocument = createDocument(
+                "*temp var1 false\n*label one\n*create var2 true",
+            );
+            let received: Array<Diagnostic> = [];
+            let fakeCallbacks = Substitute.for<ParserCallbacks>();
+            fakeCallbacks.onParseError(Arg.all()).mimicks((e: Diagnostic) => {
+                received.push(e);
+            });
+
+            parseWithSectionCache(
+                fakeDocument,
+                fakeCallbacks,
+                new SectionCache(),
+            );
+
+            expect(received.length).to.equal(1);
+            expect(received[0].code).to.equal(
+                DiagnosticCodes.NoCreateAfterTemp,
+            );
+        });
+
+        it("should replay a document's cached callbacks without re-parsing it", () => {
+            let fakeDocument = createDocument(
+                "Start\n*label one\n*choice\n  #Go\n    *goto two\n*label two\nEnd",
+            );
+            let cache = new SectionCache();
+            let fullReceived: [string, Location][] = [];
+            let replayedReceived: [string, Location][] = [];
+            parseWithSectionCache(
+                fakeDocument,
+                createLabelCallbacks(fullReceived),
+                cache,
+            );
+
+            const replayed = replaySectionCache(
+                fakeDocument,
+                createLabelCallbacks(replayedReceived),
+                cache,
+            );
+
+            expect(replayed).to.be.true;
+            expect(replayedReceived).to.eql(fullReceived);
+        });
+
+        it("should move the locations from replayed sections", () => {
+            let cache = new SectionCache();
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            parseWithSectionCache(
+                createDocument("Changed start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            let received: [string, Location][] = [];
+
+            replaySectionCache(
+                createDocument("Changed start\n*label one\nText"),
+                createLabelCallbacks(received),
+                cache,
+            );
+
+            expect(received.length).to.equal(1);
+            expect(received[0][1].range.start.line).to.equal(21);
+        });
+
+        it("should not replay anything if a section isn't in the cache", () => {
+            let cache = new SectionCache();
+            parseWithSectionCache(
+                createDocument("Start\n*label one\nText"),
+                Substitute.for<ParserCallbacks>(),
+                cache,
+            );
+            let received: [string, Location][] = [];
+
+            const replayed = replaySectionCache(
+                createDocument("Start\n*label one\nChanged text"),
+                createLabelCallbacks(received),
+                cache,
+            );
+
+            expect(replayed).to.be.false;
+            expect(received).to.be.empty;
+        });
+    });
 });
@@ -0,0 +1,114 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+
+import { ProjectManager } from "../../../server/src/common/project-manager";
+
+describe("Project Manager", () => {
+    it("should route documents to the project in their directory", () => {
+        const manager = new ProjectManager();
+        const mainGame = manager.addProject("file:///c:/game/scenes");
+        const sideStory = manager.addProject("file:///c:/game/side/scenes");
+
+        expect(
+            manager.getProject("file:///c:/game/scenes/chapter1.txt"),
+        ).to.equal(mainGame);
+        expect(
+            manager.getProject("file:///c:/game/side/scenes/chapter1.txt"),
+        ).to.equal(sideStory);
+    });
+
+    it("should not create a second project for the same directory", () => {
+        const manager = new ProjectManager();
+        const first = manager.addProject("file:///c:/game/scenes");
+        const second = manager.addProject("file:///c:/game/scenes/");
+
+        expect(second).to.equal(first);
+    });
+
+    it("should report whether a document is in a project", () => {
+        const manager = new ProjectManager();
+        manager.addProject("file:///c:/game/scenes");
+
+        expect(manager.isInProject("file:///c:/game/scenes/startup.txt")).to.be
+            .true;
+        expect(manager.isInProject("file:///c:/game/notes/startup.txt")).to.be
+            .false;
+    });
+
+    it("should not route documents in a project's subdirectory to the project", () => {
+        const manager = new ProjectManager();
+        const project = manager.addProject("file:///c:/game/scenes");
+
+        expect(
+            manager.getProject("file:///c:/game/scenes/old/chapter1.txt"),
+        ).to.not.equal(project);
+    });
+
+    it("should route documents outside of a project to their workspace folder's index", () => {
+        const manager = new ProjectManager();
+        manager.addWorkspaceFolder("file:///c:/game");
+        manager.addWorkspaceFolder("file:///c:/other");
+        const project = manager.addProject("file:///c:/game/scenes");
+
+        const notesIndex = manager.getProject("file:///c:/game/notes/a.txt");
+        const otherIndex = manager.getProject("file:///c:/other/b.txt");
+
+        expect(notesIndex).to.not.equal(project);
+        expect(otherIndex).to.not.equal(project);
+        expect(otherIndex).to.not.equal(notesIndex);
+        expect(manager.getProject("file:///c:/game/notes/c.txt")).to.equal(
+            notesIndex,
+        );
+    });
+
+    it("should use the innermost workspace folder for documents outside of a project", () => {
+        const manager = new ProjectManager();
+        manager.addWorkspaceFolder("file:///c:/game");
+        const outer = manager.getProject("file:///c:/game/a.txt");
+        manager.addWorkspaceFolder("file:///c:/game/inner");
+
+        const inner = manager.getProject("file:///c:/game/inner/b.txt");
+
+        expect(inner).to.not.equal(outer);
+    });
+
+    it("should route documents outside of all workspace folders to a fallback index", () => {
+        const manager = new ProjectManager();
+        manager.addWorkspaceFolder("file:///c:/game");
+
+        const first = manager.getProject("file:///d:/loose/a.txt");
+        const second = manager.getProject("file:///e:/loose/b.txt");
+
+        expect(first).to.equal(second);
+    });
+
+    it("should remove a workspace folder's projects along with the folder", () => {
+        const manager = new ProjectManager();
+        manager.addWorkspaceFolder("file:///c:/game");
+        manager.addWorkspaceFolder("file:///c:/gamer");
+        const project = manager.addProject("file:///c:/game/scenes");
+        const otherProject = manager.addProject("file:///c:/gamer/scenes");
+
+        const removed = manager.removeWorkspaceFolder("file:///c:/game");
+
+        expect(removed).to.include(project);
+        expect(removed).to.not.include(otherProject);
+        expect(manager.isInProject("file:///c:/game/scenes/startup.txt")).to.be
+            .false;
+        expect(manager.isInProject("file:///c:/gamer/scenes/startup.txt")).to.be
+            .true;
+    });
+
+    it("should list all indices", () => {
+        const manager = new ProjectManager();
+        manager.addWorkspaceFolder("file:///c:/game");
+        const project = manager.addProject("file:///c:/game/scenes");
+
+        const indices = manager.getAllIndices();
+
+        expect(indices.length).to.equal(3);
+        expect(indices).to.include(project);
+    });
+});
@@ -0,0 +1,323 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import { SectionCache } from "../../../server/src/common/parser";
+import { quicktestScene } from "../../../server/src/common/quicktest";
+
+const titleAndAuthor = "*title My Game\n*author Me\n";
+
+function createDocument(scene: string, text: string): TextDocument {
+    return TextDocument.create(
+        `file:///c:/${scene}.txt`,
+        "ChoiceScript",
+        0,
+        text,
+    );
+}
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            createDocument(scene, text),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+function runQuicktest(scenes: Record<string, string>, scene: string) {
+    const index = createIndex(scenes);
+    return quicktestScene(createDocument(scene, scenes[scene]), index);
+}
+
+describe("Quicktest", () => {
+    describe("Choices", () => {
+        it("should flag an option that falls out of its choice", () => {
+            const scenes = {
+                chapter:
+                    "*choice\n  #One\n    Text\n  #Two\n    More\n    *finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("option-falls-out-of-choice");
+            expect(diagnostics[0].range.start).to.eql({
+                line: 1,
+                character: 2,
+            });
+            expect(diagnostics[0].range.end).to.eql({
+                line: 1,
+                character: 6,
+            });
+        });
+
+        it("should flag an option that falls out of its choice through an *if", () => {
+            const scenes = {
+                chapter:
+                    "*temp x true\n*choice\n  #One\n    *if x\n      *finish\n  #Two\n    *finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("option-falls-out-of-choice");
+            expect(diagnostics[0].range.start.line).to.equal(2);
+        });
+
+        it("should not flag options that leave the choice", () => {
+            const scenes = {
+                chapter:
+                    "*choice\n  #One\n    *goto end\n  #Two\n    *finish\n*label end\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should test options inside of an *if in the choice", () => {
+            const scenes = {
+                chapter:
+                    "*temp x true\n*choice\n  *if x\n    #One\n      Text\n  *else\n    #Two\n      *finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("option-falls-out-of-choice");
+            expect(diagnostics[0].range.start.line).to.equal(3);
+        });
+
+        it("should test the suboptions of grouped options", () => {
+            const scenes = {
+                chapter:
+                    "*choice color toy\n  #Red\n    #Ball\n      Text\n    #Block\n      *finish\n  #Blue\n    #Ball\n      *finish\n    #Block\n      *finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range.start.line).to.equal(2);
+        });
+
+        it("should let options fall out of a *fake_choice", () => {
+            const scenes = {
+                chapter:
+                    "*fake_choice\n  #One\n    Text\n  #Two\nAfter the choice\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should let options fall out of a *choice with implicit control flow", () => {
+            const scenes = {
+                startup: `${titleAndAuthor}*create implicit_control_flow true\n*choice\n  #One\n    Text\n  #Two\n    More\n*finish\n`,
+            };
+
+            const diagnostics = runQuicktest(scenes, "startup");
+
+            expect(diagnostics).to.be.empty;
+        });
+    });
+
+    describe("Untested Lines", () => {
+        it("should flag lines the game never reaches", () => {
+            const scenes = {
+                chapter: "Text\n*finish\nNever reached\n\nNor this\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("untested-lines");
+            expect(diagnostics[0].message).to.include("lines 3-5");
+            expect(diagnostics[0].range.start).to.eql({
+                line: 2,
+                character: 0,
+            });
+            expect(diagnostics[0].range.end).to.eql({
+                line: 4,
+                character: 8,
+            });
+        });
+
+        it("should not flag comments the game never reaches", () => {
+            const scenes = {
+                chapter: "Text\n*finish\n*comment unreached\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should test both branches of an *if", () => {
+            const scenes = {
+                chapter:
+                    "*temp x 1\n*if x > 2\n  Big\n*elseif x > 1\n  Medium\n*else\n  Small\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should follow *goto to its label", () => {
+            const scenes = {
+                chapter:
+                    "*goto later\nSkipped\n*label later\nReached\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range.start.line).to.equal(1);
+        });
+
+        it("should return from a *gosub", () => {
+            const scenes = {
+                chapter:
+                    "*gosub sub\nAfter\n*finish\n*label sub\nIn sub\n*return\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should test labels that other scenes jump to", () => {
+            const scenes = {
+                startup: `${titleAndAuthor}*goto_scene chapter middle\n`,
+                chapter: "*finish\n*label middle\nReached\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should treat a *goto_random_scene's scenes as part of the command", () => {
+            const scenes = {
+                chapter:
+                    "*goto_random_scene\n  one\n  *allow_reuse two\nNever reached\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range.start.line).to.equal(3);
+            expect(diagnostics[0].range.end.line).to.equal(3);
+        });
+
+        it("should run past a *goto_random_scene that allows no selection", () => {
+            const scenes = {
+                chapter:
+                    "*goto_random_scene allow_no_selection\n  one\n  *allow_reuse two\nReached\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should not flag untested lines in a scene that jumps to computed labels", () => {
+            const scenes = {
+                chapter:
+                    '*temp dest "later"\n*goto {dest}\n*label later\nText\n*finish\n',
+            };
+
+            const diagnostics = runQuicktest(scenes, "chapter");
+
+            expect(diagnostics).to.be.empty;
+        });
+    });
+
+    describe("Startup", () => {
+        it("should flag a missing title and author", () => {
+            const scenes = {
+                startup: "Text\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "startup");
+
+            expect(diagnostics.map((d) => d.code)).to.eql([
+                "missing-title",
+                "missing-author",
+            ]);
+        });
+
+        it("should flag a title that's too long", () => {
+            const scenes = {
+                startup:
+                    "*title A Title That Goes On and On and On\n*author Me\n*finish\n",
+            };
+
+            const diagnostics = runQuicktest(scenes, "startup");
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("too-long-title");
+            expect(diagnostics[0].range.start.line).to.equal(0);
+        });
+    });
+
+    describe("Section Cache", () => {
+        it("should find the same problems from a scene's cached parse", () => {
+            const text =
+                "*choice\n  #One\n    Text\n  #Two\n    *goto end\n*label end\n*finish\nNever reached\n";
+            const index = new Index();
+            const cache = new SectionCache();
+            updateProjectIndex(
+                createDocument("chapter", text),
+                false,
+                false,
+                index,
+                cache,
+            );
+
+            const cached = quicktestScene(
+                createDocument("chapter", text),
+                index,
+                cache,
+            );
+            const uncached = quicktestScene(
+                createDocument("chapter", text),
+                index,
+            );
+
+            expect(cached.length).to.equal(2);
+            expect(cached).to.eql(uncached);
+        });
+
+        it("should parse a scene whose cached parse is out of date", () => {
+            const index = new Index();
+            const cache = new SectionCache();
+            updateProjectIndex(
+                createDocument("chapter", "Text\n*finish\n"),
+                false,
+                false,
+                index,
+                cache,
+            );
+
+            const diagnostics = quicktestScene(
+                createDocument("chapter", "Text\n*finish\nNever reached\n"),
+                index,
+                cache,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range.start.line).to.equal(2);
+        });
+    });
+});
@@ -8,7 +8,10 @@ import {
     Location,
     Range,
     ReferenceContext,
+    RenameFile,
+    TextDocumentEdit,
 } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
 
 import {
     ProjectIndex,
@@ -19,12 +22,15 @@ import {
     DocumentScopes,
     LabelIndex,
     AchievementIndex,
+    ArrayIndex,
 } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
 import {
     SymbolType,
     findDefinitions,
     findReferences,
     generateRenames,
+    generateSceneFileRenames,
 } from "../../../server/src/common/searches";
 import { CaseInsensitiveMap } from "../../../server/src/common/utilities";
 
@@ -164,6 +170,11 @@ function createMockIndex({
         }
         return locations;
     });
+    fakeIndex.getGlobalArrays().returns(new CaseInsensitiveMap());
+    fakeIndex.getLocalArrays(Arg.any()).returns(new CaseInsensitiveMap());
+    fakeIndex
+        .getDocumentArrayReferences(Arg.any())
+        .returns(new CaseInsensitiveMap());
     if (flowControlEventsUri === undefined) {
         fakeIndex.getFlowControlEvents(Arg.all()).returns(flowControlEvents);
     } else {
@@ -175,6 +186,61 @@ function createMockIndex({
     return fakeIndex;
 }
 
+/**
+ * Create an index with a local array "stats" created on line 1, referenced
+ * as "stats[1]" on line 3, and referenced as the bare element "stats_2" on line 4.
+ */
+function createArrayIndex(): Index {
+    let index = new Index();
+    let localArrays: ArrayIndex = new CaseInsensitiveMap([
+        [
+            "stats",
+            {
+                location: Location.create(
+                    documentUri,
+                    Range.create(1, 12, 1, 17),
+                ),
+                length: 2,
+            },
+        ],
+    ]);
+    let arrayReferences: IdentifierMultiIndex = new CaseInsensitiveMap([
+        ["stats", [Location.create(documentUri, Range.create(3, 5, 3, 10))]],
+    ]);
+    let variableReferences: IdentifierMultiIndex = new CaseInsensitiveMap([
+        ["stats_1", [Location.create(documentUri, Range.create(3, 5, 3, 13))]],
+        ["stats_2", [Location.create(documentUri, Range.create(4, 0, 4, 7))]],
+    ]);
+    index.setLocalArrays(documentUri, localArrays);
+    index.setArrayReferences(documentUri, arrayReferences);
+    index.setVariableReferences(documentUri, variableReferences);
+    return index;
+}
+
+const chapterUri: string = "file:///c:/chapter.txt";
+
+/**
+ * Create an index whose startup lists the scene "chapter" on line 2, and
+ * where other-scene goes to it on line 0.
+ */
+function createSceneIndex(): Index {
+    let index = new Index();
+    let scenes: [string, string][] = [
+        [globalUri, "*scene_list\n\tstartup\n\tchapter\n"],
+        [chapterUri, "Text\n"],
+        [otherSceneUri, "*goto_scene chapter\n"],
+    ];
+    for (const [uri, text] of scenes) {
+        updateProjectIndex(
+            TextDocument.create(uri, "ChoiceScript", 0, text),
+            uri == globalUri,
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
 describe("Definitions", () => {
     describe("Variable Definitions", () => {
         it("should not give definitions for non-references", () => {
@@ -639,6 +705,91 @@ describe("Definitions", () => {
         });
     });
 
+    describe("Array Definitions", () => {
+        it("should locate an array from its creation", () => {
+            let index = createArrayIndex();
+            let position = Position.create(1, 14);
+
+            let definition = (findDefinitions(documentUri, position, index) ??
+                [])[0];
+
+            expect(definition.type).to.equal(SymbolType.LocalArray);
+            expect(definition.isDefinition).to.be.true;
+            expect(definition.location.range.start).to.eql({
+                line: 1,
+                character: 12,
+            });
+        });
+
+        it("should locate an array from a bracket reference", () => {
+            let index = createArrayIndex();
+            let position = Position.create(3, 6);
+
+            let definition = (findDefinitions(documentUri, position, index) ??
+                [])[0];
+
+            expect(definition.symbol).to.equal("stats");
+            expect(definition.isDefinition).to.be.true;
+            expect(definition.location.range.start).to.eql({
+                line: 1,
+                character: 12,
+            });
+        });
+
+        it("should locate an array from a reference to one of its elements", () => {
+            let index = createArrayIndex();
+            let position = Position.create(4, 2);
+
+            let definition = (findDefinitions(documentUri, position, index) ??
+                [])[0];
+
+            expect(definition.type).to.equal(SymbolType.LocalArray);
+            expect(definition.location.range.start).to.eql({
+                line: 1,
+                character: 12,
+            });
+        });
+    });
+
+    describe("Scene Definitions", () => {
+        it("should locate a scene from a reference to it", () => {
+            let index = createSceneIndex();
+            let position = Position.create(0, 14);
+
+            let definition = (findDefinitions(otherSceneUri, position, index) ??
+                [])[0];
+
+            expect(definition.type).to.equal(SymbolType.Scene);
+            expect(definition.symbol).to.equal("chapter");
+            expect(definition.location.uri).to.equal(chapterUri);
+            expect(definition.location.range.start).to.eql({
+                line: 0,
+                character: 0,
+            });
+        });
+
+        it("should locate a scene from the scene list", () => {
+            let index = createSceneIndex();
+            let position = Position.create(2, 3);
+
+            let definition = (findDefinitions(globalUri, position, index) ??
+                [])[0];
+
+            expect(definition.type).to.equal(SymbolType.Scene);
+            expect(definition.location.uri).to.equal(chapterUri);
+        });
+
+        it("should not locate a scene whose file isn't indexed", () => {
+            let index = createSceneIndex();
+            index.removeDocument(chapterUri);
+            let position = Position.create(0, 14);
+
+            let definitions = findDefinitions(otherSceneUri, position, index);
+
+            expect(definitions).to.be.undefined;
+        });
+    });
+
     describe("Achievement Definitions", () => {
         it("should locate an achievement from its definition", () => {
             let achievementLocation = Location.create(
@@ -1806,6 +1957,43 @@ describe("Symbol References", () => {
         });
     });
 
+    describe("Array References", () => {
+        it("should give references to the array and its elements", () => {
+            let index = createArrayIndex();
+            let position = Position.create(1, 14);
+            let fakeContext = Substitute.for<ReferenceContext>();
+            fakeContext.includeDeclaration.returns!(false);
+
+            let references =
+                findReferences(documentUri, position, fakeContext, index) ?? [];
+
+            expect(
+                references.map((r) => r.location.range.start),
+            ).to.have.deep.members([
+                { line: 3, character: 5 },
+                { line: 4, character: 0 },
+            ]);
+        });
+    });
+
+    describe("Scene References", () => {
+        it("should give references to a scene and its scene list entry", () => {
+            let index = createSceneIndex();
+            let position = Position.create(0, 14);
+            let fakeContext = Substitute.for<ReferenceContext>();
+            fakeContext.includeDeclaration.returns!(false);
+
+            let references =
+                findReferences(otherSceneUri, position, fakeContext, index) ??
+                [];
+
+            expect(references.map((r) => r.location)).to.eql([
+                Location.create(otherSceneUri, Range.create(0, 12, 0, 19)),
+                Location.create(globalUri, Range.create(2, 1, 2, 8)),
+            ]);
+        });
+    });
+
     describe("Achievement References", () => {
         it("should find achievement references from the achievement's definition", () => {
             let achievementLocation = Location.create(
@@ -2322,6 +2510,162 @@ describe("Symbol Renames", () => {
         });
     });
 
+    describe("Array Renames", () => {
+        it("should rename an array and keep its elements' suffixes", () => {
+            let index = createArrayIndex();
+            let position = Position.create(3, 6);
+
+            let renames = generateRenames(
+                documentUri,
+                position,
+                "scores",
+                index,
+            );
+            let allChanges = renames?.changes ?? {};
+            let localChanges = allChanges[documentUri];
+
+            expect(Object.keys(allChanges)).to.eql([documentUri]);
+            expect(
+                localChanges.map((c) => [c.range.start, c.newText]),
+            ).to.have.deep.members([
+                [{ line: 1, character: 12 }, "scores"],
+                [{ line: 3, character: 5 }, "scores"],
+                [{ line: 4, character: 0 }, "scores_2"],
+            ]);
+        });
+    });
+
+    describe("Scene Renames", () => {
+        it("should rename a scene's references and its file", () => {
+            let index = createSceneIndex();
+            let position = Position.create(0, 14);
+
+            let renames = generateRenames(
+                otherSceneUri,
+                position,
+                "prologue",
+                index,
+            );
+            let documentChanges = renames?.documentChanges ?? [];
+
+            expect(renames?.changes).to.be.undefined;
+            expect(documentChanges).to.eql([
+                TextDocumentEdit.create({ uri: otherSceneUri, version: null }, [
+                    {
+                        range: Range.create(0, 12, 0, 19),
+                        newText: "prologue",
+                    },
+                ]),
+                TextDocumentEdit.create({ uri: globalUri, version: null }, [
+                    {
+                        range: Range.create(2, 1, 2, 8),
+                        newText: "prologue",
+                    },
+                ]),
+                RenameFile.create(chapterUri, "file:///c:/prologue.txt"),
+            ]);
+        });
+
+        it("should not rename a scene to a name that can't be a file name", () => {
+            let index = createSceneIndex();
+            let position = Position.create(0, 14);
+
+            let renames = generateRenames(
+                otherSceneUri,
+                position,
+                "new chapter",
+                index,
+            );
+
+            expect(renames).to.be.null;
+        });
+
+        it("should not rename a scene to an existing scene's name", () => {
+            let index = createSceneIndex();
+            let position = Position.create(0, 14);
+
+            let renames = generateRenames(
+                otherSceneUri,
+                position,
+                "other-scene",
+                index,
+            );
+
+            expect(renames).to.be.null;
+        });
+
+        it("should not rename a scene to the name of a scene in the scene list", () => {
+            let index = createSceneIndex();
+            updateProjectIndex(
+                TextDocument.create(
+                    globalUri,
+                    "ChoiceScript",
+                    0,
+                    "*scene_list\n\tstartup\n\tchapter\n\tepilogue\n",
+                ),
+                true,
+                false,
+                index,
+            );
+            let position = Position.create(0, 14);
+
+            let renames = generateRenames(
+                otherSceneUri,
+                position,
+                "epilogue",
+                index,
+            );
+
+            expect(renames).to.be.null;
+        });
+
+        it("should not rename the startup scene", () => {
+            let index = createSceneIndex();
+            let position = Position.create(1, 3);
+
+            let renames = generateRenames(globalUri, position, "begin", index);
+
+            expect(renames).to.be.null;
+        });
+
+        it("should update a scene's references when its file is renamed", () => {
+            let index = createSceneIndex();
+
+            let renames = generateSceneFileRenames(
+                chapterUri,
+                "file:///c:/prologue.txt",
+                index,
+            );
+
+            expect(renames?.changes).to.eql({
+                [otherSceneUri]: [
+                    {
+                        range: Range.create(0, 12, 0, 19),
+                        newText: "prologue",
+                    },
+                ],
+                [globalUri]: [
+                    {
+                        range: Range.create(2, 1, 2, 8),
+                        newText: "prologue",
+                    },
+                ],
+            });
+        });
+
+        it("should not update references when a scene file moves out of the project", () => {
+            let index = createSceneIndex();
+
+            let renames = generateSceneFileRenames(
+                chapterUri,
+                "file:///c:/old/prologue.txt",
+                index,
+            );
+
+            expect(renames).to.be.null;
+        });
+    });
+
     describe("Label Renames", () => {
         it("should rename all matching label references on a label definition", () => {
             let referenceLocation1 = Location.create(
@@ -0,0 +1,229 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import {
+    generateSemanticTokens,
+    semanticTokensLegend,
+} from "../../../server/src/common/semantic-tokens";
+
+const startupUri = "file:///c:/startup.txt";
+const sceneUri = "file:///c:/scene.txt";
+
+interface DecodedToken {
+    line: number;
+    character: number;
+    text: string;
+    type: string;
+    modifiers: string[];
+}
+
+function createDocument(text: string, uri: string = sceneUri): TextDocument {
+    return TextDocument.create(uri, "ChoiceScript", 0, text);
+}
+
+function createIndex(startupText: string = ""): Index {
+    const index = new Index();
+    updateProjectIndex(
+        createDocument(startupText, startupUri),
+        true,
+        false,
+        index,
+    );
+    return index;
+}
+
+function decodeTokens(document: TextDocument, index: Index): DecodedToken[] {
+    const data = generateSemanticTokens(document, index).data;
+    const tokens: DecodedToken[] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+        if (data[i] != 0) {
+            character = 0;
+        }
+        line += data[i];
+        character += data[i + 1];
+        const start = document.offsetAt({ line: line, character: character });
+        tokens.push({
+            line: line,
+            character: character,
+            text: document.getText().slice(start, start + data[i + 2]),
+            type: semanticTokensLegend.tokenTypes[data[i + 3]],
+            modifiers: semanticTokensLegend.tokenModifiers.filter(
+                (_, bit) => (data[i + 4] & (1 << bit)) != 0,
+            ),
+        });
+    }
+    return tokens;
+}
+
+describe("Semantic Tokens", () => {
+    it("should mark global variable creation", () => {
+        const document = createDocument("*create var 1", startupUri);
+
+        const tokens = decodeTokens(document, createIndex("*create var 1"));
+
+        expect(tokens).to.deep.include({
+            line: 0,
+            character: 8,
+            text: "var",
+            type: "variable",
+            modifiers: ["declaration", "global"],
+        });
+    });
+
+    it("should tell global and temporary variable references apart", () => {
+        const document = createDocument("*temp local 1\n*set local global\n");
+
+        const tokens = decodeTokens(document, createIndex("*create global 1"));
+
+        expect(tokens).to.deep.include({
+            line: 1,
+            character: 5,
+            text: "local",
+            type: "variable",
+            modifiers: ["local"],
+        });
+        expect(tokens).to.deep.include({
+            line: 1,
+            character: 11,
+            text: "global",
+            type: "variable",
+            modifiers: ["global"],
+        });
+    });
+
+    it("should mark built-in variables as library variables", () => {
+        const document = createDocument("${choice_randomtest}");
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens).to.deep.include({
+            line: 0,
+            character: 2,
+            text: "choice_randomtest",
+            type: "variable",
+            modifiers: ["defaultLibrary"],
+        });
+    });
+
+    it("should mark params as parameters", () => {
+        const document = createDocument("*params first\n${first} ${param_1}");
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens).to.deep.include({
+            line: 0,
+            character: 8,
+            text: "first",
+            type: "parameter",
+            modifiers: ["declaration"],
+        });
+        expect(tokens).to.deep.include({
+            line: 1,
+            character: 2,
+            text: "first",
+            type: "parameter",
+            modifiers: [],
+        });
+        expect(tokens).to.deep.include({
+            line: 1,
+            character: 11,
+            text: "param_1",
+            type: "parameter",
+            modifiers: [],
+        });
+    });
+
+    it("should mark labels and scenes", () => {
+        const document = createDocument(
+            "*label start\n*goto start\n*goto_scene other end\n",
+        );
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens).to.deep.include({
+            line: 0,
+            character: 7,
+            text: "start",
+            type: "label",
+            modifiers: ["declaration"],
+        });
+        expect(tokens).to.deep.include({
+            line: 1,
+            character: 6,
+            text: "start",
+            type: "label",
+            modifiers: [],
+        });
+        expect(tokens).to.deep.include({
+            line: 2,
+            character: 12,
+            text: "other",
+            type: "namespace",
+            modifiers: [],
+        });
+        expect(tokens).to.deep.include({
+            line: 2,
+            character: 18,
+            text: "end",
+            type: "label",
+            modifiers: [],
+        });
+    });
+
+    it("should mark italicized text", () => {
+        const document = createDocument("Some [i]italic[/i] text");
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens).to.eql([
+            {
+                line: 0,
+                character: 8,
+                text: "italic",
+                type: "markup",
+                modifiers: ["italic"],
+            },
+        ]);
+    });
+
+    it("should track italics through a multireplace", () => {
+        const document = createDocument(
+            "[i]Italics or @{true [/i]not.|more italics[/i]} after",
+        );
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens.map((t) => t.text)).to.eql([
+            "Italics or ",
+            "more italics",
+        ]);
+    });
+
+    it("should keep styling after a multireplace where an option leaves it on", () => {
+        const document = createDocument(
+            "[b]Bold @{true [/b]not|still} bold[/b] plain",
+        );
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens.map((t) => t.text)).to.eql(["Bold ", "still", " bold"]);
+    });
+
+    it("should not mark markup in commands other than options", () => {
+        const document = createDocument(
+            '*set var "[i]text[/i]"\n*if (true) #[i]Option[/i]',
+        );
+
+        const tokens = decodeTokens(document, createIndex());
+
+        expect(tokens.map((t) => t.text)).to.include("Option");
+        expect(tokens.map((t) => t.text)).to.not.include("text");
+    });
+});
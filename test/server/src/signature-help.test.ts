@@ -0,0 +1,166 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import { generateSignatureHelp } from "../../../server/src/common/signature-help";
+
+function createDocument(scene: string, text: string): TextDocument {
+    return TextDocument.create(
+        `file:///c:/${scene}.txt`,
+        "ChoiceScript",
+        0,
+        text,
+    );
+}
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            createDocument(scene, text),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+function signatureHelpAtEnd(
+    scenes: Record<string, string>,
+    scene: string,
+    line: string,
+) {
+    const index = createIndex(scenes);
+    const document = createDocument(scene, line);
+    return generateSignatureHelp(
+        document.uri,
+        document,
+        Position.create(0, line.length),
+        index,
+    );
+}
+
+describe("Signature Help", () => {
+    describe("Subroutines", () => {
+        it("should show a local subroutine's parameters", () => {
+            const scenes = {
+                chapter:
+                    "*gosub sub 1\n*finish\n*label sub\n*params first second\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(scenes, "chapter", "*gosub sub ");
+
+            expect(help?.signatures[0].label).to.equal(
+                "*gosub sub first second",
+            );
+            expect(help?.signatures[0].parameters).to.eql([
+                { label: [11, 16] },
+                { label: [17, 23] },
+            ]);
+            expect(help?.activeParameter).to.equal(0);
+        });
+
+        it("should make the argument being written active", () => {
+            const scenes = {
+                chapter: "*finish\n*label sub\n*params first second\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(
+                scenes,
+                "chapter",
+                '*gosub sub "one" (2 + 3',
+            );
+
+            expect(help?.activeParameter).to.equal(1);
+        });
+
+        it("should move to the next argument after a space", () => {
+            const scenes = {
+                chapter: "*finish\n*label sub\n*params first second\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(
+                scenes,
+                "chapter",
+                '*gosub sub "one" ',
+            );
+
+            expect(help?.activeParameter).to.equal(1);
+        });
+
+        it("should show another scene's subroutine parameters", () => {
+            const scenes = {
+                startup: "*scene_list\n  startup\n  other\n",
+                other: "*finish\n*label sub\n*params first\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(
+                scenes,
+                "startup",
+                "*gosub_scene other sub ",
+            );
+
+            expect(help?.signatures[0].label).to.equal(
+                "*gosub_scene other sub first",
+            );
+        });
+
+        it("should not show help for a subroutine without *params", () => {
+            const scenes = {
+                chapter: "*finish\n*label sub\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(scenes, "chapter", "*gosub sub ");
+
+            expect(help).to.be.undefined;
+        });
+
+        it("should not show help while writing the label", () => {
+            const scenes = {
+                chapter: "*finish\n*label sub\n*params first\n*return\n",
+            };
+
+            const help = signatureHelpAtEnd(scenes, "chapter", "*gosub sub");
+
+            expect(help).to.be.undefined;
+        });
+    });
+
+    describe("Functions", () => {
+        it("should show a built-in function's parameter", () => {
+            const help = signatureHelpAtEnd({}, "chapter", "*set x round(");
+
+            expect(help?.signatures[0].label).to.equal("round(number)");
+            expect(help?.signatures[0].parameters).to.eql([{ label: [6, 12] }]);
+            expect(help?.activeParameter).to.equal(0);
+        });
+
+        it("should show the innermost function", () => {
+            const help = signatureHelpAtEnd({}, "chapter", "*if not(length(");
+
+            expect(help?.signatures[0].label).to.equal("length(string)");
+        });
+
+        it("should not show a function that's been closed", () => {
+            const help = signatureHelpAtEnd(
+                {},
+                "chapter",
+                "*set x round(y) + ",
+            );
+
+            expect(help).to.be.undefined;
+        });
+
+        it("should ignore parentheses in strings", () => {
+            const help = signatureHelpAtEnd({}, "chapter", '*set x length("a)');
+
+            expect(help?.signatures[0].label).to.equal("length(string)");
+        });
+    });
+});
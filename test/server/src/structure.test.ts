@@ -0,0 +1,117 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import { generateSymbols } from "../../../server/src/common/structure";
+
+function createDocument(scene: string, text: string): TextDocument {
+    return TextDocument.create(
+        `file:///c:/${scene}.txt`,
+        "ChoiceScript",
+        0,
+        text,
+    );
+}
+
+function generateOutline(scene: string, text: string): DocumentSymbol[] {
+    const document = createDocument(scene, text);
+    const index = new Index();
+    updateProjectIndex(document, scene == "startup", false, index);
+    return generateSymbols(document, index);
+}
+
+/**
+ * Summarize symbols as nested [name, children] pairs.
+ */
+function outlineNames(symbols: DocumentSymbol[] | undefined): unknown[] {
+    return (symbols ?? []).map((s) =>
+        s.children !== undefined && s.children.length > 0
+            ? [s.name, outlineNames(s.children)]
+            : s.name,
+    );
+}
+
+describe("Structure", () => {
+    it("should put choices inside of the label they're in", () => {
+        const text =
+            "*label start\n*choice\n  #One\n    *finish\n  #Two\n    *finish\n*label end\n*finish\n";
+
+        const symbols = generateOutline("chapter", text);
+
+        expect(outlineNames(symbols)).to.eql([
+            ["start", [["choice (#One)", ["#One", "#Two"]]]],
+            "end",
+        ]);
+        expect(symbols[0].kind).to.equal(SymbolKind.Namespace);
+        expect(symbols[0].children![0].kind).to.equal(SymbolKind.Function);
+        expect(symbols[0].children![0].children![0].kind).to.equal(
+            SymbolKind.Method,
+        );
+    });
+
+    it("should cover a label's section up to the next label", () => {
+        const text = "*label start\nText\n*label end\n*finish\n";
+
+        const symbols = generateOutline("chapter", text);
+
+        expect(symbols[0].range.start).to.eql({ line: 0, character: 0 });
+        expect(symbols[0].range.end).to.eql({ line: 2, character: 0 });
+        expect(symbols[0].selectionRange.start).to.eql({
+            line: 0,
+            character: 7,
+        });
+    });
+
+    it("should nest choices inside of options", () => {
+        const text =
+            "*choice\n  *if (x) #One\n    *fake_choice\n      #Inner\n        Hi\n  #Two\n    *finish\n";
+
+        const symbols = generateOutline("chapter", text);
+
+        expect(outlineNames(symbols)).to.eql([
+            [
+                "choice (#One)",
+                [["#One", [["fake_choice (#Inner)", ["#Inner"]]]], "#Two"],
+            ],
+        ]);
+    });
+
+    it("should put temporary variables under the label they're created in", () => {
+        const text =
+            "*temp before 1\n*label start\n*temp inside 2\n*temp_array list 2 0\n*finish\n";
+
+        const symbols = generateOutline("chapter", text);
+
+        expect(outlineNames(symbols)).to.eql([
+            "before",
+            ["start", ["inside", "list"]],
+        ]);
+        expect(symbols[1].children![1].kind).to.equal(SymbolKind.Array);
+    });
+
+    it("should group startup's global variables and achievements", () => {
+        const text =
+            "*title Game\n*author Me\n*create strength 50\n*create_array stats 2 0 0\n*achievement winner visible 10 You Won\n  Pre-earned.\n*finish\n";
+
+        const symbols = generateOutline("startup", text);
+
+        expect(outlineNames(symbols)).to.eql([
+            ["Global variables", ["strength", "stats"]],
+            ["Achievements", ["winner"]],
+        ]);
+        expect(symbols[1].children![0].detail).to.equal("You Won");
+    });
+
+    it("should not group global variables outside of startup", () => {
+        const text = "*temp x 1\n*finish\n";
+
+        const symbols = generateOutline("chapter", text);
+
+        expect(outlineNames(symbols)).to.eql(["x"]);
+    });
+});
@@ -0,0 +1,328 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+
+import {
+    StyleGuide,
+    builtInStyleGuides,
+    findStyleGuide,
+    parseStyleGuides,
+} from "../../../server/src/common/style-guides";
+
+describe("Style Guides", () => {
+    describe("Parsing", () => {
+        it("should read style guides", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        maxOptionWords: 12,
+                        bannedPhrases: [{ phrase: "okay", replacement: "OK" }],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.be.instanceOf(Map);
+            const house = (styleGuides as Map<string, StyleGuide>).get("house");
+            expect(house?.maxOptionWords).to.equal(12);
+            expect(house?.bannedPhrases).to.eql([
+                { phrase: "okay", replacement: "OK" },
+            ]);
+        });
+
+        it("should start from the rules of a built-in style guide it extends", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { extends: "choiceOfGames", maxOptionWords: 12 },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json) as Map<
+                string,
+                StyleGuide
+            >;
+
+            const house = styleGuides.get("house");
+            expect(house?.maxOptionWords).to.equal(12);
+            expect(house?.requireUnicodeEllipsis).to.be.true;
+            expect(house?.requireUnicodeEmDash).to.be.true;
+        });
+
+        it("should combine banned phrases and rules with the style guide it extends", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    base: {
+                        bannedPhrases: [{ phrase: "okay" }],
+                        rules: [
+                            { pattern: "very", code: "very", message: "Very" },
+                        ],
+                    },
+                    house: {
+                        extends: "base",
+                        bannedPhrases: [{ phrase: "alright" }],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json) as Map<
+                string,
+                StyleGuide
+            >;
+
+            const house = styleGuides.get("house");
+            expect(house?.bannedPhrases).to.eql([
+                { phrase: "okay" },
+                { phrase: "alright" },
+            ]);
+            expect(house?.rules?.length).to.equal(1);
+        });
+
+        it("should return an error for invalid JSON", () => {
+            const styleGuides = parseStyleGuides("{ styleGuides");
+
+            expect(styleGuides).to.be.a("string");
+        });
+
+        it("should return an error if there's no styleGuides object", () => {
+            const styleGuides = parseStyleGuides('{ "house": {} }');
+
+            expect(styleGuides).to.equal("The file needs a styleGuides object");
+        });
+
+        it("should return an error for a bad rule pattern", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        rules: [{ pattern: "(", code: "bad", message: "Bad" }],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rule pattern");
+        });
+
+        it("should return an error for banned phrases that aren't objects", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { bannedPhrases: ["very"] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad banned phrase");
+        });
+
+        it("should return an error for banned phrases without a phrase", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { bannedPhrases: [{ replacement: "OK" }] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad banned phrase");
+        });
+
+        it("should return an error for banned phrases with an empty phrase", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { bannedPhrases: [{ phrase: " " }] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad banned phrase");
+        });
+
+        it("should return an error for banned phrases with a replacement that isn't a string", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        bannedPhrases: [{ phrase: "okay", replacement: 1 }],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad banned phrase");
+        });
+
+        it("should return an error for rules without a code", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { rules: [{ pattern: "very", message: "Very" }] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rule");
+        });
+
+        it("should return an error for rules without a message", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { rules: [{ pattern: "very", code: "very" }] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rule");
+        });
+
+        it("should return an error for rules without a pattern", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { rules: [{ code: "very", message: "Very" }] },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rule");
+        });
+
+        it("should return an error for rules with an unknown severity", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        rules: [
+                            {
+                                pattern: "very",
+                                code: "very",
+                                message: "Very",
+                                severity: "fatal",
+                            },
+                        ],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rule");
+        });
+
+        it("should return an error for rules that aren't a list", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        rules: {
+                            pattern: "very",
+                            code: "very",
+                            message: "Very",
+                        },
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad rules");
+        });
+
+        it("should return an error for a maxOptionWords that isn't a number", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { maxOptionWords: "3" },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad maxOptionWords");
+        });
+
+        it("should return an error for a maxOptionWords that isn't a positive whole number", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: { maxOptionWords: 2.5 },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("bad maxOptionWords");
+        });
+
+        it("should return an error for a style guide that isn't an object", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: "strict",
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.include("needs to be an object");
+        });
+
+        it("should accept rules with a known severity", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    house: {
+                        rules: [
+                            {
+                                pattern: "very",
+                                code: "very",
+                                message: "Very",
+                                severity: "warning",
+                            },
+                        ],
+                    },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.be.instanceOf(Map);
+        });
+
+        it("should return an error for style guides that extend themselves", () => {
+            const json = JSON.stringify({
+                styleGuides: {
+                    one: { extends: "two" },
+                    two: { extends: "one" },
+                },
+            });
+
+            const styleGuides = parseStyleGuides(json);
+
+            expect(styleGuides).to.equal("Style guide one extends itself");
+        });
+    });
+
+    describe("Finding", () => {
+        it("should find built-in style guides", () => {
+            const styleGuide = findStyleGuide("hostedGames", new Map());
+
+            expect(styleGuide).to.equal(builtInStyleGuides.get("hostedGames"));
+        });
+
+        it("should prefer custom style guides to built-in ones", () => {
+            const custom: StyleGuide = { maxOptionWords: 20 };
+
+            const styleGuide = findStyleGuide(
+                "choiceOfGames",
+                new Map([["choiceOfGames", custom]]),
+            );
+
+            expect(styleGuide).to.equal(custom);
+        });
+
+        it("should return undefined for unknown style guides", () => {
+            const styleGuide = findStyleGuide("unknown", new Map());
+
+            expect(styleGuide).to.be.undefined;
+        });
+    });
+});
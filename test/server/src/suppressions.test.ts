@@ -0,0 +1,147 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { removeSuppressedDiagnostics } from "../../../server/src/common/suppressions";
+
+function createDocument(text: string): TextDocument {
+    return TextDocument.create("file:///c:/scene.txt", "ChoiceScript", 0, text);
+}
+
+function createDiagnostic(code: string, line: number): Diagnostic {
+    return {
+        code: code,
+        severity: DiagnosticSeverity.Warning,
+        range: {
+            start: { line: line, character: 0 },
+            end: { line: line, character: 5 },
+        },
+        message: "Problem",
+        source: "ChoiceScript",
+    };
+}
+
+describe("Suppressions", () => {
+    it("should keep diagnostics if there are no suppression comments", () => {
+        const document = createDocument("Line one\nLine two");
+        const diagnostics = [createDiagnostic("too-long-option", 1)];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql(diagnostics);
+    });
+
+    it("should remove diagnostics on the line after a disable-next-line comment", () => {
+        const document = createDocument(
+            "*comment choicescript-disable-next-line too-long-option\nLine two\nLine three",
+        );
+        const diagnostics = [
+            createDiagnostic("too-long-option", 1),
+            createDiagnostic("too-long-option", 2),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[1]]);
+    });
+
+    it("should only remove diagnostics with the listed codes", () => {
+        const document = createDocument(
+            "*comment choicescript-disable-next-line too-long-option, unused-label\nLine two",
+        );
+        const diagnostics = [
+            createDiagnostic("too-long-option", 1),
+            createDiagnostic("unused-label", 1),
+            createDiagnostic("label-not-found", 1),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[2]]);
+    });
+
+    it("should remove all diagnostics if no codes are listed", () => {
+        const document = createDocument(
+            "*comment choicescript-disable-next-line\nLine two",
+        );
+        const diagnostics = [
+            createDiagnostic("too-long-option", 1),
+            createDiagnostic("unused-label", 1),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.be.empty;
+    });
+
+    it("should remove diagnostics between disable and enable comments", () => {
+        const document = createDocument(
+            "Line zero\n*comment choicescript-disable too-long-option\nLine two\n*comment choicescript-enable too-long-option\nLine four",
+        );
+        const diagnostics = [
+            createDiagnostic("too-long-option", 0),
+            createDiagnostic("too-long-option", 2),
+            createDiagnostic("too-long-option", 4),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[0], diagnostics[2]]);
+    });
+
+    it("should remove diagnostics through the end of the file if there's no enable comment", () => {
+        const document = createDocument(
+            "Line zero\n*comment choicescript-disable too-long-option\nLine two\nLine three",
+        );
+        const diagnostics = [
+            createDiagnostic("too-long-option", 0),
+            createDiagnostic("too-long-option", 3),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[0]]);
+    });
+
+    it("should re-enable all codes with an enable comment that lists none", () => {
+        const document = createDocument(
+            "*comment choicescript-disable too-long-option unused-label\nLine one\n*comment choicescript-enable\nLine three",
+        );
+        const diagnostics = [
+            createDiagnostic("unused-label", 1),
+            createDiagnostic("unused-label", 3),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[1]]);
+    });
+
+    it("should remove diagnostics anywhere in the file after a disable-file comment", () => {
+        const document = createDocument(
+            "Line zero\nLine one\n*comment choicescript-disable-file unused-label",
+        );
+        const diagnostics = [
+            createDiagnostic("unused-label", 0),
+            createDiagnostic("too-long-option", 1),
+        ];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql([diagnostics[1]]);
+    });
+
+    it("should ignore ordinary comments", () => {
+        const document = createDocument(
+            "*comment choicescript-disabled is a typo\nLine one",
+        );
+        const diagnostics = [createDiagnostic("unused-label", 1)];
+
+        const result = removeSuppressedDiagnostics(diagnostics, document);
+
+        expect(result).to.eql(diagnostics);
+    });
+});
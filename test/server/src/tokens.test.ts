@@ -80,6 +80,51 @@ describe("Tokenizing", () => {
                 expect(expression.parseErrors[0].range.start.line).to.equal(2);
                 expect(expression.parseErrors[0].range.end.line).to.equal(5);
             });
+
+            it("should tokenize array references", () => {
+                let text = "1 + stats[2]";
+                let fakeDocument = createDocument(text);
+
+                let expression = new Expression(text, 2, fakeDocument);
+
+                expect(expression.tokens.length).to.equal(3);
+                expect(expression.tokens[2].type).to.equal(
+                    ExpressionTokenType.ArrayReference,
+                );
+                expect(expression.tokens[2].text).to.equal("stats[2]");
+                expect(expression.tokens[2].index).to.equal(4);
+            });
+
+            it("should tokenize the indices of array references", () => {
+                let text = "grid[x][y + 1]";
+                let fakeDocument = createDocument(text);
+
+                let expression = new Expression(text, 2, fakeDocument);
+
+                expect(expression.tokens.length).to.equal(1);
+                let indices = expression.tokens[0].indices ?? [];
+                expect(indices.length).to.equal(2);
+                expect(indices[0].bareExpression).to.equal("x");
+                expect(indices[0].globalIndex).to.equal(7);
+                expect(indices[1].tokens.map((t) => t.text)).to.eql([
+                    "y",
+                    "+",
+                    "1",
+                ]);
+                expect(indices[1].globalIndex).to.equal(10);
+            });
+
+            it("should not tokenize array references inside strings", () => {
+                let text = '"stats[2]"';
+                let fakeDocument = createDocument(text);
+
+                let expression = new Expression(text, 2, fakeDocument);
+
+                expect(expression.tokens.length).to.equal(1);
+                expect(expression.tokens[0].type).to.equal(
+                    ExpressionTokenType.String,
+                );
+            });
         });
 
         describe("Validation", () => {
@@ -1028,6 +1073,168 @@ describe("Tokenizing", () => {
                 });
             });
 
+            describe("Variable Types", () => {
+                let variableTypes = (variable: string) =>
+                    new Map([
+                        ["strength", ExpressionEvalType.Number],
+                        ["name", ExpressionEvalType.String],
+                        ["flag", ExpressionEvalType.Boolean],
+                    ]).get(variable);
+
+                it("should treat a variable whose type is known as that type", () => {
+                    let text = "name";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(0);
+                    expect(expression.evalType).to.equal(
+                        ExpressionEvalType.String,
+                    );
+                });
+
+                it("should be good with a variable and an operator that matches its type", () => {
+                    let text = "strength + 1";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(0);
+                    expect(expression.evalType).to.equal(
+                        ExpressionEvalType.Number,
+                    );
+                });
+
+                it("should flag a string variable with an inequality operator", () => {
+                    let text = "name > 3";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(1);
+                    expect(expression.validateErrors[0].code).to.equal(
+                        DiagnosticCodes.NotStringCompatible,
+                    );
+                    expect(expression.validateErrors[0].message).to.include(
+                        '"name" holds a string',
+                    );
+                    expect(
+                        expression.validateErrors[0].range.start.line,
+                    ).to.equal(7);
+                    expect(
+                        expression.validateErrors[0].range.end.line,
+                    ).to.equal(8);
+                });
+
+                it("should flag a boolean variable after a math operator", () => {
+                    let text = "strength + flag";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(1);
+                    expect(expression.validateErrors[0].code).to.equal(
+                        DiagnosticCodes.NotNumberOrVariable,
+                    );
+                    expect(expression.validateErrors[0].message).to.include(
+                        '"flag" holds true or false',
+                    );
+                });
+
+                it("should flag a boolean variable changed by a fairmath operator", () => {
+                    let text = "%+ flag";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        true,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(1);
+                    expect(expression.validateErrors[0].code).to.equal(
+                        DiagnosticCodes.NotNumberOrVariable,
+                    );
+                });
+
+                it("should warn about comparing a number variable to a string", () => {
+                    let text = 'strength = "high"';
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(1);
+                    expect(expression.validateErrors[0].code).to.equal(
+                        DiagnosticCodes.NeverTrueExpression,
+                    );
+                });
+
+                it("should check variables inside parentheses", () => {
+                    let text = "(name) > 3";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(1);
+                    expect(expression.validateErrors[0].code).to.equal(
+                        DiagnosticCodes.NotStringCompatible,
+                    );
+                });
+
+                it("should not check variables whose type isn't known", () => {
+                    let text = "other > 3";
+                    let fakeDocument = createDocument(text);
+
+                    let expression = new Expression(
+                        text,
+                        2,
+                        fakeDocument,
+                        false,
+                        variableTypes,
+                    );
+
+                    expect(expression.validateErrors.length).to.equal(0);
+                });
+            });
+
             describe("Comparisons", () => {
                 it("should be good with comparing numbers", () => {
                     let text = "2 < 3";
@@ -9,7 +9,9 @@ import {
     Location,
     Range,
     Position,
+    Diagnostic,
     DiagnosticSeverity,
+    DiagnosticTag,
 } from "vscode-languageserver/node";
 import { TextDocument } from "vscode-languageserver-textdocument";
 
@@ -22,6 +24,7 @@ import {
     LabelIndex,
     Label,
     AchievementIndex,
+    ArrayIndex,
 } from "../../../server/src/common/index";
 import { CaseInsensitiveMap } from "../../../server/src/common/utilities";
 import {
@@ -31,8 +34,12 @@ import {
 
 import { SystemFileProvider } from "../../../server/src/node/system-file-provider";
 import { FileSystemService } from "../../../server/src/common/file-system-service";
-import { AllowUnsafeScriptOption } from "../../../server/src/common/constants";
+import {
+    AllowUnsafeScriptOption,
+    DiagnosticSeverityOption,
+} from "../../../server/src/common/constants";
 import { DiagnosticCodes } from "../../../server/src/common/diagnostics";
+import { StyleGuide } from "../../../server/src/common/style-guides";
 
 const fakeDocumentUri: string = "file:///faker.txt";
 const fakeSceneUri: string = "file:///other-scene.txt";
@@ -66,8 +73,12 @@ interface IndexArgs {
     flowControlEvents?: FlowControlEvent[];
     scopes?: DocumentScopes;
     images?: IdentifierMultiIndex;
+    sounds?: IdentifierMultiIndex;
     projectIsIndexed?: boolean;
     scriptUsages?: Location[];
+    parseErrors?: Diagnostic[];
+    globalArrays?: ArrayIndex;
+    localArrays?: ArrayIndex;
 }
 
 function createIndex({
@@ -84,8 +95,12 @@ function createIndex({
     flowControlEvents,
     scopes,
     images,
+    sounds,
     projectIsIndexed,
     scriptUsages,
+    parseErrors,
+    globalArrays,
+    localArrays,
 }: IndexArgs): SubstituteOf<ProjectIndex> {
     if (globalVariables === undefined) {
         globalVariables = new CaseInsensitiveMap();
@@ -127,12 +142,24 @@ function createIndex({
     if (images === undefined) {
         images = new CaseInsensitiveMap();
     }
+    if (sounds === undefined) {
+        sounds = new CaseInsensitiveMap();
+    }
     if (projectIsIndexed === undefined) {
         projectIsIndexed = true;
     }
     if (scriptUsages === undefined) {
         scriptUsages = [];
     }
+    if (parseErrors === undefined) {
+        parseErrors = [];
+    }
+    if (globalArrays === undefined) {
+        globalArrays = new CaseInsensitiveMap();
+    }
+    if (localArrays === undefined) {
+        localArrays = new CaseInsensitiveMap();
+    }
 
     let fakeIndex = Substitute.for<ProjectIndex>();
     fakeIndex.getGlobalVariables().returns(globalVariables);
@@ -149,18 +176,31 @@ function createIndex({
     if (labelsUri === undefined) {
         fakeIndex.getLabels(Arg.any()).returns(labels);
     } else {
-        fakeIndex.getLabels(labelsUri).returns(labels);
+        fakeIndex.getLabels(Arg.any()).mimicks((uri) => {
+            return uri == labelsUri ? labels! : new Map();
+        });
     }
+    fakeIndex.getLabelReferences(Arg.any()).mimicks((label) => {
+        return flowControlEvents!
+            .filter((e) => e.label == label && e.labelLocation !== undefined)
+            .map((e) => e.labelLocation!);
+    });
     fakeIndex.getAchievements().returns(achievements);
     fakeIndex
         .getDocumentVariableReferences(Arg.all())
         .returns(variableReferences);
+    fakeIndex.getVariableReferences(Arg.any()).mimicks((variable) => {
+        return variableReferences!.get(variable) ?? [];
+    });
     fakeIndex.getDocumentScopes(Arg.all()).returns(scopes);
     fakeIndex.getFlowControlEvents(Arg.all()).returns(flowControlEvents);
-    fakeIndex.getParseErrors(Arg.any()).returns([]);
+    fakeIndex.getParseErrors(Arg.any()).returns(parseErrors);
     fakeIndex.getImages(Arg.any()).returns(images);
+    fakeIndex.getSounds(Arg.any()).returns(sounds);
     fakeIndex.projectIsIndexed().returns(projectIsIndexed);
     fakeIndex.getScriptUsages(Arg.any()).returns(scriptUsages);
+    fakeIndex.getGlobalArrays().returns(globalArrays);
+    fakeIndex.getLocalArrays(Arg.any()).returns(localArrays);
 
     return fakeIndex;
 }
@@ -168,10 +208,14 @@ function createIndex({
 function createValidationSettings(
     useCoGStyleGuide: boolean = true,
     allowUnsafeScript: AllowUnsafeScriptOption = "allow",
+    diagnosticSeverities: Record<string, DiagnosticSeverityOption> = {},
+    styleGuide?: StyleGuide,
 ): SubstituteOf<ValidationSettings> {
     let fakeSettings = Substitute.for<ValidationSettings>();
-    fakeSettings.useCoGStyleGuide = useCoGStyleGuide;
+    fakeSettings.useCoGStyleGuide.returns!(useCoGStyleGuide);
     fakeSettings.allowUnsafeScript = allowUnsafeScript;
+    fakeSettings.diagnosticSeverities.returns!(diagnosticSeverities);
+    fakeSettings.styleGuide.returns!(styleGuide);
     return fakeSettings;
 }
 
@@ -495,6 +539,29 @@ describe("Validator", () => {
             );
         });
 
+        it("should include the missing variable's name in the diagnostic's data", async () => {
+            let location = Location.create(
+                fakeDocumentUri,
+                Range.create(1, 0, 1, 5),
+            );
+            let variableReferences: IdentifierMultiIndex =
+                new CaseInsensitiveMap([["unknown", [location]]]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics[0].data).to.eql({ variable: "unknown" });
+        });
+
         it("should not flag missing variables if the project hasn't been indexed", async () => {
             let location = Location.create(
                 fakeDocumentUri,
@@ -1043,6 +1110,104 @@ describe("Validator", () => {
 
             expect(diagnostics.length).to.equal(0);
         });
+
+        it("should flag array elements that are out of bounds", async () => {
+            let arrayLocation = Location.create(
+                startupUri,
+                Range.create(1, 0, 1, 5),
+            );
+            let globalArrays: ArrayIndex = new CaseInsensitiveMap([
+                ["stats", { location: arrayLocation, length: 3 }],
+            ]);
+            let location = Location.create(
+                fakeDocumentUri,
+                Range.create(2, 0, 2, 7),
+            );
+            let variableReferences: IdentifierMultiIndex =
+                new CaseInsensitiveMap([["stats_5", [location]]]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                globalArrays: globalArrays,
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.ArrayIndexOutOfBounds,
+            );
+            expect(diagnostics[0].message).to.include("1 through 3");
+            expect(diagnostics[0].range.start.line).to.equal(2);
+        });
+
+        it("should not flag array elements that are in bounds", async () => {
+            let arrayLocation = Location.create(
+                startupUri,
+                Range.create(1, 0, 1, 5),
+            );
+            let globalArrays: ArrayIndex = new CaseInsensitiveMap([
+                ["stats", { location: arrayLocation, length: 3 }],
+            ]);
+            let location = Location.create(
+                fakeDocumentUri,
+                Range.create(2, 0, 2, 7),
+            );
+            let variableReferences: IdentifierMultiIndex =
+                new CaseInsensitiveMap([["stats_3", [location]]]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                globalArrays: globalArrays,
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should not flag an array's count", async () => {
+            let arrayLocation = Location.create(
+                startupUri,
+                Range.create(1, 0, 1, 5),
+            );
+            let globalArrays: ArrayIndex = new CaseInsensitiveMap([
+                ["stats", { location: arrayLocation, length: 3 }],
+            ]);
+            let location = Location.create(
+                fakeDocumentUri,
+                Range.create(2, 0, 2, 7),
+            );
+            let variableReferences: IdentifierMultiIndex =
+                new CaseInsensitiveMap([["stats_count", [location]]]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                globalArrays: globalArrays,
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
     });
 
     describe("All Commands Validation", () => {
@@ -1095,9 +1260,21 @@ describe("Validator", () => {
                 ["global_var", [Substitute.for<Location>()]],
             ]);
             let fakeDocument = createDocument("placeholder");
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "global_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 0, 0, 5),
+                        ),
+                    ],
+                ],
+            ]);
             let fakeIndex = createIndex({
                 globalVariables: globalVariables,
                 localVariables: localVariables,
+                variableReferences: variableReferences,
             });
             let fakeSettings = createValidationSettings();
 
@@ -1118,11 +1295,34 @@ describe("Validator", () => {
             let localVariables = new CaseInsensitiveMap([
                 [
                     "local_var",
-                    [Substitute.for<Location>(), Substitute.for<Location>()],
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 0, 0, 5),
+                        ),
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 0, 0, 5),
+                        ),
+                    ],
                 ],
             ]);
             let fakeDocument = createDocument("placeholder");
-            let fakeIndex = createIndex({ localVariables: localVariables });
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "local_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(1, 0, 1, 5),
+                        ),
+                    ],
+                ],
+            ]);
+            let fakeIndex = createIndex({
+                localVariables: localVariables,
+                variableReferences: variableReferences,
+            });
             let fakeSettings = createValidationSettings();
 
             const diagnostics = await generateDiagnostics(
@@ -1162,11 +1362,33 @@ describe("Validator", () => {
 
         it("should flag local variables that don't start with a letter", async () => {
             let localVariables = new CaseInsensitiveMap([
-                ["_invalid_var", [Substitute.for<Location>()]],
+                [
+                    "_invalid_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 0, 0, 5),
+                        ),
+                    ],
+                ],
             ]);
 
             let fakeDocument = createDocument("placeholder");
-            let fakeIndex = createIndex({ localVariables: localVariables });
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "_invalid_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(1, 0, 1, 5),
+                        ),
+                    ],
+                ],
+            ]);
+            let fakeIndex = createIndex({
+                localVariables: localVariables,
+                variableReferences: variableReferences,
+            });
             let fakeSettings = createValidationSettings();
 
             const diagnostics = await generateDiagnostics(
@@ -1215,6 +1437,37 @@ describe("Validator", () => {
             );
         });
 
+        it("should include the missing label in the diagnostic's data", async () => {
+            let referenceLocation = Location.create(
+                fakeDocumentUri,
+                Range.create(2, 0, 2, 5),
+            );
+            let events: FlowControlEvent[] = [
+                {
+                    command: "goto",
+                    commandLocation: Substitute.for<Location>(),
+                    label: "local_label",
+                    labelLocation: referenceLocation,
+                    scene: "",
+                },
+            ];
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({ flowControlEvents: events });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics[0].data).to.eql({
+                label: "local_label",
+                scene: undefined,
+            });
+        });
+
         it("should not flag a reference as missing labels", async () => {
             let referenceLocation = Location.create(
                 fakeDocumentUri,
@@ -1649,68 +1902,255 @@ describe("Validator", () => {
 
             expect(diagnostics.length).to.equal(0);
         });
-    });
-
-    describe("Image Validation", () => {
-        it("should flag missing image files", async () => {
-            let images = new CaseInsensitiveMap([
-                ["image.png", [Substitute.for<Location>()]],
+        it("should flag a gosub with too few arguments", async () => {
+            let labels: Map<string, Label> = new Map([
+                [
+                    "sub",
+                    {
+                        label: "sub",
+                        location: Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 7, 0, 10),
+                        ),
+                        params: ["one", "two"],
+                    },
+                ],
             ]);
+            let events: FlowControlEvent[] = [
+                {
+                    command: "gosub",
+                    commandLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 1, 2, 6),
+                    ),
+                    label: "sub",
+                    labelLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 7, 2, 10),
+                    ),
+                    scene: "",
+                    argumentLocations: [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 11, 2, 12),
+                        ),
+                    ],
+                },
+            ];
             let fakeDocument = createDocument("placeholder");
             let fakeIndex = createIndex({
-                images: images,
+                flowControlEvents: events,
+                labels: labels,
+                labelsUri: fakeDocumentUri,
             });
-            fakeIndex.getPlatformImagePath().returns("/workspace/scenes");
             let fakeSettings = createValidationSettings();
-            let fakeDir = {}; // Empty directory
 
-            mock(fakeDir);
             const diagnostics = await generateDiagnostics(
                 fakeDocument,
                 fakeIndex,
                 fakeSettings,
                 fsProvider,
             );
-            mock.restore();
 
             expect(diagnostics.length).to.equal(1);
-            expect(diagnostics[0].message).to.include(
-                "Couldn't find this image file",
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.TooFewArguments,
             );
+            expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Error);
+            expect(diagnostics[0].message).to.contain("(one, two)");
+            expect(diagnostics[0].range).to.eql(Range.create(2, 7, 2, 12));
         });
 
-        it("should not flag image files in the already-determined image directory", async () => {
-            let images = new CaseInsensitiveMap([
-                ["image.png", [Substitute.for<Location>()]],
+        it("should warn on a gosub with too many arguments", async () => {
+            let labels: Map<string, Label> = new Map([
+                [
+                    "sub",
+                    {
+                        label: "sub",
+                        location: Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 7, 0, 10),
+                        ),
+                        params: ["one", "two"],
+                    },
+                ],
             ]);
+            let events: FlowControlEvent[] = [
+                {
+                    command: "gosub",
+                    commandLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 1, 2, 6),
+                    ),
+                    label: "sub",
+                    labelLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 7, 2, 10),
+                    ),
+                    scene: "",
+                    argumentLocations: [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 11, 2, 12),
+                        ),
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 13, 2, 14),
+                        ),
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 15, 2, 16),
+                        ),
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 17, 2, 18),
+                        ),
+                    ],
+                },
+            ];
             let fakeDocument = createDocument("placeholder");
             let fakeIndex = createIndex({
-                images: images,
+                flowControlEvents: events,
+                labels: labels,
+                labelsUri: fakeDocumentUri,
             });
-            fakeIndex.getPlatformImagePath().returns("/workspace/scenes");
             let fakeSettings = createValidationSettings();
-            let fakeDir = { "/workspace/scenes/image.png": "empty" };
 
-            mock(fakeDir);
             const diagnostics = await generateDiagnostics(
                 fakeDocument,
                 fakeIndex,
                 fakeSettings,
                 fsProvider,
             );
-            mock.restore();
 
-            expect(diagnostics.length).to.equal(0);
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.TooManyArguments,
+            );
+            expect(diagnostics[0].severity).to.equal(
+                DiagnosticSeverity.Warning,
+            );
+            expect(diagnostics[0].range).to.eql(Range.create(2, 15, 2, 18));
         });
 
-        it("should not flag image files in the scene directory", async () => {
-            let images = new CaseInsensitiveMap([
-                ["image.png", [Substitute.for<Location>()]],
+        it("should not flag a gosub with the right number of arguments", async () => {
+            let labels: Map<string, Label> = new Map([
+                [
+                    "sub",
+                    {
+                        label: "sub",
+                        location: Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 7, 0, 10),
+                        ),
+                        params: ["one", "two"],
+                    },
+                ],
             ]);
-            let fakeDocument = createDocument("placeholder");
-            let fakeIndex = createIndex({
-                images: images,
-            });
+            let events: FlowControlEvent[] = [
+                {
+                    command: "gosub",
+                    commandLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 1, 2, 6),
+                    ),
+                    label: "sub",
+                    labelLocation: Location.create(
+                        fakeDocumentUri,
+                        Range.create(2, 7, 2, 10),
+                    ),
+                    scene: "",
+                    argumentLocations: [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 11, 2, 12),
+                        ),
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(2, 13, 2, 14),
+                        ),
+                    ],
+                },
+            ];
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                flowControlEvents: events,
+                labels: labels,
+                labelsUri: fakeDocumentUri,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+    });
+
+    describe("Image Validation", () => {
+        it("should flag missing image files", async () => {
+            let images = new CaseInsensitiveMap([
+                ["image.png", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                images: images,
+            });
+            fakeIndex.getPlatformImagePath().returns("/workspace/scenes");
+            let fakeSettings = createValidationSettings();
+            let fakeDir = {}; // Empty directory
+
+            mock(fakeDir);
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            mock.restore();
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].message).to.include(
+                "Couldn't find this image file",
+            );
+        });
+
+        it("should not flag image files in the already-determined image directory", async () => {
+            let images = new CaseInsensitiveMap([
+                ["image.png", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                images: images,
+            });
+            fakeIndex.getPlatformImagePath().returns("/workspace/scenes");
+            let fakeSettings = createValidationSettings();
+            let fakeDir = { "/workspace/scenes/image.png": "empty" };
+
+            mock(fakeDir);
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            mock.restore();
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should not flag image files in the scene directory", async () => {
+            let images = new CaseInsensitiveMap([
+                ["image.png", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                images: images,
+            });
             fakeIndex.getPlatformImagePath().returns(undefined);
             fakeIndex.getPlatformScenePath().returns("/workspace/scenes");
             let fakeSettings = createValidationSettings();
@@ -1922,6 +2362,85 @@ describe("Validator", () => {
         });
     });
 
+    describe("Sound Validation", () => {
+        it("should flag missing sound files", async () => {
+            let sounds = new CaseInsensitiveMap([
+                ["sound.mp3", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                sounds: sounds,
+            });
+            fakeIndex.getPlatformImagePath().returns("/workspace/scenes");
+            let fakeSettings = createValidationSettings();
+            let fakeDir = {}; // Empty directory
+
+            mock(fakeDir);
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            mock.restore();
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.MissingSoundFile,
+            );
+        });
+
+        it("should not flag sound files in the image directory", async () => {
+            let sounds = new CaseInsensitiveMap([
+                ["sound.mp3", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                sounds: sounds,
+            });
+            fakeIndex.getPlatformImagePath().returns("/workspace/media");
+            let fakeSettings = createValidationSettings();
+            let fakeDir = { "/workspace/media/sound.mp3": "empty" };
+
+            mock(fakeDir);
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            mock.restore();
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should not flag sound files in the directory above the scene directory if the scene directory isn't the workspace directory", async () => {
+            let sounds = new CaseInsensitiveMap([
+                ["sound.mp3", [Substitute.for<Location>()]],
+            ]);
+            let fakeDocument = createDocument("placeholder");
+            let fakeIndex = createIndex({
+                sounds: sounds,
+            });
+            fakeIndex.getPlatformImagePath().returns(undefined);
+            fakeIndex.getPlatformScenePath().returns("/workspace/scenes");
+            fakeIndex.getPlatformWorkspacePath().returns("/workspace");
+            let fakeSettings = createValidationSettings();
+            let fakeDir = { "/workspace/sound.mp3": "empty" };
+
+            mock(fakeDir);
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            mock.restore();
+
+            expect(diagnostics.length).to.equal(0);
+        });
+    });
+
     describe("Indent Validation", () => {
         it("should flag a switch from spaces to tabs", async () => {
             let fakeDocument = createDocument(
@@ -2178,4 +2697,788 @@ describe("Validator", () => {
             expect(diagnostics.length).to.equal(0);
         });
     });
+
+    describe("Unused and Unreachable Validation", () => {
+        it("should flag unused global variables in the startup file", async () => {
+            let globalVariables = new CaseInsensitiveMap([
+                [
+                    "unused_var",
+                    Location.create(startupUri, Range.create(0, 8, 0, 18)),
+                ],
+            ]);
+            let fakeDocument = createDocument(
+                "*create unused_var 1",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                globalVariables: globalVariables,
+                startupUri: startupUri,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnusedGlobalVariable,
+            );
+            expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Hint);
+            expect(diagnostics[0].tags).to.eql([DiagnosticTag.Unnecessary]);
+            expect(diagnostics[0].range.start).to.eql({
+                line: 0,
+                character: 8,
+            });
+        });
+
+        it("should not flag global variables that are used", async () => {
+            let globalVariables = new CaseInsensitiveMap([
+                [
+                    "used_var",
+                    Location.create(startupUri, Range.create(0, 8, 0, 16)),
+                ],
+            ]);
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "used_var",
+                    [Location.create(startupUri, Range.create(1, 4, 1, 12))],
+                ],
+            ]);
+            let fakeDocument = createDocument(
+                "*create used_var 1\n*if used_var",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                globalVariables: globalVariables,
+                variableReferences: variableReferences,
+                startupUri: startupUri,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should not flag unused global variables before the project is indexed", async () => {
+            let globalVariables = new CaseInsensitiveMap([
+                [
+                    "unused_var",
+                    Location.create(startupUri, Range.create(0, 8, 0, 18)),
+                ],
+            ]);
+            let fakeDocument = createDocument(
+                "*create unused_var 1",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                globalVariables: globalVariables,
+                startupUri: startupUri,
+                projectIsIndexed: false,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should flag temporary variables that are never read", async () => {
+            let localVariables = new CaseInsensitiveMap([
+                [
+                    "temp_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 6, 0, 14),
+                        ),
+                    ],
+                ],
+            ]);
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "temp_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(1, 5, 1, 13),
+                        ),
+                    ],
+                ],
+            ]);
+            let fakeDocument = createDocument(
+                "*temp temp_var 1\n*set temp_var 2",
+            );
+            let fakeIndex = createIndex({
+                localVariables: localVariables,
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnusedTemporaryVariable,
+            );
+            expect(diagnostics[0].tags).to.eql([DiagnosticTag.Unnecessary]);
+            expect(diagnostics[0].range.start).to.eql({
+                line: 0,
+                character: 6,
+            });
+        });
+
+        it("should not flag temporary variables that are read", async () => {
+            let localVariables = new CaseInsensitiveMap([
+                [
+                    "temp_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 6, 0, 14),
+                        ),
+                    ],
+                ],
+            ]);
+            let variableReferences = new CaseInsensitiveMap([
+                [
+                    "temp_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(1, 4, 1, 12),
+                        ),
+                    ],
+                ],
+            ]);
+            let fakeDocument = createDocument("*temp temp_var 1\n*if temp_var");
+            let fakeIndex = createIndex({
+                localVariables: localVariables,
+                variableReferences: variableReferences,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should not flag unused temporary variables created by *params", async () => {
+            let localVariables = new CaseInsensitiveMap([
+                [
+                    "param_var",
+                    [
+                        Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 8, 0, 17),
+                        ),
+                    ],
+                ],
+            ]);
+            let fakeDocument = createDocument("*params param_var");
+            let fakeIndex = createIndex({
+                localVariables: localVariables,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(0);
+        });
+
+        it("should flag labels that nothing goes to", async () => {
+            let labels: Map<string, Label> = new Map([
+                [
+                    "unused_label",
+                    {
+                        label: "unused_label",
+                        location: Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 7, 0, 19),
+                        ),
+                    },
+                ],
+            ]);
+            let fakeDocument = createDocument("*label unused_label");
+            let fakeIndex = createIndex({
+                labels: labels,
+                labelsUri: fakeDocumentUri,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(DiagnosticCodes.UnusedLabel);
+            expect(diagnostics[0].tags).to.eql([DiagnosticTag.Unnecessary]);
+            expect(diagnostics[0].range.start).to.eql({
+                line: 0,
+                character: 7,
+            });
+        });
+
+        it("should not flag unused labels if the scene goes to a computed label", async () => {
+            let labels: Map<string, Label> = new Map([
+                [
+                    "unused_label",
+                    {
+                        label: "unused_label",
+                        location: Location.create(
+                            fakeDocumentUri,
+                            Range.create(0, 7, 0, 19),
+                        ),
+                    },
+                ],
+            ]);
+            let events: FlowControlEvent[] = [
+                {
+                    command: "goto",
+                    commandLocation: Substitute.for<Location>(),
+                    label: "{label_var}",
+                    scene: "",
+                },
+            ];
+            let fakeDocument = createDocument("*label unused_label");
+            let fakeIndex = createIndex({
+                labels: labels,
+                labelsUri: fakeDocumentUri,
+                flowControlEvents: events,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(
+                diagnostics.filter((d) => d.code == DiagnosticCodes.UnusedLabel)
+                    .length,
+            ).to.equal(0);
+        });
+
+        it("should flag scenes in the scene list that can't be reached", async () => {
+            let fakeDocument = createDocument(
+                "*scene_list\n  startup\n  lost_scene\n",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                startupUri: startupUri,
+                sceneList: ["startup", "lost_scene"],
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnreachableScene,
+            );
+            expect(diagnostics[0].tags).to.eql([DiagnosticTag.Unnecessary]);
+            expect(diagnostics[0].range.start.line).to.equal(24);
+            expect(diagnostics[0].range.end.line).to.equal(34);
+        });
+
+        it("should not flag scenes in the scene list that can be reached", async () => {
+            let events: FlowControlEvent[] = [
+                {
+                    command: "goto_scene",
+                    commandLocation: Substitute.for<Location>(),
+                    label: "",
+                    scene: "found_scene",
+                },
+            ];
+            let fakeDocument = createDocument(
+                "*scene_list\n  startup\n  found_scene\n",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                startupUri: startupUri,
+                sceneList: ["startup", "found_scene"],
+                flowControlEvents: events,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(
+                diagnostics.filter(
+                    (d) => d.code == DiagnosticCodes.UnreachableScene,
+                ).length,
+            ).to.equal(0);
+        });
+
+        it("should not flag scenes in the scene list that are reached through *goto_random_scene", async () => {
+            let events: FlowControlEvent[] = [
+                {
+                    command: "goto_random_scene",
+                    commandLocation: Substitute.for<Location>(),
+                    label: "",
+                    scene: "random_scene",
+                },
+            ];
+            let fakeDocument = createDocument(
+                "*scene_list\n  startup\n  random_scene\n",
+                startupUri,
+            );
+            let fakeIndex = createIndex({
+                startupUri: startupUri,
+                sceneList: ["startup", "random_scene"],
+                flowControlEvents: events,
+            });
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(
+                diagnostics.filter(
+                    (d) => d.code == DiagnosticCodes.UnreachableScene,
+                ).length,
+            ).to.equal(0);
+        });
+
+        it("should flag code after a *goto", async () => {
+            let fakeDocument = createDocument(
+                "*goto next\nNever seen\n*label next\nSeen",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnreachableCode,
+            );
+            expect(diagnostics[0].tags).to.eql([DiagnosticTag.Unnecessary]);
+            expect(diagnostics[0].range.start.line).to.equal(11);
+            expect(diagnostics[0].range.end.line).to.equal(21);
+        });
+
+        it("should not flag the scene list after a *goto_random_scene", async () => {
+            let fakeDocument = createDocument(
+                "*goto_random_scene\n  one\n  *allow_reuse two\nNever seen",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnreachableCode,
+            );
+            expect(diagnostics[0].range.start.line).to.equal(44);
+            expect(diagnostics[0].range.end.line).to.equal(54);
+        });
+
+        it("should not flag code after a *goto_random_scene that allows no selection", async () => {
+            let fakeDocument = createDocument(
+                "*goto_random_scene allow_no_selection\n  one\nSeen",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(
+                diagnostics.filter(
+                    (d) => d.code == DiagnosticCodes.UnreachableCode,
+                ).length,
+            ).to.equal(0);
+        });
+
+        it("should stop flagging unreachable code when the indent drops", async () => {
+            let fakeDocument = createDocument(
+                "*if true\n  *finish\n  Never seen\nSeen",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(
+                DiagnosticCodes.UnreachableCode,
+            );
+            expect(diagnostics[0].range.start.line).to.equal(21);
+            expect(diagnostics[0].range.end.line).to.equal(31);
+        });
+    });
+
+    describe("Diagnostic Settings", () => {
+        it("should drop diagnostics whose code is turned off", async () => {
+            let fakeDocument = createDocument(
+                "*choice\n\t#This option has too many words seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen.",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(true, "allow", {
+                [DiagnosticCodes.TooLongOption]: "off",
+            });
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should change the severity of diagnostics", async () => {
+            let fakeDocument = createDocument(
+                "*choice\n\t#This option has too many words seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen.",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(true, "allow", {
+                [DiagnosticCodes.TooLongOption]: "error",
+            });
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(DiagnosticCodes.TooLongOption);
+            expect(diagnostics[0].severity).to.equal(DiagnosticSeverity.Error);
+        });
+
+        it("should drop diagnostics turned off by a suppression comment", async () => {
+            let fakeDocument = createDocument(
+                "*comment choicescript-disable-file too-long-option\n*choice\n\t#This option has too many words seven eight nine ten eleven twelve thirteen fourteen fifteen sixteen.",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings();
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+    });
+
+    describe("Style Guides", () => {
+        it("should not flag ellipses if the style guide doesn't require them", async () => {
+            let fakeDocument = createDocument("Ellipses...");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { requireUnicodeEllipsis: false, requireUnicodeEmDash: true },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should flag options longer than the style guide allows", async () => {
+            let fakeDocument = createDocument(
+                "*choice\n\t#One two three four five six.",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { maxOptionWords: 5 },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(DiagnosticCodes.TooLongOption);
+            expect(diagnostics[0].message).to.include("5 words");
+            expect(diagnostics[0].range.start.line).to.equal(34);
+            expect(diagnostics[0].range.end.line).to.equal(38);
+        });
+
+        it("should flag banned phrases", async () => {
+            let fakeDocument = createDocument("It's Okay by me.");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { bannedPhrases: [{ phrase: "okay", replacement: "OK" }] },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal(DiagnosticCodes.BannedPhrase);
+            expect(diagnostics[0].message).to.include('"Okay"');
+            expect(diagnostics[0].data).to.eql({ replacement: "OK" });
+            expect(diagnostics[0].range.start.line).to.equal(5);
+            expect(diagnostics[0].range.end.line).to.equal(9);
+        });
+
+        it("should skip malformed banned phrases and rules", async () => {
+            let fakeDocument = createDocument("It's very okay by me.");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(true, "allow", {}, {
+                bannedPhrases: ["very"],
+                rules: [{ pattern: "okay" }],
+            } as any);
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should only flag banned phrases that are whole words", async () => {
+            let fakeDocument = createDocument("Tokay geckos are fine.");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { bannedPhrases: [{ phrase: "okay" }] },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should not flag banned phrases in comments", async () => {
+            let fakeDocument = createDocument("*comment okay");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { bannedPhrases: [{ phrase: "okay" }] },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+
+        it("should only flag banned phrases in prose and options", async () => {
+            let fakeDocument = createDocument(
+                "*create dude 0\n*label dude\n*set dude 1\nHey dude.\n*choice\n  *if (dude > 0) #Dude, no.\n    *finish",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                { bannedPhrases: [{ phrase: "dude" }] },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+            const banned = diagnostics.filter(
+                (d) => d.code == DiagnosticCodes.BannedPhrase,
+            );
+
+            expect(banned.length).to.equal(2);
+            expect(banned[0].range.start.line).to.equal(43);
+            expect(banned[1].range.start.line).to.equal(75);
+        });
+
+        it("should not apply custom rules to commands", async () => {
+            let fakeDocument = createDocument(
+                "*set very_very 1\nVery, very cold.",
+            );
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                {
+                    rules: [
+                        {
+                            pattern: "very",
+                            code: "very",
+                            message: "Avoid intensifiers.",
+                        },
+                    ],
+                },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.filter((d) => d.code == "very").length).to.equal(
+                1,
+            );
+        });
+
+        it("should flag text that matches a custom rule", async () => {
+            let fakeDocument = createDocument("It was very, very cold.");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                true,
+                "allow",
+                {},
+                {
+                    rules: [
+                        {
+                            pattern: "\\b(\\w+), \\1\\b",
+                            code: "repeated-word",
+                            message: "Don't repeat yourself.",
+                            severity: "warning",
+                        },
+                    ],
+                },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].code).to.equal("repeated-word");
+            expect(diagnostics[0].message).to.equal("Don't repeat yourself.");
+            expect(diagnostics[0].severity).to.equal(
+                DiagnosticSeverity.Warning,
+            );
+            expect(diagnostics[0].range.start.line).to.equal(7);
+            expect(diagnostics[0].range.end.line).to.equal(17);
+        });
+
+        it("should not check the style guide if style checks are off", async () => {
+            let fakeDocument = createDocument("It's okay...");
+            let fakeIndex = createIndex({});
+            let fakeSettings = createValidationSettings(
+                false,
+                "allow",
+                {},
+                { bannedPhrases: [{ phrase: "okay" }] },
+            );
+
+            const diagnostics = await generateDiagnostics(
+                fakeDocument,
+                fakeIndex,
+                fakeSettings,
+                fsProvider,
+            );
+
+            expect(diagnostics).to.be.empty;
+        });
+    });
 });
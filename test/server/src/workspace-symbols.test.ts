@@ -0,0 +1,143 @@
+/* eslint-disable */
+
+import { expect } from "chai";
+import "mocha";
+import { SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { Index } from "../../../server/src/common/index";
+import { updateProjectIndex } from "../../../server/src/common/indexer";
+import {
+    fuzzyMatchScore,
+    generateWorkspaceSymbols,
+} from "../../../server/src/common/workspace-symbols";
+
+function createIndex(scenes: Record<string, string>): Index {
+    const index = new Index();
+    for (const [scene, text] of Object.entries(scenes)) {
+        updateProjectIndex(
+            TextDocument.create(
+                `file:///c:/${scene}.txt`,
+                "ChoiceScript",
+                0,
+                text,
+            ),
+            scene == "startup",
+            false,
+            index,
+        );
+    }
+    return index;
+}
+
+const scenes = {
+    startup:
+        "*title Game\n*author Me\n*scene_list\n  startup\n  forest\n*create strength 50\n*create_array stats 2 0 0\n*achievement dragon_slayer visible 10 Slew the Dragon\n  Pre-earned.\n*finish\n",
+    forest: "*label clearing\nText\n*label dark_path\n*finish\n",
+};
+
+describe("Workspace Symbols", () => {
+    describe("Fuzzy Matching", () => {
+        it("should match characters in order", () => {
+            expect(fuzzyMatchScore("dpt", "dark_path")).to.not.be.undefined;
+        });
+
+        it("should not match characters out of order", () => {
+            expect(fuzzyMatchScore("tpd", "dark_path")).to.be.undefined;
+        });
+
+        it("should ignore case", () => {
+            expect(fuzzyMatchScore("dark", "Dark_Path")).to.not.be.undefined;
+        });
+
+        it("should score runs of characters higher than scattered ones", () => {
+            const run = fuzzyMatchScore("path", "dark_path")!;
+            const scattered = fuzzyMatchScore("path", "pleasant_hat")!;
+
+            expect(run).to.be.greaterThan(scattered);
+        });
+    });
+
+    describe("Searching", () => {
+        it("should find labels qualified by their scene", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("dkpath", [index]);
+
+            expect(symbols.length).to.equal(1);
+            expect(symbols[0].name).to.equal("dark_path");
+            expect(symbols[0].kind).to.equal(SymbolKind.Namespace);
+            expect(symbols[0].containerName).to.equal("forest");
+            expect(symbols[0].location.uri).to.equal("file:///c:/forest.txt");
+            expect(symbols[0].location.range.start).to.eql({
+                line: 2,
+                character: 7,
+            });
+        });
+
+        it("should match a label's scene as part of its name", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("forest.clear", [index]);
+
+            expect(symbols.map((s) => s.name)).to.eql(["clearing"]);
+        });
+
+        it("should find global variables and arrays", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("st", [index]);
+
+            expect(symbols.map((s) => s.name)).to.include.members([
+                "strength",
+                "stats",
+            ]);
+        });
+
+        it("should find achievements", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("dragon", [index]);
+
+            expect(symbols.length).to.equal(1);
+            expect(symbols[0].kind).to.equal(SymbolKind.EnumMember);
+            expect(symbols[0].containerName).to.equal("Slew the Dragon");
+        });
+
+        it("should find indexed scenes", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("frst", [index]);
+
+            expect(symbols[0].name).to.equal("forest");
+            expect(symbols[0].kind).to.equal(SymbolKind.File);
+            expect(symbols[0].location.uri).to.equal("file:///c:/forest.txt");
+        });
+
+        it("should put the best matches first", () => {
+            const index = createIndex(scenes);
+
+            const symbols = generateWorkspaceSymbols("clearing", [index]);
+
+            expect(symbols[0].name).to.equal("clearing");
+        });
+
+        it("should search every project", () => {
+            const first = createIndex({
+                startup: "*finish\n",
+                chapter: "*label first_label\n",
+            });
+            const second = createIndex({
+                startup: "*finish\n",
+                chapter: "*label second_label\n",
+            });
+
+            const symbols = generateWorkspaceSymbols("label", [first, second]);
+
+            expect(symbols.map((s) => s.name)).to.have.members([
+                "first_label",
+                "second_label",
+            ]);
+        });
+    });
+});